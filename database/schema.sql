@@ -37,12 +37,38 @@ CREATE TABLE IF NOT EXISTS users (
   
   -- Account status
   is_active BOOLEAN DEFAULT TRUE,
+  is_admin BOOLEAN DEFAULT FALSE, -- manages curated data such as pickup spots; set with the service role only
+  accessibility_needs TEXT[] DEFAULT '{}' CHECK (accessibility_needs <@ ARRAY['wheelchair', 'step_free', 'assistance_animal', 'extra_luggage_space']),
   last_login_at TIMESTAMPTZ,
   
   created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
 );
 
+-- =============================================
+-- TRIP SERIES TABLE (recurring trips)
+-- =============================================
+CREATE TABLE IF NOT EXISTS trip_series (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  
+  -- Trip fields copied to every occurrence (route, seats, price, preferences, vehicle)
+  template JSONB NOT NULL,
+  
+  -- Schedule rule, e.g. Mon-Fri at 08:15 local time
+  days_of_week INTEGER[] NOT NULL CHECK (array_length(days_of_week, 1) > 0 AND days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]), -- 0 = Sunday
+  departure_time TEXT NOT NULL CHECK (departure_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'), -- HH:mm
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA time zone the departure time is in
+  start_date DATE NOT NULL,
+  end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+  excluded_dates DATE[] NOT NULL DEFAULT '{}', -- holidays and skipped occurrences
+  
+  status TEXT DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'CANCELLED')),
+  
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =============================================
 -- TRIPS TABLE
 -- =============================================
@@ -64,14 +90,47 @@ CREATE TABLE IF NOT EXISTS trips (
   destination_lat DECIMAL,
   destination_lng DECIMAL,
   
+  -- Geohashes of the coordinates for radius search, maintained by trigger
+  origin_geohash TEXT,
+  destination_geohash TEXT,
+  
   -- Trip timing
   departure_time TIMESTAMPTZ NOT NULL,
   arrival_time TIMESTAMPTZ, -- Estimated or actual arrival
+  earliest_departure TIMESTAMPTZ, -- Departure window; NULL means departure_time exactly
+  latest_departure TIMESTAMPTZ,
+  latest_arrival TIMESTAMPTZ, -- Arrive by
+  CHECK (earliest_departure IS NULL OR latest_departure IS NULL OR earliest_departure <= latest_departure),
+  
+  -- Occurrence of a recurring trip series
+  series_id UUID REFERENCES trip_series(id) ON DELETE SET NULL,
+  occurrence_date DATE, -- local date of the occurrence in the series' time zone
+  is_series_exception BOOLEAN DEFAULT FALSE, -- edited individually; series edits leave it alone
+  
+  -- Round trips: both legs point at each other
+  paired_trip_id UUID REFERENCES trips(id) ON DELETE SET NULL,
+  trip_leg TEXT CHECK (trip_leg IN ('OUTBOUND', 'RETURN')),
   
   -- Passenger information
   max_passengers INTEGER NOT NULL DEFAULT 4,
   current_passengers INTEGER NOT NULL DEFAULT 1,
   available_seats INTEGER GENERATED ALWAYS AS (max_passengers - current_passengers) STORED,
+
+  -- Luggage: capacity in the vehicle (NULL when not stated) and bags on board
+  max_small_bags INTEGER CHECK (max_small_bags >= 0),
+  max_large_bags INTEGER CHECK (max_large_bags >= 0),
+  current_small_bags INTEGER NOT NULL DEFAULT 0 CHECK (current_small_bags >= 0),
+  current_large_bags INTEGER NOT NULL DEFAULT 0 CHECK (current_large_bags >= 0),
+
+  -- Waitlisted riders promoted into a freed seat are accepted straight away
+  -- instead of sending the driver a request
+  waitlist_auto_accept BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Instant book: riders meeting every set minimum are accepted on request
+  instant_book BOOLEAN NOT NULL DEFAULT FALSE,
+  instant_book_min_rating DECIMAL(3,2) CHECK (instant_book_min_rating BETWEEN 1 AND 5),
+  instant_book_min_verification TEXT CHECK (instant_book_min_verification IN ('basic', 'phone', 'identity', 'premium')),
+  instant_book_min_trips INTEGER CHECK (instant_book_min_trips >= 0),
   
   -- Trip status and metadata
   status TEXT DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'CANCELLED', 'MATCHED', 'IN_PROGRESS', 'COMPLETED')),
@@ -97,6 +156,8 @@ CREATE TABLE IF NOT EXISTS trips (
   vehicle_model TEXT,
   vehicle_color TEXT,
   vehicle_plate TEXT,
+  accessibility_needs TEXT[] DEFAULT '{}' CHECK (accessibility_needs <@ ARRAY['wheelchair', 'step_free', 'assistance_animal', 'extra_luggage_space']), -- the riders' needs
+  vehicle_accessibility TEXT[] DEFAULT '{}' CHECK (vehicle_accessibility <@ ARRAY['wheelchair', 'step_free', 'assistance_animal', 'extra_luggage_space']), -- needs the vehicle can accommodate
   
   created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
@@ -112,9 +173,11 @@ CREATE TABLE IF NOT EXISTS trip_requests (
   receiver_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
   
   -- Request details
-  status TEXT DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED')),
+  status TEXT DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED', 'WAITLISTED', 'EXPIRED')),
   message TEXT,
   seats_requested INTEGER DEFAULT 1 CHECK (seats_requested > 0),
+  small_bags INTEGER NOT NULL DEFAULT 0 CHECK (small_bags >= 0),
+  large_bags INTEGER NOT NULL DEFAULT 0 CHECK (large_bags >= 0),
   
   -- Pickup/dropoff preferences
   pickup_location JSONB, -- Optional specific pickup point
@@ -122,9 +185,14 @@ CREATE TABLE IF NOT EXISTS trip_requests (
   
   -- Timing preferences
   departure_flexibility INTEGER DEFAULT 0, -- minutes before/after
+  earliest_departure TIMESTAMPTZ, -- Departure window, overrides departure_flexibility
+  latest_departure TIMESTAMPTZ,
+  latest_arrival TIMESTAMPTZ, -- Arrive by
+  CHECK (earliest_departure IS NULL OR latest_departure IS NULL OR earliest_departure <= latest_departure),
   
   -- Response tracking
   responded_at TIMESTAMPTZ,
+  promoted_at TIMESTAMPTZ, -- when the request moved up from the waitlist
   expires_at TIMESTAMPTZ DEFAULT (CURRENT_TIMESTAMP + INTERVAL '7 days'),
   
   created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
@@ -134,6 +202,31 @@ CREATE TABLE IF NOT EXISTS trip_requests (
   UNIQUE(trip_id, sender_id)
 );
 
+-- =============================================
+-- TRIP PASSENGERS TABLE (manifest of who is on a trip)
+-- =============================================
+-- One row per accepted request, kept in sync by sync_trip_manifest. The
+-- trip's current_passengers is derived from these rows.
+CREATE TABLE IF NOT EXISTS trip_passengers (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  trip_id UUID REFERENCES trips(id) ON DELETE CASCADE NOT NULL,
+  request_id UUID REFERENCES trip_requests(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  passenger_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  seats INTEGER NOT NULL DEFAULT 1 CHECK (seats > 0),
+  small_bags INTEGER NOT NULL DEFAULT 0 CHECK (small_bags >= 0),
+  large_bags INTEGER NOT NULL DEFAULT 0 CHECK (large_bags >= 0),
+  pickup_location JSONB,
+  dropoff_location JSONB,
+  
+  -- Boarding
+  status TEXT NOT NULL DEFAULT 'CONFIRMED' CHECK (status IN ('CONFIRMED', 'BOARDED', 'NO_SHOW', 'DROPPED_OFF')),
+  boarded_at TIMESTAMPTZ,
+  dropped_off_at TIMESTAMPTZ,
+  
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =============================================
 -- TRIP MATCHES TABLE
 -- =============================================
@@ -144,10 +237,11 @@ CREATE TABLE IF NOT EXISTS trip_matches (
   
   -- Match scoring
   compatibility_score DECIMAL(3,2) NOT NULL CHECK (compatibility_score >= 0 AND compatibility_score <= 1),
+  round_trip_score DECIMAL(3,2) CHECK (round_trip_score >= 0 AND round_trip_score <= 1), -- both legs matched; NULL for one-way matches
   match_type TEXT NOT NULL CHECK (match_type IN ('exact_route', 'partial_overlap', 'detour_pickup', 'detour_dropoff')),
   
   -- Detailed route analysis
-  route_analysis JSONB NOT NULL, -- { commonPath, deviationFromOriginal, pickupPoints, dropoffPoints }
+  route_analysis JSONB NOT NULL, -- { commonPath: { polylines }, deviationFromOriginal, pickupPoints, dropoffPoints, overlapPercentage, sharedIntervals, sourcePolyline, matchedPolyline }
   
   -- Cost and efficiency analysis
   estimated_savings DECIMAL(10,2), -- cost savings per person
@@ -163,9 +257,16 @@ CREATE TABLE IF NOT EXISTS trip_matches (
   -- Time compatibility
   time_difference INTEGER, -- minutes difference in departure times
   time_compatibility_score DECIMAL(3,2), -- 0-1 score for time compatibility
+  proposed_departure_time TIMESTAMPTZ, -- agreed departure suggested from both departure windows
+  departure_window_start TIMESTAMPTZ, -- overlap of both departure windows; NULL when they don't overlap
+  departure_window_end TIMESTAMPTZ,
+  
+  -- Score explanation
+  score_explanation JSONB, -- { factors, preferenceRules, penalties, baseScore }
   
   -- Match status
   status TEXT DEFAULT 'SUGGESTED' CHECK (status IN ('SUGGESTED', 'VIEWED', 'CONTACTED', 'ACCEPTED', 'DECLINED', 'EXPIRED')),
+  expiry_reason TEXT CHECK (expiry_reason IN ('expired', 'trip_cancelled', 'trip_unavailable', 'no_longer_compatible')),
   viewed_at TIMESTAMPTZ,
   contacted_at TIMESTAMPTZ,
   expires_at TIMESTAMPTZ DEFAULT (CURRENT_TIMESTAMP + INTERVAL '30 days'),
@@ -306,6 +407,12 @@ CREATE TABLE IF NOT EXISTS user_preferences (
   min_age INTEGER,
   max_age INTEGER,
   
+  -- Match ranking
+  matching_profile TEXT DEFAULT 'balanced' CHECK (matching_profile IN ('balanced', 'cheapest', 'least_detour', 'on_time', 'custom')),
+  custom_weights JSONB, -- { route, time, preferences, distance, price } when matching_profile = 'custom'
+  min_match_score DECIMAL(3,2) DEFAULT 0.30 CHECK (min_match_score >= 0 AND min_match_score <= 1),
+  hard_filters TEXT[] DEFAULT '{}', -- preference rules that exclude a match instead of lowering its score
+  
   -- Notification preferences
   email_notifications BOOLEAN DEFAULT TRUE,
   push_notifications BOOLEAN DEFAULT TRUE,
@@ -372,6 +479,25 @@ CREATE TABLE IF NOT EXISTS saved_trips (
   UNIQUE(user_id, trip_id)
 );
 
+-- =============================================
+-- PICKUP SPOTS TABLE (official meeting points per city)
+-- =============================================
+CREATE TABLE IF NOT EXISTS pickup_spots (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  city TEXT NOT NULL,
+  name TEXT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL CHECK (lat >= -90 AND lat <= 90),
+  lng DOUBLE PRECISION NOT NULL CHECK (lng >= -180 AND lng <= 180),
+  types TEXT[] DEFAULT '{}', -- Places types, e.g. {transit_station, parking}
+  wheelchair_accessible BOOLEAN, -- NULL when unknown
+  notes TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =============================================
 -- TRIGGERS FOR UPDATED_AT
 -- =============================================
@@ -399,9 +525,574 @@ CREATE TRIGGER update_trip_matches_updated_at BEFORE UPDATE ON trip_matches FOR
 DROP TRIGGER IF EXISTS update_chat_rooms_updated_at ON chat_rooms;
 CREATE TRIGGER update_chat_rooms_updated_at BEFORE UPDATE ON chat_rooms FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_pickup_spots_updated_at ON pickup_spots;
+CREATE TRIGGER update_pickup_spots_updated_at BEFORE UPDATE ON pickup_spots FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_trip_passengers_updated_at ON trip_passengers;
+CREATE TRIGGER update_trip_passengers_updated_at BEFORE UPDATE ON trip_passengers FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Users may update their own profile, but not make themselves admins
+CREATE OR REPLACE FUNCTION prevent_admin_self_promotion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_admin IS DISTINCT FROM OLD.is_admin AND auth.role() <> 'service_role' THEN
+        RAISE EXCEPTION 'Only the service role can change admin status';
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_admin_self_promotion_trigger ON users;
+CREATE TRIGGER prevent_admin_self_promotion_trigger BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION prevent_admin_self_promotion();
+
+DROP TRIGGER IF EXISTS update_trip_series_updated_at ON trip_series;
+CREATE TRIGGER update_trip_series_updated_at BEFORE UPDATE ON trip_series FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 DROP TRIGGER IF EXISTS update_user_preferences_updated_at ON user_preferences;
 CREATE TRIGGER update_user_preferences_updated_at BEFORE UPDATE ON user_preferences FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- =============================================
+-- GEOHASHES FOR TRIP LOCATIONS
+-- =============================================
+CREATE OR REPLACE FUNCTION geohash_encode(lat DOUBLE PRECISION, lng DOUBLE PRECISION, hash_length INTEGER DEFAULT 9)
+RETURNS TEXT AS $$
+DECLARE
+  base32 CONSTANT TEXT := '0123456789bcdefghjkmnpqrstuvwxyz';
+  lat_min DOUBLE PRECISION := -90;
+  lat_max DOUBLE PRECISION := 90;
+  lng_min DOUBLE PRECISION := -180;
+  lng_max DOUBLE PRECISION := 180;
+  mid DOUBLE PRECISION;
+  hash TEXT := '';
+  bits INTEGER := 0;
+  bit_count INTEGER := 0;
+  is_lng BOOLEAN := TRUE;
+BEGIN
+  IF lat IS NULL OR lng IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Bits alternate between longitude and latitude, five bits per character
+  WHILE length(hash) < hash_length LOOP
+    IF is_lng THEN
+      mid := (lng_min + lng_max) / 2;
+      IF lng >= mid THEN bits := bits * 2 + 1; lng_min := mid; ELSE bits := bits * 2; lng_max := mid; END IF;
+    ELSE
+      mid := (lat_min + lat_max) / 2;
+      IF lat >= mid THEN bits := bits * 2 + 1; lat_min := mid; ELSE bits := bits * 2; lat_max := mid; END IF;
+    END IF;
+
+    is_lng := NOT is_lng;
+    bit_count := bit_count + 1;
+
+    IF bit_count = 5 THEN
+      hash := hash || substr(base32, bits + 1, 1);
+      bits := 0;
+      bit_count := 0;
+    END IF;
+  END LOOP;
+
+  RETURN hash;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION set_trip_geohashes()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.origin_geohash := geohash_encode(
+    (NEW.origin_location->'coordinates'->>'lat')::DOUBLE PRECISION,
+    (NEW.origin_location->'coordinates'->>'lng')::DOUBLE PRECISION
+  );
+  NEW.destination_geohash := geohash_encode(
+    (NEW.destination_location->'coordinates'->>'lat')::DOUBLE PRECISION,
+    (NEW.destination_location->'coordinates'->>'lng')::DOUBLE PRECISION
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_trip_geohashes_trigger ON trips;
+CREATE TRIGGER set_trip_geohashes_trigger
+  BEFORE INSERT OR UPDATE OF origin_location, destination_location ON trips
+  FOR EACH ROW EXECUTE FUNCTION set_trip_geohashes();
+
+-- Backfill trips created before the geohash columns existed
+UPDATE trips SET origin_location = origin_location WHERE origin_geohash IS NULL OR destination_geohash IS NULL;
+
+-- =============================================
+-- MATCH STATUS TRANSITIONS
+-- =============================================
+-- Mirrors MatchStateMachine.TRANSITIONS in src/services/matching/matchStateMachine.ts
+CREATE OR REPLACE FUNCTION validate_match_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'SUGGESTED' AND NEW.status IN ('VIEWED', 'CONTACTED', 'ACCEPTED', 'DECLINED', 'EXPIRED')) OR
+    (OLD.status = 'VIEWED' AND NEW.status IN ('CONTACTED', 'ACCEPTED', 'DECLINED', 'EXPIRED')) OR
+    (OLD.status = 'CONTACTED' AND NEW.status IN ('ACCEPTED', 'DECLINED', 'EXPIRED')) OR
+    (OLD.status = 'ACCEPTED' AND NEW.status = 'EXPIRED') OR
+    (OLD.status = 'EXPIRED' AND NEW.status = 'SUGGESTED')
+  ) THEN
+    RAISE EXCEPTION 'Invalid match status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status <> 'EXPIRED' THEN
+    NEW.expiry_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_match_status_transition_trigger ON trip_matches;
+CREATE TRIGGER validate_match_status_transition_trigger
+  BEFORE UPDATE OF status ON trip_matches
+  FOR EACH ROW EXECUTE FUNCTION validate_match_status_transition();
+
+-- Trip lifecycle, mirroring TripStateMachine: a trip starts from ACTIVE or
+-- MATCHED, at most 30 minutes before departure, completes once it has been
+-- under way for 10 minutes and can only be cancelled before it starts. Its
+-- departure cannot be moved into the past to get round that.
+CREATE OR REPLACE FUNCTION validate_trip_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.departure_time IS DISTINCT FROM OLD.departure_time AND NEW.departure_time < NOW() THEN
+    RAISE EXCEPTION 'A trip cannot be moved to depart in the past';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'ACTIVE' AND NEW.status IN ('MATCHED', 'IN_PROGRESS', 'CANCELLED')) OR
+    (OLD.status = 'MATCHED' AND NEW.status IN ('ACTIVE', 'IN_PROGRESS', 'CANCELLED')) OR
+    (OLD.status = 'IN_PROGRESS' AND NEW.status = 'COMPLETED')
+  ) THEN
+    RAISE EXCEPTION 'Invalid trip status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'IN_PROGRESS' AND NOW() < OLD.departure_time - INTERVAL '30 minutes' THEN
+    RAISE EXCEPTION 'A trip can start at most 30 minutes before its departure';
+  END IF;
+
+  IF NEW.status = 'COMPLETED' AND NOW() < OLD.departure_time + INTERVAL '10 minutes' THEN
+    RAISE EXCEPTION 'A trip can complete 10 minutes after its departure at the earliest';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_trip_status_transition_trigger ON trips;
+CREATE TRIGGER validate_trip_status_transition_trigger
+  BEFORE UPDATE OF status, departure_time ON trips
+  FOR EACH ROW EXECUTE FUNCTION validate_trip_status_transition();
+
+-- Count a completed trip for its owner and every passenger who boarded, and
+-- drop off whoever is still on board. A trip nobody boarded counts for no one.
+CREATE OR REPLACE FUNCTION count_completed_trip()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM trip_passengers WHERE trip_id = NEW.id AND status IN ('BOARDED', 'DROPPED_OFF')
+  ) THEN
+    UPDATE users
+    SET trips_completed = COALESCE(trips_completed, 0) + 1
+    WHERE id = NEW.user_id
+       OR id IN (SELECT passenger_id FROM trip_passengers WHERE trip_id = NEW.id AND status IN ('BOARDED', 'DROPPED_OFF'));
+  END IF;
+
+  UPDATE trip_passengers
+  SET status = 'DROPPED_OFF', dropped_off_at = CURRENT_TIMESTAMP
+  WHERE trip_id = NEW.id AND status = 'BOARDED';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS count_completed_trip_trigger ON trips;
+CREATE TRIGGER count_completed_trip_trigger
+  AFTER UPDATE OF status ON trips
+  FOR EACH ROW
+  WHEN (NEW.status = 'COMPLETED' AND OLD.status <> 'COMPLETED')
+  EXECUTE FUNCTION count_completed_trip();
+
+-- Passenger manifest: accepting a request puts the passenger on the trip,
+-- and any later change to the request (cancelled, declined) takes them off
+CREATE OR REPLACE FUNCTION sync_trip_manifest()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'ACCEPTED' AND (TG_OP = 'INSERT' OR OLD.status <> 'ACCEPTED') THEN
+    INSERT INTO trip_passengers (trip_id, request_id, passenger_id, seats, small_bags, large_bags, pickup_location, dropoff_location)
+    VALUES (NEW.trip_id, NEW.id, NEW.sender_id, NEW.seats_requested, NEW.small_bags, NEW.large_bags, NEW.pickup_location, NEW.dropoff_location)
+    ON CONFLICT (request_id) DO NOTHING;
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'ACCEPTED' AND NEW.status <> 'ACCEPTED' THEN
+    DELETE FROM trip_passengers WHERE request_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_trip_manifest_trigger ON trip_requests;
+CREATE TRIGGER sync_trip_manifest_trigger
+  AFTER INSERT OR UPDATE OF status ON trip_requests
+  FOR EACH ROW EXECUTE FUNCTION sync_trip_manifest();
+
+-- Passengers accepted before the manifest existed. On the first run this
+-- happens before the passenger count trigger below exists, since the trips'
+-- bag counts already include them; seat counts are rebuilt from the manifest.
+INSERT INTO trip_passengers (trip_id, request_id, passenger_id, seats, small_bags, large_bags, pickup_location, dropoff_location)
+SELECT trip_id, id, sender_id, seats_requested, small_bags, large_bags, pickup_location, dropoff_location
+FROM trip_requests
+WHERE status = 'ACCEPTED'
+ON CONFLICT (request_id) DO NOTHING;
+
+UPDATE trips
+SET current_passengers = 1 + COALESCE((
+  SELECT SUM(seats) FROM trip_passengers WHERE trip_passengers.trip_id = trips.id AND status <> 'NO_SHOW'
+), 0);
+
+-- Boarding, mirroring PassengerManifest: a confirmed passenger boards or is
+-- a no-show, a late no-show can still board, and a boarded one is dropped off
+CREATE OR REPLACE FUNCTION validate_boarding_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'CONFIRMED' AND NEW.status IN ('BOARDED', 'NO_SHOW')) OR
+    (OLD.status = 'NO_SHOW' AND NEW.status = 'BOARDED') OR
+    (OLD.status = 'BOARDED' AND NEW.status = 'DROPPED_OFF')
+  ) THEN
+    RAISE EXCEPTION 'Invalid boarding status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_boarding_status_transition_trigger ON trip_passengers;
+CREATE TRIGGER validate_boarding_status_transition_trigger
+  BEFORE UPDATE OF status ON trip_passengers
+  FOR EACH ROW EXECUTE FUNCTION validate_boarding_status_transition();
+
+-- Derive a trip's passengers, luggage and ACTIVE/MATCHED status from its
+-- manifest: the owner plus every passenger who is not a no-show. Bags on
+-- board start from the owner's own, set when the trip is created.
+CREATE OR REPLACE FUNCTION sync_trip_passenger_count()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_trip_id UUID := COALESCE(NEW.trip_id, OLD.trip_id);
+  seats_taken INTEGER;
+  small_delta INTEGER := 0;
+  large_delta INTEGER := 0;
+BEGIN
+  SELECT COALESCE(SUM(seats), 0) INTO seats_taken
+  FROM trip_passengers
+  WHERE trip_id = target_trip_id AND status <> 'NO_SHOW';
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status <> 'NO_SHOW' THEN
+    small_delta := small_delta + NEW.small_bags;
+    large_delta := large_delta + NEW.large_bags;
+  END IF;
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status <> 'NO_SHOW' THEN
+    small_delta := small_delta - OLD.small_bags;
+    large_delta := large_delta - OLD.large_bags;
+  END IF;
+
+  UPDATE trips
+  SET current_passengers = 1 + seats_taken,
+      current_small_bags = GREATEST(0, current_small_bags + small_delta),
+      current_large_bags = GREATEST(0, current_large_bags + large_delta),
+      status = CASE
+        WHEN status IN ('ACTIVE', 'MATCHED') THEN
+          CASE WHEN 1 + seats_taken >= max_passengers THEN 'MATCHED' ELSE 'ACTIVE' END
+        ELSE status
+      END
+  WHERE id = target_trip_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_trip_passenger_count_trigger ON trip_passengers;
+CREATE TRIGGER sync_trip_passenger_count_trigger
+  AFTER INSERT OR DELETE OR UPDATE OF status ON trip_passengers
+  FOR EACH ROW EXECUTE FUNCTION sync_trip_passenger_count();
+
+-- =============================================
+-- INSTANT BOOK
+-- =============================================
+-- Whether a rider may book the trip without the driver accepting, mirroring
+-- InstantBook.qualifies. Riders without ratings do not meet a minimum rating.
+CREATE OR REPLACE FUNCTION qualifies_for_instant_book(trip trips, rider users)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    trip.instant_book
+    AND (trip.instant_book_min_rating IS NULL
+      OR (rider.rating_count > 0 AND rider.rating_average >= trip.instant_book_min_rating))
+    AND (trip.instant_book_min_verification IS NULL
+      OR array_position(ARRAY['basic', 'phone', 'identity', 'premium'], rider.verification_level)
+        >= array_position(ARRAY['basic', 'phone', 'identity', 'premium'], trip.instant_book_min_verification))
+    AND (trip.instant_book_min_trips IS NULL OR COALESCE(rider.trips_completed, 0) >= trip.instant_book_min_trips),
+    FALSE
+  );
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- SEAT RESERVATION
+-- =============================================
+-- Accept a trip request in one transaction. The trip row stays locked while
+-- its seats and luggage space are checked and the passenger joins the
+-- manifest, so concurrent accepts for the same trip queue up instead of both
+-- taking the last seat. The request only changes while it is still in the
+-- status the caller saw. Riders may accept their own requests on instant-book
+-- trips they qualify for, and only while those are still pending, whatever
+-- status they pass in. Failures raise one of TRIP_FULL, LUGGAGE_FULL,
+-- TRIP_NOT_OPEN, REQUEST_CHANGED, REQUEST_NOT_FOUND, NOT_TRIP_OWNER or
+-- NOT_INSTANT_BOOKABLE, which the app turns into messages (see
+-- SeatReservation).
+CREATE OR REPLACE FUNCTION accept_trip_request(p_request_id UUID, p_expected_status TEXT DEFAULT 'PENDING')
+RETURNS trip_requests AS $$
+DECLARE
+  request trip_requests;
+  trip trips;
+  rider users;
+  expected_status TEXT := p_expected_status;
+  held_seats INTEGER;
+  small_on_board INTEGER;
+  large_on_board INTEGER;
+  small_space DOUBLE PRECISION;
+  large_space DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO request FROM trip_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REQUEST_NOT_FOUND';
+  END IF;
+
+  IF request.receiver_id IS DISTINCT FROM auth.uid() AND request.sender_id IS DISTINCT FROM auth.uid()
+    AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'NOT_TRIP_OWNER';
+  END IF;
+
+  SELECT * INTO trip FROM trips WHERE id = request.trip_id FOR UPDATE;
+
+  IF request.sender_id = auth.uid() AND request.receiver_id IS DISTINCT FROM auth.uid() THEN
+    SELECT * INTO rider FROM users WHERE id = request.sender_id;
+    IF NOT qualifies_for_instant_book(trip, rider) THEN
+      RAISE EXCEPTION 'NOT_INSTANT_BOOKABLE';
+    END IF;
+    -- A rider cannot take back a seat on a declined, cancelled or waitlisted request
+    expected_status := 'PENDING';
+  END IF;
+
+  -- Read the request again under the lock; a concurrent call may have changed it
+  SELECT * INTO request FROM trip_requests WHERE id = p_request_id FOR UPDATE;
+  IF request.status <> expected_status THEN
+    RAISE EXCEPTION 'REQUEST_CHANGED';
+  END IF;
+
+  IF trip.status NOT IN ('ACTIVE', 'MATCHED') THEN
+    RAISE EXCEPTION 'TRIP_NOT_OPEN';
+  END IF;
+
+  -- Seats and bags held for other riders promoted from the waitlist
+  SELECT
+    COALESCE(SUM(seats_requested), 0),
+    trip.current_small_bags + COALESCE(SUM(small_bags), 0),
+    trip.current_large_bags + COALESCE(SUM(large_bags), 0)
+  INTO held_seats, small_on_board, large_on_board
+  FROM trip_requests
+  WHERE trip_id = trip.id AND id <> request.id AND status = 'PENDING'
+    AND promoted_at IS NOT NULL AND expires_at > CURRENT_TIMESTAMP;
+
+  IF request.seats_requested > trip.max_passengers - trip.current_passengers - held_seats THEN
+    RAISE EXCEPTION 'TRIP_FULL';
+  END IF;
+
+  -- Luggage space as LuggageCapacity has it: unlimited when unset, and small
+  -- bags beyond the small-bag space take up large-bag space
+  small_space := GREATEST(0, COALESCE(trip.max_small_bags, 'Infinity') - small_on_board);
+  large_space := GREATEST(0, COALESCE(trip.max_large_bags, 'Infinity') - large_on_board
+    - GREATEST(0, small_on_board - COALESCE(trip.max_small_bags, 'Infinity')));
+
+  IF request.large_bags > large_space OR request.small_bags > small_space + (large_space - request.large_bags) THEN
+    RAISE EXCEPTION 'LUGGAGE_FULL';
+  END IF;
+
+  -- sync_trip_manifest adds the passenger, and the trip's counts follow
+  UPDATE trip_requests
+  SET status = 'ACCEPTED', responded_at = CURRENT_TIMESTAMP
+  WHERE id = p_request_id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- WAITLIST
+-- =============================================
+-- The place in line, promotion and expiry of a new request are set here
+-- rather than taken from the client, so a rider cannot jump the waitlist or
+-- hold seats with a request that looks promoted
+CREATE OR REPLACE FUNCTION stamp_new_trip_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at := CURRENT_TIMESTAMP;
+  NEW.promoted_at := NULL;
+
+  IF NEW.status = 'WAITLISTED' THEN
+    SELECT departure_time INTO NEW.expires_at FROM trips WHERE id = NEW.trip_id;
+  ELSE
+    NEW.expires_at := LEAST(
+      COALESCE(NEW.expires_at, CURRENT_TIMESTAMP + INTERVAL '7 days'),
+      CURRENT_TIMESTAMP + INTERVAL '7 days'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_new_trip_request_trigger ON trip_requests;
+CREATE TRIGGER stamp_new_trip_request_trigger
+  BEFORE INSERT ON trip_requests
+  FOR EACH ROW EXECUTE FUNCTION stamp_new_trip_request();
+
+-- Riders join a full trip's waitlist with a WAITLISTED request, in the order
+-- they joined. When seats free up the riders next in line whose seats and
+-- bags fit are promoted: to a PENDING request for the driver to answer, or
+-- straight to ACCEPTED when the driver opted in. Pending promotions hold
+-- their seats for 24 hours, so freeing one seat never promotes more riders
+-- than it can take; a promotion the driver leaves unanswered that long
+-- expires and its seats go to the next in line. Once a trip is under way
+-- there is no time left to answer a request, so only trips that accept
+-- waitlisted riders automatically keep filling seats, e.g. a no-show's.
+CREATE OR REPLACE FUNCTION promote_waitlist(p_trip_id UUID)
+RETURNS SETOF trip_requests AS $$
+DECLARE
+  trip trips;
+  request trip_requests;
+  seats_left INTEGER;
+  small_on_board INTEGER;
+  large_on_board INTEGER;
+  small_space DOUBLE PRECISION;
+  large_space DOUBLE PRECISION;
+BEGIN
+  SELECT * INTO trip FROM trips WHERE id = p_trip_id FOR UPDATE;
+  IF NOT FOUND OR NOT (
+    trip.status IN ('ACTIVE', 'MATCHED') OR (trip.status = 'IN_PROGRESS' AND trip.waitlist_auto_accept)
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF auth.role() <> 'service_role' AND trip.user_id IS DISTINCT FROM auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM trip_requests WHERE trip_id = p_trip_id AND sender_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'NOT_TRIP_MEMBER';
+  END IF;
+
+  UPDATE trip_requests
+  SET status = 'EXPIRED'
+  WHERE trip_id = p_trip_id AND status = 'PENDING' AND promoted_at IS NOT NULL
+    AND expires_at <= CURRENT_TIMESTAMP;
+
+  SELECT
+    trip.max_passengers - trip.current_passengers - COALESCE(SUM(seats_requested), 0),
+    trip.current_small_bags + COALESCE(SUM(small_bags), 0),
+    trip.current_large_bags + COALESCE(SUM(large_bags), 0)
+  INTO seats_left, small_on_board, large_on_board
+  FROM trip_requests
+  WHERE trip_id = p_trip_id AND status = 'PENDING' AND promoted_at IS NOT NULL;
+
+  FOR request IN
+    SELECT * FROM trip_requests
+    WHERE trip_id = p_trip_id AND status = 'WAITLISTED'
+    ORDER BY created_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN seats_left <= 0;
+    CONTINUE WHEN request.seats_requested > seats_left;
+
+    small_space := GREATEST(0, COALESCE(trip.max_small_bags, 'Infinity') - small_on_board);
+    large_space := GREATEST(0, COALESCE(trip.max_large_bags, 'Infinity') - large_on_board
+      - GREATEST(0, small_on_board - COALESCE(trip.max_small_bags, 'Infinity')));
+    CONTINUE WHEN request.large_bags > large_space
+      OR request.small_bags > small_space + (large_space - request.large_bags);
+
+    -- sync_trip_manifest adds auto-accepted riders to the manifest
+    UPDATE trip_requests
+    SET
+      status = CASE WHEN trip.waitlist_auto_accept THEN 'ACCEPTED' ELSE 'PENDING' END,
+      promoted_at = CURRENT_TIMESTAMP,
+      responded_at = CASE WHEN trip.waitlist_auto_accept THEN CURRENT_TIMESTAMP END,
+      expires_at = CURRENT_TIMESTAMP + INTERVAL '24 hours'
+    WHERE id = request.id
+    RETURNING * INTO request;
+
+    seats_left := seats_left - request.seats_requested;
+    small_on_board := small_on_board + request.small_bags;
+    large_on_board := large_on_board + request.large_bags;
+    RETURN NEXT request;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Expire the promotions drivers left unanswered, on every trip the caller
+-- takes part in (every trip for the service role), and promote the riders
+-- next in line into the seats they held
+CREATE OR REPLACE FUNCTION expire_waitlist_promotions()
+RETURNS SETOF trip_requests AS $$
+DECLARE
+  lapsed_trip_id UUID;
+BEGIN
+  FOR lapsed_trip_id IN
+    SELECT DISTINCT trip_id FROM trip_requests
+    WHERE status = 'PENDING' AND promoted_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP
+      AND (auth.role() = 'service_role' OR auth.uid() IN (sender_id, receiver_id))
+  LOOP
+    RETURN QUERY SELECT * FROM promote_waitlist(lapsed_trip_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Where each of the signed-in user's waitlisted requests stands in its
+-- trip's line, counting from 1; riders cannot see each other's requests
+CREATE OR REPLACE FUNCTION get_waitlist_positions()
+RETURNS TABLE (request_id UUID, waitlist_position INTEGER) AS $$
+  SELECT id, waitlist_position
+  FROM (
+    SELECT
+      id,
+      sender_id,
+      receiver_id,
+      ROW_NUMBER() OVER (PARTITION BY trip_id ORDER BY created_at, id)::INTEGER AS waitlist_position
+    FROM trip_requests
+    WHERE status = 'WAITLISTED'
+  ) waitlist
+  WHERE auth.uid() IN (sender_id, receiver_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- USER AGE
+-- =============================================
+-- A user's age in whole years, served by the API as the computed column
+-- users.age_years, so trip listings can check age preferences without
+-- sharing anyone's date of birth
+CREATE OR REPLACE FUNCTION age_years(users)
+RETURNS INTEGER AS $$
+  SELECT date_part('year', age(CURRENT_DATE, $1.date_of_birth))::INTEGER;
+$$ LANGUAGE sql STABLE;
+
 -- =============================================
 -- FUNCTION TO CREATE USER PROFILE (ULTRA-SIMPLE VERSION)
 -- =============================================
@@ -448,11 +1139,31 @@ CREATE INDEX IF NOT EXISTS idx_trips_active_departures ON trips(departure_time,
 CREATE INDEX IF NOT EXISTS idx_trips_origin_location ON trips USING GIN (origin_location);
 CREATE INDEX IF NOT EXISTS idx_trips_destination_location ON trips USING GIN (destination_location);
 
+-- Series occurrences (one trip per series and date)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trips_series_occurrence ON trips(series_id, occurrence_date) WHERE series_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_trip_series_user_id ON trip_series(user_id);
+
+-- Round trips
+CREATE INDEX IF NOT EXISTS idx_trips_paired_trip_id ON trips(paired_trip_id) WHERE paired_trip_id IS NOT NULL;
+
+-- Geohash prefix searches (LIKE 'abc%')
+CREATE INDEX IF NOT EXISTS idx_trips_origin_geohash ON trips(origin_geohash text_pattern_ops);
+CREATE INDEX IF NOT EXISTS idx_trips_destination_geohash ON trips(destination_geohash text_pattern_ops);
+
+-- Pickup spot indexes
+CREATE INDEX IF NOT EXISTS idx_pickup_spots_city ON pickup_spots(city);
+CREATE INDEX IF NOT EXISTS idx_pickup_spots_active_location ON pickup_spots(lat, lng) WHERE is_active = TRUE;
+
 -- Trip requests indexes
 CREATE INDEX IF NOT EXISTS idx_trip_requests_trip_id ON trip_requests(trip_id);
 CREATE INDEX IF NOT EXISTS idx_trip_requests_sender_id ON trip_requests(sender_id);
 CREATE INDEX IF NOT EXISTS idx_trip_requests_receiver_id ON trip_requests(receiver_id);
 CREATE INDEX IF NOT EXISTS idx_trip_requests_status ON trip_requests(status);
+CREATE INDEX IF NOT EXISTS idx_trip_requests_waitlist ON trip_requests(trip_id, created_at) WHERE status = 'WAITLISTED';
+
+-- Trip passengers indexes
+CREATE INDEX IF NOT EXISTS idx_trip_passengers_trip_id ON trip_passengers(trip_id);
+CREATE INDEX IF NOT EXISTS idx_trip_passengers_passenger_id ON trip_passengers(passenger_id);
 
 -- Trip matches indexes
 CREATE INDEX IF NOT EXISTS idx_trip_matches_trip_id ON trip_matches(trip_id);
@@ -486,7 +1197,9 @@ CREATE INDEX IF NOT EXISTS idx_trip_reviews_trip_id ON trip_reviews(trip_id);
 -- Enable RLS on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE trips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trip_series ENABLE ROW LEVEL SECURITY;
 ALTER TABLE trip_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE trip_passengers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE trip_matches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chat_rooms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
@@ -494,21 +1207,32 @@ ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
 ALTER TABLE trip_reviews ENABLE ROW LEVEL SECURITY;
 ALTER TABLE saved_trips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pickup_spots ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies to avoid conflicts
 DROP POLICY IF EXISTS "Users can view their own profile and active users" ON users;
 DROP POLICY IF EXISTS "Users can update their own profile" ON users;
 
 DROP POLICY IF EXISTS "Anyone can view active trips" ON trips;
+DROP POLICY IF EXISTS "Users can view trips they take part in" ON trips;
 DROP POLICY IF EXISTS "Users can create their own trips" ON trips;
 DROP POLICY IF EXISTS "Users can update their own trips" ON trips;
 DROP POLICY IF EXISTS "Users can delete their own trips" ON trips;
 
+DROP POLICY IF EXISTS "Anyone can view active trip series" ON trip_series;
+DROP POLICY IF EXISTS "Users can create their own trip series" ON trip_series;
+DROP POLICY IF EXISTS "Users can update their own trip series" ON trip_series;
+
 DROP POLICY IF EXISTS "Users can view requests they sent or received" ON trip_requests;
 DROP POLICY IF EXISTS "Users can create trip requests" ON trip_requests;
 DROP POLICY IF EXISTS "Users can update requests they received" ON trip_requests;
+DROP POLICY IF EXISTS "Users can cancel requests they sent" ON trip_requests;
+DROP POLICY IF EXISTS "Drivers and passengers can view the manifest" ON trip_passengers;
+DROP POLICY IF EXISTS "Drivers can update boarding on their trips" ON trip_passengers;
 
 DROP POLICY IF EXISTS "Users can view matches for their trips" ON trip_matches;
+DROP POLICY IF EXISTS "Users can create matches for their trips" ON trip_matches;
+DROP POLICY IF EXISTS "Users can update matches for their trips" ON trip_matches;
 
 DROP POLICY IF EXISTS "Users can view their chat rooms" ON chat_rooms;
 DROP POLICY IF EXISTS "Users can view messages in their chat rooms" ON messages;
@@ -528,6 +1252,9 @@ DROP POLICY IF EXISTS "Users can view their own saved trips" ON saved_trips;
 DROP POLICY IF EXISTS "Users can save trips" ON saved_trips;
 DROP POLICY IF EXISTS "Users can delete their own saved trips" ON saved_trips;
 
+DROP POLICY IF EXISTS "Anyone can view active pickup spots" ON pickup_spots;
+DROP POLICY IF EXISTS "Admins can manage pickup spots" ON pickup_spots;
+
 -- USERS POLICIES
 CREATE POLICY "Users can view their own profile and active users" ON users FOR SELECT USING (
   auth.uid() = id OR (is_active = TRUE)
@@ -536,16 +1263,44 @@ CREATE POLICY "Users can update their own profile" ON users FOR UPDATE USING (au
 
 -- TRIPS POLICIES
 CREATE POLICY "Anyone can view active trips" ON trips FOR SELECT USING (status = 'ACTIVE');
+-- Owners and accepted riders keep seeing a trip once it is full, under way or over
+CREATE POLICY "Users can view trips they take part in" ON trips FOR SELECT USING (
+  auth.uid() = user_id OR EXISTS (
+    SELECT 1 FROM trip_requests
+    WHERE trip_requests.trip_id = trips.id AND trip_requests.sender_id = auth.uid() AND trip_requests.status = 'ACCEPTED'
+  )
+);
 CREATE POLICY "Users can create their own trips" ON trips FOR INSERT WITH CHECK (auth.uid() = user_id);
 CREATE POLICY "Users can update their own trips" ON trips FOR UPDATE USING (auth.uid() = user_id);
 CREATE POLICY "Users can delete their own trips" ON trips FOR DELETE USING (auth.uid() = user_id);
 
+-- TRIP SERIES POLICIES
+CREATE POLICY "Anyone can view active trip series" ON trip_series FOR SELECT USING (status = 'ACTIVE' OR auth.uid() = user_id);
+CREATE POLICY "Users can create their own trip series" ON trip_series FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own trip series" ON trip_series FOR UPDATE USING (auth.uid() = user_id);
+
 -- TRIP REQUESTS POLICIES
 CREATE POLICY "Users can view requests they sent or received" ON trip_requests FOR SELECT USING (
   auth.uid() = sender_id OR auth.uid() = receiver_id
 );
-CREATE POLICY "Users can create trip requests" ON trip_requests FOR INSERT WITH CHECK (auth.uid() = sender_id);
+-- New requests start out pending or waitlisted; they are only accepted
+-- through accept_trip_request, which checks the seats and the driver
+CREATE POLICY "Users can create trip requests" ON trip_requests FOR INSERT WITH CHECK (
+  auth.uid() = sender_id AND status IN ('PENDING', 'WAITLISTED') AND promoted_at IS NULL AND responded_at IS NULL
+);
 CREATE POLICY "Users can update requests they received" ON trip_requests FOR UPDATE USING (auth.uid() = receiver_id);
+-- Riders can only take back their own requests, which frees the seats for the waitlist
+CREATE POLICY "Users can cancel requests they sent" ON trip_requests FOR UPDATE USING (
+  auth.uid() = sender_id AND status IN ('PENDING', 'ACCEPTED', 'WAITLISTED')
+) WITH CHECK (auth.uid() = sender_id AND status = 'CANCELLED');
+
+-- TRIP PASSENGERS POLICIES (rows are added and removed by sync_trip_manifest)
+CREATE POLICY "Drivers and passengers can view the manifest" ON trip_passengers FOR SELECT USING (
+  auth.uid() = passenger_id OR EXISTS (SELECT 1 FROM trips WHERE trips.id = trip_passengers.trip_id AND trips.user_id = auth.uid())
+);
+CREATE POLICY "Drivers can update boarding on their trips" ON trip_passengers FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM trips WHERE trips.id = trip_passengers.trip_id AND trips.user_id = auth.uid())
+);
 
 -- TRIP MATCHES POLICIES
 CREATE POLICY "Users can view matches for their trips" ON trip_matches FOR SELECT USING (
@@ -555,6 +1310,28 @@ CREATE POLICY "Users can view matches for their trips" ON trip_matches FOR SELEC
     AND trips.user_id = auth.uid()
   )
 );
+-- Match generation runs in the browser of whoever saved a trip and writes each
+-- match with its reciprocal, so either trip's owner may write both rows
+CREATE POLICY "Users can create matches for their trips" ON trip_matches FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM trips
+    WHERE (trips.id = trip_matches.trip_id OR trips.id = trip_matches.matched_trip_id)
+    AND trips.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users can update matches for their trips" ON trip_matches FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM trips
+    WHERE (trips.id = trip_matches.trip_id OR trips.id = trip_matches.matched_trip_id)
+    AND trips.user_id = auth.uid()
+  )
+) WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM trips
+    WHERE (trips.id = trip_matches.trip_id OR trips.id = trip_matches.matched_trip_id)
+    AND trips.user_id = auth.uid()
+  )
+);
 
 -- CHAT ROOMS POLICIES
 CREATE POLICY "Users can view their chat rooms" ON chat_rooms FOR SELECT USING (
@@ -599,12 +1376,24 @@ CREATE POLICY "Users can view their own saved trips" ON saved_trips FOR SELECT U
 CREATE POLICY "Users can save trips" ON saved_trips FOR INSERT WITH CHECK (auth.uid() = user_id);
 CREATE POLICY "Users can delete their own saved trips" ON saved_trips FOR DELETE USING (auth.uid() = user_id);
 
+-- PICKUP SPOTS POLICIES
+CREATE POLICY "Anyone can view active pickup spots" ON pickup_spots FOR SELECT USING (is_active = TRUE);
+CREATE POLICY "Admins can manage pickup spots" ON pickup_spots FOR ALL USING (
+  EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.is_admin = TRUE)
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.is_admin = TRUE)
+);
+
 -- =============================================
 -- GRANT PERMISSIONS
 -- =============================================
 GRANT USAGE ON SCHEMA public TO anon, authenticated;
 GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated;
 GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION accept_trip_request(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION promote_waitlist(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_waitlist_promotions() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_waitlist_positions() TO authenticated;
 
 -- =============================================
 -- SUCCESS MESSAGE
@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+
+/**
+ * Matching Benchmark for Taxi Carpooling App
+ *
+ * Generates a synthetic city of trips (seeded, so every run sees the same
+ * trips), matches a sample of them against the rest with the offline routing
+ * provider and reports throughput, match counts and the score distribution.
+ * Save a report with --out and pass it as --baseline to a later run (another
+ * commit, other weights) to see which matches appeared, disappeared or changed
+ * score.
+ *
+ * Usage:
+ *   node scripts/benchmark-matching.js [options]
+ *
+ * Options:
+ *   --city <name>       new-york (default), berlin or zurich
+ *   --trips <n>         trips in the city (default 200)
+ *   --sources <n>       trips matched against the rest (default 50)
+ *   --seed <n>          dataset seed (default 1)
+ *   --profile <name>    matching profile: balanced, cheapest, least_detour, on_time
+ *   --label <name>      names this run in reports (default: the profile or "current")
+ *   --out <file>        write the full report as JSON
+ *   --baseline <file>   compare with a report written by an earlier run
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { createServer } from 'vite';
+
+function log(message, type = 'info') {
+  const prefix = type === 'error' ? '❌' : type === 'success' ? '✅' : '📊';
+  console.log(`${prefix} ${message}`);
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Unexpected argument: ${argv[i]}`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+function logReport(report) {
+  const { matches, scores } = report;
+
+  log(`${report.label}: ${report.sources} trips, ${report.pairs} candidate pairs in ${report.durationMs} ms`);
+  log(`  Throughput: ${report.tripsPerSecond} trips/s, ${report.pairsPerSecond} pairs/s`);
+  log(
+    `  Matches: ${matches.total} total, ${matches.perTrip.mean} per trip (median ${matches.perTrip.median}, max ${matches.perTrip.max}), ${matches.tripsWithoutMatches} trips without matches`
+  );
+  log(`  Scores: mean ${scores.mean}, p10 ${scores.p10}, p50 ${scores.p50}, p90 ${scores.p90}`);
+  log(`  Histogram (0-1 by 0.1): ${scores.histogram.join(' ')}`);
+}
+
+function logDiff(diff) {
+  const sign = value => (value > 0 ? `+${value}` : `${value}`);
+
+  log(`${diff.baseline} → ${diff.candidate}`);
+  log(`  Throughput: ${diff.throughputChange}x`);
+  log(`  Matches: ${sign(diff.matchCountChange)} (${diff.addedMatches} added, ${diff.removedMatches} removed)`);
+  log(`  Mean score: ${sign(diff.meanScoreChange)}`);
+  log(`  ${diff.changedTrips.length} trips changed${diff.changedTrips.length > 0 ? ', most changed first:' : ''}`);
+
+  diff.changedTrips.slice(0, 10).forEach(trip => {
+    log(`    ${trip.tripId}: +${trip.added.length} -${trip.removed.length} matches, score ${sign(trip.scoreDelta)}`);
+  });
+}
+
+async function run() {
+  const args = parseArgs(process.argv.slice(2));
+  const server = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    logLevel: 'error',
+    // The Maps loader is CommonJS; bundling it lets Node import it like the browser build does
+    ssr: { noExternal: ['@googlemaps/js-api-loader'] },
+  });
+
+  try {
+    const { MatchingBenchmark, generateSyntheticCity, CITY_BOUNDS } = await server.ssrLoadModule(
+      '/src/services/matching/benchmark/index.ts'
+    );
+    const { OfflineRoutingProvider, setRoutingProvider } = await server.ssrLoadModule('/src/services/routing/index.ts');
+
+    const cityName = args.city ?? 'new-york';
+    if (!CITY_BOUNDS[cityName]) {
+      throw new Error(`Unknown city "${cityName}", choose one of ${Object.keys(CITY_BOUNDS).join(', ')}`);
+    }
+
+    setRoutingProvider(new OfflineRoutingProvider());
+
+    const city = generateSyntheticCity({
+      bounds: CITY_BOUNDS[cityName],
+      tripCount: Number(args.trips ?? 200),
+      seed: Number(args.seed ?? 1),
+    });
+    log(`Generated ${city.trips.length} trips over ${cityName} (seed ${city.options.seed})`);
+
+    const report = await MatchingBenchmark.run(city, {
+      label: args.label ?? args.profile ?? 'current',
+      sources: Number(args.sources ?? 50),
+      preferences: args.profile ? { matching_profile: args.profile } : undefined,
+    });
+    logReport(report);
+
+    if (args.out) {
+      writeFileSync(args.out, JSON.stringify(report, null, 2));
+      log(`Report written to ${args.out}`, 'success');
+    }
+
+    if (args.baseline) {
+      const baseline = JSON.parse(readFileSync(args.baseline, 'utf8'));
+      logDiff(MatchingBenchmark.compare(baseline, report));
+    }
+  } finally {
+    await server.close();
+  }
+}
+
+run().catch(error => {
+  log(`Benchmark failed: ${error.message}`, 'error');
+  process.exit(1);
+});
@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+
+/**
+ * Match Generation Script for Taxi Carpooling App
+ *
+ * Runs the same match-generation pipeline the app triggers after a trip is
+ * created or edited: finds candidate trips in the trip's space/time window,
+ * scores them, upserts trip_matches (with reciprocals), expires matches that
+ * are no longer compatible and notifies users about new high-scoring matches.
+ * Matches past their expiry date are marked EXPIRED first. A full run also
+ * starts departed trips, completes those past their estimated arrival,
+ * expires waitlist promotions drivers left unanswered and creates the
+ * upcoming occurrences of recurring trips. Nothing else starts and
+ * completes trips on time, so schedule a full run every few minutes (e.g.
+ * with cron); otherwise trips only move on when their users load them.
+ * Routing results are cached in memory for the whole run, so trips in the
+ * same area share distance and route lookups.
+ *
+ * The app sources are loaded through Vite, so the usual .env variables apply.
+ * Row level security only exposes the signed-in user's rows, so the script
+ * talks to Supabase with the service role key instead of the anon key. Keep it
+ * in SUPABASE_SERVICE_ROLE_KEY: Vite builds every VITE_* variable into the
+ * client bundle, so the key must never be given a VITE_ name.
+ *
+ *   SUPABASE_SERVICE_ROLE_KEY=<service role key> node scripts/generate-matches.js
+ *
+ * Usage:
+ *   node scripts/generate-matches.js               # all active upcoming trips
+ *   node scripts/generate-matches.js <tripId> ...  # specific trips
+ */
+
+import { resolve } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import { createServer, loadEnv } from 'vite';
+
+const CLIENT_MODULE = resolve('src/services/supabase/client.ts');
+const SERVICE_CLIENT_ID = '\0service-role-client';
+
+function log(message, type = 'info') {
+  const timestamp = new Date().toISOString();
+  const prefix = type === 'error' ? '❌' : type === 'success' ? '✅' : '🔍';
+  console.log(`[${timestamp}] ${prefix} ${message}`);
+}
+
+function logResult(result) {
+  const summary = `${result.candidates} candidates, ${result.created} new, ${result.updated} refreshed, ${result.expired} expired, ${result.notified} notifications`;
+
+  if (result.errors.length > 0) {
+    log(`Trip ${result.tripId}: ${summary}, ${result.errors.length} errors`, 'error');
+    result.errors.forEach(error => log(`  ${error}`, 'error'));
+  } else {
+    log(`Trip ${result.tripId}: ${summary}`, 'success');
+  }
+}
+
+/**
+ * Hands the app's services the script's service role client in place of the
+ * browser client every module imports from `client.ts`
+ */
+function serviceRoleClient(client) {
+  globalThis.__serviceRoleSupabase = client;
+
+  return {
+    name: 'service-role-client',
+    enforce: 'pre',
+    async resolveId(source, importer, options) {
+      if (importer === SERVICE_CLIENT_ID || !/client(\.ts)?$/.test(source)) return null;
+
+      const resolved = await this.resolve(source, importer, { ...options, skipSelf: true });
+      return resolved?.id === CLIENT_MODULE ? SERVICE_CLIENT_ID : null;
+    },
+    load(id) {
+      if (id !== SERVICE_CLIENT_ID) return null;
+
+      return [
+        `export { handleSupabaseError } from ${JSON.stringify(CLIENT_MODULE)};`,
+        'export const supabase = globalThis.__serviceRoleSupabase;',
+      ].join('\n');
+    },
+  };
+}
+
+async function run() {
+  const tripIds = process.argv.slice(2);
+  const env = { ...loadEnv('development', process.cwd(), ''), ...process.env };
+
+  if (!env.VITE_SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+    log('Missing Supabase environment variables', 'error');
+    log('Make sure VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set in .env or the environment', 'error');
+    process.exit(1);
+  }
+
+  const supabase = createClient(env.VITE_SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+
+  const server = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    logLevel: 'error',
+    // The Maps loader is CommonJS; bundling it lets Node import it like the browser build does
+    ssr: { noExternal: ['@googlemaps/js-api-loader'] },
+    plugins: [serviceRoleClient(supabase)],
+  });
+
+  let failed = false;
+
+  try {
+    const { matchGenerationService, matchService, tripService, tripSeriesService, tripLifecycleService, waitlistService } = await server.ssrLoadModule(
+      '/src/services/supabase/index.ts'
+    );
+    const { getRouteCache } = await server.ssrLoadModule('/src/services/routing/index.ts');
+
+    const expiry = await matchService.expireMatches();
+    if (expiry.error) {
+      log(`Failed to expire old matches: ${expiry.error}`, 'error');
+      failed = true;
+    } else {
+      log(`Expired ${expiry.expired} matches past their expiry date`);
+    }
+
+    if (tripIds.length === 0) {
+      const lifecycle = await tripLifecycleService.advanceDueTrips();
+      if (lifecycle.error) {
+        log(`Failed to load departed trips: ${lifecycle.error}`, 'error');
+        failed = true;
+      }
+      lifecycle.results.forEach(result => {
+        result.errors.forEach(error => log(error, 'error'));
+        failed = failed || result.errors.length > 0;
+      });
+      const count = status => lifecycle.results.filter(result => result.to === status).length;
+      log(`Started ${count('IN_PROGRESS')} trips, completed ${count('COMPLETED')}`);
+
+      const waitlist = await waitlistService.expirePromotions();
+      if (waitlist.error) {
+        log(`Failed to expire waitlist promotions: ${waitlist.error}`, 'error');
+        failed = true;
+      }
+      waitlist.errors.forEach(error => log(error, 'error'));
+      failed = failed || waitlist.errors.length > 0;
+      log(`Promoted ${waitlist.promoted.length} waitlisted riders into seats left by unanswered promotions`);
+
+      // The new occurrences are active upcoming trips, so the generation below covers them
+      const materialized = await tripSeriesService.materializeActiveSeries();
+      materialized.errors.forEach(error => log(error, 'error'));
+      failed = failed || materialized.errors.length > 0;
+      log(`Created ${materialized.created} upcoming trips for recurring series`);
+
+      log('Generating matches for all active upcoming trips');
+      const { results, error } = await matchGenerationService.generateMatchesForActiveTrips({}, logResult);
+
+      if (error) {
+        log(`Failed to load trips: ${error}`, 'error');
+        failed = true;
+      }
+      failed = failed || results.some(result => result.errors.length > 0);
+      log(`Processed ${results.length} trips`);
+    }
+
+    for (const tripId of tripIds) {
+      const { trip, error } = await tripService.getTripById(tripId);
+
+      if (!trip) {
+        log(`Trip ${tripId} not found: ${error}`, 'error');
+        failed = true;
+        continue;
+      }
+
+      const result = await matchGenerationService.refreshMatchesForTrip(trip);
+      logResult(result);
+      failed = failed || result.errors.length > 0;
+    }
+
+    const cache = getRouteCache().getMetrics();
+    log(`Route cache: ${cache.hits} hits, ${cache.misses} misses (${Math.round(cache.hitRate * 100)}% hit rate)`);
+  } finally {
+    await server.close();
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+run().catch(error => {
+  log(`Match generation failed: ${error.message}`, 'error');
+  process.exit(1);
+});
@@ -7,6 +7,8 @@ import { useAuthStore, useToastStore } from './store';
 import { pwaManager, applyPWAUpdate } from './utils/pwa';
 import { initSentry, SentryErrorBoundary, sentryUtils } from './config/sentry';
 import { checkRequiredServices } from './config/env';
+import { CombinedPoiProvider, getPoiProvider, setPoiProvider } from './services/poi';
+import { pickupSpotPoiProvider } from './services/supabase';
 
 function App() {
   const { initializeAuth } = useAuthStore();
@@ -47,6 +49,9 @@ function App() {
     // Initialize PWA features
     initializePWA();
 
+    // Suggest official pickup spots alongside other places as meeting points
+    setPoiProvider(new CombinedPoiProvider([pickupSpotPoiProvider, getPoiProvider()]));
+
     // Setup connection monitoring
     const unsubscribeConnection = pwaManager.onConnectionChange((online) => {
       setIsOnline(online);
@@ -81,6 +86,7 @@ function App() {
     return () => {
       unsubscribeConnection();
       window.removeEventListener('pwa-update-available', handleUpdateAvailable);
+      setPoiProvider(null);
     };
   }, [initializeAuth, addToast]);
 
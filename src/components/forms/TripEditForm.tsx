@@ -11,6 +11,9 @@ import { useToast } from '../ui/Toast';
 import type { TripFormData, LocationFormData } from '../../utils/validations';
 import type { Trip } from '../../types';
 
+// Optional number inputs; empty inputs stay unset rather than NaN
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
 interface TripEditFormProps {
   tripId?: string;
   trip?: Trip;
@@ -53,6 +56,7 @@ export function TripEditForm({
 
   const watchedOrigin = watch('origin');
   const watchedDestination = watch('destination');
+  const instantBook = watch('instant_book');
 
   // Load trip data if not provided
   useEffect(() => {
@@ -92,6 +96,11 @@ export function TripEditForm({
         notes: trip.notes || '',
         smoking_allowed: trip.smoking_allowed,
         pets_allowed: trip.pets_allowed,
+        waitlist_auto_accept: trip.waitlist_auto_accept ?? false,
+        instant_book: trip.instant_book ?? false,
+        instant_book_min_rating: trip.instant_book_min_rating ?? undefined,
+        instant_book_min_verification: trip.instant_book_min_verification ?? undefined,
+        instant_book_min_trips: trip.instant_book_min_trips ?? undefined,
         music_preference: trip.music_preference,
         conversation_level: trip.conversation_level,
         vehicle_make: trip.vehicle_make || '',
@@ -174,6 +183,10 @@ export function TripEditForm({
         ...data,
         origin_location: originLocation,
         destination_location: destinationLocation,
+        // Cleared minimums are removed rather than left as they were
+        instant_book_min_rating: data.instant_book_min_rating ?? null,
+        instant_book_min_verification: data.instant_book_min_verification ?? null,
+        instant_book_min_trips: data.instant_book_min_trips ?? null,
       };
 
       const result = await updateTrip(trip.id, updateData);
@@ -368,6 +381,13 @@ export function TripEditForm({
                   {...register('pets_allowed')}
                   error={errors.pets_allowed?.message}
                 />
+
+                <Checkbox
+                  label="Accept Waitlisted Riders Automatically"
+                  description="When a seat frees up, the next rider on the waitlist gets it without a request to answer"
+                  {...register('waitlist_auto_accept')}
+                  error={errors.waitlist_auto_accept?.message}
+                />
               </div>
               
               <div className="space-y-4">
@@ -396,6 +416,58 @@ export function TripEditForm({
             </div>
           </div>
 
+          {/* Instant Book */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Instant Book</h3>
+
+            <Checkbox
+              label="Let riders book instantly"
+              description="Riders who meet the minimums below are accepted as soon as they request; everyone else sends a request for you to answer"
+              {...register('instant_book')}
+              error={errors.instant_book?.message}
+            />
+
+            {instantBook && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Input
+                  label="Minimum rating"
+                  type="number"
+                  {...register('instant_book_min_rating', { setValueAs: toOptionalNumber })}
+                  error={errors.instant_book_min_rating?.message}
+                  min={1}
+                  max={5}
+                  step={0.1}
+                  helperText="Leave empty for any rating"
+                />
+                <Select
+                  label="Minimum verification"
+                  value={watch('instant_book_min_verification') ?? ''}
+                  onChange={value =>
+                    setValue(
+                      'instant_book_min_verification',
+                      (value || undefined) as TripFormData['instant_book_min_verification']
+                    )
+                  }
+                  error={errors.instant_book_min_verification?.message}
+                  options={[
+                    { value: '', label: 'Any' },
+                    { value: 'phone', label: 'Phone verified' },
+                    { value: 'identity', label: 'Identity verified' },
+                    { value: 'premium', label: 'Premium' },
+                  ]}
+                />
+                <Input
+                  label="Minimum completed trips"
+                  type="number"
+                  {...register('instant_book_min_trips', { setValueAs: toOptionalNumber })}
+                  error={errors.instant_book_min_trips?.message}
+                  min={0}
+                  helperText="Leave empty for new riders too"
+                />
+              </div>
+            )}
+          </div>
+
           {/* Vehicle Information */}
           <div className="space-y-4">
             <h3 className="text-lg font-medium text-gray-900">Vehicle Information (Optional)</h3>
@@ -7,23 +7,73 @@ import { useAuthStore } from '../../store/authStore';
 import { PlacesAutocomplete, RouteDisplay } from '../maps';
 import { Input, TextArea, Select, Button, Card, Checkbox, LoadingSpinner } from '../ui';
 import { useToast } from '../../hooks/useToast';
+import { WEEKDAY_LABELS, WEEKDAYS } from '../../utils/recurrence';
+import { ACCESSIBILITY_NEEDS } from '../../constants';
 import type { TripFormData, LocationFormData } from '../../utils/validations';
+import type { AccessibilityNeed, TripSeriesTemplate } from '../../types';
+
+/**
+ * Trip fields shared by one-off trips and recurring series; the form's
+ * schedule and return-trip fields are not trip columns
+ */
+const toTripTemplate = (
+  data: TripFormData,
+  origin: LocationFormData,
+  destination: LocationFormData
+): TripSeriesTemplate => ({
+  origin: data.origin,
+  destination: data.destination,
+  origin_location: origin,
+  destination_location: destination,
+  max_passengers: data.max_passengers,
+  max_small_bags: data.max_small_bags,
+  max_large_bags: data.max_large_bags,
+  current_small_bags: data.current_small_bags,
+  current_large_bags: data.current_large_bags,
+  waitlist_auto_accept: data.waitlist_auto_accept,
+  instant_book: data.instant_book,
+  instant_book_min_rating: data.instant_book_min_rating,
+  instant_book_min_verification: data.instant_book_min_verification,
+  instant_book_min_trips: data.instant_book_min_trips,
+  price_per_seat: data.price_per_seat,
+  currency: data.currency,
+  notes: data.notes,
+  smoking_allowed: data.smoking_allowed,
+  pets_allowed: data.pets_allowed,
+  music_preference: data.music_preference,
+  conversation_level: data.conversation_level,
+  vehicle_make: data.vehicle_make,
+  vehicle_model: data.vehicle_model,
+  vehicle_color: data.vehicle_color,
+  vehicle_plate: data.vehicle_plate,
+  accessibility_needs: data.accessibility_needs,
+  vehicle_accessibility: data.vehicle_accessibility,
+});
+
+// datetime-local values to ISO timestamps; empty inputs stay unset
+const toTimestamp = (value?: string) => (value ? new Date(value).toISOString() : undefined);
+
+// Optional number inputs; empty inputs stay unset rather than NaN
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
 
 interface TripFormProps {
   onSuccess?: (tripId: string) => void;
+  onSeriesSuccess?: (seriesId: string) => void;
   onCancel?: () => void;
   className?: string;
 }
 
-export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
+export function TripForm({ onSuccess, onSeriesSuccess, onCancel, className }: TripFormProps) {
   const { user } = useAuthStore();
-  const { createTrip, isLoading } = useTripStore();
+  const { createTrip, createReturnTrip, createTripSeries, isLoading } = useTripStore();
   const { showToast } = useToast();
   
   const [originLocation, setOriginLocation] = useState<LocationFormData | null>(null);
   const [destinationLocation, setDestinationLocation] = useState<LocationFormData | null>(null);
   const [showRoute, setShowRoute] = useState(false);
   const [routeCalculated, setRouteCalculated] = useState(false);
+  const [skipDate, setSkipDate] = useState('');
+  const [showDepartureWindow, setShowDepartureWindow] = useState(false);
 
   const {
     register,
@@ -37,14 +87,59 @@ export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
     defaultValues: {
       smoking_allowed: false,
       pets_allowed: true,
+      waitlist_auto_accept: false,
+      instant_book: false,
       music_preference: 'indifferent',
       conversation_level: 'indifferent',
       max_passengers: 2,
+      current_small_bags: 0,
+      current_large_bags: 0,
+      is_recurring: false,
+      days_of_week: WEEKDAYS,
+      excluded_dates: [],
+      accessibility_needs: user?.accessibility_needs ?? [],
+      vehicle_accessibility: [],
     },
   });
 
   const watchedOrigin = watch('origin');
   const watchedDestination = watch('destination');
+  const isRecurring = watch('is_recurring');
+  const instantBook = watch('instant_book');
+  const hasReturnTrip = watch('has_return_trip');
+  const daysOfWeek = watch('days_of_week') ?? [];
+  const excludedDates = watch('excluded_dates') ?? [];
+  const accessibilityNeeds = watch('accessibility_needs') ?? [];
+  const vehicleAccessibility = watch('vehicle_accessibility') ?? [];
+
+  const toggleDay = (day: number) => {
+    setValue(
+      'days_of_week',
+      daysOfWeek.includes(day) ? daysOfWeek.filter(d => d !== day) : [...daysOfWeek, day].sort((a, b) => a - b)
+    );
+  };
+
+  const toggleAccessibility = (field: 'accessibility_needs' | 'vehicle_accessibility', need: AccessibilityNeed) => {
+    const current = field === 'accessibility_needs' ? accessibilityNeeds : vehicleAccessibility;
+    setValue(field, current.includes(need) ? current.filter(n => n !== need) : [...current, need]);
+  };
+
+  const addSkipDate = () => {
+    if (skipDate && !excludedDates.includes(skipDate)) {
+      setValue('excluded_dates', [...excludedDates, skipDate].sort());
+    }
+    setSkipDate('');
+  };
+
+  // Hiding the window clears it, so a fixed departure is matched as one
+  const toggleDepartureWindow = (show: boolean) => {
+    setShowDepartureWindow(show);
+    if (!show) {
+      setValue('earliest_departure', undefined);
+      setValue('latest_departure', undefined);
+      setValue('latest_arrival', undefined);
+    }
+  };
 
   const handleOriginChange = (value: string, location?: LocationFormData) => {
     setValue('origin', value);
@@ -106,21 +201,46 @@ export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
     }
 
     try {
+      if (data.is_recurring) {
+        await submitSeries(user.id, data, originLocation, destinationLocation);
+        return;
+      }
+
+      if (data.has_return_trip) {
+        if (!data.return_departure_time) {
+          showToast('Please choose when the return trip departs', 'error');
+          return;
+        }
+        if (new Date(data.return_departure_time) <= new Date(data.departure_time)) {
+          showToast('The return trip must depart after the outbound trip', 'error');
+          return;
+        }
+      }
+
       const tripData = {
-        ...data,
-        origin_location: originLocation,
-        destination_location: destinationLocation,
+        ...toTripTemplate(data, originLocation, destinationLocation),
+        departure_time: data.departure_time,
+        earliest_departure: toTimestamp(data.earliest_departure),
+        latest_departure: toTimestamp(data.latest_departure),
+        latest_arrival: toTimestamp(data.latest_arrival),
       };
 
       const result = await createTrip(user.id, tripData);
       
       if (result.success && result.trip) {
+        if (data.has_return_trip && data.return_departure_time) {
+          const returnResult = await createReturnTrip(
+            result.trip,
+            new Date(data.return_departure_time).toISOString()
+          );
+
+          if (!returnResult.success) {
+            showToast(`Trip created, but the return trip failed: ${returnResult.error}`, 'warning');
+          }
+        }
+
         showToast('Trip created successfully!', 'success');
-        reset();
-        setOriginLocation(null);
-        setDestinationLocation(null);
-        setShowRoute(false);
-        setRouteCalculated(false);
+        resetForm();
         onSuccess?.(result.trip.id);
       } else {
         showToast(result.error || 'Failed to create trip', 'error');
@@ -131,12 +251,50 @@ export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
     }
   };
 
-  const handleCancel = () => {
+  // The departure field gives the first date and the daily time; dates are in the rider's time zone
+  const submitSeries = async (
+    userId: string,
+    data: TripFormData,
+    origin: LocationFormData,
+    destination: LocationFormData
+  ) => {
+    const days = data.days_of_week ?? [];
+    if (days.length === 0) {
+      showToast('Pick at least one day for the trip to repeat on', 'error');
+      return;
+    }
+
+    const result = await createTripSeries(userId, {
+      template: toTripTemplate(data, origin, destination),
+      days_of_week: days,
+      departure_time: data.departure_time.slice(11, 16),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      start_date: data.departure_time.slice(0, 10),
+      end_date: data.end_date || undefined,
+      excluded_dates: data.excluded_dates,
+    });
+
+    if (result.success && result.series) {
+      showToast('Recurring trip created successfully!', 'success');
+      resetForm();
+      onSeriesSuccess?.(result.series.id);
+    } else {
+      showToast(result.error || 'Failed to create recurring trip', 'error');
+    }
+  };
+
+  const resetForm = () => {
     reset();
     setOriginLocation(null);
     setDestinationLocation(null);
     setShowRoute(false);
     setRouteCalculated(false);
+    setSkipDate('');
+    setShowDepartureWindow(false);
+  };
+
+  const handleCancel = () => {
+    resetForm();
     onCancel?.();
   };
 
@@ -219,6 +377,81 @@ export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
               />
             </div>
 
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Input
+                label="Your small bags"
+                type="number"
+                {...register('current_small_bags', { valueAsNumber: true })}
+                error={errors.current_small_bags?.message}
+                min={0}
+                max={10}
+                helperText="Backpacks, carry-ons"
+              />
+              <Input
+                label="Your large bags"
+                type="number"
+                {...register('current_large_bags', { valueAsNumber: true })}
+                error={errors.current_large_bags?.message}
+                min={0}
+                max={10}
+                helperText="Suitcases, strollers"
+              />
+              <Input
+                label="Small bag space"
+                type="number"
+                {...register('max_small_bags', { setValueAs: toOptionalNumber })}
+                error={errors.max_small_bags?.message}
+                min={0}
+                max={20}
+                helperText="In the vehicle, if known"
+              />
+              <Input
+                label="Large bag space"
+                type="number"
+                {...register('max_large_bags', { setValueAs: toOptionalNumber })}
+                error={errors.max_large_bags?.message}
+                min={0}
+                max={20}
+                helperText="In the vehicle, if known"
+              />
+            </div>
+
+            {!isRecurring && (
+              <>
+                <Checkbox
+                  label="My departure time is flexible"
+                  description="Match with companions leaving any time within your window"
+                  checked={showDepartureWindow}
+                  onChange={(e) => toggleDepartureWindow(e.target.checked)}
+                />
+
+                {showDepartureWindow && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <Input
+                      label="Leave no earlier than"
+                      type="datetime-local"
+                      {...register('earliest_departure')}
+                      error={errors.earliest_departure?.message}
+                      max={watch('departure_time')}
+                    />
+                    <Input
+                      label="Leave no later than"
+                      type="datetime-local"
+                      {...register('latest_departure')}
+                      error={errors.latest_departure?.message}
+                      min={watch('departure_time')}
+                    />
+                    <Input
+                      label="Arrive by"
+                      type="datetime-local"
+                      {...register('latest_arrival')}
+                      error={errors.latest_arrival?.message}
+                      min={watch('departure_time')}
+                    />
+                  </div>
+                )}
+              </>
+            )}
 
             <TextArea
               label="Additional Notes (Optional)"
@@ -227,6 +460,97 @@ export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
               placeholder="Any additional information about the trip..."
               rows={3}
             />
+
+            {!isRecurring && (
+              <>
+                <Checkbox
+                  label="Add a return trip"
+                  description="Also find companions for the ride back"
+                  {...register('has_return_trip')}
+                />
+
+                {hasReturnTrip && (
+                  <Input
+                    label="Return Date & Time"
+                    type="datetime-local"
+                    {...register('return_departure_time')}
+                    error={errors.return_departure_time?.message}
+                    required
+                    min={watch('departure_time') || new Date().toISOString().slice(0, 16)}
+                  />
+                )}
+              </>
+            )}
+
+            {!hasReturnTrip && (
+              <Checkbox
+                label="Repeat this trip"
+                description="Create a trip on the selected days, e.g. for a daily commute"
+                {...register('is_recurring')}
+              />
+            )}
+
+            {isRecurring && (
+              <div className="space-y-4 rounded-md border border-gray-200 p-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Repeat on</p>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <Button
+                        key={label}
+                        type="button"
+                        size="sm"
+                        variant={daysOfWeek.includes(day) ? 'primary' : 'outline'}
+                        onClick={() => toggleDay(day)}
+                        aria-pressed={daysOfWeek.includes(day)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input
+                    label="Repeat until (Optional)"
+                    type="date"
+                    {...register('end_date')}
+                    error={errors.end_date?.message}
+                    helperText="Leave empty to repeat until you cancel"
+                  />
+
+                  <div>
+                    <div className="flex items-end gap-2">
+                      <Input
+                        label="Skip a date (Optional)"
+                        type="date"
+                        value={skipDate}
+                        onChange={(e) => setSkipDate(e.target.value)}
+                        helperText="e.g. public holidays"
+                      />
+                      <Button type="button" variant="outline" onClick={addSkipDate} disabled={!skipDate}>
+                        Add
+                      </Button>
+                    </div>
+                    {excludedDates.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {excludedDates.map((date) => (
+                          <button
+                            key={date}
+                            type="button"
+                            className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded"
+                            onClick={() => setValue('excluded_dates', excludedDates.filter(d => d !== date))}
+                            title="Remove"
+                          >
+                            {date} ×
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Preferences */}
@@ -246,6 +570,13 @@ export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
                   {...register('pets_allowed')}
                   error={errors.pets_allowed?.message}
                 />
+
+                <Checkbox
+                  label="Accept Waitlisted Riders Automatically"
+                  description="When a seat frees up, the next rider on the waitlist gets it without a request to answer"
+                  {...register('waitlist_auto_accept')}
+                  error={errors.waitlist_auto_accept?.message}
+                />
               </div>
               
               <div className="space-y-4">
@@ -274,6 +605,91 @@ export function TripForm({ onSuccess, onCancel, className }: TripFormProps) {
             </div>
           </div>
 
+          {/* Instant Book */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Instant Book</h3>
+
+            <Checkbox
+              label="Let riders book instantly"
+              description="Riders who meet the minimums below are accepted as soon as they request; everyone else sends a request for you to answer"
+              {...register('instant_book')}
+              error={errors.instant_book?.message}
+            />
+
+            {instantBook && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Input
+                  label="Minimum rating"
+                  type="number"
+                  {...register('instant_book_min_rating', { setValueAs: toOptionalNumber })}
+                  error={errors.instant_book_min_rating?.message}
+                  min={1}
+                  max={5}
+                  step={0.1}
+                  helperText="Leave empty for any rating"
+                />
+                <Select
+                  label="Minimum verification"
+                  value={watch('instant_book_min_verification') ?? ''}
+                  onChange={value =>
+                    setValue(
+                      'instant_book_min_verification',
+                      (value || undefined) as TripFormData['instant_book_min_verification']
+                    )
+                  }
+                  error={errors.instant_book_min_verification?.message}
+                  options={[
+                    { value: '', label: 'Any' },
+                    { value: 'phone', label: 'Phone verified' },
+                    { value: 'identity', label: 'Identity verified' },
+                    { value: 'premium', label: 'Premium' },
+                  ]}
+                />
+                <Input
+                  label="Minimum completed trips"
+                  type="number"
+                  {...register('instant_book_min_trips', { setValueAs: toOptionalNumber })}
+                  error={errors.instant_book_min_trips?.message}
+                  min={0}
+                  helperText="Leave empty for new riders too"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Accessibility */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Accessibility</h3>
+            <p className="text-sm text-gray-600">
+              We only match you with rides whose vehicle accommodates everyone's needs.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <p className="text-sm font-medium text-gray-700">I need</p>
+                {ACCESSIBILITY_NEEDS.map((need) => (
+                  <Checkbox
+                    key={need.value}
+                    label={`${need.icon} ${need.label}`}
+                    checked={accessibilityNeeds.includes(need.value)}
+                    onChange={() => toggleAccessibility('accessibility_needs', need.value)}
+                  />
+                ))}
+              </div>
+
+              <div className="space-y-4">
+                <p className="text-sm font-medium text-gray-700">My vehicle offers</p>
+                {ACCESSIBILITY_NEEDS.map((need) => (
+                  <Checkbox
+                    key={need.value}
+                    label={`${need.icon} ${need.vehicleLabel}`}
+                    checked={vehicleAccessibility.includes(need.value)}
+                    onChange={() => toggleAccessibility('vehicle_accessibility', need.value)}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
 
           {/* Form Actions */}
           <div className="flex flex-col sm:flex-row gap-3 pt-6 border-t">
@@ -10,6 +10,7 @@ import {
 import { DashboardPage } from '../../pages/DashboardPage';
 import { ChatPage, ChatListPage } from '../../pages/chat';
 import { RequestsPage } from '../../pages/requests';
+import { PickupSpotsPage } from '../../pages/admin';
 import { 
   TripListPage,
   TripDetailsPage,
@@ -133,6 +134,16 @@ export function AppRouter() {
           } 
         />
         
+        {/* Admin routes */}
+        <Route 
+          path={ROUTES.ADMIN_PICKUP_SPOTS} 
+          element={
+            <AuthGuard requireAuth={true}>
+              <PickupSpotsPage />
+            </AuthGuard>
+          } 
+        />
+        
         {/* Default redirects */}
         <Route path={ROUTES.HOME} element={<Navigate to={ROUTES.DASHBOARD} replace />} />
         <Route path="*" element={<Navigate to={ROUTES.DASHBOARD} replace />} />
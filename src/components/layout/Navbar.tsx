@@ -72,6 +72,14 @@ export function Navbar() {
               >
                 My Trips
               </Link>
+              {user?.is_admin && (
+                <Link 
+                  to={ROUTES.ADMIN_PICKUP_SPOTS}
+                  className="text-gray-600 hover:text-gray-900 font-medium transition-colors"
+                >
+                  Pickup Spots
+                </Link>
+              )}
             </div>
           </div>
 
@@ -1,4 +1,5 @@
 import { Badge } from '../ui';
+import type { MatchExplanation, ScoreFactorName } from '../../types';
 
 interface CompatibilityScoreProps {
   score: number; // 0-1
@@ -8,9 +9,18 @@ interface CompatibilityScoreProps {
   timeScore?: number;
   preferencesScore?: number;
   priceScore?: number;
+  explanation?: MatchExplanation;
   className?: string;
 }
 
+const FACTOR_LABELS: Record<ScoreFactorName, string> = {
+  route: 'Route overlap',
+  time: 'Departure time',
+  preferences: 'Preferences',
+  distance: 'Detour distance',
+  price: 'Price',
+};
+
 export function CompatibilityScore({
   score,
   matchType,
@@ -19,6 +29,7 @@ export function CompatibilityScore({
   timeScore,
   preferencesScore,
   priceScore,
+  explanation,
   className = '',
 }: CompatibilityScoreProps) {
   // Convert 0-1 score to percentage
@@ -148,7 +159,7 @@ export function CompatibilityScore({
       </div>
 
       {/* Score Breakdown */}
-      {showBreakdown && (routeScore !== undefined || timeScore !== undefined || preferencesScore !== undefined || priceScore !== undefined) && (
+      {showBreakdown && !explanation && (routeScore !== undefined || timeScore !== undefined || preferencesScore !== undefined || priceScore !== undefined) && (
         <div className="space-y-2 pt-3 border-t border-gray-200">
           <h4 className="text-xs font-medium text-gray-700 uppercase tracking-wide">
             Compatibility Breakdown
@@ -225,6 +236,62 @@ export function CompatibilityScore({
           </div>
         </div>
       )}
+
+      {/* Why this match */}
+      {showBreakdown && explanation && (
+        <div className="space-y-3 pt-3 border-t border-gray-200">
+          <h4 className="text-xs font-medium text-gray-700 uppercase tracking-wide">
+            Why this match
+          </h4>
+
+          <div className="space-y-1.5 text-xs">
+            {explanation.factors.map(factor => (
+              <div key={factor.factor} className="flex items-center justify-between">
+                <span className="text-gray-600">
+                  {FACTOR_LABELS[factor.factor]}
+                  <span className="text-gray-400"> ({Math.round(factor.weight * 100)}% weight)</span>
+                </span>
+                <div className="flex items-center space-x-1">
+                  <div className="w-8 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all duration-300"
+                      style={{ width: `${factor.score * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-gray-900 font-medium">
+                    +{Math.round(factor.contribution * 100)} / {Math.round(factor.weight * 100)}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {explanation.mutuallyCompatible === false && (
+            <div className="text-xs bg-red-50 text-red-700 px-2 py-1 rounded">
+              Not a mutual match: some preferences on either side are not met
+            </div>
+          )}
+
+          {explanation.preferenceRules.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {explanation.preferenceRules.map(rule => (
+                <li key={rule.rule} className="flex items-start space-x-1.5">
+                  <span className={rule.passed ? 'text-green-600' : 'text-red-600'}>
+                    {rule.passed ? '✓' : '✗'}
+                  </span>
+                  <span className="text-gray-700">{rule.reason}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {explanation.penalties.map(penalty => (
+            <div key={penalty.constraint} className="text-xs bg-orange-50 text-orange-700 px-2 py-1 rounded">
+              Score ×{penalty.multiplier.toFixed(2)}: {penalty.reason}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -7,7 +7,14 @@ import { useMatchStore } from '../../store/matchStore';
 import { useChatStore } from '../../store/chatStore';
 import { useAuthStore } from '../../store/authStore';
 import { useToast } from '../ui/Toast';
-import type { TripMatch } from '../../types';
+import type { MatchExpiryReason, TripMatch } from '../../types';
+
+const EXPIRY_LABELS: Record<MatchExpiryReason, string> = {
+  expired: 'Expired',
+  trip_cancelled: 'Trip cancelled',
+  trip_unavailable: 'Trip unavailable',
+  no_longer_compatible: 'No longer a match',
+};
 
 interface MatchCardProps {
   match: TripMatch;
@@ -35,6 +42,7 @@ export function MatchCard({
   const { showToast } = useToast();
   const [isActionLoading, setIsActionLoading] = useState(false);
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const [showExplanation, setShowExplanation] = useState(false);
 
   // Use matched_trip as the trip to display (the one we're matching with)
   const trip = match.matched_trip;
@@ -158,6 +166,14 @@ export function MatchCard({
               {match.status === 'CONTACTED' && (
                 <Badge color="green" size="sm">Contacted</Badge>
               )}
+              {match.status === 'EXPIRED' && (
+                <Badge color="gray" size="sm">{EXPIRY_LABELS[match.expiry_reason ?? 'expired']}</Badge>
+              )}
+              {match.round_trip_score != null && (
+                <Badge color="purple" size="sm">
+                  ⇄ Round trip {Math.round(match.round_trip_score * 100)}%
+                </Badge>
+              )}
             </div>
             
             <div className="text-sm text-gray-500">
@@ -199,6 +215,11 @@ export function MatchCard({
                   {detourInfo.time} extra
                 </span>
               )}
+              {!!match.shared_distance && (
+                <span className="bg-violet-100 text-violet-700 px-2 py-1 rounded">
+                  {match.shared_distance.toFixed(1)}km shared
+                </span>
+              )}
               {savingsInfo && (
                 <span className="bg-green-100 text-green-700 px-2 py-1 rounded">
                   {savingsInfo}
@@ -232,6 +253,18 @@ export function MatchCard({
                 <>Departed {formatDistanceToNow(departureDate, { addSuffix: true })}</>
               )}
             </div>
+            {match.proposed_departure_time && (
+              <div className="text-xs text-green-700 mt-1">
+                Leave at {format(new Date(match.proposed_departure_time), 'h:mm a')}
+                {match.departure_window_start && match.departure_window_end && (
+                  <>
+                    {' '}
+                    (both free {format(new Date(match.departure_window_start), 'h:mm')}–
+                    {format(new Date(match.departure_window_end), 'h:mm a')})
+                  </>
+                )}
+              </div>
+            )}
           </div>
           
           <div>
@@ -291,18 +324,45 @@ export function MatchCard({
           )}
         </div>
 
+        {/* Why this match */}
+        {match.score_explanation && (
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowExplanation(!showExplanation)}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              {showExplanation ? 'Hide details' : 'Why this match?'}
+            </button>
+            {showExplanation && (
+              <CompatibilityScore
+                score={match.compatibility_score}
+                matchType={match.match_type}
+                showBreakdown={true}
+                explanation={match.score_explanation}
+                className="mt-2"
+              />
+            )}
+          </div>
+        )}
+
         {/* Meeting Point Info */}
         {(match.suggested_pickup_point || match.suggested_dropoff_point) && (
-          <div className="bg-blue-50 p-3 rounded-lg">
-            <div className="text-xs font-medium text-blue-900 mb-1">Suggested Meeting Point</div>
-            <div className="text-sm text-blue-800">
-              {match.suggested_pickup_point?.address || match.suggested_dropoff_point?.address}
-            </div>
-            {match.suggested_pickup_point?.walkingDistance && (
-              <div className="text-xs text-blue-600 mt-1">
-                {Math.round(match.suggested_pickup_point.walkingDistance)}m walk
+          <div className="bg-blue-50 p-3 rounded-lg space-y-2">
+            {[
+              { label: 'Pickup', point: match.suggested_pickup_point },
+              { label: 'Dropoff', point: match.suggested_dropoff_point },
+            ].map(({ label, point }) => point && (
+              <div key={label}>
+                <div className="text-xs font-medium text-blue-900 mb-1">Suggested {label} Point</div>
+                <div className="text-sm text-blue-800">{point.address}</div>
+                {point.walkingDistance > 0 && (
+                  <div className="text-xs text-blue-600 mt-1">
+                    {Math.round(point.walkingDistance)}m walk
+                  </div>
+                )}
               </div>
-            )}
+            ))}
           </div>
         )}
 
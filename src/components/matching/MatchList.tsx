@@ -76,6 +76,8 @@ export function MatchList({
     }
   }, [effectiveUserId, effectiveTripId, isSubscribed, subscribeToUserMatches]);
 
+  const roundTripCount = matches.filter(match => match.round_trip_score != null).length;
+
   const handleLoadMore = () => {
     const nextPage = currentPage + 1;
     setCurrentPage(nextPage);
@@ -172,6 +174,7 @@ export function MatchList({
                   <option value="CONTACTED">Contacted</option>
                   <option value="ACCEPTED">Accepted</option>
                   <option value="DECLINED">Declined</option>
+                  <option value="EXPIRED">Expired</option>
                 </select>
               </div>
 
@@ -193,6 +196,21 @@ export function MatchList({
                 </select>
               </div>
 
+              {/* Round Trip Filter */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Legs
+                </label>
+                <select
+                  value={localFilters.round_trip_only ? 'round_trip' : ''}
+                  onChange={(e) => handleFilterChange('round_trip_only', e.target.value === 'round_trip' || undefined)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Any</option>
+                  <option value="round_trip">Both ways (round trip)</option>
+                </select>
+              </div>
+
               {/* Minimum Score Filter */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -224,6 +242,7 @@ export function MatchList({
             <p className="text-sm text-gray-600 mt-1">
               {totalCount} {totalCount === 1 ? 'match' : 'matches'} found
               {Object.keys(activeFilters).length > 0 && ' (filtered)'}
+              {roundTripCount > 0 && ` · ${roundTripCount} going both ways`}
             </p>
           )}
         </div>
@@ -1,31 +1,52 @@
 import { useState, useEffect, useRef } from 'react';
 import { Card, Button, Badge, LoadingSpinner } from '../ui';
 import { MeetingPointService } from '../../services/matching/meetingPoints';
-import type { MeetingPointAnalysis } from '../../services/matching/meetingPoints';
-import type { LocationData } from '../../types';
+import { decodePolyline, getRoutingProvider, pathLength } from '../../services/routing';
+import type { FairMeetingPoint, MeetingPointAnalysis } from '../../services/matching/meetingPoints';
+import type { AccessibilityNeed, LocationData } from '../../types';
+
+type SearchMode = 'route' | 'fair';
 
 interface MeetingPointSelectorProps {
   sourceLocation: LocationData;
   targetLocation: LocationData;
+  routePolyline?: string; // stored route geometry, e.g. from a match's route_analysis
+  destination?: LocationData; // shared taxi destination, weighs the detour of fair meeting points
+  maxWalkingDistances?: [number, number]; // meters for you and your match, from their preferences
+  accessibilityNeeds?: AccessibilityNeed[]; // of everyone on the ride
   onPointSelect?: (point: MeetingPointAnalysis) => void;
+  onFairPointSelect?: (point: FairMeetingPoint) => void;
   maxPoints?: number;
   className?: string;
 }
 
+const DEFAULT_WALKING_DISTANCES: [number, number] = [500, 500];
+const NO_ACCESSIBILITY_NEEDS: AccessibilityNeed[] = [];
+
+const formatWalk = (seconds: number) => `${Math.max(1, Math.round(seconds / 60))} min`;
+
 export function MeetingPointSelector({
   sourceLocation,
   targetLocation,
+  routePolyline,
+  destination,
+  maxWalkingDistances = DEFAULT_WALKING_DISTANCES,
+  accessibilityNeeds = NO_ACCESSIBILITY_NEEDS,
   onPointSelect,
+  onFairPointSelect,
   maxPoints = 5,
   className = '',
 }: MeetingPointSelectorProps) {
+  const [yourMaxWalk, matchMaxWalk] = maxWalkingDistances;
   const mapRef = useRef<HTMLDivElement>(null);
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [meetingPoints, setMeetingPoints] = useState<MeetingPointAnalysis[]>([]);
   const [selectedPoint, setSelectedPoint] = useState<MeetingPointAnalysis | null>(null);
+  const [searchMode, setSearchMode] = useState<SearchMode>('route');
+  const [fairPoints, setFairPoints] = useState<FairMeetingPoint[]>([]);
+  const [selectedFairPoint, setSelectedFairPoint] = useState<FairMeetingPoint | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [markers, setMarkers] = useState<google.maps.Marker[]>([]);
 
   // Initialize Google Maps
   useEffect(() => {
@@ -34,8 +55,8 @@ export function MeetingPointSelector({
     const mapInstance = new google.maps.Map(mapRef.current, {
       zoom: 13,
       center: {
-        lat: (sourceLocation.lat + targetLocation.lat) / 2,
-        lng: (sourceLocation.lng + targetLocation.lng) / 2,
+        lat: (sourceLocation.coordinates.lat + targetLocation.coordinates.lat) / 2,
+        lng: (sourceLocation.coordinates.lng + targetLocation.coordinates.lng) / 2,
       },
       styles: [
         {
@@ -49,125 +70,140 @@ export function MeetingPointSelector({
     setMap(mapInstance);
   }, [sourceLocation, targetLocation]);
 
-  // Find optimal meeting points
+  // Find optimal meeting points; this needs no map, so it also works with offline routing
   useEffect(() => {
-    if (!map) return;
+    let cancelled = false;
 
     const findMeetingPoints = async () => {
       setIsLoading(true);
       setError(null);
 
       try {
-        // Create a mock route result for the meeting point service
-        const directionsService = new google.maps.DirectionsService();
-        
-        const routeResult = await new Promise<google.maps.DirectionsResult>((resolve, reject) => {
-          directionsService.route(
-            {
-              origin: { lat: sourceLocation.lat, lng: sourceLocation.lng },
-              destination: { lat: targetLocation.lat, lng: targetLocation.lng },
-              travelMode: google.maps.TravelMode.DRIVING,
-            },
-            (result, status) => {
-              if (status === google.maps.DirectionsStatus.OK && result) {
-                resolve(result);
-              } else {
-                reject(new Error(`Failed to get route: ${status}`));
-              }
-            }
-          );
-        });
-
-        // Find optimal meeting points along the route
-        const points = await MeetingPointService.findOptimalMeetingPoints(
-          routeResult,
-          targetLocation,
-          { maxPoints }
-        );
-
-        setMeetingPoints(points);
-        
-        // Clear existing markers
-        markers.forEach(marker => marker.setMap(null));
-        
-        // Add new markers for meeting points
-        const newMarkers: google.maps.Marker[] = [];
-        
-        // Add source and target location markers
-        const sourceMarker = new google.maps.Marker({
-          position: { lat: sourceLocation.lat, lng: sourceLocation.lng },
-          map,
-          title: 'Your Location',
-          icon: {
-            path: google.maps.SymbolPath.CIRCLE,
-            scale: 10,
-            fillColor: '#3B82F6',
-            fillOpacity: 1,
-            strokeColor: '#ffffff',
-            strokeWeight: 3,
-          },
-        });
-        
-        const targetMarker = new google.maps.Marker({
-          position: { lat: targetLocation.lat, lng: targetLocation.lng },
-          map,
-          title: 'Match Location',
-          icon: {
-            path: google.maps.SymbolPath.CIRCLE,
-            scale: 10,
-            fillColor: '#10B981',
-            fillOpacity: 1,
-            strokeColor: '#ffffff',
-            strokeWeight: 3,
-          },
-        });
-        
-        newMarkers.push(sourceMarker, targetMarker);
-
-        // Add meeting point markers
-        points.forEach((point, index) => {
-          const marker = new google.maps.Marker({
-            position: { lat: point.location.lat, lng: point.location.lng },
-            map,
-            title: `Meeting Point ${index + 1}`,
-            icon: {
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: 8,
-              fillColor: '#F59E0B',
-              fillOpacity: 1,
-              strokeColor: '#ffffff',
-              strokeWeight: 2,
-            },
-          });
-
-          marker.addListener('click', () => {
-            setSelectedPoint(point);
-            onPointSelect?.(point);
+        if (searchMode === 'fair') {
+          const points = await MeetingPointService.findFairMeetingPoints(sourceLocation, targetLocation, {
+            maxWalkingDistances: [yourMaxWalk, matchMaxWalk],
+            destination: destination?.coordinates,
+            accessibilityNeeds,
+            limit: maxPoints,
           });
 
-          newMarkers.push(marker);
-        });
-
-        setMarkers(newMarkers);
+          if (!cancelled) setFairPoints(points);
+        } else {
+          const storedPath = routePolyline ? decodePolyline(routePolyline) : [];
+          const routeResult = storedPath.length > 1
+            ? { distance: pathLength(storedPath), duration: 0, path: storedPath, polyline: routePolyline }
+            : await getRoutingProvider().getDirections(
+              sourceLocation.coordinates,
+              targetLocation.coordinates
+            );
 
-        // Fit bounds to show all points
-        const bounds = new google.maps.LatLngBounds();
-        bounds.extend({ lat: sourceLocation.lat, lng: sourceLocation.lng });
-        bounds.extend({ lat: targetLocation.lat, lng: targetLocation.lng });
-        points.forEach(point => {
-          bounds.extend({ lat: point.location.lat, lng: point.location.lng });
-        });
-        map.fitBounds(bounds);
+          // Find optimal meeting points along the route
+          const points = await MeetingPointService.findOptimalMeetingPoints(
+            routeResult,
+            targetLocation,
+            { accessibilityNeeds }
+          );
 
-        setIsLoading(false);
+          if (!cancelled) setMeetingPoints(points.slice(0, maxPoints));
+        }
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to find meeting points');
-        setIsLoading(false);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to find meeting points');
+      } finally {
+        if (!cancelled) setIsLoading(false);
       }
     };
 
     findMeetingPoints();
-  }, [map, sourceLocation, targetLocation, maxPoints, onPointSelect]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    searchMode,
+    sourceLocation,
+    targetLocation,
+    routePolyline,
+    destination,
+    yourMaxWalk,
+    matchMaxWalk,
+    accessibilityNeeds,
+    maxPoints,
+  ]);
+
+  // Markers for both parties and the meeting points, fitted into view
+  useEffect(() => {
+    if (!map) return;
+
+    const positions = searchMode === 'fair'
+      ? fairPoints.map(point => point.point.coordinates)
+      : meetingPoints.map(point => point.point.coordinates);
+
+    const onSelect = (index: number) => {
+      if (searchMode === 'fair') {
+        setSelectedFairPoint(fairPoints[index]);
+        onFairPointSelect?.(fairPoints[index]);
+      } else {
+        setSelectedPoint(meetingPoints[index]);
+        onPointSelect?.(meetingPoints[index]);
+      }
+    };
+
+    const partyMarker = (location: LocationData, title: string, fillColor: string) =>
+      new google.maps.Marker({
+        position: location.coordinates,
+        map,
+        title,
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 10,
+          fillColor,
+          fillOpacity: 1,
+          strokeColor: '#ffffff',
+          strokeWeight: 3,
+        },
+      });
+
+    const markers = [
+      partyMarker(sourceLocation, 'Your Location', '#3B82F6'),
+      partyMarker(targetLocation, 'Match Location', '#10B981'),
+    ];
+
+    positions.forEach((position, index) => {
+      const marker = new google.maps.Marker({
+        position,
+        map,
+        title: `Meeting Point ${index + 1}`,
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 8,
+          fillColor: '#F59E0B',
+          fillOpacity: 1,
+          strokeColor: '#ffffff',
+          strokeWeight: 2,
+        },
+      });
+
+      marker.addListener('click', () => onSelect(index));
+      markers.push(marker);
+    });
+
+    const bounds = new google.maps.LatLngBounds();
+    bounds.extend(sourceLocation.coordinates);
+    bounds.extend(targetLocation.coordinates);
+    positions.forEach(position => bounds.extend(position));
+    map.fitBounds(bounds);
+
+    return () => markers.forEach(marker => marker.setMap(null));
+  }, [
+    map,
+    searchMode,
+    fairPoints,
+    meetingPoints,
+    sourceLocation,
+    targetLocation,
+    onPointSelect,
+    onFairPointSelect,
+  ]);
 
   const getScoreColor = (score: number) => {
     if (score >= 0.8) return 'green';
@@ -195,11 +231,22 @@ export function MeetingPointSelector({
     <div className={`space-y-6 ${className}`}>
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-900">Meeting Points</h3>
-        {meetingPoints.length > 0 && (
-          <Badge color="blue" variant="outline">
-            {meetingPoints.length} {meetingPoints.length === 1 ? 'option' : 'options'} found
-          </Badge>
-        )}
+        <div className="flex items-center space-x-2">
+          <Button
+            size="sm"
+            variant={searchMode === 'route' ? 'primary' : 'outline'}
+            onClick={() => setSearchMode('route')}
+          >
+            Along the route
+          </Button>
+          <Button
+            size="sm"
+            variant={searchMode === 'fair' ? 'primary' : 'outline'}
+            onClick={() => setSearchMode('fair')}
+          >
+            Fair for both
+          </Button>
+        </div>
       </div>
 
       {/* Map Container */}
@@ -246,132 +293,186 @@ export function MeetingPointSelector({
         </div>
       </Card>
 
-      {/* Meeting Points List */}
-      {meetingPoints.length > 0 && (
+      {/* Fair Meeting Points List */}
+      {searchMode === 'fair' && fairPoints.length > 0 && (
         <div className="space-y-3">
-          <h4 className="font-medium text-gray-900">Recommended Meeting Points</h4>
-          
-          <div className="space-y-3">
-            {meetingPoints.map((point, index) => (
-              <Card
-                key={index}
-                className={`p-4 cursor-pointer transition-all hover:shadow-md ${
-                  selectedPoint === point ? 'ring-2 ring-blue-500' : ''
-                }`}
-                onClick={() => {
-                  setSelectedPoint(point);
-                  onPointSelect?.(point);
-                }}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <Badge color={getScoreColor(point.overallScore)} size="sm">
-                        {getScoreText(point.overallScore)}
-                      </Badge>
-                      <span className="text-sm text-gray-500">
-                        {Math.round(point.overallScore * 100)}% match
-                      </span>
+          <h4 className="font-medium text-gray-900">Fairest Meeting Points</h4>
+
+          {fairPoints.map((point, index) => (
+            <button
+              key={`${point.point.coordinates.lat},${point.point.coordinates.lng}`}
+              type="button"
+              className="block w-full text-left"
+              onClick={() => {
+                setSelectedFairPoint(point);
+                onFairPointSelect?.(point);
+              }}
+            >
+                <Card
+                  className={`p-4 transition-all hover:shadow-md ${
+                    selectedFairPoint === point ? 'ring-2 ring-blue-500' : ''
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <span className="font-medium text-gray-900">{point.point.address}</span>
+                        {point.point.official && (
+                          <Badge color="green" size="sm">Official spot</Badge>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-2 gap-4 text-sm text-gray-600 mt-2">
+                        <div>
+                          <div className="text-xs text-gray-500">You walk</div>
+                          {formatWalk(point.walks[0].duration)} · {formatDistance(point.walks[0].distance)}
+                        </div>
+                        <div>
+                          <div className="text-xs text-gray-500">Your match walks</div>
+                          {formatWalk(point.walks[1].duration)} · {formatDistance(point.walks[1].distance)}
+                        </div>
+                      </div>
+                      {destination && point.detourTime > 0 && (
+                        <p className="text-xs text-gray-500 mt-2">Taxi detour +{formatWalk(point.detourTime)}</p>
+                      )}
                     </div>
+                    <div className="ml-4 text-lg font-semibold text-gray-900">#{index + 1}</div>
+                  </div>
+                </Card>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Meeting Points List */}
+        {searchMode === 'route' && meetingPoints.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-gray-900">Recommended Meeting Points</h4>
+          
+            <div className="space-y-3">
+              {meetingPoints.map((point, index) => (
+                <div
+                  key={`${point.point.coordinates.lat},${point.point.coordinates.lng}`}
+                  className="cursor-pointer"
+                  onClick={() => {
+                    setSelectedPoint(point);
+                    onPointSelect?.(point);
+                  }}
+                >
+                <Card
+                  className={`p-4 transition-all hover:shadow-md ${
+                    selectedPoint === point ? 'ring-2 ring-blue-500' : ''
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center space-x-2 mb-2">
+                        <Badge color={getScoreColor(point.overallScore)} size="sm">
+                          {getScoreText(point.overallScore)}
+                        </Badge>
+                        <span className="text-sm text-gray-500">
+                          {Math.round(point.overallScore * 100)}% match
+                        </span>
+                      </div>
                     
-                    <div className="font-medium text-gray-900 mb-1">
-                      {point.location.address || 'Meeting Point'}
-                    </div>
+                      <div className="font-medium text-gray-900 mb-1">
+                        {point.point.address || 'Meeting Point'}
+                      </div>
                     
-                    <div className="text-sm text-gray-600 mb-2">
-                      {point.nearbyPOIs.slice(0, 2).map(poi => poi.name).join(', ')}
-                      {point.nearbyPOIs.length > 2 && ` +${point.nearbyPOIs.length - 2} more`}
-                    </div>
-
-                    <div className="flex flex-wrap gap-3 text-xs text-gray-500">
-                      <div className="flex items-center space-x-1">
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
-                        </svg>
-                        <span>{formatDistance(point.walkingDistance)} walk</span>
+                      <div className="text-sm text-gray-600 mb-2">
+                        {point.nearbyPOIs.slice(0, 2).map(poi => poi.name).join(', ')}
+                        {point.nearbyPOIs.length > 2 && ` +${point.nearbyPOIs.length - 2} more`}
                       </div>
+
+                      <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+                        <div className="flex items-center space-x-1">
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                          </svg>
+                          <span>{formatDistance(point.point.walkingDistance)} walk</span>
+                        </div>
                       
-                      <div className="flex items-center space-x-1">
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                        </svg>
-                        <span>
-                          {point.safetyScore >= 0.8 ? 'Very Safe' :
-                           point.safetyScore >= 0.6 ? 'Safe' :
-                           point.safetyScore >= 0.4 ? 'Moderately Safe' : 'Use Caution'}
-                        </span>
-                      </div>
+                        <div className="flex items-center space-x-1">
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                          </svg>
+                          <span>
+                            {point.safetyScore >= 0.8 ? 'Very Safe' :
+                             point.safetyScore >= 0.6 ? 'Safe' :
+                             point.safetyScore >= 0.4 ? 'Moderately Safe' : 'Use Caution'}
+                          </span>
+                        </div>
                       
-                      <div className="flex items-center space-x-1">
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-                        </svg>
-                        <span>
-                          {point.convenienceScore >= 0.8 ? 'Very Convenient' :
-                           point.convenienceScore >= 0.6 ? 'Convenient' :
-                           point.convenienceScore >= 0.4 ? 'Moderately Convenient' : 'Basic'}
-                        </span>
+                        <div className="flex items-center space-x-1">
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+                          </svg>
+                          <span>
+                            {point.convenienceScore >= 0.8 ? 'Very Convenient' :
+                             point.convenienceScore >= 0.6 ? 'Convenient' :
+                             point.convenienceScore >= 0.4 ? 'Moderately Convenient' : 'Basic'}
+                          </span>
+                        </div>
                       </div>
                     </div>
-                  </div>
 
-                  <div className="ml-4 text-right">
-                    <div className="text-lg font-semibold text-gray-900">
-                      #{index + 1}
-                    </div>
-                    <div className="text-xs text-gray-500 mt-1">
-                      Rank {index + 1}
+                    <div className="ml-4 text-right">
+                      <div className="text-lg font-semibold text-gray-900">
+                        #{index + 1}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Rank {index + 1}
+                      </div>
                     </div>
                   </div>
-                </div>
-
-                {/* Detailed scores */}
-                <div className="mt-3 pt-3 border-t border-gray-200">
-                  <div className="grid grid-cols-3 gap-4 text-xs">
-                    <div className="text-center">
-                      <div className="font-medium text-gray-900">
-                        {Math.round(point.safetyScore * 100)}%
+
+                  {/* Detailed scores */}
+                  <div className="mt-3 pt-3 border-t border-gray-200">
+                    <div className="grid grid-cols-3 gap-4 text-xs">
+                      <div className="text-center">
+                        <div className="font-medium text-gray-900">
+                          {Math.round(point.safetyScore * 100)}%
+                        </div>
+                        <div className="text-gray-500">Safety</div>
                       </div>
-                      <div className="text-gray-500">Safety</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="font-medium text-gray-900">
-                        {Math.round(point.convenienceScore * 100)}%
+                      <div className="text-center">
+                        <div className="font-medium text-gray-900">
+                          {Math.round(point.convenienceScore * 100)}%
+                        </div>
+                        <div className="text-gray-500">Convenience</div>
                       </div>
-                      <div className="text-gray-500">Convenience</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="font-medium text-gray-900">
-                        {Math.round(point.accessibilityScore * 100)}%
+                      <div className="text-center">
+                        <div className="font-medium text-gray-900">
+                          {Math.round(point.accessibilityScore * 100)}%
+                        </div>
+                        <div className="text-gray-500">Accessibility</div>
                       </div>
-                      <div className="text-gray-500">Accessibility</div>
                     </div>
                   </div>
-                </div>
 
-                {selectedPoint === point && (
-                  <div className="mt-3 pt-3 border-t border-gray-200">
-                    <Button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onPointSelect?.(point);
-                      }}
-                      size="sm"
-                      className="w-full"
-                    >
-                      Select This Meeting Point
-                    </Button>
-                  </div>
-                )}
-              </Card>
+                  {selectedPoint === point && (
+                    <div className="mt-3 pt-3 border-t border-gray-200">
+                      <Button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onPointSelect?.(point);
+                        }}
+                        size="sm"
+                        className="w-full"
+                      >
+                        Select This Meeting Point
+                      </Button>
+                    </div>
+                  )}
+                </Card>
+              </div>
             ))}
           </div>
         </div>
       )}
 
       {/* No points found state */}
-      {!isLoading && !error && meetingPoints.length === 0 && (
+      {!isLoading && !error && (searchMode === 'fair' ? fairPoints : meetingPoints).length === 0 && (
         <Card className="p-8 text-center">
           <div className="text-gray-500">
             <svg className="w-12 h-12 mx-auto mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -380,8 +481,10 @@ export function MeetingPointSelector({
             </svg>
             <p className="text-lg font-medium text-gray-900 mb-2">No Meeting Points Found</p>
             <p className="text-sm">
-              We couldn't find suitable meeting points along this route.
-              Try adjusting your locations or contact the other user directly.
+              {searchMode === 'fair'
+                ? "We couldn't find a meeting point within walking distance of both of you."
+                : "We couldn't find suitable meeting points along this route."}
+              {' '}Try adjusting your locations or contact the other user directly.
             </p>
           </div>
         </Card>
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { Card, Button, Badge, LoadingSpinner } from '../ui';
 import { CompatibilityScore } from './CompatibilityScore';
+import { decodePolyline } from '../../services/routing';
 import type { Trip, TripMatch } from '../../types';
 import type { CompatibilityAnalysis } from '../../services/matching/matchingAlgorithm';
 
@@ -93,10 +94,62 @@ export function RouteComparison({
   useEffect(() => {
     if (!directionsService || !directionsRenderer1 || !directionsRenderer2 || !map) return;
 
+    const overlays: (google.maps.Marker | google.maps.Polyline)[] = [];
+
+    const addMeetingPointMarkers = () => {
+      const points = [match?.suggested_pickup_point, match?.suggested_dropoff_point];
+
+      points.forEach((point, index) => {
+        if (!point) return;
+
+        overlays.push(new google.maps.Marker({
+          position: point.coordinates,
+          map,
+          title: index === 0 ? 'Suggested Pickup Point' : 'Suggested Dropoff Point',
+          icon: {
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: 10,
+            fillColor: '#F59E0B',
+            fillOpacity: 1,
+            strokeColor: '#ffffff',
+            strokeWeight: 3,
+          },
+        }));
+      });
+    };
+
     const loadRoutes = async () => {
       setIsLoading(true);
       setError(null);
 
+      // Stored matches carry their route geometry, so no directions requests are needed
+      const storedAnalysis = match?.route_analysis;
+      if (storedAnalysis?.sourcePolyline && storedAnalysis.matchedPolyline) {
+        const bounds = new google.maps.LatLngBounds();
+        const lines = [
+          { polyline: storedAnalysis.sourcePolyline, color: '#3B82F6' },
+          { polyline: storedAnalysis.matchedPolyline, color: '#10B981' },
+          ...(storedAnalysis.commonPath.polylines ?? []).map(polyline => ({ polyline, color: '#8B5CF6' })),
+        ];
+
+        lines.forEach(({ polyline, color }) => {
+          const path = decodePolyline(polyline);
+          path.forEach(point => bounds.extend(point));
+          overlays.push(new google.maps.Polyline({
+            map,
+            path,
+            strokeColor: color,
+            strokeWeight: 4,
+            strokeOpacity: 0.8,
+          }));
+        });
+
+        map.fitBounds(bounds);
+        addMeetingPointMarkers();
+        setIsLoading(false);
+        return;
+      }
+
       try {
         const [result1, result2] = await Promise.all([
           new Promise<google.maps.DirectionsResult>((resolve, reject) => {
@@ -167,24 +220,7 @@ export function RouteComparison({
         map.fitBounds(bounds);
         
         // Add meeting point markers if available
-        if (match?.suggested_pickup_point) {
-          new google.maps.Marker({
-            position: {
-              lat: match.suggested_pickup_point.lat,
-              lng: match.suggested_pickup_point.lng,
-            },
-            map,
-            title: 'Suggested Meeting Point',
-            icon: {
-              path: google.maps.SymbolPath.CIRCLE,
-              scale: 10,
-              fillColor: '#F59E0B',
-              fillOpacity: 1,
-              strokeColor: '#ffffff',
-              strokeWeight: 3,
-            },
-          });
-        }
+        addMeetingPointMarkers();
 
         setIsLoading(false);
       } catch (err) {
@@ -194,6 +230,10 @@ export function RouteComparison({
     };
 
     loadRoutes();
+
+    return () => {
+      overlays.forEach(overlay => overlay.setMap(null));
+    };
   }, [directionsService, directionsRenderer1, directionsRenderer2, map, sourceTrip, targetTrip, match]);
 
   const getRouteStats = (trip: Trip) => {
@@ -217,10 +257,11 @@ export function RouteComparison({
             score={match?.compatibility_score || compatibilityAnalysis?.overallScore || 0}
             matchType={match?.match_type || compatibilityAnalysis?.matchType || 'partial_overlap'}
             showBreakdown={true}
-            routeScore={compatibilityAnalysis?.scores.route}
-            timeScore={compatibilityAnalysis?.scores.time}
-            preferencesScore={compatibilityAnalysis?.scores.preferences}
-            priceScore={compatibilityAnalysis?.scores.price}
+            routeScore={compatibilityAnalysis?.routeCompatibility}
+            timeScore={compatibilityAnalysis?.timeCompatibility}
+            preferencesScore={compatibilityAnalysis?.preferencesCompatibility}
+            priceScore={compatibilityAnalysis?.priceCompatibility}
+            explanation={match?.score_explanation ?? compatibilityAnalysis?.explanation}
           />
         </div>
       )}
@@ -261,6 +302,12 @@ export function RouteComparison({
               <div className="w-3 h-1 bg-green-500 rounded"></div>
               <span className="text-gray-700">Match Route</span>
             </div>
+            {!!match?.route_analysis?.commonPath?.polylines?.length && (
+              <div className="flex items-center space-x-2">
+                <div className="w-3 h-1 bg-violet-500 rounded"></div>
+                <span className="text-gray-700">Shared Route</span>
+              </div>
+            )}
             {match?.suggested_pickup_point && (
               <div className="flex items-center space-x-2">
                 <div className="w-3 h-3 bg-amber-500 rounded-full"></div>
@@ -372,7 +419,7 @@ export function RouteComparison({
           <h4 className="font-medium text-gray-900 mb-4">Trip Impact</h4>
           
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            {match.detour_distance && (
+            {match.detour_distance !== undefined && match.detour_distance !== null && (
               <div className="text-center">
                 <div className="text-2xl font-bold text-orange-600">
                   +{match.detour_distance.toFixed(1)}km
@@ -381,7 +428,7 @@ export function RouteComparison({
               </div>
             )}
             
-            {match.detour_time && (
+            {match.detour_time !== undefined && match.detour_time !== null && (
               <div className="text-center">
                 <div className="text-2xl font-bold text-orange-600">
                   +{Math.round(match.detour_time)}min
@@ -399,6 +446,24 @@ export function RouteComparison({
               </div>
             )}
             
+            {!!match.shared_distance && (
+              <div className="text-center">
+                <div className="text-2xl font-bold text-violet-600">
+                  {match.shared_distance.toFixed(1)}km
+                </div>
+                <div className="text-xs text-gray-500">Shared Distance</div>
+              </div>
+            )}
+
+            {match.time_difference !== undefined && match.time_difference !== null && (
+              <div className="text-center">
+                <div className="text-2xl font-bold text-gray-700">
+                  {match.time_difference > 0 ? '+' : ''}{match.time_difference}min
+                </div>
+                <div className="text-xs text-gray-500">Departure Difference</div>
+              </div>
+            )}
+
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">
                 {Math.round((match.compatibility_score) * 100)}%
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Card, Button, Checkbox, LoadingSpinner } from '../ui';
+import { useAuthStore } from '../../store/authStore';
+import { useToast } from '../../hooks/useToast';
+import { ACCESSIBILITY_NEEDS } from '../../constants';
+import type { AccessibilityNeed } from '../../types';
+
+interface AccessibilityPreferencesProps {
+  onSave?: () => void;
+  className?: string;
+}
+
+/**
+ * Accessibility needs stored on the user's profile. New trips start from
+ * them, and matching only pairs the user with vehicles that accommodate them.
+ */
+export function AccessibilityPreferences({ onSave, className = '' }: AccessibilityPreferencesProps) {
+  const { user, updateProfile, isLoading } = useAuthStore();
+  const { showToast } = useToast();
+  const [needs, setNeeds] = useState<AccessibilityNeed[]>(user?.accessibility_needs ?? []);
+
+  const saved = user?.accessibility_needs ?? [];
+  const hasChanges = needs.length !== saved.length || needs.some(need => !saved.includes(need));
+
+  const toggleNeed = (need: AccessibilityNeed) => {
+    setNeeds(current => (current.includes(need) ? current.filter(n => n !== need) : [...current, need]));
+  };
+
+  const handleSave = async () => {
+    const success = await updateProfile({ accessibility_needs: needs });
+
+    if (success) {
+      showToast('Accessibility needs saved', 'success');
+      onSave?.();
+    } else {
+      showToast('Failed to save accessibility needs', 'error');
+    }
+  };
+
+  return (
+    <Card className={`p-6 ${className}`}>
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Accessibility</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            We only match you with rides whose vehicle accommodates these needs, and pick you up at your door
+            when you need step-free access
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {ACCESSIBILITY_NEEDS.map((need) => (
+            <Checkbox
+              key={need.value}
+              label={`${need.icon} ${need.label}`}
+              checked={needs.includes(need.value)}
+              onChange={() => toggleNeed(need.value)}
+            />
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!hasChanges || isLoading}>
+            {isLoading && <LoadingSpinner className="w-4 h-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -21,8 +21,43 @@ const matchingPreferencesSchema = z.object({
   gender_preference: z.enum(['no_preference', 'same_gender', 'any_gender']).optional(),
   min_age: z.number().min(18).max(100).optional(),
   max_age: z.number().min(18).max(100).optional(),
+  matching_profile: z.enum(['balanced', 'cheapest', 'least_detour', 'on_time', 'custom']),
+  custom_weights: z.object({
+    route: z.number().min(0).max(10),
+    time: z.number().min(0).max(10),
+    preferences: z.number().min(0).max(10),
+    distance: z.number().min(0).max(10),
+    price: z.number().min(0).max(10),
+  }),
+  min_match_score: z.number().min(0).max(100), // percent in the form, 0-1 when saved
+  hard_filters: z.array(z.enum(['smoking', 'pets', 'music', 'conversation'])),
 });
 
+const DEFAULT_CUSTOM_WEIGHTS = { route: 4, time: 2.5, preferences: 2, distance: 1, price: 0.5 };
+
+const MATCHING_PROFILE_OPTIONS = [
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'cheapest', label: 'Cheapest' },
+  { value: 'least_detour', label: 'Least Detour' },
+  { value: 'on_time', label: 'Leave on Time' },
+  { value: 'custom', label: 'Custom Weights' },
+];
+
+const WEIGHT_FIELDS = [
+  { name: 'route', label: 'Route Overlap' },
+  { name: 'time', label: 'Departure Time' },
+  { name: 'preferences', label: 'Trip Preferences' },
+  { name: 'distance', label: 'Short Detour' },
+  { name: 'price', label: 'Price' },
+] as const;
+
+const HARD_FILTER_OPTIONS = [
+  { value: 'smoking', label: 'Smoking', description: 'Hide trips that do not match your smoking preference' },
+  { value: 'pets', label: 'Pets', description: 'Hide trips that do not match your pets preference' },
+  { value: 'music', label: 'Music', description: 'Hide trips that do not match your music preference' },
+  { value: 'conversation', label: 'Conversation', description: 'Hide trips with a different conversation level' },
+] as const;
+
 type MatchingPreferencesFormData = z.infer<typeof matchingPreferencesSchema>;
 
 interface MatchingPreferencesProps {
@@ -71,6 +106,10 @@ export function MatchingPreferences({ onSave, className = '' }: MatchingPreferen
       gender_preference: 'no_preference',
       min_age: 18,
       max_age: 65,
+      matching_profile: 'balanced',
+      custom_weights: DEFAULT_CUSTOM_WEIGHTS,
+      min_match_score: 30,
+      hard_filters: [],
     },
   });
 
@@ -100,6 +139,10 @@ export function MatchingPreferences({ onSave, className = '' }: MatchingPreferen
         gender_preference: preferences.gender_preference || 'no_preference',
         min_age: preferences.min_age || 18,
         max_age: preferences.max_age || 65,
+        matching_profile: preferences.matching_profile || 'balanced',
+        custom_weights: preferences.custom_weights || DEFAULT_CUSTOM_WEIGHTS,
+        min_match_score: Math.round((preferences.min_match_score ?? 0.3) * 100),
+        hard_filters: preferences.hard_filters || [],
       });
     }
   }, [preferences, reset]);
@@ -125,7 +168,11 @@ export function MatchingPreferences({ onSave, className = '' }: MatchingPreferen
     }
 
     try {
-      const result = await updateMatchingPreferences(user.id, data);
+      const result = await updateMatchingPreferences(user.id, {
+        ...data,
+        custom_weights: data.matching_profile === 'custom' ? data.custom_weights : undefined,
+        min_match_score: data.min_match_score / 100,
+      });
       
       if (result.success) {
         showToast('Matching preferences updated successfully', 'success');
@@ -363,6 +410,82 @@ export function MatchingPreferences({ onSave, className = '' }: MatchingPreferen
             </div>
           </div>
 
+          {/* Matching Priorities */}
+          <div className="space-y-4">
+            <h4 className="font-medium text-gray-900">Matching Priorities</h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Select
+                  label="Priority"
+                  options={MATCHING_PROFILE_OPTIONS}
+                  value={watchedValues.matching_profile}
+                  onChange={value =>
+                    setValue('matching_profile', value as MatchingPreferencesFormData['matching_profile'], {
+                      shouldDirty: true,
+                    })
+                  }
+                  error={errors.matching_profile?.message}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  What matters most when ranking matches
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Minimum Match Score (%)
+                </label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  {...register('min_match_score', { valueAsNumber: true })}
+                  error={errors.min_match_score?.message}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Matches scoring lower are not shown
+                </p>
+              </div>
+            </div>
+
+            {watchedValues.matching_profile === 'custom' && (
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {WEIGHT_FIELDS.map(field => (
+                  <div key={field.name}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {field.label}
+                    </label>
+                    <Input
+                      type="number"
+                      min="0"
+                      max="10"
+                      step="0.5"
+                      {...register(`custom_weights.${field.name}`, { valueAsNumber: true })}
+                      error={errors.custom_weights?.[field.name]?.message}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-gray-700">Deal-breakers</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {HARD_FILTER_OPTIONS.map(option => (
+                  <Checkbox
+                    key={option.value}
+                    value={option.value}
+                    label={option.label}
+                    description={option.description}
+                    {...register('hard_filters')}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
           {/* Advanced Preferences */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
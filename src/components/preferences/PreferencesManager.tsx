@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Card, Button, Badge } from '../ui';
 import { MatchingPreferences } from './MatchingPreferences';
+import { AccessibilityPreferences } from './AccessibilityPreferences';
 import { NotificationPreferences } from './NotificationPreferences';
 import { useUserPreferencesStore } from '../../store/userPreferencesStore';
 import { useToast } from '../ui/Toast';
@@ -124,7 +125,10 @@ export function PreferencesManager({
       {/* Tab Content */}
       <div className="min-h-[600px]">
         {activeTab === 'matching' && (
-          <MatchingPreferences onSave={handleSave} />
+          <div className="space-y-6">
+            <MatchingPreferences onSave={handleSave} />
+            <AccessibilityPreferences />
+          </div>
         )}
         
         {activeTab === 'notifications' && (
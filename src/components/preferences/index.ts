@@ -1,3 +1,4 @@
+export { AccessibilityPreferences } from './AccessibilityPreferences';
 export { MatchingPreferences } from './MatchingPreferences';
 export { NotificationPreferences } from './NotificationPreferences';
 export { PreferencesManager } from './PreferencesManager';
\ No newline at end of file
@@ -22,7 +22,7 @@ export function TripRequestCard({
   className = '' 
 }: TripRequestCardProps) {
   const { user } = useAuthStore();
-  const { acceptRequest, declineRequest, cancelRequest, isLoading } = useRequestStore();
+  const { acceptRequest, declineRequest, cancelRequest, waitlistPositions, isLoading } = useRequestStore();
   const { showToast } = useToast();
   const [showResponseForm, setShowResponseForm] = useState(false);
   const [responseMessage, setResponseMessage] = useState('');
@@ -32,6 +32,7 @@ export function TripRequestCard({
   const isOwner = user?.id === (type === 'sent' ? request.sender_id : request.receiver_id);
   
   const otherUser = type === 'sent' ? request.receiver : request.sender;
+  const waitlistPosition = request.status === 'WAITLISTED' ? waitlistPositions[request.id] : undefined;
   const departureDate = new Date(request.trip?.departure_time || '');
 
   const getStatusBadge = () => {
@@ -41,9 +42,10 @@ export function TripRequestCard({
       DECLINED: { color: 'red' as const, text: 'Declined' },
       CANCELLED: { color: 'gray' as const, text: 'Cancelled' },
       EXPIRED: { color: 'gray' as const, text: 'Expired' },
+      WAITLISTED: { color: 'blue' as const, text: 'Waitlisted' },
     };
 
-    const config = statusConfig[request.status as keyof typeof statusConfig];
+    const config = statusConfig[request.status];
     return <Badge color={config.color} size="sm">{config.text}</Badge>;
   };
 
@@ -121,6 +123,12 @@ export function TripRequestCard({
               {isExpired && request.status === 'PENDING' && (
                 <Badge color="red" size="sm">Expired</Badge>
               )}
+              {waitlistPosition && (
+                <Badge color="blue" variant="outline" size="sm">#{waitlistPosition} in line</Badge>
+              )}
+              {request.promoted_at && request.status !== 'WAITLISTED' && (
+                <Badge color="purple" variant="outline" size="sm">From waitlist</Badge>
+              )}
             </div>
             
             <div className="text-sm text-gray-500">
@@ -175,6 +183,9 @@ export function TripRequestCard({
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-600">
               <span className="font-medium">Seats requested:</span> {request.seats_requested}
+              {Boolean(request.small_bags || request.large_bags) && (
+                <> · 🧳 {request.small_bags ?? 0} small, {request.large_bags ?? 0} large</>
+              )}
             </span>
             <span className="text-gray-600">
               <span className="font-medium">Flexibility:</span> ±{request.departure_flexibility}min
@@ -299,6 +310,28 @@ export function TripRequestCard({
               </Button>
             )}
 
+            {request.status === 'WAITLISTED' && (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm text-blue-700">
+                  {waitlistPosition ? `#${waitlistPosition} on the waitlist. ` : 'On the waitlist. '}
+                  {type === 'sent'
+                    ? 'You move up automatically when a seat frees up.'
+                    : 'They move up automatically when a seat frees up.'}
+                </span>
+                {type === 'sent' && (
+                  <Button
+                    onClick={handleCancel}
+                    variant="outline"
+                    disabled={isLoading}
+                    size="sm"
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    Leave Waitlist
+                  </Button>
+                )}
+              </div>
+            )}
+
             {request.status === 'ACCEPTED' && (
               <div className="flex items-center space-x-2 text-sm text-green-600">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
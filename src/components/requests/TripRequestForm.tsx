@@ -7,12 +7,17 @@ import { PlacesAutocomplete } from '../maps';
 import { useRequestStore } from '../../store/requestStore';
 import { useAuthStore } from '../../store/authStore';
 import { useToast } from '../../hooks/useToast';
+import { LuggageCapacity } from '../../services/matching/luggage';
+import { InstantBook } from '../../services/trips/instantBook';
 import type { Trip, LocationData } from '../../types';
 
 const requestSchema = z.object({
   message: z.string().max(500, 'Message must be less than 500 characters').optional(),
   seats_requested: z.number().min(1, 'Must request at least 1 seat').max(4, 'Cannot request more than 4 seats'),
   departure_flexibility: z.number().min(0, 'Flexibility cannot be negative').max(120, 'Maximum flexibility is 2 hours'),
+  small_bags: z.number().int().min(0, 'Bags cannot be negative').max(10, 'Cannot bring more than 10 bags'),
+  large_bags: z.number().int().min(0, 'Bags cannot be negative').max(10, 'Cannot bring more than 10 bags'),
+  latest_arrival: z.string().optional(),
   pickup_location: z.object({
     address: z.string(),
     coordinates: z.object({
@@ -47,7 +52,7 @@ export function TripRequestForm({
   className = '' 
 }: TripRequestFormProps) {
   const { user } = useAuthStore();
-  const { createRequest, isSending } = useRequestStore();
+  const { createRequest, joinWaitlist, isSending } = useRequestStore();
   const { showToast } = useToast();
   const [useCustomLocations, setUseCustomLocations] = useState(false);
   
@@ -67,6 +72,24 @@ export function TripRequestForm({
   };
 
   const availableSeats = calculateAvailableSeats();
+  const luggageSpace = LuggageCapacity.remaining(trip);
+
+  // A full trip takes riders onto its waitlist instead
+  const isWaitlist = availableSeats === 0;
+  const seatChoices = isWaitlist ? Math.max(1, (trip.max_passengers || 4) - 1) : availableSeats;
+
+  // Riders who meet the trip's instant book minimums are accepted on request
+  const canInstantBook = !isWaitlist && InstantBook.qualifies(trip, user);
+  const unmetRequirements = trip.instant_book && user && !canInstantBook ? InstantBook.unmet(trip, user) : [];
+
+  const describeLuggageSpace = () => {
+    const limits = [
+      Number.isFinite(luggageSpace.small) && `${luggageSpace.small} small`,
+      Number.isFinite(luggageSpace.large) && `${luggageSpace.large} large`,
+    ].filter(Boolean);
+
+    return limits.length > 0 ? `${limits.join(', ')} bags` : 'Not limited';
+  };
 
   const {
     register,
@@ -80,6 +103,8 @@ export function TripRequestForm({
     defaultValues: {
       seats_requested: 1,
       departure_flexibility: 15,
+      small_bags: 0,
+      large_bags: 0,
       message: '',
     },
     mode: 'onChange',
@@ -111,25 +136,41 @@ export function TripRequestForm({
       currentPassengers: trip.current_passengers
     });
 
-    if (data.seats_requested > availableSeats) {
+    if (!isWaitlist && data.seats_requested > availableSeats) {
       showToast(`Only ${availableSeats} seats available`, 'error');
       return;
     }
 
+    if (!isWaitlist && !LuggageCapacity.fits(luggageSpace, LuggageCapacity.of(data))) {
+      showToast(`Only room for ${describeLuggageSpace()}`, 'error');
+      return;
+    }
+
     try {
-      const request = await createRequest({
+      const requestData = {
         trip_id: trip.id,
         sender_id: user.id,
         receiver_id: trip.user_id,
         message: data.message,
         seats_requested: data.seats_requested,
+        small_bags: data.small_bags,
+        large_bags: data.large_bags,
         departure_flexibility: data.departure_flexibility,
+        latest_arrival: data.latest_arrival ? new Date(data.latest_arrival).toISOString() : undefined,
         pickup_location: data.pickup_location,
         dropoff_location: data.dropoff_location,
-      });
+      };
+      const request = isWaitlist ? await joinWaitlist(requestData, trip) : await createRequest(requestData);
 
       if (request) {
-        showToast('Trip request sent successfully!', 'success');
+        showToast(
+          isWaitlist
+            ? "You're on the waitlist! We'll let you know when a seat opens up."
+            : request.status === 'ACCEPTED'
+              ? "You're booked! See you on the trip."
+              : 'Trip request sent successfully!',
+          'success'
+        );
         reset();
         onSuccess?.();
       }
@@ -146,7 +187,7 @@ export function TripRequestForm({
     <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
       <div className="mb-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-2">
-          Request to Join Trip
+          {isWaitlist ? 'Join the Waitlist' : canInstantBook ? 'Book This Trip' : 'Request to Join Trip'}
         </h3>
         <div className="text-sm text-gray-600">
           <p className="mb-1">
@@ -156,11 +197,23 @@ export function TripRequestForm({
             <span className="font-medium">To:</span> {trip.destination}
           </p>
           <p className="mb-1">
-            <span className="font-medium">Available seats:</span> {availableSeats}
+            <span className="font-medium">Available seats:</span>{' '}
+            {isWaitlist ? 'None, this trip is full' : availableSeats}
+          </p>
+          <p className="mb-1">
+            <span className="font-medium">Luggage space:</span> {describeLuggageSpace()}
           </p>
           <p>
             <span className="font-medium">Driver:</span> {trip.user?.name}
           </p>
+          {trip.instant_book && user && !isWaitlist && (
+            <p className="mt-2 text-blue-700">
+              ⚡ <span className="font-medium">Instant Book:</span>{' '}
+              {canInstantBook
+                ? "you're confirmed as soon as you book"
+                : `needs ${unmetRequirements.join(', ').toLowerCase()}; your request goes to the driver instead`}
+            </p>
+          )}
         </div>
       </div>
 
@@ -175,18 +228,38 @@ export function TripRequestForm({
             error={errors.seats_requested?.message}
             disabled={isSending}
           >
-            {availableSeats > 0 ? (
-              Array.from({ length: Math.min(availableSeats, 4) }, (_, i) => (
-                <option key={i + 1} value={i + 1}>
-                  {i + 1} seat{i > 0 ? 's' : ''}
-                </option>
-              ))
-            ) : (
-              <option value="" disabled>No seats available</option>
-            )}
+            {Array.from({ length: Math.min(seatChoices, 4) }, (_, i) => (
+              <option key={i + 1} value={i + 1}>
+                {i + 1} seat{i > 0 ? 's' : ''}
+              </option>
+            ))}
           </Select>
         </div>
 
+        {/* Luggage */}
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Small bags"
+            type="number"
+            {...register('small_bags', { valueAsNumber: true })}
+            error={errors.small_bags?.message}
+            min={0}
+            max={10}
+            disabled={isSending}
+            helperText="Backpacks, carry-ons"
+          />
+          <Input
+            label="Large bags"
+            type="number"
+            {...register('large_bags', { valueAsNumber: true })}
+            error={errors.large_bags?.message}
+            min={0}
+            max={10}
+            disabled={isSending}
+            helperText="Suitcases, strollers"
+          />
+        </div>
+
         {/* Departure Flexibility */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -205,6 +278,17 @@ export function TripRequestForm({
           </Select>
         </div>
 
+        {/* Arrive By */}
+        <Input
+          label="Arrive by (optional)"
+          type="datetime-local"
+          {...register('latest_arrival')}
+          error={errors.latest_arrival?.message}
+          min={trip.departure_time.slice(0, 16)}
+          disabled={isSending}
+          helperText="The driver plans pickups so you arrive in time"
+        />
+
         {/* Custom Pickup/Dropoff Locations */}
         <div>
           <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
@@ -287,7 +371,13 @@ export function TripRequestForm({
             {useCustomLocations && (
               <p>• Will specify custom pickup/dropoff locations</p>
             )}
-            <p>• Request expires in 24 hours if not responded to</p>
+            {isWaitlist ? (
+              <p>• You move up automatically when a seat frees up</p>
+            ) : canInstantBook ? (
+              <p>• Confirmed right away, no need to wait for the driver</p>
+            ) : (
+              <p>• Request expires in 24 hours if not responded to</p>
+            )}
           </div>
         </div>
 
@@ -313,14 +403,14 @@ export function TripRequestForm({
             {isSending ? (
               <>
                 <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                <span>Sending Request...</span>
+                <span>{isWaitlist ? 'Joining Waitlist...' : canInstantBook ? 'Booking...' : 'Sending Request...'}</span>
               </>
             ) : (
               <>
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
                 </svg>
-                <span>Send Request</span>
+                <span>{isWaitlist ? 'Join Waitlist' : canInstantBook ? 'Book Now' : 'Send Request'}</span>
               </>
             )}
           </Button>
@@ -32,7 +32,7 @@ export function TripRequestList({
     clearError
   } = useRequestStore();
 
-  const [activeFilter, setActiveFilter] = useState<'all' | 'pending' | 'accepted' | 'declined'>('all');
+  const [activeFilter, setActiveFilter] = useState<'all' | 'pending' | 'waitlisted' | 'accepted' | 'declined'>('all');
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'deadline'>('newest');
 
   // Load requests on mount
@@ -116,6 +116,7 @@ export function TripRequestList({
     return {
       total: all.length,
       pending: all.filter(r => r.status === 'PENDING').length,
+      waitlisted: all.filter(r => r.status === 'WAITLISTED').length,
       accepted: all.filter(r => r.status === 'ACCEPTED').length,
       declined: all.filter(r => r.status === 'DECLINED').length,
     };
@@ -172,6 +173,7 @@ export function TripRequestList({
             {[
               { key: 'all', label: 'All Requests', count: stats.total },
               { key: 'pending', label: 'Pending', count: stats.pending },
+              { key: 'waitlisted', label: 'Waitlisted', count: stats.waitlisted },
               { key: 'accepted', label: 'Accepted', count: stats.accepted },
               { key: 'declined', label: 'Declined', count: stats.declined },
             ].map(({ key, label, count }) => (
@@ -238,6 +240,7 @@ export function TripRequestList({
           title={
             activeFilter === 'all' ? 'No requests yet' :
             activeFilter === 'pending' ? 'No pending requests' :
+            activeFilter === 'waitlisted' ? 'No waitlisted requests' :
             activeFilter === 'accepted' ? 'No accepted requests' :
             'No declined requests'
           }
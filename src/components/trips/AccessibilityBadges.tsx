@@ -0,0 +1,32 @@
+import { Badge } from '../ui';
+import { ACCESSIBILITY_NEEDS } from '../../constants';
+import type { Trip } from '../../types';
+
+interface AccessibilityBadgesProps {
+  trip: Pick<Trip, 'accessibility_needs' | 'vehicle_accessibility'>;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+/**
+ * The riders' accessibility needs and what the vehicle accommodates, as
+ * badges to place among a trip's other badges
+ */
+export function AccessibilityBadges({ trip, size = 'sm' }: AccessibilityBadgesProps) {
+  const needs = ACCESSIBILITY_NEEDS.filter(need => trip.accessibility_needs?.includes(need.value));
+  const vehicle = ACCESSIBILITY_NEEDS.filter(need => trip.vehicle_accessibility?.includes(need.value));
+
+  return (
+    <>
+      {needs.map(need => (
+        <Badge key={`need-${need.value}`} variant="outline" color="blue" size={size}>
+          {need.icon} {need.label}
+        </Badge>
+      ))}
+      {vehicle.map(need => (
+        <Badge key={`vehicle-${need.value}`} variant="outline" color="green" size={size}>
+          {need.icon} {need.vehicleLabel}
+        </Badge>
+      ))}
+    </>
+  );
+}
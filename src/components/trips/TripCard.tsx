@@ -1,5 +1,6 @@
 import { Link } from 'react-router-dom';
 import { Card, Button, Badge } from '../ui';
+import { AccessibilityBadges } from './AccessibilityBadges';
 import { formatDistanceToNow, format } from 'date-fns';
 import type { Trip, TripRequest } from '../../types';
 
@@ -40,6 +41,10 @@ export function TripCard({
         return { text: 'Request Declined', color: 'red', icon: '❌' };
       case 'CANCELLED':
         return { text: 'Request Cancelled', color: 'gray', icon: '🚫' };
+      case 'EXPIRED':
+        return { text: 'Request Expired', color: 'gray', icon: '⌛' };
+      case 'WAITLISTED':
+        return { text: 'On Waitlist', color: 'blue', icon: '🕒' };
       default:
         return null;
     }
@@ -98,6 +103,21 @@ export function TripCard({
                     {availableSeats} {availableSeats === 1 ? 'seat' : 'seats'} available
                   </Badge>
                 )}
+                {trip.instant_book && trip.status === 'ACTIVE' && (
+                  <Badge color="green" variant="outline">
+                    ⚡ Instant Book
+                  </Badge>
+                )}
+                {trip.trip_leg && (
+                  <Badge color="gray" variant="outline">
+                    ⇄ {trip.trip_leg === 'RETURN' ? 'Return trip' : 'Round trip'}
+                  </Badge>
+                )}
+                {trip.series_id && (
+                  <Badge color="gray" variant="outline">
+                    🔁 {trip.is_series_exception ? 'Repeats (edited)' : 'Repeats'}
+                  </Badge>
+                )}
                 {requestStatus && (
                   <Badge color={requestStatus.color as any} variant="outline">
                     {requestStatus.icon} {requestStatus.text}
@@ -234,6 +254,7 @@ export function TripCard({
                 🤫 Quiet
               </Badge>
             )}
+            <AccessibilityBadges trip={trip} />
           </div>
 
           {/* Notes */}
@@ -260,14 +281,25 @@ export function TripCard({
           
           {!userRequest && availableSeats === 0 && (
             <Button
-              disabled
+              onClick={handleJoinRequest}
               className="w-full"
               size="sm"
               variant="outline"
             >
-              Trip is Full
+              Trip is Full · Join Waitlist
             </Button>
           )}
+
+          {userRequest?.status === 'WAITLISTED' && (
+            <div className="text-center">
+              <div className="text-sm text-blue-600 font-medium mb-2">
+                🕒 On the Waitlist
+              </div>
+              <div className="text-xs text-gray-500">
+                You move up automatically when a seat frees up
+              </div>
+            </div>
+          )}
           
           {userRequest?.status === 'PENDING' && (
             <div className="text-center">
@@ -5,7 +5,9 @@ import { useTripStore } from '../../store/tripStore';
 import { useAuthStore } from '../../store/authStore';
 import { RouteDisplay } from '../maps';
 import { Card, Button, Badge, LoadingSpinner, EmptyState } from '../ui';
+import { AccessibilityBadges } from './AccessibilityBadges';
 import { useToast } from '../../hooks/useToast';
+import { TripStateMachine } from '../../services/trips';
 import type { Trip } from '../../types';
 
 interface TripDetailsProps {
@@ -25,6 +27,8 @@ export function TripDetails({ tripId: propTripId, trip: propTrip, className = ''
     getTripById, 
     cancelTrip, 
     deleteTrip,
+    startTrip,
+    completeTrip,
     subscribeToTrip,
     unsubscribeFromTrip,
   } = useTripStore();
@@ -75,6 +79,42 @@ export function TripDetails({ tripId: propTripId, trip: propTrip, className = ''
     }
   };
 
+  const handleStartTrip = async () => {
+    if (!trip || !user) return;
+
+    setIsActionLoading(true);
+    try {
+      const result = await startTrip(trip);
+      if (result.success) {
+        showToast('Trip started', 'success');
+      } else {
+        showToast(result.error || 'Failed to start trip', 'error');
+      }
+    } catch {
+      showToast('An unexpected error occurred', 'error');
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const handleCompleteTrip = async () => {
+    if (!trip || !user) return;
+
+    setIsActionLoading(true);
+    try {
+      const result = await completeTrip(trip);
+      if (result.success) {
+        showToast('Trip completed. Your fellow riders can now be reviewed', 'success');
+      } else {
+        showToast(result.error || 'Failed to complete trip', 'error');
+      }
+    } catch {
+      showToast('An unexpected error occurred', 'error');
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
   const handleDeleteTrip = async () => {
     if (!trip || !user) return;
     
@@ -162,7 +202,13 @@ export function TripDetails({ tripId: propTripId, trip: propTrip, className = ''
   const isOwner = user?.id === trip.user_id;
   const canJoin = !isOwner && trip.status === 'ACTIVE' && availableSeats > 0 && isUpcoming;
   const canEdit = isOwner && ['ACTIVE', 'CANCELLED'].includes(trip.status);
-  const canCancel = isOwner && trip.status === 'ACTIVE' && isUpcoming;
+  const canCancel = isOwner && TripStateMachine.isUpcoming(trip.status) && isUpcoming;
+  // Owners can start a trip shortly before departure; it also starts on its own at departure
+  const canStart =
+    isOwner &&
+    TripStateMachine.isUpcoming(trip.status) &&
+    !TripStateMachine.validateTiming(trip, 'IN_PROGRESS');
+  const canComplete = isOwner && trip.status === 'IN_PROGRESS' && !TripStateMachine.validateTiming(trip, 'COMPLETED');
   const canDelete = isOwner && ['CANCELLED', 'COMPLETED'].includes(trip.status);
 
   const getStatusColor = (status: string) => {
@@ -216,6 +262,20 @@ export function TripDetails({ tripId: propTripId, trip: propTrip, className = ''
             </Button>
           )}
           
+          {canStart && (
+            <Button onClick={handleStartTrip} disabled={isActionLoading}>
+              {isActionLoading ? <LoadingSpinner className="mr-2" /> : null}
+              Start Trip
+            </Button>
+          )}
+          
+          {canComplete && (
+            <Button onClick={handleCompleteTrip} disabled={isActionLoading}>
+              {isActionLoading ? <LoadingSpinner className="mr-2" /> : null}
+              Complete Trip
+            </Button>
+          )}
+          
           {canCancel && (
             <Button 
               variant="outline" 
@@ -432,6 +492,15 @@ export function TripDetails({ tripId: propTripId, trip: propTrip, className = ''
                    trip.conversation_level === 'quiet' ? 'Quiet' : 'No Preference'}
                 </Badge>
               </div>
+
+              {Boolean(trip.accessibility_needs?.length || trip.vehicle_accessibility?.length) && (
+                <div className="flex items-start justify-between gap-4">
+                  <span className="text-sm text-gray-700">Accessibility</span>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <AccessibilityBadges trip={trip} />
+                  </div>
+                </div>
+              )}
             </div>
           </Card>
         </div>
@@ -5,6 +5,12 @@ import { PlacesAutocomplete } from '../maps';
 import { Input, Select, Button, Card, Checkbox, Collapsible } from '../ui';
 import { useState } from 'react';
 import type { TripFilterFormData } from '../../utils/validations';
+import type { LocationData } from '../../types';
+
+const RADIUS_OPTIONS = [
+  { value: '', label: 'Any distance' },
+  ...[1, 2, 5, 10, 25, 50].map(km => ({ value: String(km), label: `Within ${km} km` })),
+];
 
 interface TripFiltersProps {
   onFiltersChange: (filters: TripFilterFormData) => void;
@@ -38,12 +44,21 @@ export function TripFilters({
 
   const watchedFilters = watch();
 
-  const handleOriginChange = (value: string) => {
+  // Radius search needs coordinates, which only a selected place provides
+  const handleOriginChange = (value: string, location?: LocationData) => {
     setValue('origin', value);
+    setValue('origin_lat', location?.coordinates.lat);
+    setValue('origin_lng', location?.coordinates.lng);
   };
 
-  const handleDestinationChange = (value: string) => {
+  const handleDestinationChange = (value: string, location?: LocationData) => {
     setValue('destination', value);
+    setValue('destination_lat', location?.coordinates.lat);
+    setValue('destination_lng', location?.coordinates.lng);
+  };
+
+  const handleRadiusChange = (field: 'origin_radius' | 'destination_radius') => (value: string) => {
+    setValue(field, value ? Number(value) : undefined);
   };
 
   const onSubmit = (data: TripFilterFormData) => {
@@ -102,6 +117,16 @@ export function TripFilters({
               error={errors.origin?.message}
               types={['geocode']}
             />
+
+            {watchedFilters.origin_lat !== undefined && (
+              <Select
+                label="Distance from my origin"
+                value={watchedFilters.origin_radius ? String(watchedFilters.origin_radius) : ''}
+                onChange={handleRadiusChange('origin_radius')}
+                options={RADIUS_OPTIONS}
+                error={errors.origin_radius?.message}
+              />
+            )}
             
             <PlacesAutocomplete
               label="To"
@@ -111,6 +136,16 @@ export function TripFilters({
               error={errors.destination?.message}
               types={['geocode']}
             />
+
+            {watchedFilters.destination_lat !== undefined && (
+              <Select
+                label="Distance from my destination"
+                value={watchedFilters.destination_radius ? String(watchedFilters.destination_radius) : ''}
+                onChange={handleRadiusChange('destination_radius')}
+                options={RADIUS_OPTIONS}
+                error={errors.destination_radius?.message}
+              />
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Badge, Button, Card, EmptyState, LoadingSpinner } from '../ui';
+import { useToast } from '../../hooks/useToast';
+import { manifestService } from '../../services/supabase';
+import { PassengerManifest } from '../../services/trips';
+import type { BoardingStatus, ManifestEntry, Trip } from '../../types';
+
+interface TripManifestProps {
+  trip: Pick<Trip, 'id' | 'status' | 'max_passengers'>;
+}
+
+const STATUS_BADGES: Record<BoardingStatus, { text: string; color: 'gray' | 'green' | 'red' | 'blue' }> = {
+  CONFIRMED: { text: 'Confirmed', color: 'blue' },
+  BOARDED: { text: 'Boarded', color: 'green' },
+  NO_SHOW: { text: 'No-show', color: 'red' },
+  DROPPED_OFF: { text: 'Dropped off', color: 'gray' },
+};
+
+const ACTION_LABELS: Record<BoardingStatus, string> = {
+  CONFIRMED: 'Confirmed',
+  BOARDED: 'Boarded',
+  NO_SHOW: 'No-show',
+  DROPPED_OFF: 'Dropped off',
+};
+
+/**
+ * The driver's list of confirmed passengers, with their seats, luggage and
+ * pickup and dropoff points. While the trip is in progress the driver
+ * records who boarded, who did not show up and who was dropped off.
+ */
+export function TripManifest({ trip }: TripManifestProps) {
+  const { showToast } = useToast();
+  const [entries, setEntries] = useState<ManifestEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    manifestService.getTripManifest(trip.id).then(({ entries: loaded, error }) => {
+      if (cancelled) return;
+
+      setEntries(loaded);
+      setLoadError(error);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trip.id]);
+
+  const updateStatus = async (entry: ManifestEntry, to: BoardingStatus) => {
+    setUpdatingId(entry.id);
+    const { entry: updated, error } = await manifestService.updateBoardingStatus(trip, entry, to);
+    setUpdatingId(null);
+
+    if (!updated) {
+      showToast(error || 'Failed to update passenger', 'error');
+      return;
+    }
+
+    setEntries(current => current.map(e => (e.id === updated.id ? updated : e)));
+  };
+
+  const summary = PassengerManifest.summarize(trip, entries);
+  const canBoard = trip.status === 'IN_PROGRESS';
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Passengers</h2>
+        <span className="text-sm text-gray-600">
+          {summary.passengers} of {trip.max_passengers} seats taken
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : loadError ? (
+        <p className="text-sm text-red-600">{loadError}</p>
+      ) : entries.length === 0 ? (
+        <EmptyState
+          title="No passengers yet"
+          description="Passengers appear here once you accept their requests."
+        />
+      ) : (
+        <>
+          {canBoard && (
+            <p className="text-sm text-gray-600 mb-4">
+              {summary.byStatus.BOARDED} on board · {summary.byStatus.CONFIRMED} waiting ·{' '}
+              {summary.byStatus.NO_SHOW} no-show · {summary.byStatus.DROPPED_OFF} dropped off
+            </p>
+          )}
+
+          <ul className="divide-y">
+            {entries.map(entry => {
+              const badge = STATUS_BADGES[entry.status];
+
+              return (
+                <li key={entry.id} className="py-4 first:pt-0 last:pb-0">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start space-x-3">
+                      <div className="w-10 h-10 rounded-full bg-gray-300 flex items-center justify-center flex-shrink-0">
+                        <span className="font-medium text-gray-600">
+                          {entry.passenger?.name?.charAt(0).toUpperCase() || 'P'}
+                        </span>
+                      </div>
+                      <div className="text-sm">
+                        <p className="font-medium text-gray-900">{entry.passenger?.name || 'Passenger'}</p>
+                        <p className="text-gray-600">
+                          {entry.seats} {entry.seats === 1 ? 'seat' : 'seats'}
+                          {Boolean(entry.small_bags || entry.large_bags) && (
+                            <> · 🧳 {entry.small_bags} small, {entry.large_bags} large</>
+                          )}
+                          {entry.passenger?.phone && <> · {entry.passenger.phone}</>}
+                        </p>
+                        {entry.pickup_location && (
+                          <p className="text-gray-600">
+                            <span className="font-medium">Pickup:</span> {entry.pickup_location.address}
+                          </p>
+                        )}
+                        {entry.dropoff_location && (
+                          <p className="text-gray-600">
+                            <span className="font-medium">Dropoff:</span> {entry.dropoff_location.address}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <Badge color={badge.color} size="sm">
+                      {badge.text}
+                    </Badge>
+                  </div>
+
+                  {canBoard && PassengerManifest.TRANSITIONS[entry.status].length > 0 && (
+                    <div className="flex gap-2 mt-3 ml-13">
+                      {PassengerManifest.TRANSITIONS[entry.status].map(to => (
+                        <Button
+                          key={to}
+                          size="sm"
+                          variant={to === 'NO_SHOW' ? 'outline' : 'primary'}
+                          onClick={() => updateStatus(entry, to)}
+                          disabled={updatingId === entry.id}
+                        >
+                          {ACTION_LABELS[to]}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </Card>
+  );
+}
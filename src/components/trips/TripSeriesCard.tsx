@@ -0,0 +1,103 @@
+import { format } from 'date-fns';
+import { Card, Button, Badge, LoadingSpinner } from '../ui';
+import { describeRecurrence } from '../../utils/recurrence';
+import type { TripSeries } from '../../types';
+import type { SeriesMatch } from '../../services/matching/seriesMatcher';
+
+interface TripSeriesCardProps {
+  series: TripSeries;
+  matches?: SeriesMatch[]; // other series matching this one, once searched
+  onCancel?: (seriesId: string) => void;
+  onFindMatches?: (seriesId: string) => void;
+  onJoin?: (match: SeriesMatch) => void;
+  isBusy?: boolean;
+  className?: string;
+}
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy');
+
+export function TripSeriesCard({
+  series,
+  matches,
+  onCancel,
+  onFindMatches,
+  onJoin,
+  isBusy = false,
+  className = '',
+}: TripSeriesCardProps) {
+  const isActive = series.status === 'ACTIVE';
+
+  return (
+    <Card className={`p-6 ${className}`}>
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <div className="flex items-center space-x-2 mb-2">
+            <Badge color={isActive ? 'green' : 'red'}>{isActive ? 'Active' : 'Cancelled'}</Badge>
+            <Badge color="gray" variant="outline">
+              🔁 {describeRecurrence(series)}
+            </Badge>
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {series.template.origin} → {series.template.destination}
+          </h3>
+          <p className="text-sm text-gray-500 mt-1">
+            From {formatDate(series.start_date)}
+            {series.end_date ? ` until ${formatDate(series.end_date)}` : ''}
+            {series.excluded_dates.length > 0 &&
+              ` · ${series.excluded_dates.length} skipped ${series.excluded_dates.length === 1 ? 'date' : 'dates'}`}
+          </p>
+        </div>
+
+        {isActive && (
+          <div className="flex space-x-2">
+            {onFindMatches && (
+              <Button size="sm" variant="outline" onClick={() => onFindMatches(series.id)} disabled={isBusy}>
+                {isBusy ? <LoadingSpinner className="w-4 h-4" /> : 'Find matching series'}
+              </Button>
+            )}
+            {onCancel && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onCancel(series.id)}
+                disabled={isBusy}
+                className="text-red-600 border-red-200 hover:bg-red-50"
+              >
+                Cancel series
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {matches && (
+        <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+          {matches.length === 0 ? (
+            <p className="text-sm text-gray-600">No recurring trips match this schedule yet.</p>
+          ) : (
+            matches.map((match) => {
+              const user = match.occurrences[0].matchedTrip.user;
+
+              return (
+                <div key={match.seriesId} className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{user?.name ?? 'Another rider'}</p>
+                    <p className="text-sm text-gray-600">
+                      Matches {match.occurrences.length} of {match.totalOccurrences} trips ·{' '}
+                      {Math.round(match.averageScore * 100)}% compatible
+                    </p>
+                  </div>
+                  {onJoin && (
+                    <Button size="sm" onClick={() => onJoin(match)} disabled={isBusy}>
+                      Request all rides
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
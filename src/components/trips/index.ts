@@ -1,4 +1,6 @@
 export { TripCard } from './TripCard';
 export { TripFilters } from './TripFilters';
 export { TripList } from './TripList';
-export { TripDetails } from './TripDetails';
\ No newline at end of file
+export { TripDetails } from './TripDetails';export { TripSeriesCard } from './TripSeriesCard';
+export { AccessibilityBadges } from './AccessibilityBadges';
+export { TripManifest } from './TripManifest';
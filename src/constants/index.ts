@@ -22,6 +22,7 @@ export const ROUTES = {
   PROFILE: '/profile',
   SETTINGS: '/settings',
   NOTIFICATIONS: '/notifications',
+  ADMIN_PICKUP_SPOTS: '/admin/pickup-spots',
 } as const;
 
 export const TRIP_STATUS = {
@@ -37,6 +38,8 @@ export const REQUEST_STATUS = {
   ACCEPTED: 'ACCEPTED',
   DECLINED: 'DECLINED',
   CANCELLED: 'CANCELLED',
+  WAITLISTED: 'WAITLISTED',
+  EXPIRED: 'EXPIRED',
 } as const;
 
 export const MATCH_TYPES = {
@@ -101,6 +104,14 @@ export const PREFERENCES = {
   ],
 } as const;
 
+// `label` describes a traveller's need, `vehicleLabel` a vehicle that accommodates it
+export const ACCESSIBILITY_NEEDS = [
+  { value: 'wheelchair', label: 'Wheelchair user', vehicleLabel: 'Wheelchair accessible', icon: '♿' },
+  { value: 'step_free', label: 'Step-free access', vehicleLabel: 'Step-free entry', icon: '🛗' },
+  { value: 'assistance_animal', label: 'Assistance animal', vehicleLabel: 'Assistance animals welcome', icon: '🦮' },
+  { value: 'extra_luggage_space', label: 'Extra luggage space', vehicleLabel: 'Extra luggage space', icon: '🧳' },
+] as const;
+
 export const PAYMENT_METHODS = [
   { value: 'cash', label: 'Cash' },
   { value: 'card', label: 'Card' },
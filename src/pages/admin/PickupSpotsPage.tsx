@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { Navbar } from '../../components/layout';
+import { Button, Input, Card, Badge, EmptyState, LoadingSpinner } from '../../components/ui';
+import { useAuthStore } from '../../store/authStore';
+import { useToast } from '../../hooks/useToast';
+import { pickupSpotService } from '../../services/supabase';
+import type { GeoJsonFeatureCollection } from '../../services/poi';
+import type { PickupSpot } from '../../types';
+
+export function PickupSpotsPage() {
+  const { user } = useAuthStore();
+  const { showToast } = useToast();
+
+  const [city, setCity] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [spots, setSpots] = useState<PickupSpot[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  if (!user?.is_admin) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <EmptyState
+            title="Admins only"
+            description="Ask an administrator to upload official pickup spots for your city."
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const loadSpots = async () => {
+    if (!city.trim()) return;
+
+    setIsBusy(true);
+    const result = await pickupSpotService.getCitySpots(city.trim());
+    setIsBusy(false);
+
+    if (result.error) {
+      showToast(result.error, 'error');
+    } else {
+      setSpots(result.spots);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!city.trim() || !file) {
+      showToast('Choose a city and a GeoJSON file', 'error');
+      return;
+    }
+
+    let collection: GeoJsonFeatureCollection;
+    try {
+      collection = JSON.parse(await file.text()) as GeoJsonFeatureCollection;
+      if (collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+        throw new Error('Not a FeatureCollection');
+      }
+    } catch {
+      showToast('The file is not a GeoJSON FeatureCollection', 'error');
+      return;
+    }
+
+    setIsBusy(true);
+    const result = await pickupSpotService.uploadSpots(user.id, city.trim(), collection);
+    setIsBusy(false);
+
+    if (result.error) {
+      showToast(result.error, 'error');
+    } else {
+      setSpots(result.spots);
+      showToast(`Uploaded ${result.spots.length} pickup spots for ${city.trim()}`, 'success');
+    }
+  };
+
+  const toggleSpot = async (spot: PickupSpot) => {
+    const { error } = await pickupSpotService.setSpotActive(spot.id, !spot.is_active);
+
+    if (error) {
+      showToast(error, 'error');
+      return;
+    }
+
+    setSpots(current => current?.map(s => (s.id === spot.id ? { ...s, is_active: !spot.is_active } : s)) ?? null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Official Pickup Spots</h1>
+          <p className="text-gray-600">
+            Curated meeting points suggested to riders before any other place nearby
+          </p>
+        </div>
+
+        <Card className="p-6 mb-8 space-y-4">
+          <Input
+            label="City"
+            value={city}
+            onChange={(e) => setCity(e.target.value)}
+            placeholder="e.g., Berlin"
+            required
+          />
+          <Input
+            label="GeoJSON file"
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            helperText="Points or polygons with a name; uploading replaces the city's current spots"
+          />
+          <div className="flex space-x-3">
+            <Button onClick={handleUpload} disabled={isBusy || !city.trim() || !file}>
+              {isBusy ? <LoadingSpinner className="w-4 h-4" /> : 'Upload spots'}
+            </Button>
+            <Button variant="outline" onClick={loadSpots} disabled={isBusy || !city.trim()}>
+              Show current spots
+            </Button>
+          </div>
+        </Card>
+
+        {spots && (
+          spots.length === 0 ? (
+            <EmptyState title="No pickup spots" description={`${city.trim()} has no official pickup spots yet.`} />
+          ) : (
+            <Card className="divide-y divide-gray-200">
+              {spots.map((spot) => (
+                <div key={spot.id} className="flex items-center justify-between p-4">
+                  <div>
+                    <p className="font-medium text-gray-900">{spot.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {spot.lat.toFixed(5)}, {spot.lng.toFixed(5)}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {spot.types.map((type) => (
+                        <Badge key={type} color="gray" size="sm">
+                          {type.replace(/_/g, ' ')}
+                        </Badge>
+                      ))}
+                      {spot.wheelchair_accessible && (
+                        <Badge color="blue" size="sm">
+                          ♿ Accessible
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => toggleSpot(spot)}>
+                    {spot.is_active ? 'Hide' : 'Show'}
+                  </Button>
+                </div>
+              ))}
+            </Card>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
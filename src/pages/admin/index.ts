@@ -0,0 +1 @@
+export { PickupSpotsPage } from './PickupSpotsPage';
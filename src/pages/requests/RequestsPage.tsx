@@ -12,6 +12,8 @@ export function RequestsPage() {
 
   const pendingReceived = receivedRequests.filter(r => r.status === 'PENDING').length;
   const pendingSent = sentRequests.filter(r => r.status === 'PENDING').length;
+  const waitlistedReceived = receivedRequests.filter(r => r.status === 'WAITLISTED').length;
+  const waitlistedSent = sentRequests.filter(r => r.status === 'WAITLISTED').length;
 
   const tabs = [
     {
@@ -19,6 +21,7 @@ export function RequestsPage() {
       label: 'Received',
       count: receivedRequests.length,
       pending: pendingReceived,
+      waitlisted: waitlistedReceived,
       description: 'Requests from others to join your trips'
     },
     {
@@ -26,6 +29,7 @@ export function RequestsPage() {
       label: 'Sent',
       count: sentRequests.length,
       pending: pendingSent,
+      waitlisted: waitlistedSent,
       description: 'Your requests to join other trips'
     }
   ];
@@ -70,6 +74,11 @@ export function RequestsPage() {
                       {tab.pending} pending
                     </Badge>
                   )}
+                  {tab.waitlisted > 0 && (
+                    <Badge color="blue" size="sm">
+                      {tab.waitlisted} waitlisted
+                    </Badge>
+                  )}
                 </div>
               </div>
               <p className="text-sm text-gray-600 mb-4">
@@ -21,6 +21,17 @@ export function CreateTripPage() {
     navigate(`${ROUTES.TRIPS}/${tripId}`);
   };
 
+  const handleSeriesCreated = () => {
+    addToast({
+      type: 'success',
+      title: 'Recurring Trip Created!',
+      message: 'Trips for the coming two weeks have been created and new ones are added as time goes on.',
+      duration: 5000,
+    });
+
+    navigate(ROUTES.MY_TRIPS);
+  };
+
   const handleCancel = () => {
     navigate(ROUTES.TRIPS);
   };
@@ -57,6 +68,7 @@ export function CreateTripPage() {
         {/* Trip Creation Form */}
         <TripForm
           onSuccess={handleTripCreated}
+          onSeriesSuccess={handleSeriesCreated}
           onCancel={handleCancel}
           className="max-w-4xl"
         />
@@ -2,26 +2,44 @@ import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useTripStore } from '../../store/tripStore';
 import { useAuthStore } from '../../store/authStore';
-import { TripCard } from '../../components/trips';
+import { useMatchStore } from '../../store/matchStore';
+import { TripCard, TripSeriesCard } from '../../components/trips';
 import { Button, Card, Badge, LoadingSpinner, EmptyState, Tabs } from '../../components/ui';
 import { ROUTES } from '../../constants';
+import { useToast } from '../../hooks/useToast';
 import type { Trip } from '../../types';
+import type { SeriesMatch } from '../../services/matching/seriesMatcher';
 
 type TripTab = 'active' | 'completed' | 'cancelled' | 'all';
 
 export function MyTripsPage() {
   const { user } = useAuthStore();
-  const { userTrips, isLoading, error, getUserTrips, cancelTrip, deleteTrip } = useTripStore();
+  const {
+    userTrips,
+    userSeries,
+    isLoading,
+    error,
+    getUserTrips,
+    getUserSeries,
+    cancelTrip,
+    deleteTrip,
+    cancelSeries,
+    skipOccurrence,
+  } = useTripStore();
+  const { findSeriesMatches, joinSeries } = useMatchStore();
+  const { showToast } = useToast();
   
   const [activeTab, setActiveTab] = useState<TripTab>('active');
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [seriesMatches, setSeriesMatches] = useState<Record<string, SeriesMatch[]>>({});
 
   useEffect(() => {
     if (user) {
       // Load all user trips
       getUserTrips(user.id);
+      getUserSeries(user.id);
     }
-  }, [user, getUserTrips]);
+  }, [user, getUserTrips, getUserSeries]);
 
   const handleCancelTrip = async (tripId: string) => {
     if (!confirm('Are you sure you want to cancel this trip? This action cannot be undone.')) {
@@ -36,6 +54,64 @@ export function MyTripsPage() {
     }
   };
 
+  // Skipping keeps the rest of the series running and stops this date from coming back
+  const handleSkipOccurrence = async (trip: Trip) => {
+    if (!confirm('Skip this trip? The rest of the series is not affected.')) {
+      return;
+    }
+
+    setActionLoading(trip.id);
+    try {
+      await skipOccurrence(trip);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleCancelSeries = async (seriesId: string) => {
+    if (!confirm('Cancel this recurring trip and all of its upcoming trips? This action cannot be undone.')) {
+      return;
+    }
+
+    setActionLoading(seriesId);
+    try {
+      await cancelSeries(seriesId);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleFindSeriesMatches = async (seriesId: string) => {
+    setActionLoading(seriesId);
+    try {
+      const matches = await findSeriesMatches(seriesId);
+      setSeriesMatches((current) => ({ ...current, [seriesId]: matches }));
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleJoinSeries = async (seriesId: string, match: SeriesMatch) => {
+    if (!user) return;
+
+    setActionLoading(seriesId);
+    try {
+      const result = await joinSeries(user.id, match);
+
+      if (result.success) {
+        showToast(`Requested ${result.requested} ${result.requested === 1 ? 'ride' : 'rides'}`, 'success');
+        setSeriesMatches((current) => ({
+          ...current,
+          [seriesId]: (current[seriesId] ?? []).filter(m => m.seriesId !== match.seriesId),
+        }));
+      } else {
+        showToast(result.error || 'Failed to request rides', 'error');
+      }
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleDeleteTrip = async (tripId: string) => {
     if (!confirm('Are you sure you want to delete this trip? This action cannot be undone.')) {
       return;
@@ -178,6 +254,26 @@ export function MyTripsPage() {
           </Card>
         </div>
 
+        {/* Recurring Trips */}
+        {userSeries.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Recurring Trips</h2>
+            <div className="space-y-4">
+              {userSeries.map((series) => (
+                <TripSeriesCard
+                  key={series.id}
+                  series={series}
+                  matches={seriesMatches[series.id]}
+                  onCancel={handleCancelSeries}
+                  onFindMatches={handleFindSeriesMatches}
+                  onJoin={(match) => handleJoinSeries(series.id, match)}
+                  isBusy={actionLoading === series.id}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Trip Tabs */}
         <Card className="mb-6">
           <Tabs
@@ -255,14 +351,14 @@ export function MyTripsPage() {
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => handleCancelTrip(trip.id)}
+                        onClick={() => trip.series_id ? handleSkipOccurrence(trip) : handleCancelTrip(trip.id)}
                         disabled={actionLoading === trip.id}
                         className="text-red-600 border-red-200 hover:bg-red-50"
                       >
                         {actionLoading === trip.id ? (
                           <LoadingSpinner className="w-4 h-4" />
                         ) : (
-                          'Cancel'
+                          trip.series_id ? 'Skip' : 'Cancel'
                         )}
                       </Button>
                     </>
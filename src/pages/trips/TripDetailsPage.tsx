@@ -7,6 +7,7 @@ import { useRequestStore } from '../../store/requestStore';
 import { RouteDisplay } from '../../components/maps';
 import { Button, Card, Badge, LoadingSpinner } from '../../components/ui';
 import { TripRequestModal } from '../../components/requests';
+import { AccessibilityBadges, TripManifest } from '../../components/trips';
 import { ROUTES } from '../../constants';
 import type { Trip } from '../../types';
 
@@ -265,7 +266,8 @@ export function TripDetailsPage() {
               {/* Preferences */}
               {(currentTrip.smoking_allowed || currentTrip.pets_allowed || 
                 currentTrip.music_preference !== 'indifferent' || 
-                currentTrip.conversation_level !== 'indifferent') && (
+                currentTrip.conversation_level !== 'indifferent' ||
+                Boolean(currentTrip.accessibility_needs?.length || currentTrip.vehicle_accessibility?.length)) && (
                 <div className="mt-6 pt-6 border-t">
                   <h3 className="font-medium text-gray-900 mb-3">Preferences</h3>
                   <div className="flex flex-wrap gap-2">
@@ -299,6 +301,7 @@ export function TripDetailsPage() {
                         🤫 Quiet
                       </Badge>
                     )}
+                    <AccessibilityBadges trip={currentTrip} />
                   </div>
                 </div>
               )}
@@ -313,6 +316,9 @@ export function TripDetailsPage() {
                 </div>
               )}
             </Card>
+
+            {/* Passenger manifest, for the driver */}
+            {isOwner && <TripManifest trip={currentTrip} />}
           </div>
 
           {/* Sidebar */}
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DetourCalculator } from '../detourCalculator';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../routing';
+
+// Points along a straight north-south line so the expected detours are easy to reason about
+const driverOrigin = { lat: 40.7, lng: -74.0 };
+const driverDestination = { lat: 40.8, lng: -74.0 };
+const onRoutePickup = { lat: 40.72, lng: -74.0 };
+const onRouteDropoff = { lat: 40.78, lng: -74.0 };
+
+describe('DetourCalculator', () => {
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1, drivingSpeed: 60 }));
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('should add no detour when pickup and dropoff lie on the driver route', async () => {
+    const result = await DetourCalculator.findBestInsertion(
+      [driverOrigin, driverDestination],
+      onRoutePickup,
+      onRouteDropoff
+    );
+
+    expect(result.sequence).toEqual([driverOrigin, onRoutePickup, onRouteDropoff, driverDestination]);
+    expect(result.pickupIndex).toBe(1);
+    expect(result.dropoffIndex).toBe(2);
+    expect(result.addedDistance).toBeCloseTo(0, 5);
+    expect(result.addedTime).toBeCloseTo(0, 5);
+    expect(result.baseDistance).toBeCloseTo(11.12, 1);
+  });
+
+  it('should measure the extra driving for an off-route passenger', async () => {
+    const pickup = { lat: 40.72, lng: -74.05 };
+    const result = await DetourCalculator.findBestInsertion(
+      [driverOrigin, driverDestination],
+      pickup,
+      onRouteDropoff
+    );
+
+    expect(result.addedDistance).toBeGreaterThan(0);
+    expect(result.totalDistance).toBeCloseTo(result.baseDistance + result.addedDistance, 5);
+    // 60 km/h means one minute per km
+    expect(result.addedTime).toBeCloseTo(result.addedDistance, 5);
+  });
+
+  it('should keep existing stops in order when inserting a new passenger', async () => {
+    const existingPickup = { lat: 40.71, lng: -74.0 };
+    const existingDropoff = { lat: 40.79, lng: -74.0 };
+
+    const result = await DetourCalculator.findBestInsertion(
+      [driverOrigin, existingPickup, existingDropoff, driverDestination],
+      onRoutePickup,
+      onRouteDropoff
+    );
+
+    expect(result.sequence).toEqual([
+      driverOrigin,
+      existingPickup,
+      onRoutePickup,
+      onRouteDropoff,
+      existingDropoff,
+      driverDestination,
+    ]);
+    expect(result.pickupIndex).toBe(2);
+    expect(result.dropoffIndex).toBe(3);
+    expect(result.addedDistance).toBeCloseTo(0, 5);
+  });
+
+  it('should reject a route without origin and destination', async () => {
+    await expect(
+      DetourCalculator.findBestInsertion([driverOrigin], onRoutePickup, onRouteDropoff)
+    ).rejects.toThrow('origin and a destination');
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { LuggageCapacity } from '../luggage';
+
+describe('LuggageCapacity', () => {
+  it('should let small bags use space left for large ones, not the other way round', () => {
+    const space = { small: 1, large: 1 };
+
+    expect(LuggageCapacity.fits(space, { small: 2, large: 0 })).toBe(true);
+    expect(LuggageCapacity.fits(space, { small: 2, large: 1 })).toBe(false);
+    expect(LuggageCapacity.fits(space, { small: 0, large: 2 })).toBe(false);
+  });
+
+  it('should count the bags on board against the vehicle, without limits where none are stated', () => {
+    expect(
+      LuggageCapacity.remaining({ max_small_bags: 2, max_large_bags: 2, current_small_bags: 3, current_large_bags: 0 })
+    ).toEqual({ small: 0, large: 1 });
+    expect(LuggageCapacity.remaining({ max_large_bags: 1, current_large_bags: 1 })).toEqual({ small: Infinity, large: 0 });
+  });
+});
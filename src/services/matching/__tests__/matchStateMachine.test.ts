@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { MatchStateMachine } from '../matchStateMachine';
+
+const future = '2030-01-01T08:00:00.000Z';
+
+describe('MatchStateMachine', () => {
+  it('should allow moving a match forward and reject going back', () => {
+    expect(MatchStateMachine.canTransition('SUGGESTED', 'VIEWED')).toBe(true);
+    expect(MatchStateMachine.canTransition('VIEWED', 'ACCEPTED')).toBe(true);
+    expect(MatchStateMachine.canTransition('VIEWED', 'VIEWED')).toBe(true);
+
+    expect(MatchStateMachine.validateTransition('CONTACTED', 'VIEWED')).toBe('Cannot change a contacted match to viewed');
+    expect(MatchStateMachine.validateTransition('DECLINED', 'ACCEPTED')).not.toBeNull();
+    expect(MatchStateMachine.validateTransition('ACCEPTED', 'DECLINED')).not.toBeNull();
+  });
+
+  it('should only revive matches that expired for reasons that can clear up', () => {
+    expect(MatchStateMachine.canRevive({ status: 'EXPIRED', expiry_reason: 'no_longer_compatible' })).toBe(true);
+    expect(MatchStateMachine.canRevive({ status: 'EXPIRED', expiry_reason: 'trip_unavailable' })).toBe(true);
+    expect(MatchStateMachine.canRevive({ status: 'EXPIRED', expiry_reason: 'trip_cancelled' })).toBe(false);
+    expect(MatchStateMachine.canRevive({ status: 'DECLINED' })).toBe(false);
+  });
+
+  it('should stamp viewed and contacted times and record expiry reasons', () => {
+    expect(MatchStateMachine.statusUpdate('VIEWED').viewed_at).toBeDefined();
+    expect(MatchStateMachine.statusUpdate('CONTACTED').contacted_at).toBeDefined();
+    expect(MatchStateMachine.statusUpdate('EXPIRED')).toEqual({ status: 'EXPIRED', expiry_reason: 'expired' });
+    expect(MatchStateMachine.statusUpdate('EXPIRED', 'trip_cancelled').expiry_reason).toBe('trip_cancelled');
+  });
+
+  it('should invalidate matches of trips that cannot take riders', () => {
+    expect(
+      MatchStateMachine.invalidationReason({ status: 'ACTIVE', available_seats: 2, departure_time: future })
+    ).toBeNull();
+    expect(
+      MatchStateMachine.invalidationReason({ status: 'CANCELLED', available_seats: 2, departure_time: future })
+    ).toBe('trip_cancelled');
+    expect(
+      MatchStateMachine.invalidationReason({ status: 'ACTIVE', available_seats: 0, departure_time: future })
+    ).toBe('trip_unavailable');
+    expect(
+      MatchStateMachine.invalidationReason({
+        status: 'ACTIVE',
+        available_seats: 2,
+        departure_time: '2020-01-01T08:00:00.000Z',
+      })
+    ).toBe('expired');
+
+    // Accepted matches only fall through when the trip is cancelled
+    expect(MatchStateMachine.invalidatedStatuses('trip_cancelled')).toContain('ACCEPTED');
+    expect(MatchStateMachine.invalidatedStatuses('trip_unavailable')).not.toContain('ACCEPTED');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../routing';
+import { createMockTrip } from '../../../test/utils';
+import type { UserPreferences } from '../../../types';
+
+const preferences = (overrides: Partial<UserPreferences> = {}) =>
+  ({
+    smoking_preference: 'no',
+    pets_preference: 'indifferent',
+    music_preference: 'indifferent',
+    conversation_level: 'indifferent',
+    max_detour_distance: 10,
+    max_detour_time: 15,
+    max_walking_distance: 500,
+    time_flexibility: 30,
+    price_range_min: 0,
+    price_range_max: 100,
+    ...overrides,
+  }) as UserPreferences;
+
+describe('MatchingAlgorithm matching weights', () => {
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1, drivingSpeed: 60 }));
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('should use the weights of the chosen profile', () => {
+    expect(MatchingAlgorithm.resolveWeights()).toEqual(MatchingAlgorithm.MATCHING_PROFILES.balanced);
+    expect(MatchingAlgorithm.resolveWeights(preferences({ matching_profile: 'on_time' }))).toEqual(
+      MatchingAlgorithm.MATCHING_PROFILES.on_time
+    );
+  });
+
+  it('should normalize custom weights and fall back to balanced when they are empty', () => {
+    const weights = MatchingAlgorithm.resolveWeights(
+      preferences({
+        matching_profile: 'custom',
+        custom_weights: { route: 2, time: 2, preferences: 0, distance: 0, price: 4 },
+      })
+    );
+
+    expect(weights).toEqual({ route: 0.25, time: 0.25, preferences: 0, distance: 0, price: 0.5 });
+    expect(
+      MatchingAlgorithm.resolveWeights(preferences({ matching_profile: 'custom', custom_weights: undefined }))
+    ).toEqual(MatchingAlgorithm.MATCHING_PROFILES.balanced);
+  });
+
+  it('should shift the score towards the prioritized factor', async () => {
+    // Leaves an hour later, well outside the 30 minute flexibility
+    const candidate = createMockTrip('candidate', { departure_time: '2030-01-01T09:00:00.000Z' });
+
+    const [balanced] = await MatchingAlgorithm.findCompatibleTrips(createMockTrip('source'), [candidate], preferences());
+    const [onTime] = await MatchingAlgorithm.findCompatibleTrips(
+      createMockTrip('source'),
+      [candidate],
+      preferences({ matching_profile: 'on_time' })
+    );
+
+    expect(onTime.overallScore).toBeLessThan(balanced.overallScore);
+    expect(onTime.explanation.factors.find(factor => factor.factor === 'time').weight).toBe(0.5);
+  });
+
+  it('should exclude trips that fail a hard filter and keep soft mismatches', async () => {
+    const smoker = createMockTrip('smoker', { smoking_allowed: true });
+
+    const soft = await MatchingAlgorithm.findCompatibleTrips(createMockTrip('source'), [smoker], preferences());
+    const hard = await MatchingAlgorithm.findCompatibleTrips(
+      createMockTrip('source'),
+      [smoker],
+      preferences({ hard_filters: ['smoking'] })
+    );
+
+    expect(soft.map(match => match.tripId)).toEqual(['smoker']);
+    expect(hard).toEqual([]);
+  });
+
+  it('should drop matches below the minimum score', async () => {
+    const candidate = createMockTrip('candidate', { departure_time: '2030-01-01T09:00:00.000Z' });
+
+    const matches = await MatchingAlgorithm.findCompatibleTrips(
+      createMockTrip('source'),
+      [candidate],
+      preferences({ min_match_score: 0.99 })
+    );
+
+    expect(matches).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MeetingPointService } from '../meetingPoints';
+import { OfflineRoutingProvider, getRoutingProvider, setRoutingProvider } from '../../routing';
+import { OfflinePoiProvider, setPoiProvider } from '../../poi';
+
+const location = (lat: number, lng = -74.0) => ({
+  address: `${lat},${lng}`,
+  coordinates: { lat, lng },
+  placeId: '',
+});
+
+describe('MeetingPointService.findOptimalMeetingPoints', () => {
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1 }));
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+    setPoiProvider(null);
+  });
+
+  it('should score points on the route by the places around them', async () => {
+    setPoiProvider(
+      new OfflinePoiProvider([
+        { id: 'station', coordinates: { lat: 40.75, lng: -74.001 }, types: ['transit_station'], wheelchairAccessible: true },
+        { id: 'bar', coordinates: { lat: 40.71, lng: -74.001 }, types: ['bar', 'night_club'] },
+      ])
+    );
+    const route = await getRoutingProvider().getDirections({ lat: 40.7, lng: -74.0 }, { lat: 40.8, lng: -74.0 });
+
+    const [nearStation] = await MeetingPointService.findOptimalMeetingPoints(route, location(40.75, -74.002));
+    const [nearBar] = await MeetingPointService.findOptimalMeetingPoints(route, location(40.71, -74.002));
+
+    expect(nearStation.nearbyPOIs.map(poi => poi.id)).toContain('station');
+    expect(nearStation.safetyScore).toBeGreaterThan(nearBar.safetyScore);
+    expect(nearStation.accessibilityScore).toBeGreaterThan(nearBar.accessibilityScore);
+  });
+
+  it('should suggest official pickup spots the driver passes first', async () => {
+    setPoiProvider(
+      new OfflinePoiProvider([
+        { id: 'spot', name: 'Main St pickup', coordinates: { lat: 40.75, lng: -74.0005 }, types: ['pickup_spot'], official: true },
+        // Within walking distance but too far off the driver's road
+        { id: 'detour', name: 'Side street', coordinates: { lat: 40.751, lng: -74.004 }, types: ['pickup_spot'], official: true },
+      ])
+    );
+    const route = await getRoutingProvider().getDirections({ lat: 40.7, lng: -74.0 }, { lat: 40.8, lng: -74.0 });
+
+    const points = await MeetingPointService.findOptimalMeetingPoints(route, location(40.7505, -74.003));
+
+    expect(points[0].point).toMatchObject({ name: 'Main St pickup', official: true, address: 'Main St pickup' });
+    expect(points.some(point => point.point.name === 'Side street')).toBe(false);
+  });
+
+  it('should leave out pickup spots with steps for riders who need step-free access', async () => {
+    setPoiProvider(
+      new OfflinePoiProvider([
+        { id: 'stairs', name: 'Footbridge', coordinates: { lat: 40.75, lng: -74.0005 }, types: ['pickup_spot'], official: true, wheelchairAccessible: false },
+      ])
+    );
+    const route = await getRoutingProvider().getDirections({ lat: 40.7, lng: -74.0 }, { lat: 40.8, lng: -74.0 });
+
+    const anyone = await MeetingPointService.findOptimalMeetingPoints(route, location(40.7505, -74.003));
+    const wheelchairUser = await MeetingPointService.findOptimalMeetingPoints(route, location(40.7505, -74.003), {
+      accessibilityNeeds: ['wheelchair'],
+    });
+
+    expect(anyone[0].point.name).toBe('Footbridge');
+    expect(wheelchairUser.some(point => point.point.name === 'Footbridge')).toBe(false);
+  });
+});
+
+describe('MeetingPointService.findFairMeetingPoints', () => {
+  // Two riders about 840 m apart on the same street
+  const west = location(40.7, -74.0);
+  const east = location(40.7, -73.99);
+
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1 }));
+    setPoiProvider(new OfflinePoiProvider());
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+    setPoiProvider(null);
+  });
+
+  it('should split the walk evenly when both riders can walk as far', async () => {
+    const [best] = await MeetingPointService.findFairMeetingPoints(west, east);
+
+    expect(best.point.coordinates.lng).toBeCloseTo(-73.995, 6);
+    expect(best.walks[0].distance).toBeCloseTo(best.walks[1].distance, 0);
+    expect(best.maxWalkingTime).toBe(Math.max(best.walks[0].duration, best.walks[1].duration));
+  });
+
+  it('should respect how far each rider is willing to walk', async () => {
+    const points = await MeetingPointService.findFairMeetingPoints(west, east, { maxWalkingDistances: [300, 700] });
+
+    expect(points.length).toBeGreaterThan(0);
+    points.forEach(point => {
+      expect(point.walks[0].distance).toBeLessThanOrEqual(300);
+      expect(point.walks[1].distance).toBeLessThanOrEqual(700);
+    });
+
+    expect(await MeetingPointService.findFairMeetingPoints(west, east, { maxWalkingDistances: [200, 200] })).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../routing';
+import type { Trip, TripRequest } from '../../../types';
+
+const DEPARTURE = '2030-01-01T08:00:00.000Z';
+
+const location = (lat: number, lng = -74.0) => ({
+  address: `${lat},${lng}`,
+  coordinates: { lat, lng },
+  placeId: '',
+});
+
+const trip = (id: string, from: number, to: number, overrides: Partial<Trip> = {}): Trip => ({
+  id,
+  user_id: `user-${id}`,
+  origin: `${from}`,
+  destination: `${to}`,
+  origin_location: location(from),
+  destination_location: location(to),
+  departure_time: DEPARTURE,
+  max_passengers: 3,
+  current_passengers: 0,
+  available_seats: 3,
+  status: 'ACTIVE',
+  currency: 'USD',
+  smoking_allowed: false,
+  pets_allowed: false,
+  music_preference: 'indifferent',
+  conversation_level: 'indifferent',
+  created_at: DEPARTURE,
+  updated_at: DEPARTURE,
+  ...overrides,
+});
+
+// The driver heads north along a straight road of roughly 11 km (11 minutes at 60 km/h)
+const driver = trip('driver', 40.7, 40.8, { price_per_seat: 20, available_seats: 2 });
+
+describe('MatchingAlgorithm.planPool', () => {
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1, drivingSpeed: 60 }));
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('should fill the available seats and leave out riders beyond the detour limit', async () => {
+    const riders = [
+      trip('a', 40.71, 40.75),
+      trip('b', 40.72, 40.79),
+      trip('c', 40.73, 40.78),
+      trip('far', 40.75, 40.78, { origin_location: location(40.75, -73.8) }),
+    ];
+
+    // A tight limit stops the driver from doubling back to fit a third rider in
+    const plan = await MatchingAlgorithm.planPool(driver, riders, undefined, { maxDetourDistance: 1 });
+
+    expect(plan.seatsUsed).toBe(2);
+    expect(plan.riders).toHaveLength(2);
+    expect(plan.unassignedRiderIds).toContain('far');
+    expect(plan.addedDistance).toBeCloseTo(0, 5);
+
+    // Stops are visited in order along the road
+    const latitudes = plan.stops.map(stop => stop.location.coordinates.lat);
+    expect(latitudes).toEqual([...latitudes].sort((x, y) => x - y));
+    expect(plan.stops[0].type).toBe('origin');
+    expect(plan.stops[plan.stops.length - 1].type).toBe('destination');
+  });
+
+  it('should reuse a seat once the previous rider has been dropped off', async () => {
+    const singleSeat = { ...driver, available_seats: 1 };
+
+    const plan = await MatchingAlgorithm.planPool(singleSeat, [
+      trip('early', 40.71, 40.74),
+      trip('late', 40.76, 40.79),
+    ]);
+
+    expect(plan.seatsUsed).toBe(2);
+    expect(plan.stops.map(stop => stop.type)).toEqual([
+      'origin',
+      'pickup',
+      'dropoff',
+      'pickup',
+      'dropoff',
+      'destination',
+    ]);
+  });
+
+  it('should reject riders whose pickup window the driver cannot reach', async () => {
+    const plan = await MatchingAlgorithm.planPool(driver, [
+      trip('later', 40.71, 40.75, { departure_time: '2030-01-01T10:00:00.000Z' }),
+    ]);
+
+    expect(plan.riders).toEqual([]);
+    expect(plan.unassignedRiderIds).toEqual(['later']);
+  });
+
+  it('should leave out riders the driver cannot drop off by their arrival time', async () => {
+    // The 11 minute drive from 8:00 reaches the top of the road at 8:11
+    const plan = await MatchingAlgorithm.planPool(driver, [
+      trip('on-time', 40.7, 40.8, { latest_arrival: '2030-01-01T08:15:00.000Z' }),
+      trip('too-late', 40.7, 40.8, { latest_arrival: '2030-01-01T08:05:00.000Z' }),
+    ]);
+
+    expect(plan.riders.map(rider => rider.riderId)).toEqual(['on-time']);
+    expect(plan.unassignedRiderIds).toEqual(['too-late']);
+  });
+
+  it('should not put more luggage on board than the vehicle has space for', async () => {
+    const smallBoot = { ...driver, max_small_bags: 1, max_large_bags: 1 };
+
+    const plan = await MatchingAlgorithm.planPool(smallBoot, [
+      trip('suitcase', 40.71, 40.79, { current_large_bags: 1 }),
+      trip('two-suitcases', 40.72, 40.78, { current_large_bags: 2 }),
+      trip('backpack', 40.73, 40.77, { current_small_bags: 1 }),
+    ]);
+
+    expect(plan.riders.map(rider => rider.riderId).sort()).toEqual(['backpack', 'suitcase']);
+    expect(plan.unassignedRiderIds).toEqual(['two-suitcases']);
+  });
+
+  it('should split the fare between riders sharing a leg', async () => {
+    const plan = await MatchingAlgorithm.planPool(driver, [
+      trip('a', 40.7, 40.8),
+      trip('b', 40.75, 40.8),
+    ]);
+
+    const [a, b] = ['a', 'b'].map(id => plan.riders.find(rider => rider.riderId === id));
+
+    // Rider a is alone for the first half and shares the second half with b
+    expect(a.soloCost).toBeCloseTo(20, 1);
+    expect(a.cost).toBeCloseTo(15, 1);
+    expect(b.cost).toBeCloseTo(5, 1);
+    expect(a.cost + b.cost).toBeCloseTo(20, 1);
+  });
+
+  it('should plan trip requests on the driver route', async () => {
+    const request = {
+      id: 'request',
+      trip_id: driver.id,
+      sender_id: 'rider',
+      receiver_id: driver.user_id,
+      status: 'PENDING',
+      seats_requested: 2,
+      pickup_location: location(40.72),
+      departure_flexibility: 10,
+      expires_at: DEPARTURE,
+      created_at: DEPARTURE,
+      updated_at: DEPARTURE,
+    } as TripRequest;
+
+    const plan = await MatchingAlgorithm.planPool(driver, [request]);
+
+    expect(plan.seatsUsed).toBe(2);
+    expect(plan.stops[2]).toMatchObject({ type: 'dropoff', riderId: 'request' });
+    expect(plan.stops[2].location).toEqual(driver.destination_location);
+  });
+});
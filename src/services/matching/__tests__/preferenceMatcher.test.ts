@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { PreferenceMatcher } from '../preferenceMatcher';
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { createMockTrip } from '../../../test/utils';
+import type { MatchParty } from '../preferenceMatcher';
+import type { User, UserPreferences } from '../../../types';
+
+const preferences = (overrides: Partial<UserPreferences> = {}) =>
+  ({
+    smoking_preference: 'indifferent',
+    pets_preference: true,
+    music_preference: 'indifferent',
+    conversation_level: 'indifferent',
+    gender_preference: 'any',
+    ...overrides,
+  }) as UserPreferences;
+
+const user = (gender: User['gender'], age_years?: number) => ({ gender, age_years });
+
+const rule = (parties: [MatchParty, MatchParty], name: string) =>
+  PreferenceMatcher.match(...parties).find(result => result.rule === name);
+
+describe('PreferenceMatcher', () => {
+  it('should flag a smoking ride for a non-smoker on either side', () => {
+    const smoker = { trip: createMockTrip('smoker', { smoking_allowed: true }), preferences: preferences() };
+    const nonSmoker = { trip: createMockTrip('non-smoker'), preferences: preferences({ smoking_preference: 'no' }) };
+
+    expect(rule([nonSmoker, smoker], 'smoking')).toMatchObject({
+      passed: false,
+      conflictingParty: 'source',
+      reason: 'Smoking allowed, but you prefer a smoke-free ride',
+    });
+    expect(rule([smoker, nonSmoker], 'smoking')).toMatchObject({ passed: false, conflictingParty: 'candidate' });
+  });
+
+  it('should accept any ride for users who are fine with smoking', () => {
+    const smokingOk = { trip: createMockTrip('source'), preferences: preferences({ smoking_preference: 'yes' }) };
+
+    expect(rule([smokingOk, { trip: createMockTrip('candidate') }], 'smoking')).toMatchObject({ passed: true });
+  });
+
+  it("should fall back to the source trip's own settings without preferences", () => {
+    const petFree = { trip: createMockTrip('source', { pets_allowed: false }) };
+    const withPets = { trip: createMockTrip('candidate', { pets_allowed: true }) };
+
+    expect(rule([petFree, withPets], 'pets')).toMatchObject({ passed: false, conflictingParty: 'source' });
+  });
+
+  it('should only report music and conversation conflicts for opposite views', () => {
+    const chatty = { trip: createMockTrip('chatty', { conversation_level: 'chatty' }) };
+    const quiet = { trip: createMockTrip('quiet'), preferences: preferences({ conversation_level: 'quiet' }) };
+    const indifferent = { trip: createMockTrip('indifferent') };
+
+    expect(rule([quiet, chatty], 'conversation')).toMatchObject({
+      passed: false,
+      conflictingParty: 'both',
+      reason: 'You prefer a quiet ride, they prefer a chatty ride',
+    });
+    expect(rule([quiet, indifferent], 'conversation')).toMatchObject({ passed: true });
+  });
+
+  it('should check same-gender preferences against both profiles', () => {
+    const woman = { trip: createMockTrip('woman'), preferences: preferences({ gender_preference: 'same' }), user: user('female') };
+    const man = { trip: createMockTrip('man'), user: user('male') };
+    const undisclosed = { trip: createMockTrip('undisclosed'), user: user('prefer_not_to_say') };
+
+    expect(rule([woman, { ...man, user: user('female') }], 'gender')).toMatchObject({ passed: true });
+    expect(rule([man, woman], 'gender')).toMatchObject({
+      passed: false,
+      conflictingParty: 'candidate',
+      reason: 'They prefer travelling with their own gender',
+    });
+    expect(rule([woman, undisclosed], 'gender')).toMatchObject({ passed: false, conflictingParty: 'source' });
+  });
+
+  it("should check each party's age range", () => {
+    const older = {
+      trip: createMockTrip('older'),
+      preferences: preferences({ min_age: 25 }),
+      user: user('male', 40),
+    };
+    const younger = { trip: createMockTrip('younger'), user: user('male', 24) };
+
+    expect(rule([older, younger], 'age')).toMatchObject({
+      passed: false,
+      conflictingParty: 'source',
+      reason: 'They are outside your preferred age range (25+)',
+    });
+    expect(rule([younger, older], 'age')).toMatchObject({ passed: false, conflictingParty: 'candidate' });
+    expect(rule([older, { ...younger, user: user('male', 25) }], 'age')).toMatchObject({ passed: true });
+  });
+
+  it('should skip gender and age rules when profiles are unknown', () => {
+    const rules = PreferenceMatcher.match(
+      { trip: createMockTrip('source'), preferences: preferences({ gender_preference: 'same', min_age: 30 }) },
+      { trip: createMockTrip('candidate') }
+    );
+
+    expect(rules.map(result => result.rule)).toEqual(['smoking', 'pets', 'music', 'conversation']);
+  });
+
+  it('should need a vehicle that accommodates everyone on the ride', () => {
+    const wheelchairUser = { trip: createMockTrip('source'), user: { accessibility_needs: ['wheelchair' as const] } };
+    const accessibleTaxi = { trip: createMockTrip('accessible', { vehicle_accessibility: ['wheelchair', 'step_free'] }) };
+    const regularTaxi = { trip: createMockTrip('regular') };
+
+    expect(rule([wheelchairUser, accessibleTaxi], 'accessibility')).toMatchObject({ passed: true });
+    expect(rule([wheelchairUser, regularTaxi], 'accessibility')).toMatchObject({
+      passed: false,
+      conflictingParty: 'source',
+      reason: 'The vehicle does not offer wheelchair space',
+    });
+
+    // Each vehicle suits one of them, but they can only share one
+    const ownVan = { trip: createMockTrip('van', { vehicle_accessibility: ['wheelchair'], accessibility_needs: ['wheelchair'] }) };
+    const withLuggage = { trip: createMockTrip('luggage', { vehicle_accessibility: ['extra_luggage_space'], accessibility_needs: ['extra_luggage_space'] }) };
+    expect(rule([ownVan, withLuggage], 'accessibility')).toMatchObject({ passed: false, conflictingParty: 'both' });
+  });
+});
+
+describe('MatchingAlgorithm preference conflicts', () => {
+  it('should exclude trips that fail a gender or age preference', async () => {
+    const source = createMockTrip('source', { user: { gender: 'female' } as User });
+    const candidate = createMockTrip('candidate', { user: { gender: 'male' } as User });
+
+    const matches = await MatchingAlgorithm.findCompatibleTrips(source, [candidate], undefined, undefined, {
+      'user-candidate': preferences({ gender_preference: 'same' }),
+    });
+
+    expect(matches).toEqual([]);
+  });
+
+  it('should exclude vehicles that do not accommodate accessibility needs', async () => {
+    const source = createMockTrip('source', { accessibility_needs: ['assistance_animal'] });
+
+    const matches = await MatchingAlgorithm.findCompatibleTrips(source, [
+      createMockTrip('candidate'),
+      createMockTrip('welcoming', { vehicle_accessibility: ['assistance_animal'] }),
+    ]);
+
+    expect(matches.map(match => match.tripId)).toEqual(['welcoming']);
+  });
+});
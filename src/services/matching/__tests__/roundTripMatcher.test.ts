@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { RoundTripMatcher } from '../roundTripMatcher';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../routing';
+import type { Trip } from '../../../types';
+
+const location = (lat: number, lng = -74.0) => ({
+  address: `${lat},${lng}`,
+  coordinates: { lat, lng },
+  placeId: '',
+});
+
+const trip = (id: string, from: number, to: number, departure: string, overrides: Partial<Trip> = {}): Trip => ({
+  id,
+  user_id: `user-${id.split('-')[0]}`,
+  origin: `${from}`,
+  destination: `${to}`,
+  origin_location: location(from),
+  destination_location: location(to),
+  departure_time: departure,
+  max_passengers: 3,
+  current_passengers: 0,
+  available_seats: 3,
+  status: 'ACTIVE',
+  currency: 'USD',
+  smoking_allowed: false,
+  pets_allowed: false,
+  music_preference: 'indifferent',
+  conversation_level: 'indifferent',
+  created_at: departure,
+  updated_at: departure,
+  ...overrides,
+});
+
+const MORNING = '2030-01-01T08:00:00.000Z';
+const EVENING = '2030-01-01T18:00:00.000Z';
+
+// Out to the office in the morning and back in the evening
+const outbound = trip('me-out', 40.7, 40.8, MORNING, { paired_trip_id: 'me-back', trip_leg: 'OUTBOUND' });
+const back = trip('me-back', 40.8, 40.7, EVENING, { paired_trip_id: 'me-out', trip_leg: 'RETURN' });
+
+describe('RoundTripMatcher', () => {
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1, drivingSpeed: 60 }));
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('should rank partners matching both legs above better one-way matches', async () => {
+    const candidates = [
+      // Same way out, but the ride back is full
+      trip('full-out', 40.71, 40.8, MORNING, { paired_trip_id: 'full-back' }),
+      trip('both-out', 40.72, 40.8, '2030-01-01T08:10:00.000Z', { paired_trip_id: 'both-back' }),
+      trip('oneway-out', 40.7, 40.8, MORNING),
+    ];
+    const pairedCandidates = [
+      trip('full-back', 40.8, 40.71, EVENING, { available_seats: 0 }),
+      trip('both-back', 40.8, 40.72, '2030-01-01T18:05:00.000Z'),
+    ];
+
+    const matches = await MatchingAlgorithm.findCompatibleTrips(outbound, candidates);
+    expect(matches[0].tripId).toBe('oneway-out');
+
+    const roundTrips = await RoundTripMatcher.matchReturnLegs(back, matches, candidates, pairedCandidates);
+
+    expect(roundTrips.map(roundTrip => roundTrip.tripId)).toEqual(['both-out']);
+    expect(roundTrips[0]).toMatchObject({ pairedTripId: 'both-back' });
+    expect(roundTrips[0].score).toBeCloseTo(
+      (roundTrips[0].outbound.overallScore + roundTrips[0].return.overallScore) / 2,
+      5
+    );
+
+    const ranked = RoundTripMatcher.rank(matches, roundTrips).map(match => match.tripId);
+    expect(ranked[0]).toBe('both-out');
+    expect(ranked).toHaveLength(matches.length);
+  });
+
+  it('should find no round trips when no candidate has a return leg', async () => {
+    const candidates = [trip('oneway-out', 40.7, 40.8, MORNING)];
+    const matches = await MatchingAlgorithm.findCompatibleTrips(outbound, candidates);
+
+    expect(await RoundTripMatcher.matchReturnLegs(back, matches, candidates, [])).toEqual([]);
+    expect(RoundTripMatcher.rank(matches, [])).toEqual(matches);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { RouteOverlapCalculator } from '../routeOverlap';
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { densifyPath, pathLength } from '../../routing';
+import type { Coordinates, RoutePath } from '../../routing';
+
+// A west-to-east road of roughly 8.4 km along latitude 40.75
+const road: Coordinates[] = [
+  { lat: 40.75, lng: -74.0 },
+  { lat: 40.75, lng: -73.95 },
+  { lat: 40.75, lng: -73.9 },
+];
+
+const route = (path: Coordinates[]): RoutePath => ({
+  distance: pathLength(path) * 1.3,
+  duration: pathLength(path) / 10,
+  path,
+  polyline: '',
+});
+
+describe('RouteOverlapCalculator', () => {
+  it('should match a parallel route whose vertices do not line up', () => {
+    // About 100 m north of the road, with vertices at different longitudes
+    const parallel = [
+      { lat: 40.7509, lng: -74.0 },
+      { lat: 40.7509, lng: -73.973 },
+      { lat: 40.7509, lng: -73.921 },
+      { lat: 40.7509, lng: -73.9 },
+    ];
+
+    const overlap = RouteOverlapCalculator.calculate(road, parallel);
+
+    expect(overlap.intervals).toHaveLength(1);
+    expect(overlap.sharedLength / overlap.sourceLength).toBeGreaterThan(0.98);
+  });
+
+  it('should not count overlap for a route travelling the opposite way', () => {
+    const overlap = RouteOverlapCalculator.calculate(road, [...road].reverse());
+
+    expect(overlap.sharedLength).toBe(0);
+    expect(overlap.intervals).toEqual([]);
+  });
+
+  it('should return ordered intervals with entry and exit points', () => {
+    // Joins the road from the south, follows it, leaves, and joins again further east
+    const candidate = [
+      { lat: 40.72, lng: -73.99 },
+      { lat: 40.75, lng: -73.99 },
+      { lat: 40.75, lng: -73.97 },
+      { lat: 40.78, lng: -73.97 },
+      { lat: 40.78, lng: -73.94 },
+      { lat: 40.75, lng: -73.94 },
+      { lat: 40.75, lng: -73.92 },
+      { lat: 40.72, lng: -73.92 },
+    ];
+
+    const overlap = RouteOverlapCalculator.calculate(road, candidate, { corridorWidth: 200 });
+
+    expect(overlap.intervals).toHaveLength(2);
+    const [first, second] = overlap.intervals;
+
+    expect(first.startDistance).toBeLessThan(second.startDistance);
+    expect(first.entry.lng).toBeCloseTo(-73.99, 2);
+    expect(first.exit.lng).toBeCloseTo(-73.97, 2);
+    expect(second.entry.lng).toBeCloseTo(-73.94, 2);
+    expect(second.exit.lng).toBeCloseTo(-73.92, 2);
+    expect(first.candidateEndDistance).toBeLessThan(second.candidateStartDistance);
+    expect(first.path[0]).toEqual(first.entry);
+    expect(first.path[first.path.length - 1]).toEqual(first.exit);
+  });
+
+  it('should not double count a densely sampled candidate', () => {
+    const dense = densifyPath(road, 20);
+
+    const overlap = RouteOverlapCalculator.calculate(densifyPath(road, 30), dense);
+
+    expect(overlap.intervals).toHaveLength(1);
+    expect(overlap.sharedLength).toBeCloseTo(overlap.sourceLength, 2);
+  });
+});
+
+describe('MatchingAlgorithm.calculateRouteOverlap', () => {
+  it('should scale the shared geometry to the routed distance', () => {
+    const halfRoad = [road[0], road[1]];
+
+    const result = MatchingAlgorithm.calculateRouteOverlap(route(road), route(halfRoad));
+
+    expect(result.overlapPercentage).toBeCloseTo(0.5, 2);
+    expect(result.sharedDistance).toBeCloseTo(result.totalOriginalDistance / 2, 2);
+    expect(result.pickupPoints).toEqual([road[0]]);
+    expect(result.dropoffPoints[0].lng).toBeCloseTo(-73.95, 3);
+    expect(result.sharedIntervals).toHaveLength(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../routing';
+import { createMockLocation, createMockTrip } from '../../../test/utils';
+import type { MatchingCriteria } from '../matchingAlgorithm';
+import type { UserPreferences } from '../../../types';
+
+const criteria: MatchingCriteria = {
+  maxDetourDistance: 10,
+  maxDetourTime: 5,
+  maxWalkingDistance: 500,
+  timeFlexibility: 15,
+  priceRangeMin: 0,
+  priceRangeMax: 100,
+};
+
+describe('MatchingAlgorithm score explanation', () => {
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1, drivingSpeed: 60 }));
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('should add up weighted contributions to the overall score', async () => {
+    const analysis = await MatchingAlgorithm.analyzeCompatibility(createMockTrip('source'), createMockTrip('candidate'), criteria);
+    const { factors, baseScore, penalties } = analysis.explanation;
+
+    expect(factors.map(factor => factor.factor)).toEqual(['route', 'time', 'preferences', 'distance', 'price']);
+    expect(factors.reduce((total, factor) => total + factor.weight, 0)).toBeCloseTo(1, 5);
+    expect(factors.reduce((total, factor) => total + factor.contribution, 0)).toBeCloseTo(baseScore, 5);
+    expect(penalties).toEqual([]);
+    expect(analysis.overallScore).toBeCloseTo(baseScore, 5);
+  });
+
+  it('should report failed preference rules with a reason', () => {
+    const preferences = {
+      smoking_preference: 'no',
+      music_preference: 'no',
+      conversation_level: 'indifferent',
+    } as UserPreferences;
+
+    const rules = MatchingAlgorithm.explainPreferencesCompatibility(
+      createMockTrip('source'),
+      createMockTrip('candidate', { smoking_allowed: true, music_preference: 'yes' }),
+      preferences
+    );
+
+    expect(rules.find(rule => rule.rule === 'smoking')).toMatchObject({
+      passed: false,
+      reason: 'Smoking allowed, but you prefer a smoke-free ride',
+    });
+    expect(rules.find(rule => rule.rule === 'music')).toMatchObject({ passed: false });
+    expect(rules.find(rule => rule.rule === 'conversation')).toMatchObject({ passed: true });
+  });
+
+  it('should list the detour time penalty multiplier', async () => {
+    // Picking the passenger up 8 km east of the driver's road adds about 10 minutes
+    const source = createMockTrip('source', { origin_location: createMockLocation(40.72, -73.9) });
+
+    const analysis = await MatchingAlgorithm.analyzeCompatibility(source, createMockTrip('candidate'), criteria);
+    const [penalty] = analysis.explanation.penalties;
+
+    expect(penalty.constraint).toBe('detour_time');
+    expect(penalty.multiplier).toBeLessThan(1);
+    expect(analysis.overallScore).toBeCloseTo(analysis.explanation.baseScore * penalty.multiplier, 5);
+  });
+});
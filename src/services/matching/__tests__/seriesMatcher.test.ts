@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SeriesMatcher } from '../seriesMatcher';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../routing';
+import type { Trip } from '../../../types';
+
+const location = (lat: number, lng = -74.0) => ({
+  address: `${lat},${lng}`,
+  coordinates: { lat, lng },
+  placeId: '',
+});
+
+const DATES = ['2030-01-07', '2030-01-08', '2030-01-09', '2030-01-10'];
+
+const occurrence = (seriesId: string, date: string, time = '08:00', overrides: Partial<Trip> = {}): Trip => ({
+  id: `${seriesId}-${date}`,
+  user_id: `user-${seriesId}`,
+  origin: 'Home',
+  destination: 'Office',
+  origin_location: location(40.7),
+  destination_location: location(40.8),
+  departure_time: `${date}T${time}:00.000Z`,
+  max_passengers: 3,
+  current_passengers: 0,
+  available_seats: 3,
+  status: 'ACTIVE',
+  currency: 'USD',
+  smoking_allowed: false,
+  pets_allowed: false,
+  music_preference: 'indifferent',
+  conversation_level: 'indifferent',
+  series_id: seriesId,
+  occurrence_date: date,
+  created_at: `${date}T00:00:00.000Z`,
+  updated_at: `${date}T00:00:00.000Z`,
+  ...overrides,
+});
+
+const commute = DATES.map(date => occurrence('mine', date));
+
+describe('SeriesMatcher', () => {
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1, drivingSpeed: 60 }));
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('should group matches by series and rank full coverage first', async () => {
+    const candidates = [
+      ...DATES.map(date => occurrence('daily', date, '08:05')),
+      ...DATES.slice(0, 2).map(date => occurrence('twice', date)),
+      // One-off trips are left to the regular trip matching
+      occurrence('one-off', DATES[0], '08:00', { series_id: undefined }),
+    ];
+
+    const matches = await SeriesMatcher.matchSeries(commute, candidates);
+
+    expect(matches.map(match => match.seriesId)).toEqual(['daily', 'twice']);
+    expect(matches[0].coverage).toBe(1);
+    expect(matches[0].userId).toBe('user-daily');
+    expect(matches[0].occurrences.map(match => match.sourceTrip.occurrence_date)).toEqual(DATES);
+    expect(matches[1].coverage).toBe(0.5);
+    expect(matches[1].averageScore).toBeGreaterThan(0);
+  });
+
+  it('should pair each occurrence with the same day and drop series below the minimum coverage', async () => {
+    const candidates = [
+      // The next day's trip is outside the time window of the first occurrence
+      occurrence('late', DATES[1]),
+      occurrence('late', DATES[2]),
+    ];
+
+    const matches = await SeriesMatcher.matchSeries([commute[0]], candidates);
+    expect(matches).toEqual([]);
+
+    const lenient = await SeriesMatcher.matchSeries(commute, candidates, undefined, {}, { minCoverage: 0.25 });
+    expect(lenient).toHaveLength(1);
+    expect(lenient[0].occurrences.map(match => match.matchedTrip.occurrence_date)).toEqual([DATES[1], DATES[2]]);
+  });
+
+  it('should not match a series against its own occurrences', async () => {
+    const matches = await SeriesMatcher.matchSeries(commute, commute);
+
+    expect(matches).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { TimeWindowMatcher } from '../timeWindow';
+
+const at = (time: string) => `2030-01-01T${time}:00.000Z`;
+
+describe('TimeWindowMatcher', () => {
+  it('should propose a departure inside the overlap of both windows', () => {
+    // Leave between 7:30 and 8:15 vs a driver leaving between 8:00 and 8:45
+    const analysis = TimeWindowMatcher.analyze(
+      { departure_time: at('07:45'), earliest_departure: at('07:30'), latest_departure: at('08:15') },
+      { departure_time: at('08:30'), earliest_departure: at('08:00'), latest_departure: at('08:45') },
+      15
+    );
+
+    expect(analysis.score).toBe(1);
+    expect(analysis.gapMinutes).toBe(0);
+    expect(analysis.overlap).toEqual({
+      earliest: new Date(at('08:00')).getTime(),
+      latest: new Date(at('08:15')).getTime(),
+    });
+    // The midpoint of 7:45 and 8:30 is kept inside the overlap
+    expect(analysis.proposedDepartureTime).toBe('2030-01-01T08:07:30.000Z');
+  });
+
+  it('should leave early enough to arrive by the latest arrival', () => {
+    // Arrive by 9:00 on a 60 minute ride: the 8:15 departure is too late
+    const analysis = TimeWindowMatcher.analyze(
+      { departure_time: at('07:45'), earliest_departure: at('07:30'), latest_departure: at('08:15'), latest_arrival: at('09:00') },
+      { departure_time: at('08:10') },
+      0,
+      60
+    );
+    expect(analysis.overlap).toBeNull();
+    expect(analysis.gapMinutes).toBe(10);
+
+    const onTime = TimeWindowMatcher.analyze(
+      { departure_time: at('07:45'), earliest_departure: at('07:30'), latest_departure: at('08:15'), latest_arrival: at('09:00') },
+      { departure_time: at('07:55') },
+      0,
+      60
+    );
+    expect(onTime.score).toBe(1);
+    expect(onTime.proposedDepartureTime).toBe(new Date(at('07:55')).toISOString());
+  });
+
+  it('should score single departure times as before', () => {
+    const source = at('08:00');
+
+    for (const candidate of [at('08:10'), at('08:30'), at('09:00'), at('07:20'), at('10:00')]) {
+      const timeDifference = Math.abs(new Date(candidate).getTime() - new Date(source).getTime()) / 60000;
+      const expected = timeDifference <= 15 ? 1 : Math.max(0, 1 - (timeDifference - 15) / 45);
+
+      expect(MatchingAlgorithm.analyzeTimeCompatibility(source, candidate, 15)).toBeCloseTo(expected, 10);
+    }
+  });
+});
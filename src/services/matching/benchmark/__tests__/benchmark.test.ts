@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MatchingBenchmark } from '../benchmark';
+import { CITY_BOUNDS, generateSyntheticCity } from '../syntheticCity';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../../routing';
+
+describe('MatchingBenchmark', () => {
+  const city = generateSyntheticCity({ bounds: CITY_BOUNDS.zurich, tripCount: 30, seed: 7 });
+
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider());
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('generates the same city for the same seed', () => {
+    const again = generateSyntheticCity({ bounds: CITY_BOUNDS.zurich, tripCount: 30, seed: 7 });
+    const other = generateSyntheticCity({ bounds: CITY_BOUNDS.zurich, tripCount: 30, seed: 8 });
+
+    expect(again.trips).toEqual(city.trips);
+    expect(other.trips[0].origin_location).not.toEqual(city.trips[0].origin_location);
+  });
+
+  it('reports matches and scores reproducibly', async () => {
+    const first = await MatchingBenchmark.run(city, { sources: 5 });
+    const second = await MatchingBenchmark.run(city, { sources: 5 });
+
+    expect(first.sources).toBe(5);
+    expect(Object.keys(first.matchesByTrip)).toHaveLength(5);
+    expect(first.matches.total).toBe(first.scores.histogram.reduce((sum, count) => sum + count, 0));
+    expect(second.matchesByTrip).toEqual(first.matchesByTrip);
+
+    const diff = MatchingBenchmark.compare(first, second);
+    expect(diff.changedTrips).toHaveLength(0);
+    expect(diff.matchCountChange).toBe(0);
+  });
+
+  it('diffs runs with different criteria', async () => {
+    const baseline = await MatchingBenchmark.run(city, { label: 'baseline', sources: 5 });
+    const strict = await MatchingBenchmark.run(city, { label: 'strict', sources: 5, criteria: { minScore: 0.99 } });
+
+    const diff = MatchingBenchmark.compare(baseline, strict);
+
+    expect(baseline.matches.total).toBeGreaterThan(0);
+    expect(strict.matches.total).toBe(0);
+    expect(diff.removedMatches).toBe(baseline.matches.total);
+    expect(diff.matchCountChange).toBe(-baseline.matches.total);
+    expect(diff.changedTrips.length).toBe(5 - baseline.matches.tripsWithoutMatches);
+  });
+
+  it('refuses to compare runs over different datasets', async () => {
+    const report = await MatchingBenchmark.run(city, { sources: 2 });
+    const otherCity = generateSyntheticCity({ bounds: CITY_BOUNDS.zurich, tripCount: 30, seed: 9 });
+    const other = await MatchingBenchmark.run(otherCity, { sources: 2 });
+
+    expect(() => MatchingBenchmark.compare(report, other)).toThrow(/different datasets/);
+  });
+});
@@ -0,0 +1,223 @@
+import { MatchingAlgorithm } from '../matchingAlgorithm';
+import { haversineDistance } from '../../routing';
+import type { MatchingCriteria } from '../matchingAlgorithm';
+import type { SyntheticCity, SyntheticCityOptions } from './syntheticCity';
+import type { Trip, UserPreferences } from '../../../types';
+
+export interface BenchmarkOptions {
+  label: string; // names the run in reports, e.g. a commit or a weight profile
+  sources: number; // trips matched against the rest, from the start of the dataset
+  timeWindow: number; // minutes either side of a trip's departure, as in match generation
+  searchRadius: number; // km around a trip's origin and destination
+  maxCandidates: number; // nearest departures first
+  preferences?: UserPreferences; // e.g. a matching profile, for every source trip
+  criteria?: Partial<MatchingCriteria>;
+}
+
+export interface ScoreDistribution {
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  histogram: number[]; // match counts per 0.1 of score, from 0-0.1 up to 0.9-1
+}
+
+export interface BenchmarkMatch {
+  tripId: string;
+  score: number;
+}
+
+export interface BenchmarkReport {
+  label: string;
+  dataset: Pick<SyntheticCityOptions, 'bounds' | 'tripCount' | 'seed'>;
+  sources: number;
+  pairs: number; // candidate pairs scored
+  durationMs: number;
+  tripsPerSecond: number;
+  pairsPerSecond: number;
+  matches: {
+    total: number;
+    perTrip: { mean: number; median: number; max: number };
+    tripsWithoutMatches: number;
+  };
+  scores: ScoreDistribution;
+  matchesByTrip: Record<string, BenchmarkMatch[]>; // per source trip, best first
+}
+
+export interface TripMatchDiff {
+  tripId: string;
+  added: string[]; // matched only in the candidate run
+  removed: string[]; // matched only in the baseline run
+  scoreDelta: number; // mean change over trips matched in both runs
+}
+
+export interface BenchmarkDiff {
+  baseline: string;
+  candidate: string;
+  throughputChange: number; // candidate pairs per second over the baseline's, 1 = unchanged
+  matchCountChange: number;
+  meanScoreChange: number;
+  addedMatches: number;
+  removedMatches: number;
+  changedTrips: TripMatchDiff[]; // trips whose matches or scores changed, most changed first
+}
+
+const DEFAULT_OPTIONS: BenchmarkOptions = {
+  label: 'current',
+  sources: 50,
+  timeWindow: 120,
+  searchRadius: 10,
+  maxCandidates: 200,
+};
+
+// Score changes below this are rounding noise
+const SCORE_EPSILON = 0.0005;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))] : 0;
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Runs the matching algorithm over a synthetic city the way match generation
+ * does for stored trips, and compares runs of different algorithm versions or
+ * weights on the same dataset. Set an offline routing provider first so runs
+ * are deterministic and need no network access.
+ */
+export class MatchingBenchmark {
+  static async run(city: SyntheticCity, options: Partial<BenchmarkOptions> = {}): Promise<BenchmarkReport> {
+    const activeOptions = { ...DEFAULT_OPTIONS, ...options };
+    const sources = city.trips.slice(0, activeOptions.sources);
+    const matchesByTrip: Record<string, BenchmarkMatch[]> = {};
+    let pairs = 0;
+
+    const started = performance.now();
+
+    for (const trip of sources) {
+      const candidates = this.candidateTrips(trip, city.trips, activeOptions);
+      pairs += candidates.length;
+
+      const matches = await MatchingAlgorithm.findCompatibleTrips(
+        trip,
+        candidates,
+        activeOptions.preferences,
+        activeOptions.criteria
+      );
+      matchesByTrip[trip.id] = matches.map(match => ({ tripId: match.tripId, score: round(match.overallScore) }));
+    }
+
+    const durationMs = performance.now() - started;
+    const counts = sources.map(trip => matchesByTrip[trip.id].length).sort((a, b) => a - b);
+    const scores = Object.values(matchesByTrip)
+      .flat()
+      .map(match => match.score)
+      .sort((a, b) => a - b);
+
+    return {
+      label: activeOptions.label,
+      dataset: { bounds: city.options.bounds, tripCount: city.options.tripCount, seed: city.options.seed },
+      sources: sources.length,
+      pairs,
+      durationMs: round(durationMs, 1),
+      tripsPerSecond: round(sources.length / Math.max(durationMs / 1000, 1e-6), 1),
+      pairsPerSecond: round(pairs / Math.max(durationMs / 1000, 1e-6), 1),
+      matches: {
+        total: scores.length,
+        perTrip: { mean: round(mean(counts), 2), median: percentile(counts, 0.5), max: counts[counts.length - 1] ?? 0 },
+        tripsWithoutMatches: counts.filter(count => count === 0).length,
+      },
+      scores: this.distribution(scores),
+      matchesByTrip,
+    };
+  }
+
+  /**
+   * What changed from `baseline` to `candidate`. Both runs must cover the
+   * same dataset and source trips.
+   */
+  static compare(baseline: BenchmarkReport, candidate: BenchmarkReport): BenchmarkDiff {
+    if (
+      baseline.dataset.seed !== candidate.dataset.seed ||
+      baseline.dataset.tripCount !== candidate.dataset.tripCount ||
+      baseline.sources !== candidate.sources
+    ) {
+      throw new Error('Benchmark reports cover different datasets and cannot be compared');
+    }
+
+    const changedTrips: TripMatchDiff[] = [];
+    let addedMatches = 0;
+    let removedMatches = 0;
+
+    for (const [tripId, before] of Object.entries(baseline.matchesByTrip)) {
+      const after = candidate.matchesByTrip[tripId] ?? [];
+      const beforeScores = new Map(before.map(match => [match.tripId, match.score]));
+      const afterScores = new Map(after.map(match => [match.tripId, match.score]));
+
+      const added = after.filter(match => !beforeScores.has(match.tripId)).map(match => match.tripId);
+      const removed = before.filter(match => !afterScores.has(match.tripId)).map(match => match.tripId);
+      const deltas = after
+        .filter(match => beforeScores.has(match.tripId))
+        .map(match => match.score - (beforeScores.get(match.tripId) ?? 0));
+      const scoreDelta = round(mean(deltas));
+
+      addedMatches += added.length;
+      removedMatches += removed.length;
+
+      if (added.length > 0 || removed.length > 0 || Math.abs(scoreDelta) > SCORE_EPSILON) {
+        changedTrips.push({ tripId, added, removed, scoreDelta });
+      }
+    }
+
+    const changeSize = (diff: TripMatchDiff) => diff.added.length + diff.removed.length + Math.abs(diff.scoreDelta);
+
+    return {
+      baseline: baseline.label,
+      candidate: candidate.label,
+      throughputChange: round(candidate.pairsPerSecond / Math.max(baseline.pairsPerSecond, 1e-6), 2),
+      matchCountChange: candidate.matches.total - baseline.matches.total,
+      meanScoreChange: round(candidate.scores.mean - baseline.scores.mean),
+      addedMatches,
+      removedMatches,
+      changedTrips: changedTrips.sort((a, b) => changeSize(b) - changeSize(a)),
+    };
+  }
+
+  /**
+   * Other users' trips departing within the time window whose origin and
+   * destination both lie within the search radius, nearest departure first,
+   * like the candidates match generation fetches from the database
+   */
+  static candidateTrips(trip: Trip, trips: Trip[], options: Pick<BenchmarkOptions, 'timeWindow' | 'searchRadius' | 'maxCandidates'>): Trip[] {
+    const departure = new Date(trip.departure_time).getTime();
+    const window = options.timeWindow * 60 * 1000;
+    const radius = options.searchRadius * 1000;
+    const offset = (other: Trip) => Math.abs(new Date(other.departure_time).getTime() - departure);
+
+    return trips
+      .filter(other =>
+        other.user_id !== trip.user_id &&
+        offset(other) <= window &&
+        haversineDistance(trip.origin_location.coordinates, other.origin_location.coordinates) <= radius &&
+        haversineDistance(trip.destination_location.coordinates, other.destination_location.coordinates) <= radius
+      )
+      .sort((a, b) => offset(a) - offset(b))
+      .slice(0, options.maxCandidates);
+  }
+
+  private static distribution(sortedScores: number[]): ScoreDistribution {
+    const histogram = new Array<number>(10).fill(0);
+    sortedScores.forEach(score => {
+      histogram[Math.min(9, Math.floor(score * 10))]++;
+    });
+
+    return {
+      mean: round(mean(sortedScores)),
+      p10: percentile(sortedScores, 0.1),
+      p50: percentile(sortedScores, 0.5),
+      p90: percentile(sortedScores, 0.9),
+      histogram,
+    };
+  }
+}
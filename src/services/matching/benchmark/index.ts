@@ -0,0 +1,12 @@
+export { MatchingBenchmark } from './benchmark';
+export { generateSyntheticCity, createRandom, CITY_BOUNDS } from './syntheticCity';
+
+export type {
+  BenchmarkOptions,
+  BenchmarkReport,
+  BenchmarkMatch,
+  BenchmarkDiff,
+  TripMatchDiff,
+  ScoreDistribution,
+} from './benchmark';
+export type { SyntheticCity, SyntheticCityOptions } from './syntheticCity';
@@ -0,0 +1,119 @@
+import type { BoundingBox, Coordinates } from '../../routing';
+import type { LocationData, Trip } from '../../../types';
+
+export interface SyntheticCityOptions {
+  bounds: BoundingBox;
+  tripCount: number;
+  seed: number; // the same seed always generates the same trips
+  hotspots: number; // shared destinations such as an airport or a business district
+  hotspotShare: number; // 0-1, trips that start or end at a hotspot
+  departureFrom: string; // ISO timestamp of the earliest departure
+  departureSpanMinutes: number; // departures spread over this long
+}
+
+export interface SyntheticCity {
+  options: SyntheticCityOptions;
+  hotspots: Coordinates[];
+  trips: Trip[];
+}
+
+// Bounding boxes of a few cities of different sizes
+export const CITY_BOUNDS: Record<string, BoundingBox> = {
+  'new-york': { south: 40.57, west: -74.04, north: 40.88, east: -73.75 },
+  berlin: { south: 52.4, west: 13.2, north: 52.6, east: 13.6 },
+  zurich: { south: 47.33, west: 8.46, north: 47.43, east: 8.62 },
+};
+
+const DEFAULT_OPTIONS: SyntheticCityOptions = {
+  bounds: CITY_BOUNDS['new-york'],
+  tripCount: 200,
+  seed: 1,
+  hotspots: 3,
+  hotspotShare: 0.5,
+  departureFrom: '2030-01-07T06:00:00.000Z',
+  departureSpanMinutes: 4 * 60,
+};
+
+const MUSIC = ['yes', 'no', 'indifferent'] as const;
+const CONVERSATION = ['chatty', 'quiet', 'indifferent'] as const;
+
+/**
+ * Small seeded PRNG (mulberry32), so datasets are reproducible across runs
+ * and algorithm versions
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Trips over a city's bounding box: part of them to or from a few hotspots,
+ * the rest between random points, departing over a morning rush by default
+ */
+export function generateSyntheticCity(options: Partial<SyntheticCityOptions> = {}): SyntheticCity {
+  const activeOptions = { ...DEFAULT_OPTIONS, ...options };
+  const { bounds, seed, departureFrom, departureSpanMinutes } = activeOptions;
+  const random = createRandom(seed);
+
+  // `margin` keeps points that far from the edges, as a share of the box
+  const pointIn = (margin = 0): Coordinates => ({
+    lat: bounds.south + (margin + random() * (1 - 2 * margin)) * (bounds.north - bounds.south),
+    lng: bounds.west + (margin + random() * (1 - 2 * margin)) * (bounds.east - bounds.west),
+  });
+  const pick = <T>(values: readonly T[]): T => values[Math.floor(random() * values.length)];
+  const toLocation = (point: Coordinates, label: string): LocationData => ({
+    address: label,
+    coordinates: point,
+    placeId: label,
+  });
+
+  // Keep hotspots away from the edges, where few trips would pass them
+  const hotspots = Array.from({ length: activeOptions.hotspots }, () => pointIn(0.25));
+  const start = new Date(departureFrom).getTime();
+
+  const trips = Array.from({ length: activeOptions.tripCount }, (_, index): Trip => {
+    const id = `synthetic-${seed}-${index}`;
+    let origin = pointIn();
+    let destination = pointIn();
+
+    if (hotspots.length > 0 && random() < activeOptions.hotspotShare) {
+      // Half of the hotspot trips head there, the other half come back
+      if (random() < 0.5) destination = pick(hotspots);
+      else origin = pick(hotspots);
+    }
+
+    const departure = new Date(start + Math.floor(random() * departureSpanMinutes) * 60 * 1000).toISOString();
+    const seats = 2 + Math.floor(random() * 3);
+
+    return {
+      id,
+      user_id: `synthetic-user-${index}`,
+      origin: `Origin ${index}`,
+      destination: `Destination ${index}`,
+      origin_location: toLocation(origin, `origin-${index}`),
+      destination_location: toLocation(destination, `destination-${index}`),
+      departure_time: departure,
+      max_passengers: seats,
+      current_passengers: 1,
+      available_seats: seats - 1,
+      status: 'ACTIVE',
+      price_per_seat: 5 + Math.round(random() * 30),
+      currency: 'USD',
+      smoking_allowed: random() < 0.1,
+      pets_allowed: random() < 0.6,
+      music_preference: pick(MUSIC),
+      conversation_level: pick(CONVERSATION),
+      created_at: departureFrom,
+      updated_at: departureFrom,
+    };
+  });
+
+  return { options: activeOptions, hotspots, trips };
+}
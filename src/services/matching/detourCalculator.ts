@@ -0,0 +1,118 @@
+import { getRoutingProvider } from '../routing';
+import type { Coordinates, RouteDistance } from '../routing';
+
+export interface InsertionResult {
+  sequence: Coordinates[]; // driver stops in visiting order, including the inserted pickup and dropoff
+  pickupIndex: number; // position of the pickup within `sequence`
+  dropoffIndex: number; // position of the dropoff within `sequence`
+  baseDistance: number; // km, driver route without the passenger
+  baseTime: number; // minutes
+  totalDistance: number; // km, driver route with the passenger
+  totalTime: number; // minutes
+  addedDistance: number; // km
+  addedTime: number; // minutes
+}
+
+export class DetourCalculator {
+  /**
+   * Find the cheapest way to insert a pickup and dropoff into a driver's stop list.
+   *
+   * `stops` is the driver's current route in order (origin first, destination last,
+   * already-confirmed stops in between). The origin and destination stay fixed and
+   * the pickup always precedes the dropoff. Candidates are ranked by added time,
+   * then by added distance.
+   */
+  static async findBestInsertion(
+    stops: Coordinates[],
+    pickup: Coordinates,
+    dropoff: Coordinates
+  ): Promise<InsertionResult> {
+    if (stops.length < 2) {
+      throw new Error('A driver route needs at least an origin and a destination');
+    }
+
+    // One matrix call covers every leg we might drive
+    const points = [...stops, pickup, dropoff];
+    const matrix = await getRoutingProvider().getDistanceMatrix(points, points);
+
+    const stopIndexes = stops.map((_, index) => index);
+    const base = this.routeCost(matrix, stopIndexes);
+
+    // The pickup and dropoff are the last two points of the matrix. Without an
+    // `accept` filter an insertion always exists because there are at least two stops
+    const { order, pickupIndex, dropoffIndex, cost } = this.insertIntoOrder(
+      matrix,
+      stopIndexes,
+      stops.length,
+      stops.length + 1
+    );
+
+    return {
+      sequence: order.map(index => points[index]),
+      pickupIndex,
+      dropoffIndex,
+      baseDistance: base.distance / 1000,
+      baseTime: base.duration / 60,
+      totalDistance: cost.distance / 1000,
+      totalTime: cost.duration / 60,
+      addedDistance: Math.max(0, cost.distance - base.distance) / 1000,
+      addedTime: Math.max(0, cost.duration - base.duration) / 60,
+    };
+  }
+
+  /**
+   * Cheapest insertion of a pickup and dropoff into `order` (indexes into `matrix`).
+   * The first and last entries stay fixed and the pickup always precedes the dropoff.
+   * Orders rejected by `accept` are skipped; returns null if none is accepted.
+   */
+  static insertIntoOrder(
+    matrix: RouteDistance[][],
+    order: number[],
+    pickup: number,
+    dropoff: number,
+    accept: (order: number[]) => boolean = () => true
+  ): { order: number[]; pickupIndex: number; dropoffIndex: number; cost: RouteDistance } | null {
+    let best: { order: number[]; pickupIndex: number; dropoffIndex: number; cost: RouteDistance } | null = null;
+
+    // Insert the pickup after entry i and the dropoff after entry j (j >= i)
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i; j < order.length - 1; j++) {
+        const candidate = [
+          ...order.slice(0, i + 1),
+          pickup,
+          ...order.slice(i + 1, j + 1),
+          dropoff,
+          ...order.slice(j + 1),
+        ];
+        const cost = this.routeCost(matrix, candidate);
+
+        if (
+          (!best ||
+            cost.duration < best.cost.duration ||
+            (cost.duration === best.cost.duration && cost.distance < best.cost.distance)) &&
+          accept(candidate)
+        ) {
+          best = { order: candidate, pickupIndex: i + 1, dropoffIndex: j + 2, cost };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Sum distance and duration of driving through points in the given order
+   */
+  static routeCost(matrix: RouteDistance[][], order: number[]): RouteDistance {
+    let distance = 0;
+    let duration = 0;
+
+    for (let k = 0; k < order.length - 1; k++) {
+      const leg = matrix[order[k]][order[k + 1]];
+      distance += leg.distance;
+      duration += leg.duration;
+    }
+
+    return { distance, duration };
+  }
+}
@@ -1,5 +1,14 @@
 export { MatchingAlgorithm } from './matchingAlgorithm';
 export { MeetingPointService } from './meetingPoints';
+export { DetourCalculator } from './detourCalculator';
+export { RouteOverlapCalculator } from './routeOverlap';
+export { PoolPlanner } from './poolPlanner';
+export { PreferenceMatcher } from './preferenceMatcher';
+export { MatchStateMachine } from './matchStateMachine';
+export { SeriesMatcher } from './seriesMatcher';
+export { RoundTripMatcher } from './roundTripMatcher';
+export { TimeWindowMatcher } from './timeWindow';
+export { LuggageCapacity } from './luggage';
 
 export type {
   MatchingCriteria,
@@ -10,4 +19,27 @@ export type {
 export type {
   MeetingPointOptions,
   MeetingPointAnalysis,
-} from './meetingPoints';
\ No newline at end of file
+  FairMeetingPoint,
+  FairMeetingPointOptions,
+} from './meetingPoints';
+
+export type { InsertionResult } from './detourCalculator';
+export type {
+  RouteOverlapOptions,
+  SharedInterval,
+  PathOverlap,
+} from './routeOverlap';
+
+export type {
+  PoolRider,
+  PoolStop,
+  PoolRiderPlan,
+  PoolPlan,
+  PoolConstraints,
+} from './poolPlanner';
+
+export type { MatchParty } from './preferenceMatcher';
+export type { SeriesMatch, SeriesOccurrenceMatch, SeriesMatchOptions } from './seriesMatcher';
+export type { RoundTripMatch } from './roundTripMatcher';
+export type { TimedTrip, DepartureWindow, TimeWindowAnalysis } from './timeWindow';
+export type { LuggageCount, LuggageTrip } from './luggage';
@@ -0,0 +1,62 @@
+import type { Trip, TripRequest } from '../../types';
+
+export interface LuggageCount {
+  small: number;
+  large: number;
+}
+
+export type LuggageTrip = Pick<Trip, 'max_small_bags' | 'max_large_bags' | 'current_small_bags' | 'current_large_bags'>;
+
+/**
+ * Luggage space on a trip, tracked like seats: the vehicle's capacity and the
+ * bags already on board. A small bag fits in space left for a large one, not
+ * the other way round.
+ */
+export class LuggageCapacity {
+  static readonly NONE: LuggageCount = { small: 0, large: 0 };
+
+  /**
+   * Bags a request brings along
+   */
+  static of(request: Pick<TripRequest, 'small_bags' | 'large_bags'>): LuggageCount {
+    return { small: request.small_bags ?? 0, large: request.large_bags ?? 0 };
+  }
+
+  /**
+   * Bags already on the trip, its owner's and those of accepted requests
+   */
+  static onBoard(trip: LuggageTrip): LuggageCount {
+    return { small: trip.current_small_bags ?? 0, large: trip.current_large_bags ?? 0 };
+  }
+
+  /**
+   * Space left on the trip; Infinity where the trip states no capacity. Small
+   * bags beyond the small-bag space take up large-bag space.
+   */
+  static remaining(trip: LuggageTrip): LuggageCount {
+    const { small, large } = this.onBoard(trip);
+    const maxSmall = trip.max_small_bags ?? Infinity;
+    const maxLarge = trip.max_large_bags ?? Infinity;
+
+    return {
+      small: Math.max(0, maxSmall - small),
+      large: Math.max(0, maxLarge - large - Math.max(0, small - maxSmall)),
+    };
+  }
+
+  /**
+   * Whether the bags fit in the space, small bags spilling into large-bag space
+   */
+  static fits(space: LuggageCount, bags: LuggageCount): boolean {
+    if (bags.large > space.large) return false;
+    return bags.small <= space.small + (space.large - bags.large);
+  }
+
+  static add(a: LuggageCount, b: LuggageCount): LuggageCount {
+    return { small: a.small + b.small, large: a.large + b.large };
+  }
+
+  static subtract(a: LuggageCount, b: LuggageCount): LuggageCount {
+    return { small: Math.max(0, a.small - b.small), large: Math.max(0, a.large - b.large) };
+  }
+}
@@ -0,0 +1,92 @@
+import type { MatchExpiryReason, MatchStatus, Trip, TripMatch } from '../../types';
+
+/**
+ * Lifecycle of a trip match. Users move a match forward from SUGGESTED;
+ * DECLINED is final. Any match still in play can be marked EXPIRED, and an
+ * expired match is suggested again when re-scoring finds it compatible.
+ * The same rules are enforced by `validate_match_status_transition` in the
+ * database schema.
+ */
+export class MatchStateMachine {
+  static readonly TRANSITIONS: Record<MatchStatus, MatchStatus[]> = {
+    SUGGESTED: ['VIEWED', 'CONTACTED', 'ACCEPTED', 'DECLINED', 'EXPIRED'],
+    VIEWED: ['CONTACTED', 'ACCEPTED', 'DECLINED', 'EXPIRED'],
+    CONTACTED: ['ACCEPTED', 'DECLINED', 'EXPIRED'],
+    ACCEPTED: ['EXPIRED'],
+    DECLINED: [],
+    EXPIRED: ['SUGGESTED'],
+  };
+
+  // Matches the users have not settled yet; these expire and get re-scored
+  static readonly OPEN_STATUSES: MatchStatus[] = ['SUGGESTED', 'VIEWED', 'CONTACTED'];
+
+  // Expiry reasons that can clear up again, e.g. when a trip frees a seat
+  private static readonly REVIVABLE_REASONS: MatchExpiryReason[] = ['trip_unavailable', 'no_longer_compatible'];
+
+  static canTransition(from: MatchStatus, to: MatchStatus): boolean {
+    return from === to || this.TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Error message for an invalid transition, or null when it is allowed
+   */
+  static validateTransition(from: MatchStatus, to: MatchStatus): string | null {
+    if (this.canTransition(from, to)) return null;
+
+    return `Cannot change a ${from.toLowerCase()} match to ${to.toLowerCase()}`;
+  }
+
+  static isOpen(status: MatchStatus): boolean {
+    return this.OPEN_STATUSES.includes(status);
+  }
+
+  /**
+   * Whether re-scoring may bring an expired match back as a suggestion
+   */
+  static canRevive(match: Pick<TripMatch, 'status' | 'expiry_reason'>): boolean {
+    return match.status === 'EXPIRED' && !!match.expiry_reason && this.REVIVABLE_REASONS.includes(match.expiry_reason);
+  }
+
+  /**
+   * Columns to write alongside a status change
+   */
+  static statusUpdate(
+    to: MatchStatus,
+    reason?: MatchExpiryReason
+  ): Pick<TripMatch, 'status' | 'expiry_reason' | 'viewed_at' | 'contacted_at'> {
+    const now = new Date().toISOString();
+
+    switch (to) {
+      case 'VIEWED':
+        return { status: to, expiry_reason: null, viewed_at: now };
+      case 'CONTACTED':
+        return { status: to, expiry_reason: null, contacted_at: now };
+      case 'EXPIRED':
+        return { status: to, expiry_reason: reason ?? 'expired' };
+      default:
+        return { status: to, expiry_reason: null };
+    }
+  }
+
+  /**
+   * Why a trip's matches should be invalidated rather than re-scored, or
+   * null while the trip can still take riders
+   */
+  static invalidationReason(trip: Pick<Trip, 'status' | 'available_seats' | 'departure_time'>): MatchExpiryReason | null {
+    if (trip.status === 'CANCELLED') return 'trip_cancelled';
+
+    if (trip.status !== 'ACTIVE' || trip.available_seats <= 0) return 'trip_unavailable';
+
+    if (new Date(trip.departure_time).getTime() <= Date.now()) return 'expired';
+
+    return null;
+  }
+
+  /**
+   * Statuses a trip invalidation expires. A cancelled trip also undoes
+   * accepted matches; a full or departed trip leaves them in place.
+   */
+  static invalidatedStatuses(reason: MatchExpiryReason): MatchStatus[] {
+    return reason === 'trip_cancelled' ? [...this.OPEN_STATUSES, 'ACCEPTED'] : this.OPEN_STATUSES;
+  }
+}
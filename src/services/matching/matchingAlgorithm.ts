@@ -1,6 +1,32 @@
-import { calculateDistance, getRoute, loadGoogleMapsApi } from '../maps/googleMaps';
-import type { Trip, TripMatch, UserPreferences, LocationData } from '../../types';
+import { getRoutingProvider, haversineDistance } from '../routing';
+import { DetourCalculator } from './detourCalculator';
+import { RouteOverlapCalculator } from './routeOverlap';
+import { MeetingPointService } from './meetingPoints';
+import { PoolPlanner } from './poolPlanner';
+import { PreferenceMatcher } from './preferenceMatcher';
+import { LuggageCapacity } from './luggage';
+import { TimeWindowMatcher } from './timeWindow';
+import type {
+  Trip,
+  TripRequest,
+  UserPreferences,
+  LocationData,
+  MeetingPoint,
+  MatchExplanation,
+  MatchingProfile,
+  MatchingWeights,
+  HardFilter,
+  PreferenceRule,
+  PreferenceRuleResult,
+  ScoreFactor,
+  ScorePenalty,
+} from '../../types';
 import type { CreateTripData } from '../supabase/trips';
+import type { Coordinates, RoutePath } from '../routing';
+import type { InsertionResult } from './detourCalculator';
+import type { SharedInterval } from './routeOverlap';
+import type { PoolPlan } from './poolPlanner';
+import type { TimeWindowAnalysis } from './timeWindow';
 
 export interface MatchingCriteria {
   maxDetourDistance: number; // km
@@ -9,6 +35,9 @@ export interface MatchingCriteria {
   timeFlexibility: number; // minutes
   priceRangeMin: number;
   priceRangeMax: number;
+  weights?: MatchingWeights; // defaults to the balanced profile
+  minScore?: number; // 0-1, defaults to 0.3
+  hardFilters?: HardFilter[]; // preference rules that exclude a trip instead of lowering its score
 }
 
 export interface RouteOverlapResult {
@@ -16,12 +45,16 @@ export interface RouteOverlapResult {
   sharedDistance: number; // km
   totalOriginalDistance: number; // km
   deviationDistance: number; // km
-  commonPath: google.maps.LatLng[];
-  pickupPoints: google.maps.LatLng[];
-  dropoffPoints: google.maps.LatLng[];
+  commonPath: Coordinates[];
+  pickupPoints: Coordinates[];
+  dropoffPoints: Coordinates[];
+  sharedIntervals: SharedInterval[]; // ordered shared stretches of the source route
+  sourceRoute?: RoutePath; // only set when full route geometry was available
+  candidateRoute?: RoutePath;
 }
 
 export interface CompatibilityAnalysis {
+  tripId: string; // the candidate trip this analysis is for
   routeCompatibility: number; // 0-1
   timeCompatibility: number; // 0-1
   preferencesCompatibility: number; // 0-1
@@ -30,18 +63,30 @@ export interface CompatibilityAnalysis {
   matchType: 'exact_route' | 'partial_overlap' | 'detour_pickup' | 'detour_dropoff';
   detourDistance: number; // km
   detourTime: number; // minutes
+  insertion?: InsertionResult; // where the driver picks up and drops off the passenger
   estimatedSavings: number; // cost per person
+  sharedDistance: number; // km
+  timeDifference: number; // minutes the candidate departs after the source (negative if before)
+  timeWindow: TimeWindowAnalysis; // shared departure window and the proposed departure time
+  routeAnalysis: RouteOverlapResult;
+  suggestedPickupPoint: MeetingPoint;
+  suggestedDropoffPoint: MeetingPoint;
+  explanation: MatchExplanation; // why the match got its overall score
 }
 
 export class MatchingAlgorithm {
-  private static readonly WEIGHTS = {
-    route: 0.4,
-    time: 0.25,
-    preferences: 0.2,
-    distance: 0.1,
-    price: 0.05,
+  static readonly MATCHING_PROFILES: Record<Exclude<MatchingProfile, 'custom'>, MatchingWeights> = {
+    balanced: { route: 0.4, time: 0.25, preferences: 0.2, distance: 0.1, price: 0.05 },
+    cheapest: { route: 0.25, time: 0.15, preferences: 0.1, distance: 0.1, price: 0.4 },
+    least_detour: { route: 0.35, time: 0.1, preferences: 0.15, distance: 0.35, price: 0.05 },
+    on_time: { route: 0.25, time: 0.5, preferences: 0.1, distance: 0.1, price: 0.05 },
   };
 
+  private static readonly WEIGHTS = this.MATCHING_PROFILES.balanced;
+  private static readonly MIN_MATCH_SCORE = 0.3;
+  // Gender, age and accessibility needs exclude a trip rather than lowering its score
+  private static readonly ALWAYS_HARD_RULES: PreferenceRule[] = ['gender', 'age', 'accessibility'];
+
   private static readonly EXACT_ROUTE_THRESHOLD = 0.95;
   private static readonly PARTIAL_OVERLAP_THRESHOLD = 0.3;
 
@@ -52,20 +97,12 @@ export class MatchingAlgorithm {
     sourceTrip: Trip | CreateTripData,
     availableTrips: Trip[],
     userPreferences?: UserPreferences,
-    criteria?: MatchingCriteria
+    criteria?: Partial<MatchingCriteria>,
+    candidatePreferences: Record<string, UserPreferences> = {} // keyed by user id
   ): Promise<CompatibilityAnalysis[]> {
     const matches: CompatibilityAnalysis[] = [];
-    
-    const defaultCriteria: MatchingCriteria = {
-      maxDetourDistance: userPreferences?.max_detour_distance ?? 10,
-      maxDetourTime: userPreferences?.max_detour_time ?? 30,
-      maxWalkingDistance: userPreferences?.max_walking_distance ?? 500,
-      timeFlexibility: userPreferences?.time_flexibility ?? 15,
-      priceRangeMin: userPreferences?.price_range_min ?? 0,
-      priceRangeMax: userPreferences?.price_range_max ?? 100,
-    };
-
-    const activeCriteria = { ...defaultCriteria, ...criteria };
+    const activeCriteria = this.buildCriteria(userPreferences, criteria);
+    const hardRules: PreferenceRule[] = [...this.ALWAYS_HARD_RULES, ...(activeCriteria.hardFilters ?? [])];
 
     for (const candidateTrip of availableTrips) {
       // Skip if same trip or same user
@@ -75,16 +112,25 @@ export class MatchingAlgorithm {
       // Skip if trip is not active or has no available seats
       if (candidateTrip.status !== 'ACTIVE' || candidateTrip.available_seats <= 0) continue;
 
+      // Skip if the source trip's bags do not fit in the luggage space left
+      if (!LuggageCapacity.fits(LuggageCapacity.remaining(candidateTrip), LuggageCapacity.onBoard(sourceTrip))) continue;
+
+      // Skip if either party fails a hard preference (before any routing work)
+      const otherPreferences = candidatePreferences[candidateTrip.user_id];
+      const rules = this.explainPreferencesCompatibility(sourceTrip, candidateTrip, userPreferences, otherPreferences);
+      if (rules.some(rule => !rule.passed && hardRules.includes(rule.rule))) continue;
+
       try {
         const compatibility = await this.analyzeCompatibility(
           sourceTrip,
           candidateTrip,
           activeCriteria,
-          userPreferences
+          userPreferences,
+          otherPreferences
         );
 
         // Only include matches above minimum threshold
-        if (compatibility.overallScore >= 0.3) {
+        if (compatibility.overallScore >= (activeCriteria.minScore ?? this.MIN_MATCH_SCORE)) {
           matches.push(compatibility);
         }
       } catch (error) {
@@ -96,6 +142,78 @@ export class MatchingAlgorithm {
     return matches.sort((a, b) => b.overallScore - a.overallScore);
   }
 
+  /**
+   * Plan a shared ride for a driver trip: pick the subset of rider trips or
+   * requests that fills the most seats within the detour limits and pickup time
+   * windows, with the ordered stops and each rider's share of the fare
+   */
+  static async planPool(
+    driverTrip: Trip,
+    riders: (Trip | TripRequest)[],
+    userPreferences?: UserPreferences,
+    criteria?: Partial<MatchingCriteria>
+  ): Promise<PoolPlan> {
+    const activeCriteria = this.buildCriteria(userPreferences, criteria);
+
+    const poolRiders = riders
+      .filter(rider => {
+        if ('seats_requested' in rider) {
+          return rider.status === 'PENDING' || rider.status === 'ACCEPTED';
+        }
+        return rider.id !== driverTrip.id && rider.user_id !== driverTrip.user_id && rider.status === 'ACTIVE';
+      })
+      .map(rider => PoolPlanner.toRider(rider, driverTrip, activeCriteria.timeFlexibility));
+
+    return PoolPlanner.plan(driverTrip, poolRiders, activeCriteria);
+  }
+
+  /**
+   * Fill in matching criteria from user preferences and defaults
+   */
+  private static buildCriteria(
+    userPreferences?: UserPreferences,
+    criteria?: Partial<MatchingCriteria>
+  ): MatchingCriteria {
+    const defaultCriteria: MatchingCriteria = {
+      maxDetourDistance: userPreferences?.max_detour_distance ?? 10,
+      maxDetourTime: userPreferences?.max_detour_time ?? 30,
+      maxWalkingDistance: userPreferences?.max_walking_distance ?? 500,
+      timeFlexibility: userPreferences?.time_flexibility ?? 15,
+      priceRangeMin: userPreferences?.price_range_min ?? 0,
+      priceRangeMax: userPreferences?.price_range_max ?? 100,
+      weights: this.resolveWeights(userPreferences),
+      minScore: userPreferences?.min_match_score ?? this.MIN_MATCH_SCORE,
+      hardFilters: userPreferences?.hard_filters ?? [],
+    };
+
+    return { ...defaultCriteria, ...criteria };
+  }
+
+  /**
+   * Score weights for the user's matching profile. Custom weights are
+   * normalized to sum to 1; unusable custom weights fall back to balanced.
+   */
+  static resolveWeights(userPreferences?: UserPreferences): MatchingWeights {
+    const profile = userPreferences?.matching_profile ?? 'balanced';
+
+    if (profile !== 'custom') {
+      return this.MATCHING_PROFILES[profile] ?? this.WEIGHTS;
+    }
+
+    const custom = userPreferences?.custom_weights;
+    const factors = Object.keys(this.WEIGHTS) as (keyof MatchingWeights)[];
+    const total = custom ? factors.reduce((sum, factor) => sum + Math.max(0, custom[factor] || 0), 0) : 0;
+
+    if (total <= 0) {
+      return this.WEIGHTS;
+    }
+
+    return factors.reduce(
+      (weights, factor) => ({ ...weights, [factor]: Math.max(0, custom[factor] || 0) / total }),
+      {} as MatchingWeights
+    );
+  }
+
   /**
    * Analyze compatibility between two trips
    */
@@ -103,7 +221,8 @@ export class MatchingAlgorithm {
     sourceTrip: Trip | CreateTripData,
     candidateTrip: Trip,
     criteria: MatchingCriteria,
-    userPreferences?: UserPreferences
+    userPreferences?: UserPreferences,
+    candidatePreferences?: UserPreferences
   ): Promise<CompatibilityAnalysis> {
     // 1. Route compatibility analysis
     const routeAnalysis = await this.analyzeRouteCompatibility(
@@ -113,32 +232,27 @@ export class MatchingAlgorithm {
       candidateTrip.destination_location
     );
 
-    // 2. Time compatibility analysis
-    const timeCompatibility = this.analyzeTimeCompatibility(
-      sourceTrip.departure_time,
-      candidateTrip.departure_time,
-      criteria.timeFlexibility
-    );
-
-    // 3. User preferences compatibility
-    const preferencesCompatibility = this.analyzePreferencesCompatibility(
+    // 2. User preferences compatibility
+    const preferenceRules = this.explainPreferencesCompatibility(
       sourceTrip,
       candidateTrip,
-      userPreferences
+      userPreferences,
+      candidatePreferences
     );
+    const preferencesCompatibility = PreferenceMatcher.score(preferenceRules);
 
-    // 4. Price compatibility analysis
+    // 3. Price compatibility analysis
     const priceCompatibility = this.analyzePriceCompatibility(
       candidateTrip.price_per_seat,
       criteria.priceRangeMin,
       criteria.priceRangeMax
     );
 
-    // 5. Determine match type
+    // 4. Determine match type
     const matchType = this.determineMatchType(routeAnalysis);
 
-    // 6. Calculate detour metrics
-    const { detourDistance, detourTime } = await this.calculateDetourMetrics(
+    // 5. Calculate detour metrics (candidate trip drives, source trip rides along)
+    const { detourDistance, detourTime, insertion } = await this.calculateDetourMetrics(
       sourceTrip.origin_location,
       sourceTrip.destination_location,
       candidateTrip.origin_location,
@@ -146,6 +260,11 @@ export class MatchingAlgorithm {
       routeAnalysis
     );
 
+    // 6. Time compatibility: departure windows overlap, with time to arrive by the latest arrivals
+    const rideMinutes = insertion?.totalTime ?? routeAnalysis.totalOriginalDistance * 2; // Rough estimate: 2 minutes per km
+    const timeWindow = TimeWindowMatcher.analyze(sourceTrip, candidateTrip, criteria.timeFlexibility, rideMinutes);
+    const timeCompatibility = timeWindow.score;
+
     // 7. Apply distance and time constraints
     const distanceCompatibility = detourDistance <= criteria.maxDetourDistance ? 1 : 
       Math.max(0, 1 - (detourDistance - criteria.maxDetourDistance) / criteria.maxDetourDistance);
@@ -154,13 +273,31 @@ export class MatchingAlgorithm {
       Math.max(0, 1 - (detourTime - criteria.maxDetourTime) / criteria.maxDetourTime);
 
     // 8. Calculate overall compatibility score
-    const overallScore = Math.min(1, Math.max(0,
-      (routeAnalysis.overlapPercentage * this.WEIGHTS.route) +
-      (timeCompatibility * this.WEIGHTS.time) +
-      (preferencesCompatibility * this.WEIGHTS.preferences) +
-      (distanceCompatibility * this.WEIGHTS.distance) +
-      (priceCompatibility * this.WEIGHTS.price)
-    )) * timeDeviationScore; // Apply time constraint as multiplier
+    const weights = criteria.weights ?? this.WEIGHTS;
+    const weightedScores: Omit<ScoreFactor, 'contribution'>[] = [
+      { factor: 'route', score: routeAnalysis.overlapPercentage, weight: weights.route },
+      { factor: 'time', score: timeCompatibility, weight: weights.time },
+      { factor: 'preferences', score: preferencesCompatibility, weight: weights.preferences },
+      { factor: 'distance', score: distanceCompatibility, weight: weights.distance },
+      { factor: 'price', score: priceCompatibility, weight: weights.price },
+    ];
+    const factors: ScoreFactor[] = weightedScores.map(factor => ({
+      ...factor,
+      contribution: factor.score * factor.weight,
+    }));
+
+    const baseScore = Math.min(1, Math.max(0,
+      factors.reduce((total, factor) => total + factor.contribution, 0)
+    ));
+    const overallScore = baseScore * timeDeviationScore; // Apply time constraint as multiplier
+
+    const penalties: ScorePenalty[] = timeDeviationScore < 1
+      ? [{
+        constraint: 'detour_time',
+        multiplier: timeDeviationScore,
+        reason: `Detour of ${Math.round(detourTime)} min exceeds your ${criteria.maxDetourTime} min limit`,
+      }]
+      : [];
 
     // 9. Calculate estimated savings
     const estimatedSavings = this.calculateEstimatedSavings(
@@ -169,7 +306,28 @@ export class MatchingAlgorithm {
       routeAnalysis.totalOriginalDistance
     );
 
+    // 10. Suggest where the candidate's driver meets the source passenger;
+    // passengers who need step-free access are picked up at their door
+    const driverPath = routeAnalysis.candidateRoute?.path ?? [];
+    const walkingDistance = MeetingPointService.needsStepFree(sourceTrip.accessibility_needs ?? [])
+      ? 0
+      : criteria.maxWalkingDistance;
+    const suggestedPickupPoint = MeetingPointService.suggestMeetingPoint(
+      driverPath,
+      sourceTrip.origin_location,
+      walkingDistance
+    );
+    const suggestedDropoffPoint = MeetingPointService.suggestMeetingPoint(
+      driverPath,
+      sourceTrip.destination_location,
+      walkingDistance
+    );
+
+    const timeDifference =
+      (new Date(candidateTrip.departure_time).getTime() - new Date(sourceTrip.departure_time).getTime()) / (1000 * 60);
+
     return {
+      tripId: candidateTrip.id,
       routeCompatibility: routeAnalysis.overlapPercentage,
       timeCompatibility,
       preferencesCompatibility,
@@ -178,12 +336,26 @@ export class MatchingAlgorithm {
       matchType,
       detourDistance,
       detourTime,
+      insertion,
       estimatedSavings,
+      sharedDistance: routeAnalysis.sharedDistance,
+      timeDifference,
+      timeWindow,
+      routeAnalysis,
+      suggestedPickupPoint,
+      suggestedDropoffPoint,
+      explanation: {
+        factors,
+        preferenceRules,
+        mutuallyCompatible: PreferenceMatcher.conflicts(preferenceRules).length === 0,
+        penalties,
+        baseScore,
+      },
     };
   }
 
   /**
-   * Analyze route compatibility using Google Maps
+   * Analyze route compatibility using the configured routing provider
    */
   static async analyzeRouteCompatibility(
     sourceOrigin: LocationData,
@@ -192,46 +364,37 @@ export class MatchingAlgorithm {
     candidateDestination: LocationData
   ): Promise<RouteOverlapResult> {
     try {
-      await loadGoogleMapsApi();
+      const routing = getRoutingProvider();
 
-      // Check for exact route match first
-      const originDistance = await calculateDistance(
-        sourceOrigin.coordinates,
-        candidateOrigin.coordinates
-      );
-      const destinationDistance = await calculateDistance(
-        sourceDestination.coordinates,
-        candidateDestination.coordinates
-      );
+      // How far apart the trips start and end
+      const [originDistance, destinationDistance] = await Promise.all([
+        routing.getDistance(sourceOrigin.coordinates, candidateOrigin.coordinates),
+        routing.getDistance(sourceDestination.coordinates, candidateDestination.coordinates),
+      ]);
 
-      // If both origin and destination are very close (within 1km), consider it exact route
-      if (originDistance.distance <= 1000 && destinationDistance.distance <= 1000) {
-        const totalDistance = await calculateDistance(
-          sourceOrigin.coordinates,
-          sourceDestination.coordinates
-        );
+      // Get routes for both trips
+      const [sourceRoute, candidateRoute] = await Promise.all([
+        routing.getDirections(sourceOrigin.coordinates, sourceDestination.coordinates),
+        routing.getDirections(candidateOrigin.coordinates, candidateDestination.coordinates),
+      ]);
 
+      // Analyze route overlap using geometry
+      const overlap = this.calculateRouteOverlap(sourceRoute, candidateRoute);
+
+      // If both origin and destination are very close (within 1km), consider it exact route,
+      // keeping the geometry for meeting points and the route map
+      if (originDistance.distance <= 1000 && destinationDistance.distance <= 1000) {
         return {
+          ...overlap,
           overlapPercentage: 0.98,
-          sharedDistance: totalDistance.distance / 1000, // Convert to km
-          totalOriginalDistance: totalDistance.distance / 1000,
+          sharedDistance: overlap.totalOriginalDistance,
           deviationDistance: 0.1, // Minimal deviation
-          commonPath: [],
-          pickupPoints: [new google.maps.LatLng(candidateOrigin.coordinates.lat, candidateOrigin.coordinates.lng)],
-          dropoffPoints: [new google.maps.LatLng(candidateDestination.coordinates.lat, candidateDestination.coordinates.lng)],
+          pickupPoints: [candidateOrigin.coordinates],
+          dropoffPoints: [candidateDestination.coordinates],
         };
       }
 
-      // Get routes for both trips
-      const [sourceRoute, candidateRoute] = await Promise.all([
-        getRoute(sourceOrigin.coordinates, sourceDestination.coordinates),
-        getRoute(candidateOrigin.coordinates, candidateDestination.coordinates),
-      ]);
-
-      // Analyze route overlap using geometry
-      const overlapAnalysis = await this.calculateRouteOverlap(sourceRoute, candidateRoute);
-      
-      return overlapAnalysis;
+      return overlap;
     } catch (error) {
       console.error('Route compatibility analysis failed:', error);
       // Fallback to basic distance analysis
@@ -240,117 +403,71 @@ export class MatchingAlgorithm {
   }
 
   /**
-   * Calculate route overlap using Google Maps geometry
+   * Calculate route overlap from route geometry
    */
-  static async calculateRouteOverlap(
-    sourceRoute: google.maps.DirectionsResult,
-    candidateRoute: google.maps.DirectionsResult
-  ): Promise<RouteOverlapResult> {
-    const maps = await loadGoogleMapsApi();
-    
-    const sourcePath = sourceRoute.routes[0].overview_path;
-    const candidatePath = candidateRoute.routes[0].overview_path;
-    
-    const sourceDistance = sourceRoute.routes[0].legs.reduce(
-      (total, leg) => total + (leg.distance?.value || 0), 0
-    ) / 1000; // Convert to km
-
-    let overlapDistance = 0;
-    const overlapThreshold = 500; // meters
-    const commonPath: google.maps.LatLng[] = [];
-    const pickupPoints: google.maps.LatLng[] = [];
-    const dropoffPoints: google.maps.LatLng[] = [];
-
-    // Find overlapping segments
-    for (let i = 0; i < sourcePath.length - 1; i++) {
-      const sourceSegmentStart = sourcePath[i];
-      const sourceSegmentEnd = sourcePath[i + 1];
-      
-      for (let j = 0; j < candidatePath.length - 1; j++) {
-        const candidateSegmentStart = candidatePath[j];
-        const candidateSegmentEnd = candidatePath[j + 1];
-        
-        // Check if segments are close enough to be considered overlapping
-        const startDistance = maps.geometry.spherical.computeDistanceBetween(
-          sourceSegmentStart,
-          candidateSegmentStart
-        );
-        const endDistance = maps.geometry.spherical.computeDistanceBetween(
-          sourceSegmentEnd,
-          candidateSegmentEnd
-        );
-        
-        if (startDistance <= overlapThreshold && endDistance <= overlapThreshold) {
-          const segmentDistance = maps.geometry.spherical.computeDistanceBetween(
-            sourceSegmentStart,
-            sourceSegmentEnd
-          ) / 1000; // Convert to km
-          
-          overlapDistance += segmentDistance;
-          commonPath.push(sourceSegmentStart, sourceSegmentEnd);
-          
-          // Potential pickup/dropoff points
-          if (pickupPoints.length < 3) {
-            pickupPoints.push(sourceSegmentStart);
-          }
-          if (dropoffPoints.length < 3) {
-            dropoffPoints.push(sourceSegmentEnd);
-          }
-        }
-      }
-    }
+  static calculateRouteOverlap(
+    sourceRoute: RoutePath,
+    candidateRoute: RoutePath
+  ): RouteOverlapResult {
+    const overlap = RouteOverlapCalculator.calculate(sourceRoute.path, candidateRoute.path);
+    const sourceDistance = sourceRoute.distance / 1000; // Convert to km
 
-    const overlapPercentage = Math.min(1, overlapDistance / sourceDistance);
-    const deviationDistance = sourceDistance - overlapDistance;
+    // Geometry gives the shared fraction; scale it to the provider's road distance
+    const overlapPercentage = overlap.sourceLength > 0 ? Math.min(1, overlap.sharedLength / overlap.sourceLength) : 0;
+    const sharedDistance = sourceDistance * overlapPercentage;
 
     return {
       overlapPercentage,
-      sharedDistance: overlapDistance,
+      sharedDistance,
       totalOriginalDistance: sourceDistance,
-      deviationDistance,
-      commonPath,
-      pickupPoints: pickupPoints.slice(0, 3), // Limit to top 3 options
-      dropoffPoints: dropoffPoints.slice(0, 3),
+      deviationDistance: sourceDistance - sharedDistance,
+      commonPath: overlap.intervals.flatMap(interval => interval.path),
+      pickupPoints: overlap.intervals.map(interval => interval.entry).slice(0, 3), // Limit to top 3 options
+      dropoffPoints: overlap.intervals.map(interval => interval.exit).slice(0, 3),
+      sharedIntervals: overlap.intervals,
+      sourceRoute,
+      candidateRoute,
     };
   }
 
   /**
    * Fallback route analysis using basic distance calculations
    */
-  static async fallbackRouteAnalysis(
+  static fallbackRouteAnalysis(
     sourceOrigin: LocationData,
     sourceDestination: LocationData,
     candidateOrigin: LocationData,
     candidateDestination: LocationData
-  ): Promise<RouteOverlapResult> {
+  ): RouteOverlapResult {
     // Basic analysis using haversine distances
-    const sourceDistance = await calculateDistance(
+    const sourceDistance = haversineDistance(
       sourceOrigin.coordinates,
       sourceDestination.coordinates
     );
 
     // Calculate how close the routes are
-    const originProximity = await calculateDistance(
+    const originProximity = haversineDistance(
       sourceOrigin.coordinates,
       candidateOrigin.coordinates
     );
-    const destinationProximity = await calculateDistance(
+    const destinationProximity = haversineDistance(
       sourceDestination.coordinates,
       candidateDestination.coordinates
     );
 
     // Rough overlap estimation based on endpoint proximity
-    const maxProximity = Math.max(originProximity.distance, destinationProximity.distance);
+    const maxProximity = Math.max(originProximity, destinationProximity);
     const overlapPercentage = Math.max(0, 1 - (maxProximity / 10000)); // 10km max reasonable distance
 
     return {
       overlapPercentage,
-      sharedDistance: (sourceDistance.distance / 1000) * overlapPercentage,
-      totalOriginalDistance: sourceDistance.distance / 1000,
+      sharedDistance: (sourceDistance / 1000) * overlapPercentage,
+      totalOriginalDistance: sourceDistance / 1000,
       deviationDistance: maxProximity / 1000,
       commonPath: [],
-      pickupPoints: [new google.maps.LatLng(candidateOrigin.coordinates.lat, candidateOrigin.coordinates.lng)],
-      dropoffPoints: [new google.maps.LatLng(candidateDestination.coordinates.lat, candidateDestination.coordinates.lng)],
+      pickupPoints: [candidateOrigin.coordinates],
+      dropoffPoints: [candidateDestination.coordinates],
+      sharedIntervals: [],
     };
   }
 
@@ -362,18 +479,11 @@ export class MatchingAlgorithm {
     candidateDepartureTime: string,
     flexibilityMinutes: number
   ): number {
-    const sourceTime = new Date(sourceDepartureTime);
-    const candidateTime = new Date(candidateDepartureTime);
-    
-    const timeDifferenceMinutes = Math.abs(sourceTime.getTime() - candidateTime.getTime()) / (1000 * 60);
-    
-    if (timeDifferenceMinutes <= flexibilityMinutes) {
-      return 1; // Perfect time compatibility
-    }
-    
-    // Gradual decrease in compatibility as time difference increases
-    const maxReasonableDelay = flexibilityMinutes * 3; // Up to 3x flexibility is somewhat acceptable
-    return Math.max(0, 1 - (timeDifferenceMinutes - flexibilityMinutes) / maxReasonableDelay);
+    return TimeWindowMatcher.analyze(
+      { departure_time: sourceDepartureTime },
+      { departure_time: candidateDepartureTime },
+      flexibilityMinutes
+    ).score;
   }
 
   /**
@@ -382,44 +492,28 @@ export class MatchingAlgorithm {
   static analyzePreferencesCompatibility(
     sourceTrip: Trip | CreateTripData,
     candidateTrip: Trip,
-    userPreferences?: UserPreferences
+    userPreferences?: UserPreferences,
+    candidatePreferences?: UserPreferences
   ): number {
-    let compatibilityScore = 0;
-    let criteriaCount = 0;
-
-    // Smoking preference
-    criteriaCount++;
-    if (userPreferences?.smoking_preference === 'indifferent' || 
-        candidateTrip.smoking_allowed === (userPreferences?.smoking_preference === 'yes')) {
-      compatibilityScore++;
-    } else if (userPreferences?.smoking_preference === 'no' && !candidateTrip.smoking_allowed) {
-      compatibilityScore++;
-    }
-
-    // Pets preference
-    criteriaCount++;
-    if (userPreferences?.pets_preference === undefined || 
-        candidateTrip.pets_allowed === userPreferences.pets_preference) {
-      compatibilityScore++;
-    }
-
-    // Music preference
-    criteriaCount++;
-    if (userPreferences?.music_preference === 'indifferent' || 
-        candidateTrip.music_preference === userPreferences?.music_preference ||
-        candidateTrip.music_preference === 'indifferent') {
-      compatibilityScore++;
-    }
-
-    // Conversation level
-    criteriaCount++;
-    if (userPreferences?.conversation_level === 'indifferent' || 
-        candidateTrip.conversation_level === userPreferences?.conversation_level ||
-        candidateTrip.conversation_level === 'indifferent') {
-      compatibilityScore++;
-    }
+    return PreferenceMatcher.score(
+      this.explainPreferencesCompatibility(sourceTrip, candidateTrip, userPreferences, candidatePreferences)
+    );
+  }
 
-    return criteriaCount > 0 ? compatibilityScore / criteriaCount : 1;
+  /**
+   * Check both users' preferences against each other's trip and profile, with
+   * a reason for each rule. Missing preferences fall back to the trip settings.
+   */
+  static explainPreferencesCompatibility(
+    sourceTrip: Trip | CreateTripData,
+    candidateTrip: Trip,
+    userPreferences?: UserPreferences,
+    candidatePreferences?: UserPreferences
+  ): PreferenceRuleResult[] {
+    return PreferenceMatcher.match(
+      { trip: sourceTrip, preferences: userPreferences },
+      { trip: candidateTrip, preferences: candidatePreferences }
+    );
   }
 
   /**
@@ -471,31 +565,28 @@ export class MatchingAlgorithm {
   }
 
   /**
-   * Calculate detour metrics
+   * Calculate detour metrics as the extra cost of inserting the passenger's
+   * pickup and dropoff into the driver's route (A→p→d→B vs A→B)
    */
   static async calculateDetourMetrics(
-    sourceOrigin: LocationData,
-    sourceDestination: LocationData,
-    candidateOrigin: LocationData,
-    candidateDestination: LocationData,
+    passengerOrigin: LocationData,
+    passengerDestination: LocationData,
+    driverOrigin: LocationData,
+    driverDestination: LocationData,
     routeAnalysis: RouteOverlapResult
-  ): Promise<{ detourDistance: number; detourTime: number }> {
+  ): Promise<{ detourDistance: number; detourTime: number; insertion?: InsertionResult }> {
     try {
-      // Calculate additional distance/time for pickup and dropoff
-      const pickupDetour = await calculateDistance(
-        sourceOrigin.coordinates,
-        candidateOrigin.coordinates
+      const insertion = await DetourCalculator.findBestInsertion(
+        [driverOrigin.coordinates, driverDestination.coordinates],
+        passengerOrigin.coordinates,
+        passengerDestination.coordinates
       );
-      
-      const dropoffDetour = await calculateDistance(
-        candidateDestination.coordinates,
-        sourceDestination.coordinates
-      );
-      
-      const detourDistance = (pickupDetour.distance + dropoffDetour.distance) / 1000; // Convert to km
-      const detourTime = (pickupDetour.duration + dropoffDetour.duration) / 60; // Convert to minutes
-      
-      return { detourDistance, detourTime };
+
+      return {
+        detourDistance: insertion.addedDistance,
+        detourTime: insertion.addedTime,
+        insertion,
+      };
     } catch (error) {
       console.error('Error calculating detour metrics:', error);
       return {
@@ -1,11 +1,16 @@
-import { loadGoogleMapsApi, geocodeAddress, reverseGeocode } from '../maps/googleMaps';
-import type { LocationData, MeetingPoint } from '../../types';
+import { isGoogleMapsAvailable, reverseGeocode } from '../maps/googleMaps';
+import { getRoutingProvider, haversineDistance, interpolate, projectOntoSegment } from '../routing';
+import { getPoiProvider } from '../poi';
+import type { AccessibilityNeed, LocationData, MeetingPoint } from '../../types';
+import type { Coordinates, RouteDistance, RoutePath } from '../routing';
+import type { PointOfInterest } from '../poi';
 
 export interface MeetingPointOptions {
   maxWalkingDistance: number; // meters
   preferredTypes: string[]; // e.g., ['transit_station', 'parking', 'establishment']
   avoidTypes: string[]; // e.g., ['cemetery', 'hospital']
   accessibilityRequired: boolean;
+  accessibilityNeeds: AccessibilityNeed[]; // the passenger's; wheelchair and step-free needs also require accessibility
 }
 
 export interface MeetingPointAnalysis {
@@ -14,7 +19,25 @@ export interface MeetingPointAnalysis {
   convenienceScore: number; // 0-1
   accessibilityScore: number; // 0-1
   overallScore: number; // 0-1
-  nearbyPOIs: google.maps.places.PlaceResult[];
+  nearbyPOIs: PointOfInterest[];
+}
+
+export interface FairMeetingPointOptions {
+  // 'minimax' keeps the longer of the two walks short; 'total' minimizes both walks plus the taxi's detour
+  objective: 'minimax' | 'total';
+  maxWalkingDistances: [number, number]; // meters, per party
+  destination?: Coordinates; // where the taxi heads after the pickup, to weigh its detour
+  accessibilityNeeds: AccessibilityNeed[]; // of either party
+  limit: number;
+}
+
+export interface FairMeetingPoint {
+  point: MeetingPoint;
+  walks: [RouteDistance, RouteDistance]; // per party, in the order the parties were given
+  maxWalkingTime: number; // seconds
+  totalWalkingTime: number; // seconds
+  detourTime: number; // seconds the taxi needs beyond the quickest pickup point, 0 without a destination
+  cost: number; // seconds, the objective being minimized
 }
 
 export class MeetingPointService {
@@ -23,39 +46,69 @@ export class MeetingPointService {
     preferredTypes: ['transit_station', 'shopping_mall', 'gas_station', 'parking'],
     avoidTypes: ['cemetery', 'hospital', 'funeral_home'],
     accessibilityRequired: false,
+    accessibilityNeeds: [],
   };
 
+  private static readonly DEFAULT_FAIR_OPTIONS: FairMeetingPointOptions = {
+    objective: 'minimax',
+    maxWalkingDistances: [500, 500],
+    accessibilityNeeds: [],
+    limit: 5,
+  };
+
+  // Candidates between the two parties, as fractions of the way from one to the other
+  private static readonly FAIR_CANDIDATE_STEPS = 10;
+
+  // How far off the route an official pickup spot may be for the driver to stop there
+  private static readonly MAX_SPOT_DISTANCE_FROM_ROUTE = 150; // meters
+  private static readonly OFFICIAL_SPOT_BONUS = 0.15;
+
+  private static readonly STEP_FREE_NEEDS: AccessibilityNeed[] = ['wheelchair', 'step_free'];
+
+  /**
+   * Whether the needs rule out meeting points with steps, and walking to them
+   */
+  static needsStepFree(needs: AccessibilityNeed[]): boolean {
+    return needs.some(need => this.STEP_FREE_NEEDS.includes(need));
+  }
+
   /**
    * Find optimal meeting points along a route
    */
   static async findOptimalMeetingPoints(
-    routeResult: google.maps.DirectionsResult,
+    route: RoutePath,
     passengerLocation: LocationData,
     options: Partial<MeetingPointOptions> = {}
   ): Promise<MeetingPointAnalysis[]> {
     const activeOptions = { ...this.DEFAULT_OPTIONS, ...options };
+    const stepFree = this.needsStepFree(activeOptions.accessibilityNeeds);
+    if (stepFree) activeOptions.accessibilityRequired = true;
     
     try {
-      await loadGoogleMapsApi();
-      
-      const route = routeResult.routes[0];
-      if (!route || !route.overview_path) {
+      if (route.path.length === 0) {
         throw new Error('Invalid route data');
       }
 
-      // Get candidate points along the route
-      const candidatePoints = this.getCandidatePointsAlongRoute(
-        route.overview_path,
+      // Get candidate points along the route, official pickup spots first
+      const officialSpots = await this.getOfficialSpotsNearRoute(
+        route.path,
         passengerLocation,
-        activeOptions.maxWalkingDistance
+        activeOptions.maxWalkingDistance,
+        stepFree
       );
+      const candidatePoints: Array<{ point: Coordinates; spot?: PointOfInterest }> = [
+        ...officialSpots.map(spot => ({ point: spot.coordinates, spot })),
+        ...this.getCandidatePointsAlongRoute(route.path, passengerLocation, activeOptions.maxWalkingDistance).map(
+          point => ({ point })
+        ),
+      ];
 
       // Analyze each candidate point
       const analyses: MeetingPointAnalysis[] = [];
       
-      for (const point of candidatePoints) {
+      for (const { point, spot } of candidatePoints) {
         try {
-          const analysis = await this.analyzeMeetingPoint(point, activeOptions);
+          const analysis = await this.analyzeMeetingPoint(point, activeOptions, spot);
           if (analysis.overallScore > 0.3) { // Only include viable options
             analyses.push(analysis);
           }
@@ -70,23 +123,54 @@ export class MeetingPointService {
         .slice(0, 5); // Return top 5 options
     } catch (error) {
       console.error('Error finding meeting points:', error);
-      return this.getFallbackMeetingPoints(routeResult, passengerLocation);
+      return this.getFallbackMeetingPoints(route, passengerLocation);
+    }
+  }
+
+  /**
+   * Suggest where a driver following `routePath` should meet a passenger: the
+   * closest point on the route if it is within walking distance, otherwise the
+   * passenger's own location. Needs no network access.
+   */
+  static suggestMeetingPoint(
+    routePath: Coordinates[],
+    passengerLocation: LocationData,
+    maxWalkingDistance: number
+  ): MeetingPoint {
+    let closest: { point: Coordinates; distance: number } | null = null;
+
+    for (let i = 0; i < routePath.length - 1; i++) {
+      const projection = projectOntoSegment(passengerLocation.coordinates, routePath[i], routePath[i + 1]);
+      if (!closest || projection.distance < closest.distance) {
+        closest = projection;
+      }
+    }
+
+    if (closest && closest.distance <= maxWalkingDistance) {
+      return {
+        address: this.formatCoordinates(closest.point),
+        coordinates: { lat: closest.point.lat, lng: closest.point.lng },
+        walkingDistance: closest.distance,
+      };
     }
+
+    // The driver picks the passenger up at their door
+    return {
+      address: passengerLocation.address,
+      coordinates: { ...passengerLocation.coordinates },
+      walkingDistance: 0,
+    };
   }
 
   /**
    * Get candidate points along the route within walking distance
    */
   private static getCandidatePointsAlongRoute(
-    routePath: google.maps.LatLng[],
+    routePath: Coordinates[],
     passengerLocation: LocationData,
     maxWalkingDistance: number
-  ): google.maps.LatLng[] {
-    const candidatePoints: google.maps.LatLng[] = [];
-    const passengerLatLng = new google.maps.LatLng(
-      passengerLocation.coordinates.lat,
-      passengerLocation.coordinates.lng
-    );
+  ): Coordinates[] {
+    const candidatePoints: Coordinates[] = [];
 
     // Check points along the route at regular intervals
     const stepSize = Math.max(1, Math.floor(routePath.length / 20)); // Sample ~20 points
@@ -95,10 +179,7 @@ export class MeetingPointService {
       const routePoint = routePath[i];
       
       // Calculate walking distance to this point
-      const distance = google.maps.geometry.spherical.computeDistanceBetween(
-        passengerLatLng,
-        routePoint
-      );
+      const distance = haversineDistance(passengerLocation.coordinates, routePoint);
       
       if (distance <= maxWalkingDistance) {
         candidatePoints.push(routePoint);
@@ -108,20 +189,47 @@ export class MeetingPointService {
     return candidatePoints;
   }
 
+  /**
+   * Official pickup spots within walking distance of the passenger that the
+   * driver passes on the way
+   *
+   * @param stepFree leave out spots known not to be wheelchair accessible
+   */
+  private static async getOfficialSpotsNearRoute(
+    routePath: Coordinates[],
+    passengerLocation: LocationData,
+    maxWalkingDistance: number,
+    stepFree: boolean
+  ): Promise<PointOfInterest[]> {
+    const nearby = await getPoiProvider()
+      .getNearby(passengerLocation.coordinates, maxWalkingDistance)
+      .catch(() => [] as PointOfInterest[]);
+
+    return nearby.filter(poi => {
+      if (!poi.official || (stepFree && poi.wheelchairAccessible === false)) return false;
+
+      for (let i = 0; i < routePath.length - 1; i++) {
+        const projection = projectOntoSegment(poi.coordinates, routePath[i], routePath[i + 1]);
+        if (projection.distance <= this.MAX_SPOT_DISTANCE_FROM_ROUTE) return true;
+      }
+      return false;
+    });
+  }
+
   /**
    * Analyze a meeting point for viability
+   *
+   * @param spot the official pickup spot at `point`, if any
    */
   private static async analyzeMeetingPoint(
-    point: google.maps.LatLng,
-    options: MeetingPointOptions
+    point: Coordinates,
+    options: MeetingPointOptions,
+    spot?: PointOfInterest
   ): Promise<MeetingPointAnalysis> {
-    const maps = await loadGoogleMapsApi();
-    
-    // Get address for the point
-    const geocodeResult = await reverseGeocode({
-      lat: point.lat(),
-      lng: point.lng(),
-    });
+    // Get address for the point (geocoding is only available with Google Maps)
+    const geocodeResult = isGoogleMapsAvailable()
+      ? await reverseGeocode(point).catch(() => null)
+      : null;
 
     // Search for nearby places
     const nearbyPOIs = await this.getNearbyPOIs(point, options);
@@ -131,21 +239,22 @@ export class MeetingPointService {
     const convenienceScore = this.calculateConvenienceScore(nearbyPOIs, options);
     const accessibilityScore = this.calculateAccessibilityScore(nearbyPOIs, options);
     
-    // Overall score with weights
-    const overallScore = (
+    // Overall score with weights; official pickup spots rank above other points on the route
+    const overallScore = Math.min(1, (
       safetyScore * 0.4 +
       convenienceScore * 0.35 +
       accessibilityScore * 0.25
-    );
+    ) + (spot ? this.OFFICIAL_SPOT_BONUS : 0));
 
     const meetingPoint: MeetingPoint = {
-      address: geocodeResult.formatted_address,
+      address: geocodeResult?.formatted_address || spot?.name || this.formatCoordinates(point),
       coordinates: {
-        lat: point.lat(),
-        lng: point.lng(),
+        lat: point.lat,
+        lng: point.lng,
       },
       walkingDistance: 0, // Will be calculated by caller
       accessibility: accessibilityScore > 0.7 ? 'high' : accessibilityScore > 0.4 ? 'medium' : 'low',
+      ...(spot && { name: spot.name, official: true }),
     };
 
     return {
@@ -162,37 +271,23 @@ export class MeetingPointService {
    * Get nearby points of interest
    */
   private static async getNearbyPOIs(
-    location: google.maps.LatLng,
+    location: Coordinates,
     options: MeetingPointOptions
-  ): Promise<google.maps.places.PlaceResult[]> {
-    return new Promise((resolve, reject) => {
-      const service = new google.maps.places.PlacesService(
-        document.createElement('div')
-      );
-
-      service.nearbySearch(
-        {
-          location,
-          radius: Math.min(options.maxWalkingDistance, 500),
-          type: 'establishment',
-        },
-        (results, status) => {
-          if (status === google.maps.places.PlacesServiceStatus.OK && results) {
-            resolve(results);
-          } else {
-            resolve([]); // Return empty array instead of rejecting
-          }
-        }
-      );
-    });
+  ): Promise<PointOfInterest[]> {
+    try {
+      return await getPoiProvider().getNearby(location, Math.min(options.maxWalkingDistance, 500));
+    } catch (error) {
+      console.error('Nearby places lookup error:', error);
+      return []; // Score the point without nearby places instead of rejecting
+    }
   }
 
   /**
    * Calculate safety score based on nearby places and location
    */
   private static calculateSafetyScore(
-    nearbyPOIs: google.maps.places.PlaceResult[],
-    geocodeResult: google.maps.GeocoderResult
+    nearbyPOIs: PointOfInterest[],
+    geocodeResult: google.maps.GeocoderResult | null
   ): number {
     let score = 0.5; // Base score
     
@@ -211,20 +306,18 @@ export class MeetingPointService {
     let negativeCount = 0;
 
     nearbyPOIs.forEach(poi => {
-      if (poi.types) {
-        const hasPositive = poi.types.some(type => safetyPositives.includes(type));
-        const hasNegative = poi.types.some(type => safetyNegatives.includes(type));
-        
-        if (hasPositive) positiveCount++;
-        if (hasNegative) negativeCount++;
-      }
+      const hasPositive = poi.types.some(type => safetyPositives.includes(type));
+      const hasNegative = poi.types.some(type => safetyNegatives.includes(type));
+
+      if (hasPositive) positiveCount++;
+      if (hasNegative) negativeCount++;
     });
 
     // Adjust score based on nearby POIs
     score += (positiveCount * 0.1) - (negativeCount * 0.15);
     
     // Consider address components for additional context
-    const addressComponents = geocodeResult.address_components || [];
+    const addressComponents = geocodeResult?.address_components || [];
     const hasMainStreet = addressComponents.some(component =>
       component.types.includes('route') && 
       /\b(main|central|downtown|plaza|square)\b/i.test(component.long_name)
@@ -241,7 +334,7 @@ export class MeetingPointService {
    * Calculate convenience score based on nearby amenities
    */
   private static calculateConvenienceScore(
-    nearbyPOIs: google.maps.places.PlaceResult[],
+    nearbyPOIs: PointOfInterest[],
     options: MeetingPointOptions
   ): number {
     let score = 0.3; // Base score
@@ -256,15 +349,13 @@ export class MeetingPointService {
     let ratedPlaces = 0;
 
     nearbyPOIs.forEach(poi => {
-      if (poi.types) {
-        const isConvenient = poi.types.some(type => convenientTypes.includes(type));
-        if (isConvenient) {
-          convenientCount++;
-          
-          if (poi.rating) {
-            totalRating += poi.rating;
-            ratedPlaces++;
-          }
+      const isConvenient = poi.types.some(type => convenientTypes.includes(type));
+      if (isConvenient) {
+        convenientCount++;
+
+        if (poi.rating) {
+          totalRating += poi.rating;
+          ratedPlaces++;
         }
       }
     });
@@ -280,13 +371,9 @@ export class MeetingPointService {
 
     // Preferred types boost
     nearbyPOIs.forEach(poi => {
-      if (poi.types) {
-        const hasPreferredType = poi.types.some(type => 
-          options.preferredTypes.includes(type)
-        );
-        if (hasPreferredType) {
-          score += 0.05;
-        }
+      const hasPreferredType = poi.types.some(type => options.preferredTypes.includes(type));
+      if (hasPreferredType) {
+        score += 0.05;
       }
     });
 
@@ -297,7 +384,7 @@ export class MeetingPointService {
    * Calculate accessibility score
    */
   private static calculateAccessibilityScore(
-    nearbyPOIs: google.maps.places.PlaceResult[],
+    nearbyPOIs: PointOfInterest[],
     options: MeetingPointOptions
   ): number {
     let score = 0.5; // Base score
@@ -310,13 +397,10 @@ export class MeetingPointService {
     let accessiblePlaces = 0;
 
     nearbyPOIs.forEach(poi => {
-      if (poi.types) {
-        const isAccessible = poi.types.some(type => 
-          accessibilityPositives.includes(type)
-        );
-        if (isAccessible) {
-          accessiblePlaces++;
-        }
+      const isAccessible =
+        poi.wheelchairAccessible === true || poi.types.some(type => accessibilityPositives.includes(type));
+      if (isAccessible) {
+        accessiblePlaces++;
       }
     });
 
@@ -332,26 +416,32 @@ export class MeetingPointService {
     return Math.max(0, Math.min(1, score));
   }
 
+  /**
+   * Human-readable label for a point without a geocoded address
+   */
+  private static formatCoordinates(point: Coordinates): string {
+    return `Meeting point (${point.lat.toFixed(5)}, ${point.lng.toFixed(5)})`;
+  }
+
   /**
    * Get fallback meeting points when analysis fails
    */
   private static getFallbackMeetingPoints(
-    routeResult: google.maps.DirectionsResult,
+    route: RoutePath,
     passengerLocation: LocationData
   ): MeetingPointAnalysis[] {
-    const route = routeResult.routes[0];
-    if (!route || !route.overview_path) {
+    if (route.path.length === 0) {
       return [];
     }
 
     // Use route waypoints as fallback
-    const midPoint = route.overview_path[Math.floor(route.overview_path.length / 2)];
+    const midPoint = route.path[Math.floor(route.path.length / 2)];
     
     const fallbackPoint: MeetingPoint = {
       address: 'Meeting point along route',
       coordinates: {
-        lat: midPoint.lat(),
-        lng: midPoint.lng(),
+        lat: midPoint.lat,
+        lng: midPoint.lng,
       },
       walkingDistance: 0,
       accessibility: 'unknown',
@@ -367,6 +457,113 @@ export class MeetingPointService {
     }];
   }
 
+  /**
+   * Meeting points for two riders sharing a taxi that split the walking fairly.
+   * Candidates lie on the line between the riders, towards the destination and
+   * at nearby places; points either rider would walk further than their
+   * maximum to are left out, as are places with steps when either rider needs
+   * step-free access. Ties on the objective go to the shorter total walk.
+   */
+  static async findFairMeetingPoints(
+    first: LocationData,
+    second: LocationData,
+    options: Partial<FairMeetingPointOptions> = {}
+  ): Promise<FairMeetingPoint[]> {
+    const activeOptions = { ...this.DEFAULT_FAIR_OPTIONS, ...options };
+    const [firstMax, secondMax] = activeOptions.maxWalkingDistances;
+
+    const candidates = await this.getFairCandidates(
+      first.coordinates,
+      second.coordinates,
+      Math.max(firstMax, secondMax),
+      activeOptions.destination,
+      this.needsStepFree(activeOptions.accessibilityNeeds)
+    );
+    if (candidates.length === 0) return [];
+
+    const provider = getRoutingProvider();
+    const walks = await provider.getDistanceMatrix(
+      [first.coordinates, second.coordinates],
+      candidates.map(candidate => candidate.point),
+      'walking'
+    );
+    const rides = activeOptions.destination
+      ? await provider.getDistanceMatrix(
+        candidates.map(candidate => candidate.point),
+        [activeOptions.destination],
+        'driving'
+      )
+      : null;
+    const quickestRide = rides ? Math.min(...rides.map(([ride]) => ride.duration)) : 0;
+
+    return candidates
+      .map(({ point, poi }, index): FairMeetingPoint | null => {
+        const firstWalk = walks[0][index];
+        const secondWalk = walks[1][index];
+        if (firstWalk.distance > firstMax || secondWalk.distance > secondMax) return null;
+
+        const maxWalkingTime = Math.max(firstWalk.duration, secondWalk.duration);
+        const totalWalkingTime = firstWalk.duration + secondWalk.duration;
+        const detourTime = rides ? rides[index][0].duration - quickestRide : 0;
+
+        return {
+          point: {
+            address: poi?.name || this.formatCoordinates(point),
+            coordinates: { lat: point.lat, lng: point.lng },
+            walkingDistance: Math.max(firstWalk.distance, secondWalk.distance),
+            ...(poi?.name && { name: poi.name }),
+            ...(poi?.official && { official: true }),
+          },
+          walks: [firstWalk, secondWalk],
+          maxWalkingTime,
+          totalWalkingTime,
+          detourTime,
+          cost: activeOptions.objective === 'minimax' ? maxWalkingTime : totalWalkingTime + detourTime,
+        };
+      })
+      .filter((point): point is FairMeetingPoint => point !== null)
+      .sort((a, b) => a.cost - b.cost || a.totalWalkingTime - b.totalWalkingTime)
+      .slice(0, activeOptions.limit);
+  }
+
+  /**
+   * Points on the line between two riders, from their midpoint towards the
+   * destination, and nearby places within walking distance of the midpoint
+   */
+  private static async getFairCandidates(
+    first: Coordinates,
+    second: Coordinates,
+    maxWalkingDistance: number,
+    destination?: Coordinates,
+    stepFree = false
+  ): Promise<Array<{ point: Coordinates; poi?: PointOfInterest }>> {
+    const midpoint = interpolate(first, second, 0.5);
+    const candidates: Array<{ point: Coordinates; poi?: PointOfInterest }> = [];
+
+    for (let step = 0; step <= this.FAIR_CANDIDATE_STEPS; step++) {
+      candidates.push({ point: interpolate(first, second, step / this.FAIR_CANDIDATE_STEPS) });
+    }
+
+    // Meeting a little closer to the destination can save the taxi a detour
+    if (destination) {
+      const towardsDestination = Math.min(maxWalkingDistance, haversineDistance(midpoint, destination));
+      const fraction = towardsDestination / Math.max(haversineDistance(midpoint, destination), 1);
+
+      for (let step = 1; step <= this.FAIR_CANDIDATE_STEPS / 2; step++) {
+        candidates.push({ point: interpolate(midpoint, destination, (fraction * step) / (this.FAIR_CANDIDATE_STEPS / 2)) });
+      }
+    }
+
+    const pois = await getPoiProvider()
+      .getNearby(midpoint, maxWalkingDistance)
+      .catch(() => [] as PointOfInterest[]);
+    pois
+      .filter(poi => !stepFree || poi.wheelchairAccessible !== false)
+      .forEach(poi => candidates.push({ point: poi.coordinates, poi }));
+
+    return candidates;
+  }
+
   /**
    * Calculate walking distance between two points
    */
@@ -375,48 +572,15 @@ export class MeetingPointService {
     to: MeetingPoint
   ): Promise<{ distance: number; duration: number }> {
     try {
-      const maps = await loadGoogleMapsApi();
-      
-      return new Promise((resolve, reject) => {
-        const service = new maps.DistanceMatrixService();
-        
-        service.getDistanceMatrix(
-          {
-            origins: [from.coordinates],
-            destinations: [to.coordinates],
-            travelMode: maps.TravelMode.WALKING,
-            unitSystem: maps.UnitSystem.METRIC,
-          },
-          (response, status) => {
-            if (status === maps.DistanceMatrixStatus.OK && response) {
-              const element = response.rows[0]?.elements[0];
-              
-              if (element?.status === 'OK') {
-                resolve({
-                  distance: element.distance?.value || 0, // meters
-                  duration: element.duration?.value || 0, // seconds
-                });
-              } else {
-                reject(new Error('Walking distance calculation failed'));
-              }
-            } else {
-              reject(new Error('Distance matrix service failed'));
-            }
-          }
-        );
-      });
+      return await getRoutingProvider().getDistance(from.coordinates, to.coordinates, 'walking');
     } catch (error) {
       console.error('Walking distance calculation error:', error);
       // Fallback to straight-line distance
-      const maps = await loadGoogleMapsApi();
-      const distance = maps.geometry.spherical.computeDistanceBetween(
-        new maps.LatLng(from.coordinates.lat, from.coordinates.lng),
-        new maps.LatLng(to.coordinates.lat, to.coordinates.lng)
-      );
+      const distance = haversineDistance(from.coordinates, to.coordinates);
       
       return {
         distance,
-        duration: distance * 12, // Rough estimate: 5 km/h walking speed
+        duration: distance * 0.72, // Rough estimate: 5 km/h walking speed
       };
     }
   }
@@ -431,8 +595,9 @@ export class MeetingPointService {
   ): Promise<MeetingPointAnalysis[]> {
     try {
       // Get route between the two locations
-      const route = await import('../maps/googleMaps').then(maps => 
-        maps.getRoute(location1.coordinates, location2.coordinates)
+      const route = await getRoutingProvider().getDirections(
+        location1.coordinates,
+        location2.coordinates
       );
       
       // Find meeting points along this route
@@ -0,0 +1,343 @@
+import { getRoutingProvider } from '../routing';
+import { DetourCalculator } from './detourCalculator';
+import { LuggageCapacity } from './luggage';
+import type { Trip, TripRequest, LocationData } from '../../types';
+import type { RouteDistance } from '../routing';
+import type { MatchingCriteria } from './matchingAlgorithm';
+import type { LuggageCount } from './luggage';
+
+export interface PoolRider {
+  id: string; // rider trip or trip request id
+  pickup: LocationData;
+  dropoff: LocationData;
+  departureTime?: string; // desired pickup time; riders without one accept any pickup time
+  flexibility: number; // minutes either side of `departureTime`
+  earliestPickup?: string; // explicit pickup window, overrides `departureTime` ± `flexibility`
+  latestPickup?: string;
+  latestDropoff?: string; // "arrive by"
+  seats: number;
+  luggage?: LuggageCount; // none when unset
+}
+
+export interface PoolStop {
+  type: 'origin' | 'pickup' | 'dropoff' | 'destination';
+  riderId?: string;
+  location: LocationData;
+  arrivalTime: string; // ISO timestamp, after any wait for a pickup window
+}
+
+export interface PoolRiderPlan {
+  riderId: string;
+  seats: number;
+  pickupTime: string;
+  dropoffTime: string;
+  rideDistance: number; // km in the vehicle
+  rideTime: number; // minutes in the vehicle
+  directTime: number; // minutes the same ride takes without other stops
+  cost: number; // rider's share of the fare
+  soloCost: number; // what the same ride costs without anyone to share it with
+}
+
+export interface PoolPlan {
+  driverTripId: string;
+  stops: PoolStop[];
+  riders: PoolRiderPlan[];
+  unassignedRiderIds: string[];
+  seatsUsed: number;
+  baseDistance: number; // km, driver route without riders
+  baseTime: number; // minutes
+  totalDistance: number; // km
+  totalTime: number; // minutes, including waits for pickup windows
+  addedDistance: number; // km
+  addedTime: number; // minutes
+}
+
+export type PoolConstraints = Pick<MatchingCriteria, 'maxDetourDistance' | 'maxDetourTime' | 'timeFlexibility'>;
+
+interface Schedule {
+  arrivals: number[]; // ms timestamps, one per entry of the order
+  duration: number; // seconds from departure to arrival, including waits
+  distance: number; // meters
+}
+
+export class PoolPlanner {
+  // Riders beyond this many feasible candidates are left unassigned to bound the subset search
+  private static readonly MAX_CANDIDATES = 8;
+
+  /**
+   * Normalize a rider trip or a trip request into a pool rider
+   */
+  static toRider(rider: Trip | TripRequest, driverTrip: Trip, timeFlexibility: number): PoolRider {
+    if ('seats_requested' in rider) {
+      // Requests join this driver's trip, so they have no departure time of their own
+      return {
+        id: rider.id,
+        pickup: rider.pickup_location ?? driverTrip.origin_location,
+        dropoff: rider.dropoff_location ?? driverTrip.destination_location,
+        flexibility: rider.departure_flexibility ?? timeFlexibility,
+        earliestPickup: rider.earliest_departure,
+        latestPickup: rider.latest_departure,
+        latestDropoff: rider.latest_arrival,
+        seats: rider.seats_requested,
+        luggage: LuggageCapacity.of(rider),
+      };
+    }
+
+    return {
+      id: rider.id,
+      pickup: rider.origin_location,
+      dropoff: rider.destination_location,
+      departureTime: rider.departure_time,
+      flexibility: timeFlexibility,
+      earliestPickup: rider.earliest_departure,
+      latestPickup: rider.latest_departure,
+      latestDropoff: rider.latest_arrival,
+      seats: 1,
+      luggage: LuggageCapacity.onBoard(rider),
+    };
+  }
+
+  /**
+   * Choose the subset of riders that fills the most seats with the least extra
+   * driving, respecting seat and luggage capacity, detour limits and pickup
+   * time windows.
+   *
+   * Points are indexed as 0 = driver origin, 1 = driver destination, then the
+   * pickup and dropoff of rider r at 2 + 2r and 3 + 2r.
+   */
+  static async plan(driverTrip: Trip, riders: PoolRider[], constraints: PoolConstraints): Promise<PoolPlan> {
+    const locations = [
+      driverTrip.origin_location,
+      driverTrip.destination_location,
+      ...riders.flatMap(rider => [rider.pickup, rider.dropoff]),
+    ];
+    const coordinates = locations.map(location => location.coordinates);
+    const matrix = await getRoutingProvider().getDistanceMatrix(coordinates, coordinates);
+
+    const capacity = driverTrip.available_seats ?? driverTrip.max_passengers - driverTrip.current_passengers;
+    const luggageSpace = LuggageCapacity.remaining(driverTrip);
+    const departure = new Date(driverTrip.departure_time).getTime();
+    const base = DetourCalculator.routeCost(matrix, [0, 1]);
+    const schedule = (order: number[]) =>
+      this.schedule(order, matrix, riders, { seats: capacity, luggage: luggageSpace }, departure, base, constraints);
+    const isFeasible = (order: number[]) => schedule(order) !== null;
+
+    // Riders who cannot even ride alone are dropped before the subset search
+    const candidates = riders
+      .map((_, rider) => ({
+        rider,
+        insertion: DetourCalculator.insertIntoOrder(matrix, [0, 1], 2 + 2 * rider, 3 + 2 * rider, isFeasible),
+      }))
+      .filter(candidate => candidate.insertion !== null)
+      .sort((a, b) => a.insertion.cost.duration - b.insertion.cost.duration)
+      .slice(0, this.MAX_CANDIDATES)
+      .map(candidate => candidate.rider);
+
+    let best = { order: [0, 1], chosen: [] as number[], seats: 0, schedule: schedule([0, 1]) };
+
+    const search = (next: number, order: number[], chosen: number[], seats: number) => {
+      for (let k = next; k < candidates.length; k++) {
+        const rider = candidates[k];
+        const insertion = DetourCalculator.insertIntoOrder(matrix, order, 2 + 2 * rider, 3 + 2 * rider, isFeasible);
+        if (!insertion) continue;
+
+        const plan = {
+          order: insertion.order,
+          chosen: [...chosen, rider],
+          seats: seats + riders[rider].seats,
+          schedule: schedule(insertion.order),
+        };
+
+        if (
+          plan.seats > best.seats ||
+          (plan.seats === best.seats && plan.schedule.duration < best.schedule.duration)
+        ) {
+          best = plan;
+        }
+
+        search(k + 1, plan.order, plan.chosen, plan.seats);
+      }
+    };
+
+    search(0, [0, 1], [], 0);
+
+    // The driver's own route has no detour, so a schedule always exists
+    const finalSchedule = best.schedule;
+
+    return {
+      driverTripId: driverTrip.id,
+      stops: best.order.map((point, index) => this.toStop(point, locations, riders, finalSchedule.arrivals[index])),
+      riders: this.splitCosts(best.order, best.chosen, matrix, riders, finalSchedule, base, driverTrip.price_per_seat),
+      unassignedRiderIds: riders.filter((_, rider) => !best.chosen.includes(rider)).map(rider => rider.id),
+      seatsUsed: best.seats,
+      baseDistance: base.distance / 1000,
+      baseTime: base.duration / 60,
+      totalDistance: finalSchedule.distance / 1000,
+      totalTime: finalSchedule.duration / 60,
+      addedDistance: Math.max(0, finalSchedule.distance - base.distance) / 1000,
+      addedTime: Math.max(0, finalSchedule.duration - base.duration) / 60,
+    };
+  }
+
+  /**
+   * When a rider can be picked up, in epoch ms. Explicit window bounds win over
+   * the desired time ± flexibility; riders without either accept any time.
+   */
+  private static pickupWindow(rider: PoolRider): { earliest: number; latest: number } {
+    const desired = rider.departureTime ? new Date(rider.departureTime).getTime() : undefined;
+    const window = rider.flexibility * 60 * 1000;
+
+    const earliest = rider.earliestPickup
+      ? new Date(rider.earliestPickup).getTime()
+      : desired !== undefined
+        ? desired - window
+        : -Infinity;
+    const latest = rider.latestPickup
+      ? new Date(rider.latestPickup).getTime()
+      : desired !== undefined
+        ? desired + window
+        : Infinity;
+
+    return { earliest, latest };
+  }
+
+  /**
+   * Drive through `order` from the driver's departure time. Returns null if the
+   * order overfills the vehicle's seats or luggage space, misses a pickup window or an arrive-by time,
+   * stretches a rider's ride or the driver's route beyond the detour limits.
+   */
+  private static schedule(
+    order: number[],
+    matrix: RouteDistance[][],
+    riders: PoolRider[],
+    capacity: { seats: number; luggage: LuggageCount },
+    departure: number,
+    base: RouteDistance,
+    constraints: PoolConstraints
+  ): Schedule | null {
+    const maxDetourSeconds = constraints.maxDetourTime * 60;
+    const pickupTimes = new Map<number, number>();
+    const arrivals = [departure];
+    let time = departure;
+    let distance = 0;
+    let occupied = 0;
+    let loaded = LuggageCapacity.NONE;
+
+    for (let k = 1; k < order.length; k++) {
+      const leg = matrix[order[k - 1]][order[k]];
+      const point = order[k];
+      time += leg.duration * 1000;
+      distance += leg.distance;
+
+      if (point >= 2) {
+        const riderIndex = Math.floor((point - 2) / 2);
+        const rider = riders[riderIndex];
+
+        if (point % 2 === 0) {
+          const { earliest, latest } = this.pickupWindow(rider);
+
+          if (time > latest) return null;
+          time = Math.max(time, earliest); // Wait for the rider if early
+
+          occupied += rider.seats;
+          loaded = LuggageCapacity.add(loaded, rider.luggage ?? LuggageCapacity.NONE);
+          if (occupied > capacity.seats || !LuggageCapacity.fits(capacity.luggage, loaded)) return null;
+          pickupTimes.set(riderIndex, time);
+        } else {
+          const rideSeconds = (time - (pickupTimes.get(riderIndex) ?? time)) / 1000;
+          const directSeconds = matrix[point - 1][point].duration;
+
+          if (rideSeconds - directSeconds > maxDetourSeconds) return null;
+          if (rider.latestDropoff && time > new Date(rider.latestDropoff).getTime()) return null;
+          occupied -= rider.seats;
+          loaded = LuggageCapacity.subtract(loaded, rider.luggage ?? LuggageCapacity.NONE);
+        }
+      }
+
+      arrivals.push(time);
+    }
+
+    const duration = (time - departure) / 1000;
+
+    if (
+      duration - base.duration > maxDetourSeconds ||
+      distance - base.distance > constraints.maxDetourDistance * 1000
+    ) {
+      return null;
+    }
+
+    return { arrivals, duration, distance };
+  }
+
+  /**
+   * Split the fare leg by leg between the seats occupied on that leg. The fare
+   * is `pricePerSeat` for the driver's whole base route, charged per km.
+   */
+  private static splitCosts(
+    order: number[],
+    chosen: number[],
+    matrix: RouteDistance[][],
+    riders: PoolRider[],
+    schedule: Schedule,
+    base: RouteDistance,
+    pricePerSeat: number | undefined
+  ): PoolRiderPlan[] {
+    const pricePerKm = pricePerSeat && base.distance > 0 ? pricePerSeat / (base.distance / 1000) : 0;
+
+    return chosen.map(riderIndex => {
+      const rider = riders[riderIndex];
+      const pickupAt = order.indexOf(2 + 2 * riderIndex);
+      const dropoffAt = order.indexOf(3 + 2 * riderIndex);
+      let rideDistance = 0;
+      let cost = 0;
+
+      for (let k = pickupAt; k < dropoffAt; k++) {
+        const legKm = matrix[order[k]][order[k + 1]].distance / 1000;
+        const seatsOnLeg = this.seatsOnLeg(order, k, riders);
+
+        rideDistance += legKm;
+        cost += (legKm * pricePerKm * rider.seats) / seatsOnLeg;
+      }
+
+      return {
+        riderId: rider.id,
+        seats: rider.seats,
+        pickupTime: new Date(schedule.arrivals[pickupAt]).toISOString(),
+        dropoffTime: new Date(schedule.arrivals[dropoffAt]).toISOString(),
+        rideDistance,
+        rideTime: (schedule.arrivals[dropoffAt] - schedule.arrivals[pickupAt]) / (1000 * 60),
+        directTime: matrix[2 + 2 * riderIndex][3 + 2 * riderIndex].duration / 60,
+        cost: Math.round(cost * 100) / 100,
+        soloCost: Math.round(rideDistance * pricePerKm * 100) / 100,
+      };
+    });
+  }
+
+  /**
+   * Seats occupied on the leg leaving `order[k]`
+   */
+  private static seatsOnLeg(order: number[], k: number, riders: PoolRider[]): number {
+    let seats = 0;
+
+    for (let i = 0; i <= k; i++) {
+      const point = order[i];
+      if (point < 2) continue;
+
+      const rider = riders[Math.floor((point - 2) / 2)];
+      seats += point % 2 === 0 ? rider.seats : -rider.seats;
+    }
+
+    return seats;
+  }
+
+  private static toStop(point: number, locations: LocationData[], riders: PoolRider[], arrival: number): PoolStop {
+    const type = point === 0 ? 'origin' : point === 1 ? 'destination' : point % 2 === 0 ? 'pickup' : 'dropoff';
+
+    return {
+      type,
+      riderId: point >= 2 ? riders[Math.floor((point - 2) / 2)].id : undefined,
+      location: locations[point],
+      arrivalTime: new Date(arrival).toISOString(),
+    };
+  }
+}
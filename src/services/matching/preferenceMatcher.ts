@@ -0,0 +1,266 @@
+import type { AccessibilityNeed, Trip, User, UserPreferences, PreferenceRuleResult } from '../../types';
+import type { CreateTripData } from '../supabase/trips';
+
+export interface MatchParty {
+  trip: Trip | CreateTripData;
+  preferences?: UserPreferences; // falls back to the trip's own settings where missing
+  user?: Pick<User, 'gender' | 'age_years' | 'accessibility_needs'>; // defaults to the user joined on the trip
+}
+
+type Side = 'source' | 'candidate';
+type Stance = 'yes' | 'no' | 'chatty' | 'quiet' | 'indifferent';
+
+const MUSIC_LABELS: Record<string, string> = { yes: 'music', no: 'a quiet ride' };
+const CONVERSATION_LABELS: Record<string, string> = { chatty: 'a chatty ride', quiet: 'a quiet ride' };
+const ACCESSIBILITY_LABELS: Record<AccessibilityNeed, string> = {
+  wheelchair: 'wheelchair space',
+  step_free: 'step-free access',
+  assistance_animal: 'room for an assistance animal',
+  extra_luggage_space: 'extra luggage space',
+};
+
+/**
+ * Checks the preferences of both parties against each other's trip and
+ * profile. Rules are worded for the source party ("you"); a failed rule names
+ * the party whose preference is not met.
+ */
+export class PreferenceMatcher {
+  static match(source: MatchParty, candidate: MatchParty): PreferenceRuleResult[] {
+    const rules = [
+      this.matchSmoking(source, candidate),
+      this.matchPets(source, candidate),
+      this.matchStance('music', this.musicStance(source), this.musicStance(candidate), MUSIC_LABELS),
+      this.matchStance(
+        'conversation',
+        this.conversationStance(source),
+        this.conversationStance(candidate),
+        CONVERSATION_LABELS
+      ),
+      this.matchGender(source, candidate),
+      this.matchAge(source, candidate),
+      this.matchAccessibility(source, candidate),
+    ];
+
+    return rules.filter((rule): rule is PreferenceRuleResult => rule !== null);
+  }
+
+  /**
+   * Failed rules, i.e. preferences of either party that the other does not meet
+   */
+  static conflicts(rules: PreferenceRuleResult[]): PreferenceRuleResult[] {
+    return rules.filter(rule => !rule.passed);
+  }
+
+  /**
+   * Share of rules passed, 0-1
+   */
+  static score(rules: PreferenceRuleResult[]): number {
+    return rules.length > 0 ? rules.filter(rule => rule.passed).length / rules.length : 1;
+  }
+
+  private static matchSmoking(source: MatchParty, candidate: MatchParty): PreferenceRuleResult {
+    const sourceObjects = !this.toleratesSmoking(source) && this.allowsSmoking(candidate.trip);
+    const candidateObjects = !this.toleratesSmoking(candidate) && this.allowsSmoking(source.trip);
+
+    return this.result('smoking', sourceObjects, candidateObjects, {
+      passed: this.allowsSmoking(candidate.trip) ? 'Smoking allowed, as you accept' : 'Smoke-free ride',
+      source: 'Smoking allowed, but you prefer a smoke-free ride',
+      candidate: 'They prefer a smoke-free ride, but you allow smoking',
+    });
+  }
+
+  private static matchPets(source: MatchParty, candidate: MatchParty): PreferenceRuleResult {
+    const sourceObjects = !this.toleratesPets(source) && this.allowsPets(candidate.trip);
+    const candidateObjects = !this.toleratesPets(candidate) && this.allowsPets(source.trip);
+
+    return this.result('pets', sourceObjects, candidateObjects, {
+      passed: this.allowsPets(candidate.trip) ? 'Pets welcome' : 'No pets on this ride',
+      source: 'Pets allowed, but you prefer a pet-free ride',
+      candidate: 'They prefer a pet-free ride, but you allow pets',
+    });
+  }
+
+  /**
+   * Music and conversation only conflict when both parties hold opposite views
+   */
+  private static matchStance(
+    rule: 'music' | 'conversation',
+    sourceStance: Stance,
+    candidateStance: Stance,
+    labels: Record<string, string>
+  ): PreferenceRuleResult {
+    const conflict = sourceStance !== 'indifferent' && candidateStance !== 'indifferent' && sourceStance !== candidateStance;
+    const label = rule === 'music' ? 'Music' : 'Conversation';
+    const reason = `You prefer ${labels[sourceStance]}, they prefer ${labels[candidateStance]}`;
+
+    return this.result(rule, conflict, conflict, {
+      passed: `${label} preferences match`,
+      source: reason,
+      candidate: reason,
+    });
+  }
+
+  private static matchGender(source: MatchParty, candidate: MatchParty): PreferenceRuleResult | null {
+    const sourceUser = this.userOf(source);
+    const candidateUser = this.userOf(candidate);
+    const sourceWantsSame = source.preferences?.gender_preference === 'same';
+    const candidateWantsSame = candidate.preferences?.gender_preference === 'same';
+
+    // Without both profiles there is nothing to compare
+    if (!sourceUser || !candidateUser || (!sourceWantsSame && !candidateWantsSame)) return null;
+
+    const sameGender = this.knownGender(sourceUser) !== null &&
+      this.knownGender(sourceUser) === this.knownGender(candidateUser);
+
+    return this.result('gender', sourceWantsSame && !sameGender, candidateWantsSame && !sameGender, {
+      passed: 'Same gender, as preferred',
+      source: this.knownGender(candidateUser)
+        ? 'You prefer travelling with your own gender'
+        : 'You prefer travelling with your own gender, but they have not shared theirs',
+      candidate: this.knownGender(sourceUser)
+        ? 'They prefer travelling with their own gender'
+        : 'They prefer travelling with their own gender, and you have not shared yours',
+    });
+  }
+
+  private static matchAge(source: MatchParty, candidate: MatchParty): PreferenceRuleResult | null {
+    const sourceUser = this.userOf(source);
+    const candidateUser = this.userOf(candidate);
+    const sourceObjects = candidateUser ? !this.withinAgeRange(source.preferences, candidateUser) : false;
+    const candidateObjects = sourceUser ? !this.withinAgeRange(candidate.preferences, sourceUser) : false;
+    const sourceHasRange = Boolean(candidateUser) && this.hasAgeRange(source.preferences);
+    const candidateHasRange = Boolean(sourceUser) && this.hasAgeRange(candidate.preferences);
+
+    if (!sourceHasRange && !candidateHasRange) return null;
+
+    return this.result('age', sourceObjects, candidateObjects, {
+      passed: 'Ages within both preferred ranges',
+      source: `They are outside your preferred age range (${this.describeRange(source.preferences)})`,
+      candidate: `You are outside their preferred age range (${this.describeRange(candidate.preferences)})`,
+    });
+  }
+
+  /**
+   * Both parties share one vehicle, so either trip's vehicle has to
+   * accommodate the needs of everyone on the ride
+   */
+  private static matchAccessibility(source: MatchParty, candidate: MatchParty): PreferenceRuleResult | null {
+    const sourceNeeds = this.accessibilityNeeds(source);
+    const candidateNeeds = this.accessibilityNeeds(candidate);
+
+    if (sourceNeeds.length === 0 && candidateNeeds.length === 0) return null;
+
+    const vehicles = [source.trip.vehicle_accessibility ?? [], candidate.trip.vehicle_accessibility ?? []];
+    const accommodated = (needs: AccessibilityNeed[]) =>
+      vehicles.some(vehicle => needs.every(need => vehicle.includes(need)));
+
+    const sharedRideFits = accommodated(Array.from(new Set([...sourceNeeds, ...candidateNeeds])));
+    let sourceObjects = !sharedRideFits && !accommodated(sourceNeeds);
+    let candidateObjects = !sharedRideFits && !accommodated(candidateNeeds);
+    // Each vehicle suits one of the parties, but neither suits both
+    if (!sharedRideFits && !sourceObjects && !candidateObjects) {
+      sourceObjects = candidateObjects = true;
+    }
+
+    const missing = sourceNeeds.filter(need => !(candidate.trip.vehicle_accessibility ?? []).includes(need));
+
+    return this.result('accessibility', sourceObjects, candidateObjects, {
+      passed: 'The vehicle accommodates everyone\'s accessibility needs',
+      source: accommodated(sourceNeeds)
+        ? 'No vehicle accommodates both your accessibility needs and theirs'
+        : `The vehicle does not offer ${missing.map(need => ACCESSIBILITY_LABELS[need]).join(', ')}`,
+      candidate: 'Neither vehicle accommodates their accessibility needs',
+    });
+  }
+
+  private static result(
+    rule: PreferenceRuleResult['rule'],
+    sourceObjects: boolean,
+    candidateObjects: boolean,
+    reasons: { passed: string } & Record<Side, string>
+  ): PreferenceRuleResult {
+    if (!sourceObjects && !candidateObjects) {
+      return { rule, passed: true, reason: reasons.passed };
+    }
+
+    const conflictingParty = sourceObjects && candidateObjects ? 'both' : sourceObjects ? 'source' : 'candidate';
+
+    return {
+      rule,
+      passed: false,
+      reason: conflictingParty === 'candidate' ? reasons.candidate : reasons.source,
+      conflictingParty,
+    };
+  }
+
+  private static toleratesSmoking(party: MatchParty): boolean {
+    const preference = party.preferences?.smoking_preference;
+    return preference ? preference !== 'no' : this.allowsSmoking(party.trip);
+  }
+
+  private static toleratesPets(party: MatchParty): boolean {
+    return party.preferences?.pets_preference ?? this.allowsPets(party.trip);
+  }
+
+  // Unsaved trips fall back to the defaults trips are created with
+  private static allowsSmoking(trip: Trip | CreateTripData): boolean {
+    return trip.smoking_allowed ?? false;
+  }
+
+  private static allowsPets(trip: Trip | CreateTripData): boolean {
+    return trip.pets_allowed ?? true;
+  }
+
+  private static musicStance(party: MatchParty): Stance {
+    const preference = party.preferences?.music_preference;
+    return preference && preference !== 'indifferent' ? preference : party.trip.music_preference ?? 'indifferent';
+  }
+
+  private static conversationStance(party: MatchParty): Stance {
+    const preference = party.preferences?.conversation_level;
+    return preference && preference !== 'indifferent' ? preference : party.trip.conversation_level ?? 'indifferent';
+  }
+
+  private static userOf(party: MatchParty): MatchParty['user'] | undefined {
+    return party.user ?? ('user' in party.trip ? party.trip.user : undefined);
+  }
+
+  /**
+   * Needs entered on the trip, plus those on the traveller's profile
+   */
+  private static accessibilityNeeds(party: MatchParty): AccessibilityNeed[] {
+    return Array.from(
+      new Set([...(party.trip.accessibility_needs ?? []), ...(this.userOf(party)?.accessibility_needs ?? [])])
+    );
+  }
+
+  private static knownGender(user: Pick<User, 'gender'>): string | null {
+    return user.gender && user.gender !== 'prefer_not_to_say' ? user.gender : null;
+  }
+
+  private static hasAgeRange(preferences?: UserPreferences): boolean {
+    // Stored ranges come back as null when unset
+    return preferences?.min_age != null || preferences?.max_age != null;
+  }
+
+  /**
+   * Whether the other user's age is inside the range. An unknown age only
+   * fails when a range is set.
+   */
+  private static withinAgeRange(preferences: UserPreferences | undefined, other: Pick<User, 'age_years'>): boolean {
+    if (!this.hasAgeRange(preferences)) return true;
+    if (other.age_years == null) return false;
+
+    return (
+      (preferences.min_age == null || other.age_years >= preferences.min_age) &&
+      (preferences.max_age == null || other.age_years <= preferences.max_age)
+    );
+  }
+
+  private static describeRange(preferences?: UserPreferences): string {
+    const { min_age: min, max_age: max } = preferences ?? {};
+
+    if (min != null && max != null) return `${min}-${max}`;
+    return min != null ? `${min}+` : `up to ${max}`;
+  }
+}
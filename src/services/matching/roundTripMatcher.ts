@@ -0,0 +1,97 @@
+import { MatchingAlgorithm } from './matchingAlgorithm';
+import type { CompatibilityAnalysis } from './matchingAlgorithm';
+import type { Trip, UserPreferences } from '../../types';
+
+export interface RoundTripMatch {
+  tripId: string; // the candidate's leg matched against the source trip
+  pairedTripId: string; // the candidate's other leg
+  outbound: CompatibilityAnalysis; // source trip vs the candidate's leg
+  return: CompatibilityAnalysis; // source's other leg vs the candidate's other leg
+  score: number; // 0-1, combined over both legs
+}
+
+/**
+ * Pairs the legs of round trips, so partners who can share the ride there and
+ * back rank above those who only share one way
+ */
+export class RoundTripMatcher {
+  /**
+   * Both legs weigh the same; a partner for one leg only has no round-trip score
+   */
+  static combinedScore(outbound: CompatibilityAnalysis, returnLeg: CompatibilityAnalysis): number {
+    return (outbound.overallScore + returnLeg.overallScore) / 2;
+  }
+
+  /**
+   * Score the source trip's other leg against the other legs of the matched
+   * candidates, keeping the candidates whose return legs match too
+   *
+   * @param pairedTrip the source trip's other leg
+   * @param matches compatibility of the source trip with each candidate
+   * @param candidates the trips `matches` refer to
+   * @param pairedCandidates the candidates' other legs
+   */
+  static async matchReturnLegs(
+    pairedTrip: Trip,
+    matches: CompatibilityAnalysis[],
+    candidates: Trip[],
+    pairedCandidates: Trip[],
+    userPreferences?: UserPreferences,
+    candidatePreferences: Record<string, UserPreferences> = {}
+  ): Promise<RoundTripMatch[]> {
+    const candidatesById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+    const pairedById = new Map(pairedCandidates.map(candidate => [candidate.id, candidate]));
+
+    // Only the other leg of a matched candidate can complete a round trip
+    const returnLegs = matches
+      .map(match => candidatesById.get(match.tripId)?.paired_trip_id)
+      .map(pairedId => (pairedId ? pairedById.get(pairedId) : undefined))
+      .filter((trip): trip is Trip => trip !== undefined);
+
+    if (returnLegs.length === 0) return [];
+
+    const returnMatches = await MatchingAlgorithm.findCompatibleTrips(
+      pairedTrip,
+      returnLegs,
+      userPreferences,
+      undefined,
+      candidatePreferences
+    );
+    const returnsById = new Map(returnMatches.map(match => [match.tripId, match]));
+
+    return matches
+      .map(outbound => {
+        const pairedTripId = candidatesById.get(outbound.tripId)?.paired_trip_id;
+        const returnMatch = pairedTripId ? returnsById.get(pairedTripId) : undefined;
+        if (!pairedTripId || !returnMatch) return null;
+
+        return {
+          tripId: outbound.tripId,
+          pairedTripId,
+          outbound,
+          return: returnMatch,
+          score: this.combinedScore(outbound, returnMatch),
+        };
+      })
+      .filter((match): match is RoundTripMatch => match !== null)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Matches with round-trip partners first (best combined score first), then
+   * one-way matches by their own score
+   */
+  static rank(matches: CompatibilityAnalysis[], roundTrips: RoundTripMatch[]): CompatibilityAnalysis[] {
+    const scores = new Map(roundTrips.map(roundTrip => [roundTrip.tripId, roundTrip.score]));
+
+    return [...matches].sort((a, b) => {
+      const aScore = scores.get(a.tripId);
+      const bScore = scores.get(b.tripId);
+
+      if (aScore !== undefined && bScore !== undefined) return bScore - aScore;
+      if (aScore !== undefined) return -1;
+      if (bScore !== undefined) return 1;
+      return b.overallScore - a.overallScore;
+    });
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  SegmentIndex,
+  densifyPath,
+  haversineDistance,
+  headingSimilarity,
+  interpolate,
+  projectOntoSegment,
+} from '../routing';
+import type { Coordinates } from '../routing';
+
+export interface RouteOverlapOptions {
+  corridorWidth: number; // meters a candidate point may stray from the source route
+  maxHeadingDeviation: number; // degrees between directions of travel
+  sampleSpacing: number; // meters between candidate points checked against the source
+}
+
+export interface SharedInterval {
+  entry: Coordinates; // where the candidate joins the source route
+  exit: Coordinates; // where the candidate leaves the source route
+  startDistance: number; // km along the source route
+  endDistance: number; // km along the source route
+  candidateStartDistance: number; // km along the candidate route
+  candidateEndDistance: number; // km along the candidate route
+  path: Coordinates[]; // source geometry between entry and exit
+}
+
+export interface PathOverlap {
+  sourceLength: number; // km, geometric length of the source path
+  sharedLength: number; // km, length of the source path covered by the candidate
+  intervals: SharedInterval[]; // ordered along the source route, never overlapping
+}
+
+interface Span {
+  start: number; // meters along the source
+  end: number;
+  candidateStart: number; // meters along the candidate
+  candidateEnd: number;
+}
+
+export class RouteOverlapCalculator {
+  private static readonly DEFAULT_OPTIONS: RouteOverlapOptions = {
+    corridorWidth: 500,
+    maxHeadingDeviation: 60,
+    sampleSpacing: 100,
+  };
+
+  /**
+   * Find the stretches of the source path that the candidate path travels along
+   * in the same direction. Candidate points are projected onto nearby source
+   * segments (found through a grid index), and consecutive matches that keep
+   * moving forward along the source are merged into shared intervals.
+   */
+  static calculate(
+    sourcePath: Coordinates[],
+    candidatePath: Coordinates[],
+    options: Partial<RouteOverlapOptions> = {}
+  ): PathOverlap {
+    const { corridorWidth, maxHeadingDeviation, sampleSpacing } = { ...this.DEFAULT_OPTIONS, ...options };
+    const sourceOffsets = this.cumulativeDistances(sourcePath);
+    const sourceLength = sourceOffsets[sourceOffsets.length - 1] ?? 0;
+
+    if (sourcePath.length < 2 || candidatePath.length < 2 || sourceLength === 0) {
+      return { sourceLength: sourceLength / 1000, sharedLength: 0, intervals: [] };
+    }
+
+    // Sample the candidate densely so parallel segments with unaligned vertices still match
+    const samples = densifyPath(candidatePath, Math.min(sampleSpacing, corridorWidth / 2));
+    const sampleOffsets = this.cumulativeDistances(samples);
+    const index = new SegmentIndex(sourcePath, corridorWidth);
+    const minHeadingSimilarity = Math.cos(maxHeadingDeviation * (Math.PI / 180));
+
+    const spans: Span[] = [];
+    let current: Span | null = null;
+    let lastPosition = -Infinity;
+
+    for (let k = 0; k < samples.length; k++) {
+      const from = samples[Math.min(k, samples.length - 2)];
+      const to = samples[Math.min(k + 1, samples.length - 1)];
+      let best: { position: number; distance: number; forward: boolean } | null = null;
+
+      for (const segment of index.query(samples[k])) {
+        const start = sourcePath[segment];
+        const end = sourcePath[segment + 1];
+        const projection = projectOntoSegment(samples[k], start, end);
+
+        if (projection.distance > corridorWidth) continue;
+        if (headingSimilarity(start, end, from, to) < minHeadingSimilarity) continue;
+
+        const position = sourceOffsets[segment] + projection.fraction * (sourceOffsets[segment + 1] - sourceOffsets[segment]);
+        // Prefer positions that continue the current span so loops in the source are not skipped
+        const forward = position >= lastPosition - corridorWidth;
+
+        if (
+          !best ||
+          (forward && !best.forward) ||
+          (forward === best.forward && projection.distance < best.distance)
+        ) {
+          best = { position, distance: projection.distance, forward };
+        }
+      }
+
+      if (!best) {
+        current = null;
+        lastPosition = -Infinity;
+        continue;
+      }
+
+      const step = k > 0 ? sampleOffsets[k] - sampleOffsets[k - 1] : 0;
+      const continuesSpan =
+        best.position >= lastPosition - corridorWidth && best.position - lastPosition <= step + corridorWidth;
+
+      if (current && continuesSpan) {
+        current.end = Math.max(current.end, best.position);
+        current.candidateEnd = sampleOffsets[k];
+      } else {
+        current = {
+          start: best.position,
+          end: best.position,
+          candidateStart: sampleOffsets[k],
+          candidateEnd: sampleOffsets[k],
+        };
+        spans.push(current);
+      }
+
+      lastPosition = best.position;
+    }
+
+    const intervals = this.mergeSpans(spans).map(span => ({
+      entry: this.pointAt(sourcePath, sourceOffsets, span.start),
+      exit: this.pointAt(sourcePath, sourceOffsets, span.end),
+      startDistance: span.start / 1000,
+      endDistance: span.end / 1000,
+      candidateStartDistance: span.candidateStart / 1000,
+      candidateEndDistance: span.candidateEnd / 1000,
+      path: this.slicePath(sourcePath, sourceOffsets, span.start, span.end),
+    }));
+
+    return {
+      sourceLength: sourceLength / 1000,
+      sharedLength: intervals.reduce((total, interval) => total + interval.endDistance - interval.startDistance, 0),
+      intervals,
+    };
+  }
+
+  /**
+   * Union of spans along the source so that no stretch is counted twice
+   */
+  private static mergeSpans(spans: Span[]): Span[] {
+    const sorted = spans.filter(span => span.end > span.start).sort((a, b) => a.start - b.start);
+    const merged: Span[] = [];
+
+    for (const span of sorted) {
+      const previous = merged[merged.length - 1];
+
+      if (previous && span.start <= previous.end) {
+        previous.end = Math.max(previous.end, span.end);
+        previous.candidateStart = Math.min(previous.candidateStart, span.candidateStart);
+        previous.candidateEnd = Math.max(previous.candidateEnd, span.candidateEnd);
+      } else {
+        merged.push({ ...span });
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Distance in meters from the start of the path to each of its points
+   */
+  private static cumulativeDistances(path: Coordinates[]): number[] {
+    const offsets: number[] = [];
+    let total = 0;
+
+    for (let i = 0; i < path.length; i++) {
+      if (i > 0) total += haversineDistance(path[i - 1], path[i]);
+      offsets.push(total);
+    }
+
+    return offsets;
+  }
+
+  /**
+   * Index of the segment containing the given offset
+   */
+  private static segmentAt(offsets: number[], offset: number): number {
+    let low = 0;
+    let high = offsets.length - 2;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return low;
+  }
+
+  private static pointAt(path: Coordinates[], offsets: number[], offset: number): Coordinates {
+    const segment = this.segmentAt(offsets, offset);
+    const length = offsets[segment + 1] - offsets[segment];
+    const fraction = length > 0 ? (offset - offsets[segment]) / length : 0;
+
+    return interpolate(path[segment], path[segment + 1], Math.min(1, Math.max(0, fraction)));
+  }
+
+  private static slicePath(path: Coordinates[], offsets: number[], start: number, end: number): Coordinates[] {
+    const slice = [this.pointAt(path, offsets, start)];
+
+    for (let i = 0; i < path.length; i++) {
+      if (offsets[i] > start && offsets[i] < end) {
+        slice.push(path[i]);
+      }
+    }
+
+    slice.push(this.pointAt(path, offsets, end));
+    return slice;
+  }
+}
@@ -0,0 +1,93 @@
+import { MatchingAlgorithm } from './matchingAlgorithm';
+import type { CompatibilityAnalysis } from './matchingAlgorithm';
+import type { Trip, UserPreferences } from '../../types';
+
+export interface SeriesOccurrenceMatch {
+  sourceTrip: Trip; // occurrence of the series being matched
+  matchedTrip: Trip; // occurrence of the other series on the same day
+  analysis: CompatibilityAnalysis;
+}
+
+export interface SeriesMatch {
+  seriesId: string;
+  userId: string;
+  occurrences: SeriesOccurrenceMatch[]; // best match per source occurrence
+  totalOccurrences: number; // source occurrences considered
+  coverage: number; // 0-1, share of source occurrences matched
+  averageScore: number; // 0-1, over the matched occurrences
+}
+
+export interface SeriesMatchOptions {
+  timeWindow: number; // minutes between paired departures
+  minCoverage: number; // 0-1, series matching fewer occurrences are dropped
+}
+
+/**
+ * Matches a recurring trip against other series occurrence by occurrence, so
+ * a rider can join a whole commute at once instead of trip by trip
+ */
+export class SeriesMatcher {
+  static readonly DEFAULT_OPTIONS: SeriesMatchOptions = {
+    timeWindow: 120,
+    minCoverage: 0.5,
+  };
+
+  static async matchSeries(
+    sourceOccurrences: Trip[],
+    candidates: Trip[],
+    userPreferences?: UserPreferences,
+    candidatePreferences: Record<string, UserPreferences> = {},
+    options: Partial<SeriesMatchOptions> = {}
+  ): Promise<SeriesMatch[]> {
+    const settings = { ...this.DEFAULT_OPTIONS, ...options };
+    const sourceSeriesIds = new Set(sourceOccurrences.map(trip => trip.series_id));
+    const seriesCandidates = candidates.filter(
+      candidate => candidate.series_id && !sourceSeriesIds.has(candidate.series_id)
+    );
+    const bySeries = new Map<string, SeriesOccurrenceMatch[]>();
+
+    for (const sourceTrip of sourceOccurrences) {
+      const departure = new Date(sourceTrip.departure_time).getTime();
+      const sameDay = seriesCandidates.filter(
+        candidate =>
+          Math.abs(new Date(candidate.departure_time).getTime() - departure) <= settings.timeWindow * 60 * 1000
+      );
+      if (sameDay.length === 0) continue;
+
+      const results = await MatchingAlgorithm.findCompatibleTrips(
+        sourceTrip,
+        sameDay,
+        userPreferences,
+        undefined,
+        candidatePreferences
+      );
+
+      // Results are sorted by score, so the first per series is its best occurrence that day
+      const matchedSeries = new Set<string>();
+      for (const analysis of results) {
+        const matchedTrip = sameDay.find(candidate => candidate.id === analysis.tripId);
+        if (!matchedTrip?.series_id || matchedSeries.has(matchedTrip.series_id)) continue;
+
+        matchedSeries.add(matchedTrip.series_id);
+        const occurrences = bySeries.get(matchedTrip.series_id) ?? [];
+        occurrences.push({ sourceTrip, matchedTrip, analysis });
+        bySeries.set(matchedTrip.series_id, occurrences);
+      }
+    }
+
+    const total = sourceOccurrences.length;
+
+    return Array.from(bySeries.entries())
+      .map(([seriesId, occurrences]) => ({
+        seriesId,
+        userId: occurrences[0].matchedTrip.user_id,
+        occurrences,
+        totalOccurrences: total,
+        coverage: total > 0 ? occurrences.length / total : 0,
+        averageScore:
+          occurrences.reduce((sum, occurrence) => sum + occurrence.analysis.overallScore, 0) / occurrences.length,
+      }))
+      .filter(match => match.coverage >= settings.minCoverage)
+      .sort((a, b) => b.coverage - a.coverage || b.averageScore - a.averageScore);
+  }
+}
@@ -0,0 +1,104 @@
+import type { Trip } from '../../types';
+
+export type TimedTrip = Pick<Trip, 'departure_time' | 'earliest_departure' | 'latest_departure' | 'latest_arrival'>;
+
+export interface DepartureWindow {
+  earliest: number; // epoch ms
+  latest: number; // epoch ms; before `earliest` when the window cannot be met
+}
+
+export interface TimeWindowAnalysis {
+  score: number; // 0-1
+  overlap: DepartureWindow | null; // departures that suit both trips
+  gapMinutes: number; // between the two windows, 0 when they overlap
+  proposedDepartureTime: string; // ISO timestamp
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Departure windows ("leave between 7:30 and 8:15, arrive by 9:00") and how
+ * well two of them line up
+ */
+export class TimeWindowMatcher {
+  /**
+   * When a trip can leave. An explicit window wins over `departure_time` ±
+   * `flexibilityMinutes`; a latest arrival pulls the end of the window back by
+   * the ride's duration.
+   */
+  static departureWindow(trip: TimedTrip, flexibilityMinutes: number, rideMinutes = 0): DepartureWindow {
+    const departure = new Date(trip.departure_time).getTime();
+    const flexibility = flexibilityMinutes * MINUTE_MS;
+
+    const earliest = trip.earliest_departure ? new Date(trip.earliest_departure).getTime() : departure - flexibility;
+    let latest = trip.latest_departure ? new Date(trip.latest_departure).getTime() : departure + flexibility;
+
+    if (trip.latest_arrival) {
+      latest = Math.min(latest, new Date(trip.latest_arrival).getTime() - rideMinutes * MINUTE_MS);
+    }
+
+    return { earliest, latest };
+  }
+
+  static intersect(a: DepartureWindow, b: DepartureWindow): DepartureWindow | null {
+    const earliest = Math.max(a.earliest, b.earliest);
+    const latest = Math.min(a.latest, b.latest);
+
+    return earliest <= latest ? { earliest, latest } : null;
+  }
+
+  /**
+   * Compare the source trip's window with the candidate's. The source user's
+   * flexibility widens a trip without an explicit window; a candidate without
+   * one leaves at its `departure_time`. Overlapping windows score 1 and the
+   * score drops off over three times the flexibility beyond that.
+   *
+   * @param rideMinutes how long the shared ride takes, for latest arrivals
+   */
+  static analyze(
+    source: TimedTrip,
+    candidate: TimedTrip,
+    flexibilityMinutes: number,
+    rideMinutes = 0
+  ): TimeWindowAnalysis {
+    const sourceWindow = this.departureWindow(source, flexibilityMinutes, rideMinutes);
+    const candidateWindow = this.departureWindow(candidate, 0, rideMinutes);
+    const overlap = this.intersect(sourceWindow, candidateWindow);
+
+    // Aim for the middle of the two preferred departures, kept inside the overlap
+    const preferred =
+      (new Date(source.departure_time).getTime() + new Date(candidate.departure_time).getTime()) / 2;
+
+    if (overlap) {
+      return {
+        score: 1,
+        overlap,
+        gapMinutes: 0,
+        proposedDepartureTime: new Date(Math.min(Math.max(preferred, overlap.earliest), overlap.latest)).toISOString(),
+      };
+    }
+
+    const gap = Math.max(
+      candidateWindow.earliest - sourceWindow.latest,
+      sourceWindow.earliest - candidateWindow.latest,
+      // A window that cannot be met on its own is as far off as it is short
+      sourceWindow.earliest - sourceWindow.latest,
+      candidateWindow.earliest - candidateWindow.latest
+    );
+    const gapMinutes = gap / MINUTE_MS;
+    const tolerance = Math.max(flexibilityMinutes * 3, 1);
+
+    // Without an overlap, meet halfway across the gap
+    const closest =
+      sourceWindow.latest < candidateWindow.earliest
+        ? (sourceWindow.latest + candidateWindow.earliest) / 2
+        : (candidateWindow.latest + sourceWindow.earliest) / 2;
+
+    return {
+      score: Math.max(0, 1 - gapMinutes / tolerance),
+      overlap: null,
+      gapMinutes,
+      proposedDepartureTime: new Date(closest).toISOString(),
+    };
+  }
+}
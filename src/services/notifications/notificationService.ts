@@ -258,4 +258,22 @@ export const notificationService = {
       data: { tripId, tripRoute },
     });
   },
+
+  createWaitlistPromotedNotification(
+    userId: string,
+    tripId: string,
+    requestId: string,
+    tripRoute: string,
+    accepted: boolean
+  ): Promise<NotificationResponse> {
+    return notificationService.createNotification({
+      user_id: userId,
+      type: 'trip_request',
+      title: accepted ? "You're Off the Waitlist! 🎉" : 'A Seat Opened Up',
+      message: accepted
+        ? `A seat opened up on the trip to ${tripRoute} and it is yours`
+        : `A seat opened up on the trip to ${tripRoute}; your request is now with the driver`,
+      data: { tripId, requestId, tripRoute, status: accepted ? 'ACCEPTED' : 'PENDING' },
+    });
+  },
 };
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { OfflinePoiProvider, CombinedPoiProvider, poisFromGeoJson } from '..';
+import type { GeoJsonFeatureCollection } from '..';
+
+// A bus stop, a fuel station and a parking lot around (52.52, 13.405), plus a bench without a known type
+const extract: GeoJsonFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      id: 'node/1',
+      geometry: { type: 'Point', coordinates: [13.405, 52.5205] },
+      properties: { highway: 'bus_stop', name: 'Alexanderplatz', wheelchair: 'yes' },
+    },
+    {
+      type: 'Feature',
+      id: 'node/2',
+      geometry: { type: 'Point', coordinates: [13.41, 52.52] },
+      properties: { amenity: 'fuel' },
+    },
+    {
+      type: 'Feature',
+      id: 'way/3',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[13.5, 52.6], [13.502, 52.6], [13.502, 52.602], [13.5, 52.602], [13.5, 52.6]]],
+      },
+      properties: { amenity: 'parking' },
+    },
+    {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [13.405, 52.52] },
+      properties: { amenity: 'bench' },
+    },
+  ],
+};
+
+describe('poisFromGeoJson', () => {
+  it('should map OSM tags to place types and skip unknown features', () => {
+    const pois = poisFromGeoJson(extract);
+
+    expect(pois.map(poi => poi.id)).toEqual(['node/1', 'node/2', 'way/3']);
+    expect(pois[0]).toMatchObject({
+      name: 'Alexanderplatz',
+      types: ['bus_station', 'transit_station'],
+      wheelchairAccessible: true,
+    });
+    expect(pois[1].types).toEqual(['gas_station']);
+    expect(pois[2].coordinates.lat).toBeCloseTo(52.6008, 4);
+
+    // Curated files can give every feature a type
+    expect(poisFromGeoJson(extract, ['pickup_spot'])).toHaveLength(4);
+  });
+});
+
+describe('OfflinePoiProvider', () => {
+  it('should return the points within the radius, closest first', async () => {
+    const provider = OfflinePoiProvider.fromGeoJson(extract);
+
+    const nearby = await provider.getNearby({ lat: 52.52, lng: 13.406 }, 500);
+
+    expect(nearby.map(poi => poi.id)).toEqual(['node/1', 'node/2']);
+    expect(await provider.getNearby({ lat: 52.52, lng: 13.406 }, 50)).toEqual([]);
+  });
+
+  it('should merge providers and keep working when one fails', async () => {
+    const official = new OfflinePoiProvider([
+      { id: 'node/1', name: 'Official stop', coordinates: { lat: 52.5205, lng: 13.405 }, types: [], official: true },
+    ]);
+    const failing = { name: 'failing', getNearby: () => Promise.reject(new Error('offline')) };
+    const provider = new CombinedPoiProvider([official, failing, OfflinePoiProvider.fromGeoJson(extract)]);
+
+    const nearby = await provider.getNearby({ lat: 52.52, lng: 13.406 }, 500);
+
+    expect(nearby.map(poi => poi.name)).toEqual(['Official stop', undefined]);
+    expect(nearby[0].official).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import type { Coordinates } from '../routing';
+import type { PointOfInterest } from './types';
+
+type Position = [number, number, ...number[]]; // [lng, lat]
+
+export interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+}
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+// OSM tag values and the Places types they stand for
+const OSM_TAG_TYPES: Record<string, Record<string, string[]>> = {
+  highway: {
+    bus_stop: ['bus_station', 'transit_station'],
+  },
+  public_transport: {
+    platform: ['transit_station'],
+    station: ['transit_station'],
+    stop_position: ['transit_station'],
+  },
+  railway: {
+    station: ['train_station', 'transit_station'],
+    halt: ['train_station', 'transit_station'],
+    tram_stop: ['light_rail_station', 'transit_station'],
+    subway_entrance: ['subway_station', 'transit_station'],
+  },
+  station: {
+    subway: ['subway_station'],
+  },
+  amenity: {
+    bus_station: ['bus_station', 'transit_station'],
+    parking: ['parking'],
+    fuel: ['gas_station'],
+    taxi: ['taxi_stand'],
+  },
+};
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'number';
+
+const toCoordinates = ([lng, lat]: Position): Coordinates => ({ lat, lng });
+
+// Average of the outer ring's vertices, close enough for parking lots and station buildings
+const ringCenter = (ring: unknown): Coordinates | null => {
+  if (!Array.isArray(ring)) return null;
+
+  const points = ring.filter(isPosition).map(toCoordinates);
+  if (points.length === 0) return null;
+
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length,
+  };
+};
+
+/**
+ * Where a feature is on the map: the point itself, or the middle of a polygon
+ */
+const featureLocation = (geometry: GeoJsonGeometry | null): Coordinates | null => {
+  if (!geometry || !Array.isArray(geometry.coordinates)) return null;
+
+  switch (geometry.type) {
+    case 'Point':
+      return isPosition(geometry.coordinates) ? toCoordinates(geometry.coordinates) : null;
+    case 'Polygon':
+      return ringCenter(geometry.coordinates[0]);
+    case 'MultiPolygon':
+      return Array.isArray(geometry.coordinates[0]) ? ringCenter(geometry.coordinates[0][0]) : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Places types for a feature, from OSM tags and any explicit `types` property
+ */
+const featureTypes = (properties: Record<string, unknown>): string[] => {
+  const types = new Set<string>();
+
+  Object.entries(OSM_TAG_TYPES).forEach(([tag, values]) => {
+    const value = properties[tag];
+    if (typeof value === 'string') {
+      values[value]?.forEach(type => types.add(type));
+    }
+  });
+
+  if (Array.isArray(properties.types)) {
+    properties.types.filter((type): type is string => typeof type === 'string').forEach(type => types.add(type));
+  }
+
+  return Array.from(types);
+};
+
+/**
+ * Read points of interest from a GeoJSON extract, e.g. an Overpass export of
+ * transit stops, parking and fuel stations. Features without a location are
+ * skipped, as are features without a known type unless `defaultTypes` is given.
+ */
+export const poisFromGeoJson = (
+  collection: GeoJsonFeatureCollection,
+  defaultTypes: string[] = []
+): PointOfInterest[] => {
+  const pois: PointOfInterest[] = [];
+
+  collection.features.forEach((feature, index) => {
+    const properties = feature.properties ?? {};
+    const coordinates = featureLocation(feature.geometry);
+    const knownTypes = featureTypes(properties);
+    const types = knownTypes.length > 0 ? knownTypes : defaultTypes;
+
+    if (!coordinates || types.length === 0) return;
+
+    const id = properties['@id'] ?? properties.id ?? feature.id;
+    const wheelchair = properties.wheelchair;
+
+    pois.push({
+      id: typeof id === 'string' || typeof id === 'number' ? String(id) : `poi-${index}`,
+      name: typeof properties.name === 'string' ? properties.name : undefined,
+      coordinates,
+      types,
+      rating: typeof properties.rating === 'number' ? properties.rating : undefined,
+      wheelchairAccessible: wheelchair === 'yes' ? true : wheelchair === 'no' ? false : undefined,
+    });
+  });
+
+  return pois;
+};
@@ -0,0 +1,45 @@
+import { loadGoogleMapsApi } from '../maps/googleMaps';
+import { haversineDistance } from '../routing';
+import type { Coordinates } from '../routing';
+import type { PointOfInterest, PoiProvider } from './types';
+
+/**
+ * Points of interest from the Google Places nearby search
+ */
+export class GooglePoiProvider implements PoiProvider {
+  readonly name = 'google';
+
+  async getNearby(location: Coordinates, radius: number): Promise<PointOfInterest[]> {
+    const maps = await loadGoogleMapsApi();
+
+    return new Promise((resolve, reject) => {
+      const service = new maps.places.PlacesService(document.createElement('div'));
+
+      service.nearbySearch(
+        { location, radius, type: 'establishment' },
+        (results: google.maps.places.PlaceResult[] | null, status: google.maps.places.PlacesServiceStatus) => {
+          if (status === maps.places.PlacesServiceStatus.ZERO_RESULTS) {
+            resolve([]);
+            return;
+          }
+          if (status !== maps.places.PlacesServiceStatus.OK || !results) {
+            reject(new Error('Nearby search failed'));
+            return;
+          }
+
+          const pois = results
+            .filter(result => result.geometry?.location)
+            .map((result, index) => ({
+              id: result.place_id ?? `place-${index}`,
+              name: result.name,
+              coordinates: { lat: result.geometry.location.lat(), lng: result.geometry.location.lng() },
+              types: result.types ?? [],
+              rating: result.rating,
+            }));
+
+          resolve(pois.sort((a, b) => haversineDistance(location, a.coordinates) - haversineDistance(location, b.coordinates)));
+        }
+      );
+    });
+  }
+}
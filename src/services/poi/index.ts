@@ -0,0 +1,7 @@
+export { OfflinePoiProvider } from './offlinePoiProvider';
+export { GooglePoiProvider } from './googlePoiProvider';
+export { CombinedPoiProvider, getPoiProvider, setPoiProvider } from './poiProvider';
+export { poisFromGeoJson } from './geojson';
+
+export type { PointOfInterest, PoiProvider } from './types';
+export type { GeoJsonFeature, GeoJsonFeatureCollection, GeoJsonGeometry } from './geojson';
@@ -0,0 +1,57 @@
+import { boundingBoxAround, haversineDistance } from '../routing';
+import { poisFromGeoJson } from './geojson';
+import type { Coordinates } from '../routing';
+import type { GeoJsonFeatureCollection } from './geojson';
+import type { PointOfInterest, PoiProvider } from './types';
+
+// Grid cells of about 1 km, so nearby searches only measure points in the cells they cover
+const CELL_SIZE = 0.01;
+
+/**
+ * Points of interest from a local dataset, e.g. an OSM extract. Needs no
+ * network access, so meeting points can be suggested in tests and Node jobs.
+ */
+export class OfflinePoiProvider implements PoiProvider {
+  readonly name: string;
+  private readonly cells = new Map<string, PointOfInterest[]>();
+
+  constructor(pois: PointOfInterest[] = [], name = 'offline') {
+    this.name = name;
+    pois.forEach(poi => {
+      const key = this.cellKey(Math.floor(poi.coordinates.lat / CELL_SIZE), Math.floor(poi.coordinates.lng / CELL_SIZE));
+      const cell = this.cells.get(key);
+
+      if (cell) {
+        cell.push(poi);
+      } else {
+        this.cells.set(key, [poi]);
+      }
+    });
+  }
+
+  static fromGeoJson(collection: GeoJsonFeatureCollection, name?: string): OfflinePoiProvider {
+    return new OfflinePoiProvider(poisFromGeoJson(collection), name);
+  }
+
+  getNearby(location: Coordinates, radius: number): Promise<PointOfInterest[]> {
+    const box = boundingBoxAround(location, radius);
+    const nearby: Array<{ poi: PointOfInterest; distance: number }> = [];
+
+    for (let row = Math.floor(box.south / CELL_SIZE); row <= Math.floor(box.north / CELL_SIZE); row++) {
+      for (let column = Math.floor(box.west / CELL_SIZE); column <= Math.floor(box.east / CELL_SIZE); column++) {
+        this.cells.get(this.cellKey(row, column))?.forEach(poi => {
+          const distance = haversineDistance(location, poi.coordinates);
+          if (distance <= radius) {
+            nearby.push({ poi, distance });
+          }
+        });
+      }
+    }
+
+    return Promise.resolve(nearby.sort((a, b) => a.distance - b.distance).map(({ poi }) => poi));
+  }
+
+  private cellKey(row: number, column: number): string {
+    return `${row}:${column}`;
+  }
+}
@@ -0,0 +1,62 @@
+import { isGoogleMapsAvailable } from '../maps/googleMaps';
+import { haversineDistance } from '../routing';
+import { GooglePoiProvider } from './googlePoiProvider';
+import { OfflinePoiProvider } from './offlinePoiProvider';
+import type { Coordinates } from '../routing';
+import type { PointOfInterest, PoiProvider } from './types';
+
+/**
+ * Merges the points of interest of several providers, e.g. curated pickup
+ * spots and a general dataset. A failing provider contributes nothing.
+ */
+export class CombinedPoiProvider implements PoiProvider {
+  readonly name: string;
+  private readonly providers: PoiProvider[];
+
+  constructor(providers: PoiProvider[]) {
+    this.providers = providers;
+    this.name = providers.map(provider => provider.name).join('+');
+  }
+
+  async getNearby(location: Coordinates, radius: number): Promise<PointOfInterest[]> {
+    const results = await Promise.all(
+      this.providers.map(provider =>
+        provider.getNearby(location, radius).catch((error: unknown) => {
+          console.warn(`POI provider "${provider.name}" failed:`, error);
+          return [] as PointOfInterest[];
+        })
+      )
+    );
+
+    // Earlier providers win when several know the same place
+    const byId = new Map<string, PointOfInterest>();
+    results.flat().forEach(poi => {
+      if (!byId.has(poi.id)) byId.set(poi.id, poi);
+    });
+
+    return Array.from(byId.values()).sort(
+      (a, b) => haversineDistance(location, a.coordinates) - haversineDistance(location, b.coordinates)
+    );
+  }
+}
+
+let activeProvider: PoiProvider | null = null;
+
+/**
+ * POI provider used to suggest and score meeting points. Defaults to Google
+ * Places when an API key is configured and to no points of interest otherwise.
+ */
+export const getPoiProvider = (): PoiProvider => {
+  if (!activeProvider) {
+    activeProvider = isGoogleMapsAvailable() ? new GooglePoiProvider() : new OfflinePoiProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Override the POI provider, e.g. with an `OfflinePoiProvider` loaded from an
+ * OSM extract. Passing `null` restores the default on next use.
+ */
+export const setPoiProvider = (provider: PoiProvider | null): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,20 @@
+import type { Coordinates } from '../routing';
+
+export interface PointOfInterest {
+  id: string;
+  name?: string;
+  coordinates: Coordinates;
+  types: string[]; // Google Places types, e.g. 'transit_station', 'parking', 'gas_station'
+  rating?: number; // 1-5
+  wheelchairAccessible?: boolean;
+  official?: boolean; // curated pickup spot
+}
+
+export interface PoiProvider {
+  readonly name: string;
+
+  /**
+   * Points of interest within `radius` meters of `location`, closest first
+   */
+  getNearby(location: Coordinates, radius: number): Promise<PointOfInterest[]>;
+}
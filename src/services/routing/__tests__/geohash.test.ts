@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { encodeGeohash, geohashBounds, boundingBoxAround, geohashesCovering, haversineDistance } from '..';
+
+const timesSquare = { lat: 40.758, lng: -73.9855 };
+
+describe('geohash', () => {
+  it('should encode points like the reference implementation', () => {
+    expect(encodeGeohash({ lat: 57.64911, lng: 10.40744 }, 11)).toBe('u4pruydqqvj');
+    expect(encodeGeohash(timesSquare, 5)).toBe('dr5ru');
+  });
+
+  it('should decode a geohash to the cell containing the point', () => {
+    const bounds = geohashBounds(encodeGeohash(timesSquare));
+
+    expect(bounds.south).toBeLessThanOrEqual(timesSquare.lat);
+    expect(bounds.north).toBeGreaterThanOrEqual(timesSquare.lat);
+    expect(bounds.west).toBeLessThanOrEqual(timesSquare.lng);
+    expect(bounds.east).toBeGreaterThanOrEqual(timesSquare.lng);
+  });
+
+  it('should build a bounding box containing every point within the radius', () => {
+    const box = boundingBoxAround(timesSquare, 5000);
+
+    expect(haversineDistance(timesSquare, { lat: box.north, lng: timesSquare.lng })).toBeGreaterThanOrEqual(4990);
+    expect(haversineDistance(timesSquare, { lat: timesSquare.lat, lng: box.east })).toBeGreaterThanOrEqual(4990);
+  });
+
+  it('should cover the whole search area with a bounded number of cells', () => {
+    const box = boundingBoxAround(timesSquare, 10000);
+    const cells = geohashesCovering(box, 16);
+
+    expect(cells.length).toBeGreaterThan(0);
+    expect(cells.length).toBeLessThanOrEqual(16);
+
+    const corners = [
+      { lat: box.south, lng: box.west },
+      { lat: box.south, lng: box.east },
+      { lat: box.north, lng: box.west },
+      { lat: box.north, lng: box.east },
+      timesSquare,
+    ];
+    for (const corner of corners) {
+      const hash = encodeGeohash(corner);
+      expect(cells.some(cell => hash.startsWith(cell))).toBe(true);
+    }
+  });
+});
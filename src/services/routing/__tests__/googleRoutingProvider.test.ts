@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GoogleRoutingProvider } from '../googleRoutingProvider';
+import type { Coordinates } from '..';
+
+const requests = vi.hoisted(() => [] as { origins: Coordinates[]; destinations: Coordinates[] }[]);
+
+vi.mock('../../maps/googleMaps', () => ({
+  loadGoogleMapsApi: () =>
+    Promise.resolve({
+      TravelMode: { DRIVING: 'DRIVING', WALKING: 'WALKING' },
+      UnitSystem: { METRIC: 0 },
+      DistanceMatrixStatus: { OK: 'OK' },
+      DistanceMatrixElementStatus: { OK: 'OK' },
+      DistanceMatrixService: class {
+        getDistanceMatrix(
+          request: { origins: Coordinates[]; destinations: Coordinates[] },
+          callback: (response: unknown, status: string) => void
+        ) {
+          requests.push(request);
+          // Distances encode the pair so stitching mistakes show up
+          const rows = request.origins.map(origin => ({
+            elements: request.destinations.map(destination => ({
+              status: 'OK',
+              distance: { value: origin.lat * 1000 + destination.lat },
+              duration: { value: 1 },
+            })),
+          }));
+          callback(request.origins.length * request.destinations.length > 100 ? null : { rows }, 'OK');
+        }
+      },
+    }),
+}));
+
+const points = (count: number): Coordinates[] => Array.from({ length: count }, (_, index) => ({ lat: index, lng: 0 }));
+
+describe('GoogleRoutingProvider', () => {
+  it("should split matrices over Google's element limit into requests that fit", async () => {
+    const coordinates = points(18); // a driver and eight pool riders
+
+    const matrix = await new GoogleRoutingProvider().getDistanceMatrix(coordinates, coordinates);
+
+    expect(requests.length).toBeGreaterThan(1);
+    expect(requests.every(request => request.origins.length * request.destinations.length <= 100)).toBe(true);
+    expect(matrix).toHaveLength(18);
+    expect(matrix.every(row => row.length === 18)).toBe(true);
+    expect(matrix[17][3].distance).toBe(17003);
+    expect(matrix[4][16].distance).toBe(4016);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  OfflineRoutingProvider,
+  FallbackRoutingProvider,
+  setRoutingProvider,
+  encodePolyline,
+  decodePolyline,
+  haversineDistance,
+} from '..';
+import { MatchingAlgorithm } from '../../matching/matchingAlgorithm';
+import type { RoutingProvider } from '..';
+import type { LocationData } from '../../../types';
+
+const timesSquare = { lat: 40.758, lng: -73.9855 };
+const centralPark = { lat: 40.7812, lng: -73.9665 };
+
+const location = (coordinates: { lat: number; lng: number }): LocationData => ({
+  address: `${coordinates.lat},${coordinates.lng}`,
+  coordinates,
+  placeId: '',
+});
+
+describe('OfflineRoutingProvider', () => {
+  const provider = new OfflineRoutingProvider({ roadFactor: 1.5, drivingSpeed: 36 });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+  });
+
+  it('should scale straight-line distance by the road factor', async () => {
+    const straightLine = haversineDistance(timesSquare, centralPark);
+    const result = await provider.getDistance(timesSquare, centralPark);
+
+    expect(result.distance).toBeCloseTo(straightLine * 1.5, 5);
+    // 36 km/h = 10 m/s
+    expect(result.duration).toBeCloseTo(result.distance / 10, 5);
+  });
+
+  it('should return a full distance matrix', async () => {
+    const matrix = await provider.getDistanceMatrix([timesSquare, centralPark], [centralPark, timesSquare]);
+
+    expect(matrix).toHaveLength(2);
+    expect(matrix[0]).toHaveLength(2);
+    expect(matrix[0][1].distance).toBe(0);
+    expect(matrix[0][0].distance).toBeCloseTo(matrix[1][1].distance, 5);
+  });
+
+  it('should use walking speed for walking routes', async () => {
+    const driving = await provider.getDistance(timesSquare, centralPark, 'driving');
+    const walking = await provider.getDistance(timesSquare, centralPark, 'walking');
+
+    expect(walking.duration).toBeGreaterThan(driving.duration);
+    expect(walking.distance).toBeLessThan(driving.distance);
+  });
+
+  it('should build densified directions through waypoints', async () => {
+    const waypoint = { lat: 40.77, lng: -73.99 };
+    const route = await provider.getDirections(timesSquare, centralPark, [waypoint]);
+
+    expect(route.path[0]).toEqual(timesSquare);
+    expect(route.path[route.path.length - 1]).toEqual(centralPark);
+    expect(route.path).toContainEqual(waypoint);
+    expect(route.path.length).toBeGreaterThan(3);
+    expect(decodePolyline(route.polyline)).toHaveLength(route.path.length);
+  });
+
+  it('should make matching run without Google Maps', async () => {
+    setRoutingProvider(provider);
+
+    const analysis = await MatchingAlgorithm.analyzeRouteCompatibility(
+      location(timesSquare),
+      location(centralPark),
+      location({ lat: 40.7585, lng: -73.986 }),
+      location({ lat: 40.781, lng: -73.967 })
+    );
+
+    expect(analysis.overlapPercentage).toBe(0.98);
+    expect(analysis.pickupPoints).toEqual([{ lat: 40.7585, lng: -73.986 }]);
+  });
+});
+
+describe('FallbackRoutingProvider', () => {
+  it('should use the fallback when the primary provider fails', async () => {
+    const failing: RoutingProvider = {
+      name: 'failing',
+      getDistanceMatrix: () => Promise.reject(new Error('offline')),
+      getDistance: () => Promise.reject(new Error('offline')),
+      getDirections: () => Promise.reject(new Error('offline')),
+    };
+    const provider = new FallbackRoutingProvider(failing, new OfflineRoutingProvider());
+
+    const result = await provider.getDistance(timesSquare, centralPark);
+
+    expect(provider.name).toBe('failing+offline');
+    expect(result.distance).toBeGreaterThan(0);
+  });
+});
+
+describe('polyline encoding', () => {
+  it('should round-trip a path', () => {
+    const path = [
+      { lat: 38.5, lng: -120.2 },
+      { lat: 40.7, lng: -120.95 },
+      { lat: 43.252, lng: -126.453 },
+    ];
+
+    expect(encodePolyline(path)).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+    expect(decodePolyline(encodePolyline(path))).toEqual(path);
+  });
+});
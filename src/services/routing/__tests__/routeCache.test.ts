@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CachingRoutingProvider, OfflineRoutingProvider, RouteCache } from '..';
+import type { RouteCacheEntry, RouteCacheStore } from '..';
+
+const timesSquare = { lat: 40.758, lng: -73.9855 };
+const centralPark = { lat: 40.7812, lng: -73.9665 };
+const brooklynBridge = { lat: 40.7061, lng: -73.9969 };
+
+class MemoryStore implements RouteCacheStore {
+  entries = new Map<string, RouteCacheEntry>();
+
+  load() {
+    return Promise.resolve(Array.from(this.entries.values()));
+  }
+
+  put(entry: RouteCacheEntry) {
+    this.entries.set(entry.key, entry);
+    return Promise.resolve();
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  clear() {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
+
+const cachedProvider = (cache = new RouteCache()) => {
+  const offline = new OfflineRoutingProvider();
+  const provider = new CachingRoutingProvider(offline, cache);
+  return { offline, provider, cache };
+};
+
+describe('CachingRoutingProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should only call the wrapped provider once per rounded pair and mode', async () => {
+    const { offline, provider, cache } = cachedProvider();
+    const getDistance = vi.spyOn(offline, 'getDistance');
+
+    const first = await provider.getDistance(timesSquare, centralPark);
+    // A few meters away rounds to the same key
+    const second = await provider.getDistance({ lat: 40.75801, lng: -73.98551 }, centralPark);
+    await provider.getDistance(timesSquare, centralPark, 'walking');
+
+    expect(second).toEqual(first);
+    expect(getDistance).toHaveBeenCalledTimes(2);
+    expect(cache.getMetrics()).toMatchObject({ hits: 1, misses: 2, size: 2 });
+    expect(cache.getMetrics().hitRate).toBeCloseTo(1 / 3);
+  });
+
+  it('should share a single request between concurrent lookups', async () => {
+    const { offline, provider } = cachedProvider();
+    const getDirections = vi.spyOn(offline, 'getDirections');
+
+    await Promise.all([
+      provider.getDirections(timesSquare, centralPark),
+      provider.getDirections(timesSquare, centralPark),
+    ]);
+
+    expect(getDirections).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only fetch matrix rows with uncached pairs', async () => {
+    const { offline, provider } = cachedProvider();
+    const getDistanceMatrix = vi.spyOn(offline, 'getDistanceMatrix');
+
+    await provider.getDistance(timesSquare, centralPark);
+    await provider.getDistance(timesSquare, brooklynBridge);
+    const matrix = await provider.getDistanceMatrix([timesSquare, centralPark], [centralPark, brooklynBridge]);
+
+    expect(getDistanceMatrix).toHaveBeenCalledTimes(1);
+    expect(getDistanceMatrix).toHaveBeenCalledWith([centralPark], [centralPark, brooklynBridge], 'driving');
+    expect(matrix).toEqual(await offline.getDistanceMatrix([timesSquare, centralPark], [centralPark, brooklynBridge]));
+  });
+});
+
+describe('RouteCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000);
+    const cache = new RouteCache({ ttl: 500 });
+
+    await cache.set('route', { distance: 1, duration: 1 });
+    expect(await cache.get('route')).toEqual({ distance: 1, duration: 1 });
+
+    now.mockReturnValue(1_500);
+    expect(await cache.get('route')).toBeUndefined();
+    expect(cache.getMetrics().size).toBe(0);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const cache = new RouteCache({ maxEntries: 2 });
+
+    await cache.set('a', { distance: 1, duration: 1 });
+    await cache.set('b', { distance: 2, duration: 2 });
+    await cache.get('a');
+    await cache.set('c', { distance: 3, duration: 3 });
+
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('b')).toBeUndefined();
+    expect(cache.getMetrics().evictions).toBe(1);
+  });
+
+  it('should persist entries and load them into a new cache', async () => {
+    const store = new MemoryStore();
+    const first = new RouteCache({}, store);
+    await first.set('route', { distance: 1, duration: 1 });
+
+    expect(store.entries.has('route')).toBe(true);
+
+    const second = new RouteCache({}, store);
+    expect(await second.get('route')).toEqual({ distance: 1, duration: 1 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getRoutingProvider, setRoutingProvider } from '../routingProvider';
+
+const google = vi.hoisted(() => ({ down: false, calls: 0 }));
+
+vi.mock('../../maps/googleMaps', () => ({ isGoogleMapsAvailable: () => true }));
+
+vi.mock('../googleRoutingProvider', () => ({
+  GoogleRoutingProvider: class {
+    readonly name = 'google';
+
+    getDistance() {
+      google.calls += 1;
+      return google.down
+        ? Promise.reject(new Error('OVER_QUERY_LIMIT'))
+        : Promise.resolve({ distance: 4200, duration: 600 });
+    }
+  },
+}));
+
+const timesSquare = { lat: 40.758, lng: -73.9855 };
+const centralPark = { lat: 40.7812, lng: -73.9665 };
+
+describe('getRoutingProvider', () => {
+  afterEach(() => {
+    setRoutingProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should not keep serving offline estimates made while Google was down', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = getRoutingProvider();
+
+    google.down = true;
+    const estimate = await provider.getDistance(timesSquare, centralPark);
+    google.down = false;
+    const route = await provider.getDistance(timesSquare, centralPark);
+    await provider.getDistance(timesSquare, centralPark);
+
+    expect(estimate.distance).not.toBe(4200);
+    expect(route).toEqual({ distance: 4200, duration: 600 });
+    expect(google.calls).toBe(2);
+  });
+});
@@ -0,0 +1,72 @@
+import type { RouteCache } from './routeCache';
+import type { Coordinates, RouteDistance, RoutePath, RoutingProvider, TravelMode } from './types';
+
+/**
+ * Serves routing requests from a `RouteCache`, only calling the wrapped
+ * provider for pairs and routes it has not seen yet
+ */
+export class CachingRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  readonly cache: RouteCache;
+  private readonly provider: RoutingProvider;
+
+  constructor(provider: RoutingProvider, cache: RouteCache) {
+    this.provider = provider;
+    this.cache = cache;
+    this.name = `${provider.name}+cache`;
+  }
+
+  async getDistanceMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    mode: TravelMode = 'driving'
+  ): Promise<RouteDistance[][]> {
+    const matrix = await Promise.all(
+      origins.map(origin =>
+        Promise.all(
+          destinations.map(destination => this.cache.get<RouteDistance>(this.cache.distanceKey(origin, destination, mode)))
+        )
+      )
+    );
+
+    // Only ask for the rows that have at least one uncached pair
+    const missingRows = origins.map((_origin, index) => index).filter(index => matrix[index].some(cell => !cell));
+    if (missingRows.length === 0) return matrix;
+
+    const fetched = await this.provider.getDistanceMatrix(
+      missingRows.map(index => origins[index]),
+      destinations,
+      mode
+    );
+
+    await Promise.all(
+      missingRows.map((originIndex, row) =>
+        Promise.all(
+          destinations.map((destination, column) => {
+            matrix[originIndex][column] = fetched[row][column];
+            return this.cache.set(this.cache.distanceKey(origins[originIndex], destination, mode), fetched[row][column]);
+          })
+        )
+      )
+    );
+
+    return matrix;
+  }
+
+  getDistance(origin: Coordinates, destination: Coordinates, mode: TravelMode = 'driving'): Promise<RouteDistance> {
+    return this.cache.getOrLoad(this.cache.distanceKey(origin, destination, mode), () =>
+      this.provider.getDistance(origin, destination, mode)
+    );
+  }
+
+  getDirections(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints: Coordinates[] = [],
+    mode: TravelMode = 'driving'
+  ): Promise<RoutePath> {
+    return this.cache.getOrLoad(this.cache.directionsKey(origin, destination, waypoints, mode), () =>
+      this.provider.getDirections(origin, destination, waypoints, mode)
+    );
+  }
+}
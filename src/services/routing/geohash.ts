@@ -0,0 +1,136 @@
+import type { Coordinates } from './types';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const METERS_PER_DEGREE = 111320;
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * Geohash of a point. Bits alternate between longitude and latitude, five
+ * bits per character, matching `geohash_encode` in the database schema.
+ */
+export const encodeGeohash = (point: Coordinates, length = 9): string => {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let isLng = true;
+
+  while (hash.length < length) {
+    const range = isLng ? lng : lat;
+    const value = isLng ? point.lng : point.lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    if (value >= mid) {
+      bits = bits * 2 + 1;
+      range[0] = mid;
+    } else {
+      bits = bits * 2;
+      range[1] = mid;
+    }
+
+    isLng = !isLng;
+    bitCount++;
+
+    if (bitCount === 5) {
+      hash += BASE32[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+};
+
+/**
+ * Area covered by a geohash cell
+ */
+export const geohashBounds = (hash: string): BoundingBox => {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let isLng = true;
+
+  for (const character of hash) {
+    const bits = BASE32.indexOf(character);
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = isLng ? lng : lat;
+      const mid = (range[0] + range[1]) / 2;
+
+      if ((bits >> bit) & 1) {
+        range[0] = mid;
+      } else {
+        range[1] = mid;
+      }
+
+      isLng = !isLng;
+    }
+  }
+
+  return { south: lat[0], west: lng[0], north: lat[1], east: lng[1] };
+};
+
+/**
+ * Box around a point that contains every point within `radius` meters
+ */
+export const boundingBoxAround = (center: Coordinates, radius: number): BoundingBox => {
+  const latDelta = radius / METERS_PER_DEGREE;
+  // Longitude degrees shrink towards the poles; cap the cosine to avoid dividing by zero
+  const lngDelta = radius / (METERS_PER_DEGREE * Math.max(0.01, Math.cos((center.lat * Math.PI) / 180)));
+
+  return {
+    south: Math.max(-90, center.lat - latDelta),
+    west: Math.max(-180, center.lng - lngDelta),
+    north: Math.min(90, center.lat + latDelta),
+    east: Math.min(180, center.lng + lngDelta),
+  };
+};
+
+/**
+ * Geohash prefixes whose cells together cover the box, at the finest length
+ * that needs no more than `maxCells` cells. Boxes crossing the antimeridian
+ * are clamped to it.
+ */
+export const geohashesCovering = (box: BoundingBox, maxCells = 16): string[] => {
+  let length = 1;
+
+  while (length < 9 && countCells(box, length + 1) <= maxCells) {
+    length++;
+  }
+
+  const { latStep, lngStep } = cellSize(length);
+  const cells = new Set<string>();
+
+  for (let lat = cellStart(box.south, -90, latStep); lat <= box.north; lat += latStep) {
+    for (let lng = cellStart(box.west, -180, lngStep); lng <= box.east; lng += lngStep) {
+      // Encode the cell centre so rounding at the edges cannot pick a neighbour
+      cells.add(encodeGeohash({ lat: lat + latStep / 2, lng: lng + lngStep / 2 }, length));
+    }
+  }
+
+  return Array.from(cells);
+};
+
+const cellSize = (length: number) => {
+  const bits = length * 5;
+  return {
+    latStep: 180 / 2 ** Math.floor(bits / 2),
+    lngStep: 360 / 2 ** Math.ceil(bits / 2),
+  };
+};
+
+const cellStart = (value: number, origin: number, step: number) => origin + Math.floor((value - origin) / step) * step;
+
+const countCells = (box: BoundingBox, length: number) => {
+  const { latStep, lngStep } = cellSize(length);
+  const rows = Math.floor((box.north + 90) / latStep) - Math.floor((box.south + 90) / latStep) + 1;
+  const columns = Math.floor((box.east + 180) / lngStep) - Math.floor((box.west + 180) / lngStep) + 1;
+
+  return rows * columns;
+};
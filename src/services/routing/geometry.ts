@@ -0,0 +1,99 @@
+import { calculateDistance } from '../../utils';
+import type { Coordinates } from './types';
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export const haversineDistance = (from: Coordinates, to: Coordinates): number => {
+  return calculateDistance(from.lat, from.lng, to.lat, to.lng) * 1000;
+};
+
+/**
+ * Total length of a path in meters
+ */
+export const pathLength = (path: Coordinates[]): number => {
+  let length = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    length += haversineDistance(path[i], path[i + 1]);
+  }
+  return length;
+};
+
+/**
+ * Point at `fraction` (0-1) of the straight segment between two points
+ */
+export const interpolate = (from: Coordinates, to: Coordinates, fraction: number): Coordinates => ({
+  lat: from.lat + (to.lat - from.lat) * fraction,
+  lng: from.lng + (to.lng - from.lng) * fraction,
+});
+
+/**
+ * Densify a polyline so that no segment is longer than `maxSegmentLength` meters
+ */
+export const densifyPath = (points: Coordinates[], maxSegmentLength: number): Coordinates[] => {
+  if (points.length === 0) return [];
+
+  const densified: Coordinates[] = [points[0]];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const segmentLength = haversineDistance(points[i], points[i + 1]);
+    const steps = Math.max(1, Math.ceil(segmentLength / maxSegmentLength));
+
+    for (let step = 1; step <= steps; step++) {
+      densified.push(interpolate(points[i], points[i + 1], step / steps));
+    }
+  }
+
+  return densified;
+};
+
+export interface SegmentProjection {
+  point: Coordinates; // closest point on the segment
+  fraction: number; // 0-1 position of `point` between the segment start and end
+  distance: number; // meters from the projected point to the original point
+}
+
+/**
+ * Project a point onto a segment using a local flat-earth approximation,
+ * which is accurate for the short segments found in route geometry
+ */
+export const projectOntoSegment = (
+  point: Coordinates,
+  start: Coordinates,
+  end: Coordinates
+): SegmentProjection => {
+  const scale = Math.cos(((start.lat + end.lat) / 2) * (Math.PI / 180));
+  const dx = (end.lng - start.lng) * scale;
+  const dy = end.lat - start.lat;
+  const px = (point.lng - start.lng) * scale;
+  const py = point.lat - start.lat;
+  const lengthSquared = dx * dx + dy * dy;
+
+  const fraction = lengthSquared > 0 ? Math.min(1, Math.max(0, (px * dx + py * dy) / lengthSquared)) : 0;
+  const projected = interpolate(start, end, fraction);
+
+  return {
+    point: projected,
+    fraction,
+    distance: haversineDistance(point, projected),
+  };
+};
+
+/**
+ * Cosine of the angle between two directions of travel (1 = same, -1 = opposite)
+ */
+export const headingSimilarity = (
+  fromA: Coordinates,
+  toA: Coordinates,
+  fromB: Coordinates,
+  toB: Coordinates
+): number => {
+  const scale = Math.cos(((fromA.lat + fromB.lat) / 2) * (Math.PI / 180));
+  const ax = (toA.lng - fromA.lng) * scale;
+  const ay = toA.lat - fromA.lat;
+  const bx = (toB.lng - fromB.lng) * scale;
+  const by = toB.lat - fromB.lat;
+  const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+
+  return lengths > 0 ? (ax * bx + ay * by) / lengths : 0;
+};
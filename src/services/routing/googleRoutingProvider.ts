@@ -0,0 +1,137 @@
+import { loadGoogleMapsApi } from '../maps/googleMaps';
+import { encodePolyline } from './polyline';
+import type { Coordinates, RouteDistance, RoutePath, RoutingProvider, TravelMode } from './types';
+
+/**
+ * Routing backend backed by the Google Maps JavaScript API
+ */
+export class GoogleRoutingProvider implements RoutingProvider {
+  readonly name = 'google';
+
+  // Google's limits for one Distance Matrix request
+  private static readonly MAX_ELEMENTS = 100;
+  private static readonly MAX_DIMENSION = 25;
+
+  /**
+   * Matrices over Google's per-request limits are requested in blocks, one
+   * after another, and stitched back together
+   */
+  async getDistanceMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    mode: TravelMode = 'driving'
+  ): Promise<RouteDistance[][]> {
+    const maps = await loadGoogleMapsApi();
+    const columns = Math.min(destinations.length, GoogleRoutingProvider.MAX_DIMENSION);
+    const rows = Math.min(
+      GoogleRoutingProvider.MAX_DIMENSION,
+      Math.floor(GoogleRoutingProvider.MAX_ELEMENTS / Math.max(1, columns))
+    );
+    const matrix: RouteDistance[][] = origins.map(() => []);
+
+    for (let row = 0; row < origins.length; row += rows) {
+      for (let column = 0; column < destinations.length; column += columns) {
+        const block = await this.requestMatrix(
+          maps,
+          origins.slice(row, row + rows),
+          destinations.slice(column, column + columns),
+          mode
+        );
+        block.forEach((cells, offset) => matrix[row + offset].push(...cells));
+      }
+    }
+
+    return matrix;
+  }
+
+  private requestMatrix(
+    maps: typeof google.maps,
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    mode: TravelMode
+  ): Promise<RouteDistance[][]> {
+    return new Promise((resolve, reject) => {
+      const service = new maps.DistanceMatrixService();
+
+      service.getDistanceMatrix(
+        {
+          origins,
+          destinations,
+          travelMode: mode === 'walking' ? maps.TravelMode.WALKING : maps.TravelMode.DRIVING,
+          unitSystem: maps.UnitSystem.METRIC,
+        },
+        (response: google.maps.DistanceMatrixResponse | null, status: google.maps.DistanceMatrixStatus) => {
+          if (status !== maps.DistanceMatrixStatus.OK || !response) {
+            reject(new Error('Distance calculation failed'));
+            return;
+          }
+
+          const elements = response.rows.map(row => row.elements);
+
+          if (elements.some(row => row.some(element => element.status !== maps.DistanceMatrixElementStatus.OK))) {
+            reject(new Error('Unable to calculate distance'));
+            return;
+          }
+
+          resolve(
+            elements.map(row =>
+              row.map(element => ({
+                distance: element.distance?.value || 0, // meters
+                duration: element.duration?.value || 0, // seconds
+              }))
+            )
+          );
+        }
+      );
+    });
+  }
+
+  async getDistance(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode = 'driving'
+  ): Promise<RouteDistance> {
+    const [[result]] = await this.getDistanceMatrix([origin], [destination], mode);
+    return result;
+  }
+
+  async getDirections(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints: Coordinates[] = [],
+    mode: TravelMode = 'driving'
+  ): Promise<RoutePath> {
+    const maps = await loadGoogleMapsApi();
+
+    return new Promise((resolve, reject) => {
+      const directionsService = new maps.DirectionsService();
+
+      directionsService.route(
+        {
+          origin,
+          destination,
+          waypoints: waypoints.map(location => ({ location, stopover: true })),
+          travelMode: mode === 'walking' ? maps.TravelMode.WALKING : maps.TravelMode.DRIVING,
+          optimizeWaypoints: false, // Callers rely on the waypoint order they pass in
+          provideRouteAlternatives: false,
+        },
+        (result: google.maps.DirectionsResult | null, status: google.maps.DirectionsStatus) => {
+          if (status !== maps.DirectionsStatus.OK || !result?.routes[0]) {
+            reject(new Error('Route calculation failed'));
+            return;
+          }
+
+          const route = result.routes[0];
+          const path = route.overview_path.map(point => ({ lat: point.lat(), lng: point.lng() }));
+
+          resolve({
+            distance: route.legs.reduce((total, leg) => total + (leg.distance?.value || 0), 0),
+            duration: route.legs.reduce((total, leg) => total + (leg.duration?.value || 0), 0),
+            path,
+            polyline: encodePolyline(path),
+          });
+        }
+      );
+    });
+  }
+}
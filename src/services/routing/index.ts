@@ -0,0 +1,36 @@
+export { GoogleRoutingProvider } from './googleRoutingProvider';
+export { OfflineRoutingProvider } from './offlineRoutingProvider';
+export { FallbackRoutingProvider, getRoutingProvider, setRoutingProvider, getRouteCache } from './routingProvider';
+export { CachingRoutingProvider } from './cachingRoutingProvider';
+export { RouteCache } from './routeCache';
+export { IndexedDbRouteCacheStore } from './indexedDbRouteCacheStore';
+export { encodePolyline, decodePolyline } from './polyline';
+export {
+  haversineDistance,
+  pathLength,
+  interpolate,
+  densifyPath,
+  projectOntoSegment,
+  headingSimilarity,
+} from './geometry';
+export { SegmentIndex } from './segmentIndex';
+export { encodeGeohash, geohashBounds, boundingBoxAround, geohashesCovering } from './geohash';
+
+export type {
+  Coordinates,
+  TravelMode,
+  RouteDistance,
+  RoutePath,
+  RoutingProvider,
+} from './types';
+
+export type { SegmentProjection } from './geometry';
+export type { BoundingBox } from './geohash';
+export type {
+  RouteCacheEntry,
+  RouteCacheMetrics,
+  RouteCacheOptions,
+  RouteCacheStore,
+  RouteCacheValue,
+} from './routeCache';
+export type { OfflineRoutingOptions } from './offlineRoutingProvider';
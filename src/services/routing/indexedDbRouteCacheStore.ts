@@ -0,0 +1,65 @@
+import type { RouteCacheEntry, RouteCacheStore } from './routeCache';
+
+const DATABASE_NAME = 'route-cache';
+const STORE_NAME = 'routes';
+const DATABASE_VERSION = 1;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Persists route cache entries in the browser's IndexedDB so routing results
+ * survive page reloads
+ */
+export class IndexedDbRouteCacheStore implements RouteCacheStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether IndexedDB exists in this environment (it does not in Node)
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async load(): Promise<RouteCacheEntry[]> {
+    const store = await this.objectStore('readonly');
+    return requestToPromise(store.getAll() as IDBRequest<RouteCacheEntry[]>);
+  }
+
+  async put(entry: RouteCacheEntry): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.clear());
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+
+      this.database = requestToPromise(request);
+    }
+
+    return this.database;
+  }
+}
@@ -0,0 +1,81 @@
+import { haversineDistance, densifyPath, pathLength } from './geometry';
+import { encodePolyline } from './polyline';
+import type { Coordinates, RouteDistance, RoutePath, RoutingProvider, TravelMode } from './types';
+
+export interface OfflineRoutingOptions {
+  roadFactor: number; // road distance / straight-line distance
+  drivingSpeed: number; // km/h
+  walkingSpeed: number; // km/h
+  pathResolution: number; // meters between generated path points
+}
+
+/**
+ * Pure TypeScript routing backend that approximates road distances as
+ * straight lines scaled by a road factor. It needs no network access, so
+ * results are deterministic and usable in tests and Node scripts.
+ */
+export class OfflineRoutingProvider implements RoutingProvider {
+  readonly name = 'offline';
+
+  private static readonly DEFAULT_OPTIONS: OfflineRoutingOptions = {
+    roadFactor: 1.3,
+    drivingSpeed: 40,
+    walkingSpeed: 5,
+    pathResolution: 250,
+  };
+
+  private readonly options: OfflineRoutingOptions;
+
+  constructor(options: Partial<OfflineRoutingOptions> = {}) {
+    this.options = { ...OfflineRoutingProvider.DEFAULT_OPTIONS, ...options };
+  }
+
+  getDistanceMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    mode: TravelMode = 'driving'
+  ): Promise<RouteDistance[][]> {
+    return Promise.resolve(
+      origins.map(origin =>
+        destinations.map(destination => this.estimate(haversineDistance(origin, destination), mode))
+      )
+    );
+  }
+
+  getDistance(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode: TravelMode = 'driving'
+  ): Promise<RouteDistance> {
+    return Promise.resolve(this.estimate(haversineDistance(origin, destination), mode));
+  }
+
+  getDirections(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints: Coordinates[] = [],
+    mode: TravelMode = 'driving'
+  ): Promise<RoutePath> {
+    const path = densifyPath([origin, ...waypoints, destination], this.options.pathResolution);
+    const { distance, duration } = this.estimate(pathLength(path), mode);
+
+    return Promise.resolve({
+      distance,
+      duration,
+      path,
+      polyline: encodePolyline(path),
+    });
+  }
+
+  private estimate(straightLineDistance: number, mode: TravelMode): RouteDistance {
+    // Walking paths follow streets less strictly than cars do
+    const factor = mode === 'walking' ? 1 + (this.options.roadFactor - 1) / 2 : this.options.roadFactor;
+    const distance = straightLineDistance * factor;
+    const speed = mode === 'walking' ? this.options.walkingSpeed : this.options.drivingSpeed;
+
+    return {
+      distance,
+      duration: distance / ((speed * 1000) / 3600),
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import type { Coordinates } from './types';
+
+// Encoded polyline algorithm format (same as Google Maps), 5 decimal precision
+const PRECISION = 1e5;
+
+const encodeValue = (value: number): string => {
+  let shifted = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+
+  while (shifted >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+    shifted >>= 5;
+  }
+
+  return encoded + String.fromCharCode(shifted + 63);
+};
+
+/**
+ * Encode a path into a polyline string
+ */
+export const encodePolyline = (path: Coordinates[]): string => {
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  for (const point of path) {
+    const lat = Math.round(point.lat * PRECISION);
+    const lng = Math.round(point.lng * PRECISION);
+
+    encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+
+    previousLat = lat;
+    previousLng = lng;
+  }
+
+  return encoded;
+};
+
+/**
+ * Decode a polyline string into a path
+ */
+export const decodePolyline = (encoded: string): Coordinates[] => {
+  const path: Coordinates[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeValue();
+    lng += decodeValue();
+    path.push({ lat: lat / PRECISION, lng: lng / PRECISION });
+  }
+
+  return path;
+};
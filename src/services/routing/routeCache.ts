@@ -0,0 +1,214 @@
+import type { Coordinates, RouteDistance, RoutePath, TravelMode } from './types';
+
+export type RouteCacheValue = RouteDistance | RoutePath;
+
+export interface RouteCacheEntry {
+  key: string;
+  value: RouteCacheValue;
+  expiresAt: number; // epoch milliseconds
+}
+
+export interface RouteCacheOptions {
+  ttl: number; // milliseconds an entry stays fresh
+  maxEntries: number; // least recently used entries are evicted beyond this
+  precision: number; // decimal places coordinates are rounded to in keys
+}
+
+export interface RouteCacheMetrics {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  hitRate: number; // 0-1, hits / (hits + misses)
+}
+
+/**
+ * Persistent backing store for a `RouteCache`. The cache keeps working from
+ * memory when the store fails, so implementations may reject freely.
+ */
+export interface RouteCacheStore {
+  load(): Promise<RouteCacheEntry[]>;
+  put(entry: RouteCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory LRU cache of routing results with TTL expiry, optionally
+ * persisted to a `RouteCacheStore`. Keys use rounded coordinates so points a
+ * few meters apart share an entry. Concurrent loads of the same key share a
+ * single request.
+ */
+export class RouteCache {
+  private static readonly DEFAULT_OPTIONS: RouteCacheOptions = {
+    ttl: 24 * 60 * 60 * 1000,
+    maxEntries: 5000,
+    precision: 4, // ~11 m
+  };
+
+  private readonly options: RouteCacheOptions;
+  private readonly store: RouteCacheStore | null;
+  private readonly entries = new Map<string, RouteCacheEntry>();
+  private readonly pending = new Map<string, Promise<RouteCacheValue>>();
+  private hydration: Promise<void> | null = null;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: Partial<RouteCacheOptions> = {}, store: RouteCacheStore | null = null) {
+    this.options = { ...RouteCache.DEFAULT_OPTIONS, ...options };
+    this.store = store;
+  }
+
+  distanceKey(origin: Coordinates, destination: Coordinates, mode: TravelMode = 'driving'): string {
+    return `distance:${mode}:${this.pointKey(origin)};${this.pointKey(destination)}`;
+  }
+
+  directionsKey(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints: Coordinates[] = [],
+    mode: TravelMode = 'driving'
+  ): string {
+    return `directions:${mode}:${[origin, ...waypoints, destination].map(point => this.pointKey(point)).join(';')}`;
+  }
+
+  /**
+   * Cached value for a key, or `undefined` when missing or expired
+   */
+  async get<T extends RouteCacheValue>(key: string): Promise<T | undefined> {
+    await this.hydrate();
+    return this.lookup(key) as T | undefined;
+  }
+
+  async set(key: string, value: RouteCacheValue): Promise<void> {
+    await this.hydrate();
+
+    const entry = { key, value, expiresAt: Date.now() + this.options.ttl };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evictOverflow();
+    this.persist(store => store.put(entry));
+  }
+
+  /**
+   * Cached value for a key, calling `load` and caching its result on a miss
+   */
+  async getOrLoad<T extends RouteCacheValue>(key: string, load: () => Promise<T>): Promise<T> {
+    await this.hydrate();
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      // Another caller is already fetching this route; count it as served from cache
+      this.hits++;
+      return inFlight as Promise<T>;
+    }
+
+    const cached = this.lookup(key);
+    if (cached) return cached as T;
+
+    const request = load()
+      .then(async value => {
+        await this.set(key, value);
+        return value;
+      })
+      .finally(() => this.pending.delete(key));
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  async clear(): Promise<void> {
+    await this.hydrate();
+    this.entries.clear();
+    this.persist(store => store.clear());
+  }
+
+  getMetrics(): RouteCacheMetrics {
+    const lookups = this.hits + this.misses;
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  resetMetrics(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  private lookup(key: string): RouteCacheValue | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  private pointKey(point: Coordinates): string {
+    return `${point.lat.toFixed(this.options.precision)},${point.lng.toFixed(this.options.precision)}`;
+  }
+
+  /**
+   * Load persisted entries once, before the first read or write
+   */
+  private hydrate(): Promise<void> {
+    if (!this.store) return Promise.resolve();
+
+    if (!this.hydration) {
+      this.hydration = this.store
+        .load()
+        .then(stored => {
+          const now = Date.now();
+          // Oldest writes first, so they are the first to be evicted
+          const fresh = stored
+            .filter(entry => entry.expiresAt > now)
+            .sort((a, b) => a.expiresAt - b.expiresAt);
+
+          for (const entry of fresh) {
+            this.entries.set(entry.key, entry);
+          }
+          this.evictOverflow();
+        })
+        .catch(error => console.warn('Failed to load route cache:', error));
+    }
+
+    return this.hydration;
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.remove(oldest);
+      this.evictions++;
+    }
+  }
+
+  private remove(key: string): void {
+    this.entries.delete(key);
+    this.persist(store => store.delete(key));
+  }
+
+  private persist(write: (store: RouteCacheStore) => Promise<void>): void {
+    if (!this.store) return;
+
+    write(this.store).catch(error => console.warn('Failed to persist route cache:', error));
+  }
+}
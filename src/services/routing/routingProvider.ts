@@ -0,0 +1,97 @@
+import { isGoogleMapsAvailable } from '../maps/googleMaps';
+import { GoogleRoutingProvider } from './googleRoutingProvider';
+import { OfflineRoutingProvider } from './offlineRoutingProvider';
+import { CachingRoutingProvider } from './cachingRoutingProvider';
+import { IndexedDbRouteCacheStore } from './indexedDbRouteCacheStore';
+import { RouteCache } from './routeCache';
+import type { Coordinates, RouteDistance, RoutePath, RoutingProvider, TravelMode } from './types';
+
+/**
+ * Delegates to a primary provider and retries failed calls on a fallback provider
+ */
+export class FallbackRoutingProvider implements RoutingProvider {
+  readonly name: string;
+  private readonly primary: RoutingProvider;
+  private readonly fallback: RoutingProvider;
+
+  constructor(primary: RoutingProvider, fallback: RoutingProvider) {
+    this.primary = primary;
+    this.fallback = fallback;
+    this.name = `${primary.name}+${fallback.name}`;
+  }
+
+  getDistanceMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    mode?: TravelMode
+  ): Promise<RouteDistance[][]> {
+    return this.withFallback(provider => provider.getDistanceMatrix(origins, destinations, mode));
+  }
+
+  getDistance(origin: Coordinates, destination: Coordinates, mode?: TravelMode): Promise<RouteDistance> {
+    return this.withFallback(provider => provider.getDistance(origin, destination, mode));
+  }
+
+  getDirections(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints?: Coordinates[],
+    mode?: TravelMode
+  ): Promise<RoutePath> {
+    return this.withFallback(provider => provider.getDirections(origin, destination, waypoints, mode));
+  }
+
+  private async withFallback<T>(call: (provider: RoutingProvider) => Promise<T>): Promise<T> {
+    try {
+      return await call(this.primary);
+    } catch (error) {
+      console.warn(`Routing provider "${this.primary.name}" failed, using "${this.fallback.name}":`, error);
+      return call(this.fallback);
+    }
+  }
+}
+
+let activeProvider: RoutingProvider | null = null;
+let routeCache: RouteCache | null = null;
+
+const createDefaultProvider = (): RoutingProvider => {
+  const offline = new OfflineRoutingProvider();
+
+  if (!isGoogleMapsAvailable()) {
+    return new CachingRoutingProvider(offline, getRouteCache());
+  }
+
+  // Only Google's routes are cached, so estimates made during an outage are not served once it is over
+  return new FallbackRoutingProvider(new CachingRoutingProvider(new GoogleRoutingProvider(), getRouteCache()), offline);
+};
+
+/**
+ * Route cache shared by the default routing provider. Persisted to IndexedDB
+ * in the browser and kept in memory elsewhere, e.g. in Node jobs.
+ */
+export const getRouteCache = (): RouteCache => {
+  if (!routeCache) {
+    routeCache = new RouteCache({}, IndexedDbRouteCacheStore.isSupported() ? new IndexedDbRouteCacheStore() : null);
+  }
+  return routeCache;
+};
+
+/**
+ * Routing provider used by matching and meeting point services.
+ * Defaults to Google Maps behind the shared route cache, with an offline
+ * fallback, when an API key is configured.
+ */
+export const getRoutingProvider = (): RoutingProvider => {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Override the routing provider, e.g. with an `OfflineRoutingProvider` in tests
+ * and Node jobs. Passing `null` restores the default on next use.
+ */
+export const setRoutingProvider = (provider: RoutingProvider | null): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,65 @@
+import type { Coordinates } from './types';
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+/**
+ * Uniform grid over the segments of a path. Each segment is registered in every
+ * cell its bounding box touches plus one cell of padding, so looking up a single
+ * cell returns every segment that may lie within `cellSize` meters of a point.
+ */
+export class SegmentIndex {
+  private readonly cells = new Map<string, number[]>();
+  private readonly cellLat: number;
+  private readonly cellLng: number;
+
+  constructor(path: Coordinates[], cellSize: number) {
+    const referenceLat = path.length > 0 ? path[0].lat : 0;
+    const lngScale = Math.max(0.01, Math.cos(referenceLat * (Math.PI / 180)));
+
+    this.cellLat = cellSize / METERS_PER_DEGREE_LAT;
+    this.cellLng = cellSize / (METERS_PER_DEGREE_LAT * lngScale);
+
+    for (let i = 0; i < path.length - 1; i++) {
+      this.insert(i, path[i], path[i + 1]);
+    }
+  }
+
+  /**
+   * Indexes of segments that may be within one cell size of the point
+   */
+  query(point: Coordinates): number[] {
+    return this.cells.get(this.key(this.row(point.lat), this.column(point.lng))) ?? [];
+  }
+
+  private insert(segment: number, start: Coordinates, end: Coordinates) {
+    const minRow = this.row(Math.min(start.lat, end.lat)) - 1;
+    const maxRow = this.row(Math.max(start.lat, end.lat)) + 1;
+    const minColumn = this.column(Math.min(start.lng, end.lng)) - 1;
+    const maxColumn = this.column(Math.max(start.lng, end.lng)) + 1;
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let column = minColumn; column <= maxColumn; column++) {
+        const key = this.key(row, column);
+        const bucket = this.cells.get(key);
+
+        if (bucket) {
+          bucket.push(segment);
+        } else {
+          this.cells.set(key, [segment]);
+        }
+      }
+    }
+  }
+
+  private row(lat: number): number {
+    return Math.floor(lat / this.cellLat);
+  }
+
+  private column(lng: number): number {
+    return Math.floor(lng / this.cellLng);
+  }
+
+  private key(row: number, column: number): string {
+    return `${row}:${column}`;
+  }
+}
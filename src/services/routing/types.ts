@@ -0,0 +1,49 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export type TravelMode = 'driving' | 'walking';
+
+export interface RouteDistance {
+  distance: number; // meters
+  duration: number; // seconds
+}
+
+export interface RoutePath extends RouteDistance {
+  path: Coordinates[];
+  polyline: string; // encoded polyline of `path`
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+
+  /**
+   * Distance and duration for every origin/destination pair.
+   * The result is indexed as `matrix[originIndex][destinationIndex]`.
+   */
+  getDistanceMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    mode?: TravelMode
+  ): Promise<RouteDistance[][]>;
+
+  /**
+   * Distance and duration between a single pair of points
+   */
+  getDistance(
+    origin: Coordinates,
+    destination: Coordinates,
+    mode?: TravelMode
+  ): Promise<RouteDistance>;
+
+  /**
+   * Route geometry from origin to destination, optionally via waypoints (in order)
+   */
+  getDirections(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints?: Coordinates[],
+    mode?: TravelMode
+  ): Promise<RoutePath>;
+}
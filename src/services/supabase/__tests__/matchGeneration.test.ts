@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { matchGenerationService } from '../matchGeneration';
+import { matchService } from '../matches';
+import { userPreferencesService } from '../userPreferences';
+import { notificationService } from '../../notifications/notificationService';
+import { OfflineRoutingProvider, setRoutingProvider } from '../../routing';
+import { createMockLocation, createMockTrip } from '../../../test/utils';
+import type { Trip, UserPreferences } from '../../../types';
+
+vi.mock('../client', () => ({
+  supabase: {},
+  handleSupabaseError: (error: unknown) => String(error),
+}));
+
+// Trips named after their ids, so notifications show which trip they are about
+const trip = (id: string, overrides: Partial<Trip> = {}): Trip =>
+  createMockTrip(id, { origin: `${id} start`, destination: `${id} end`, ...overrides });
+
+describe('matchGenerationService.generateMatchesForTrip', () => {
+  const source = trip('source');
+  const sameRoute = trip('same-route');
+  const lateDeparture = trip('late', { departure_time: '2030-01-01T09:30:00.000Z' });
+
+  beforeEach(() => {
+    setRoutingProvider(new OfflineRoutingProvider({ roadFactor: 1, drivingSpeed: 60 }));
+
+    vi.spyOn(matchGenerationService, 'getCandidateTrips').mockResolvedValue({
+      trips: [sameRoute, lateDeparture],
+      error: null,
+    });
+    vi.spyOn(userPreferencesService, 'getPreferencesForUsers').mockResolvedValue({ preferences: {}, error: null });
+    vi.spyOn(notificationService, 'createTripMatchNotification').mockResolvedValue({
+      notification: null,
+      error: null,
+    });
+    vi.spyOn(matchService, 'expireIncompatibleMatches').mockResolvedValue({ expired: 0, error: null });
+  });
+
+  afterEach(() => {
+    setRoutingProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should save matches and notify both users about new high-scoring ones', async () => {
+    const upsert = vi.spyOn(matchService, 'upsertMatchesFromAnalysis').mockImplementation(async (_tripId, matches) => ({
+      created: matches,
+      updated: 0,
+      errors: [],
+    }));
+
+    const result = await matchGenerationService.generateMatchesForTrip(source, { notifyThreshold: 0.9 });
+
+    const [tripId, matches] = upsert.mock.calls[0];
+    expect(tripId).toBe('source');
+    expect(matches.map(match => match.tripId)).toEqual(['same-route', 'late']);
+
+    // Only the same-route match clears the threshold, and both of its users are notified
+    expect(result).toMatchObject({ candidates: 2, created: 2, updated: 0, notified: 2, errors: [] });
+    expect(notificationService.createTripMatchNotification).toHaveBeenCalledWith(
+      'user-source',
+      'source',
+      'same-route start → same-route end'
+    );
+    expect(notificationService.createTripMatchNotification).toHaveBeenCalledWith(
+      'user-same-route',
+      'same-route',
+      'source start → source end'
+    );
+  });
+
+  it('should keep the route geometry of exact-route matches', async () => {
+    const upsert = vi.spyOn(matchService, 'upsertMatchesFromAnalysis').mockImplementation(async (_tripId, matches) => ({
+      created: matches,
+      updated: 0,
+      errors: [],
+    }));
+
+    await matchGenerationService.generateMatchesForTrip(source);
+
+    const [, [exact]] = upsert.mock.calls[0];
+    expect(exact.matchType).toBe('exact_route');
+    expect(exact.routeAnalysis.sourceRoute?.polyline).toBeTruthy();
+    expect(exact.routeAnalysis.candidateRoute?.polyline).toBeTruthy();
+    expect(exact.routeAnalysis.sharedIntervals.length).toBeGreaterThan(0);
+    expect(exact.suggestedPickupPoint).toBeTruthy();
+  });
+
+  it('should not notify again when existing matches are refreshed', async () => {
+    vi.spyOn(matchService, 'upsertMatchesFromAnalysis').mockImplementation(async (_tripId, matches) => ({
+      created: [],
+      updated: matches.length,
+      errors: [],
+    }));
+
+    const result = await matchGenerationService.generateMatchesForTrip(source);
+
+    expect(result).toMatchObject({ created: 0, updated: 2, notified: 0 });
+    expect(notificationService.createTripMatchNotification).not.toHaveBeenCalled();
+  });
+
+  it('should score round trips when both legs match', async () => {
+    const returnLeg = (id: string, overrides: Partial<Trip> = {}) =>
+      trip(id, {
+        origin_location: createMockLocation(40.8, -74.0),
+        destination_location: createMockLocation(40.7, -74.0),
+        departure_time: '2030-01-01T18:00:00.000Z',
+        trip_leg: 'RETURN',
+        ...overrides,
+      });
+
+    vi.mocked(matchGenerationService.getCandidateTrips).mockResolvedValue({
+      trips: [trip('same-route', { paired_trip_id: 'same-route-back' }), lateDeparture],
+      error: null,
+    });
+    vi.spyOn(matchGenerationService, 'getTripsById').mockResolvedValue({
+      trips: [returnLeg('source-back', { user_id: 'user-source' }), returnLeg('same-route-back', { user_id: 'user-same-route' })],
+      error: null,
+    });
+    const upsert = vi.spyOn(matchService, 'upsertMatchesFromAnalysis').mockResolvedValue({
+      created: [],
+      updated: 2,
+      errors: [],
+    });
+
+    await matchGenerationService.generateMatchesForTrip(
+      trip('source', { paired_trip_id: 'source-back', trip_leg: 'OUTBOUND' })
+    );
+
+    const [, matches, roundTripScores] = upsert.mock.calls[0];
+    const outbound = matches.find(match => match.tripId === 'same-route');
+    expect(Object.keys(roundTripScores ?? {})).toEqual(['same-route']);
+    // Identical legs both ways, so the combined score equals the outbound score
+    expect(roundTripScores?.['same-route']).toBeCloseTo(outbound?.overallScore ?? 0, 5);
+  });
+
+  it("should apply the candidates' preferences to the matching", async () => {
+    vi.mocked(matchGenerationService.getCandidateTrips).mockResolvedValue({
+      trips: [trip('same-route', { user: { gender: 'female' } as Trip['user'] }), lateDeparture],
+      error: null,
+    });
+    vi.mocked(userPreferencesService.getPreferencesForUsers).mockResolvedValue({
+      preferences: { 'user-same-route': { gender_preference: 'same' } as UserPreferences },
+      error: null,
+    });
+    const upsert = vi.spyOn(matchService, 'upsertMatchesFromAnalysis').mockResolvedValue({
+      created: [],
+      updated: 0,
+      errors: [],
+    });
+
+    await matchGenerationService.generateMatchesForTrip(trip('source', { user: { gender: 'male' } as Trip['user'] }));
+
+    expect(userPreferencesService.getPreferencesForUsers).toHaveBeenCalledWith([
+      'user-source',
+      'user-same-route',
+      'user-late',
+    ]);
+    // The same-route rider only travels with women
+    expect(upsert.mock.calls[0][1].map(match => match.tripId)).toEqual(['late']);
+  });
+
+  it('should expire open matches with trips that are no longer compatible', async () => {
+    vi.mocked(matchGenerationService.getCandidateTrips).mockResolvedValue({ trips: [sameRoute], error: null });
+    vi.mocked(matchService.expireIncompatibleMatches).mockResolvedValue({ expired: 1, error: null });
+    vi.spyOn(matchService, 'upsertMatchesFromAnalysis').mockResolvedValue({ created: [], updated: 1, errors: [] });
+
+    const result = await matchGenerationService.generateMatchesForTrip(source);
+
+    expect(matchService.expireIncompatibleMatches).toHaveBeenCalledWith('source', ['same-route']);
+    expect(result).toMatchObject({ updated: 1, expired: 1 });
+  });
+});
+
+describe('matchGenerationService.refreshMatchesForTrip', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should invalidate the matches of a cancelled trip instead of re-scoring them', async () => {
+    const getCandidates = vi.spyOn(matchGenerationService, 'getCandidateTrips');
+    const invalidate = vi.spyOn(matchService, 'invalidateTripMatches').mockResolvedValue({ expired: 3, error: null });
+
+    const result = await matchGenerationService.refreshMatchesForTrip(trip('source', { status: 'CANCELLED' }));
+
+    expect(invalidate).toHaveBeenCalledWith('source', 'trip_cancelled');
+    expect(getCandidates).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ expired: 3, errors: [] });
+  });
+
+  it('should re-score the matches of a trip that can still take riders', async () => {
+    const generate = vi.spyOn(matchGenerationService, 'generateMatchesForTrip').mockResolvedValue({
+      tripId: 'source',
+      candidates: 0,
+      created: 0,
+      updated: 0,
+      expired: 0,
+      notified: 0,
+      errors: [],
+    });
+    const invalidate = vi.spyOn(matchService, 'invalidateTripMatches');
+
+    await matchGenerationService.refreshMatchesForTrip(trip('source'));
+
+    expect(generate).toHaveBeenCalled();
+    expect(invalidate).not.toHaveBeenCalled();
+  });
+});
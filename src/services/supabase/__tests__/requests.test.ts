@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { requestService } from '../requests';
+import { notificationService } from '../../notifications/notificationService';
+import { waitlistService } from '../waitlist';
+import { SeatReservation } from '../../trips/seatReservation';
+import type { InstantBookRider, InstantBookTrip } from '../../trips/instantBook';
+import type { TripRequest } from '../../../types';
+
+type StoredRequest = Pick<
+  TripRequest,
+  'id' | 'trip_id' | 'sender_id' | 'receiver_id' | 'status' | 'seats_requested' | 'small_bags' | 'large_bags'
+>;
+
+/**
+ * An in-memory stand-in for the database. `accept_trip_request` fails with
+ * the configured error, or behaves like the Postgres function: calls queue up
+ * on the trip like its `SELECT ... FOR UPDATE` does, and each one checks the
+ * request and the seats left before yielding and taking them.
+ */
+const db = vi.hoisted(() => ({
+  requests: new Map<string, StoredRequest>(),
+  seatsLeft: 0,
+  tripLock: Promise.resolve(),
+  acceptError: null as { message: string } | null,
+  instantBook: null as InstantBookTrip | null,
+  sender: null as InstantBookRider | null,
+  filters: [] as unknown[][],
+}));
+
+const rpc = vi.hoisted(() => {
+  const acceptTripRequest = async ({ p_request_id, p_expected_status }: Record<string, string>) => {
+    const request = db.requests.get(p_request_id);
+    if (request.status !== p_expected_status) return { data: null, error: { message: 'REQUEST_CHANGED' } };
+    if (request.seats_requested > db.seatsLeft) return { data: null, error: { message: 'TRIP_FULL' } };
+
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    db.seatsLeft -= request.seats_requested;
+    request.status = 'ACCEPTED';
+    return { data: request, error: null };
+  };
+
+  return vi.fn((fn: string, params: Record<string, string>) => {
+    if (fn !== 'accept_trip_request') throw new Error(`Unexpected rpc ${fn}`);
+    if (db.acceptError) return Promise.resolve({ data: null, error: db.acceptError });
+
+    const result = db.tripLock.then(() => acceptTripRequest(params));
+    db.tripLock = result.then(() => undefined);
+    return result;
+  });
+});
+
+vi.mock('../client', () => {
+  const query = (table: string) => {
+    let id: string | null = null;
+    let changes: Partial<StoredRequest> = {};
+    const builder = {
+      insert: ([row]: StoredRequest[]) => {
+        id = 'new';
+        db.requests.set(id, { ...row, id, status: 'PENDING', trip: db.instantBook, sender: db.sender } as StoredRequest);
+        return builder;
+      },
+      update: (values: Partial<StoredRequest>) => {
+        changes = values;
+        return builder;
+      },
+      select: () => builder,
+      eq: (column: string, value: string) => {
+        if (column === 'id') id = value;
+        db.filters.push(['eq', column, value]);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        db.filters.push(['is', column, value]);
+        return builder;
+      },
+      lt: () => builder,
+      then: (resolve: (result: unknown) => void) => resolve({ data: [{ id: 'stale' }], error: null, count: 1 }),
+      single: () =>
+        Promise.resolve(
+          table === 'users'
+            ? { data: { name: 'Driver' }, error: null }
+            : { data: { ...Object.assign(db.requests.get(id), changes) }, error: null }
+        ),
+    };
+    return builder;
+  };
+
+  return {
+    supabase: { from: query, rpc },
+    handleSupabaseError: (error: unknown) => String(error),
+  };
+});
+
+const request = (id: string, overrides: Partial<StoredRequest> = {}): StoredRequest => ({
+  id,
+  trip_id: 'trip',
+  sender_id: `rider-${id}`,
+  receiver_id: 'owner',
+  status: 'PENDING',
+  seats_requested: 1,
+  small_bags: 0,
+  large_bags: 0,
+  ...overrides,
+});
+
+beforeEach(() => {
+  rpc.mockClear();
+  db.seatsLeft = 3;
+  db.tripLock = Promise.resolve();
+  db.acceptError = null;
+  db.filters = [];
+  vi.spyOn(notificationService, 'createNotification').mockResolvedValue({ notification: null, error: null });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('requestService.acceptRequest', () => {
+  beforeEach(() => {
+    db.requests = new Map([['a', request('a')]]);
+  });
+
+  it('should reserve the seats through accept_trip_request for a pending request', async () => {
+    const { request, error } = await requestService.acceptRequest('a');
+
+    expect(error).toBeNull();
+    expect(request.status).toBe('ACCEPTED');
+    expect(rpc).toHaveBeenCalledWith('accept_trip_request', { p_request_id: 'a', p_expected_status: 'PENDING' });
+    expect(notificationService.createNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give the last seat to exactly one of two accepts racing for it', async () => {
+    db.seatsLeft = 1;
+    db.requests.set('b', request('b'));
+
+    const results = await Promise.all([
+      requestService.updateRequest('a', { status: 'ACCEPTED' }),
+      requestService.updateRequest('b', { status: 'ACCEPTED' }),
+    ]);
+
+    expect(results.filter(result => result.request?.status === 'ACCEPTED')).toHaveLength(1);
+    expect(results.filter(result => result.error === SeatReservation.MESSAGES.TRIP_FULL)).toHaveLength(1);
+    expect(db.seatsLeft).toBe(0);
+    expect([...db.requests.values()].filter(stored => stored.status === 'ACCEPTED')).toHaveLength(1);
+  });
+
+  it.each([
+    ['TRIP_FULL', 'This trip is full'],
+    ['REQUEST_CHANGED', 'This request was already answered, please reload it'],
+    ['LUGGAGE_FULL', 'Not enough luggage space left on this trip'],
+  ])('should report %s from the database as a message and leave the request alone', async (code, message) => {
+    db.acceptError = { message: code };
+
+    const result = await requestService.acceptRequest('a');
+
+    expect(result).toEqual({ request: null, error: message });
+    expect(db.requests.get('a').status).toBe('PENDING');
+    expect(notificationService.createNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('requestService.declineRequest', () => {
+  it('should offer the freed seats to the waitlist', async () => {
+    db.requests = new Map([['a', request('a', { status: 'ACCEPTED' })]]);
+    const promote = vi
+      .spyOn(waitlistService, 'promoteWaitlist')
+      .mockResolvedValue({ promoted: [], notified: 0, errors: [], error: null });
+
+    await requestService.declineRequest('a');
+
+    expect(promote).toHaveBeenCalledWith('trip');
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('requestService.cancelRequest', () => {
+  it('should cancel the rider\'s own request and offer its seats to the waitlist', async () => {
+    db.requests = new Map([['a', request('a', { status: 'ACCEPTED' })]]);
+    const promote = vi
+      .spyOn(waitlistService, 'promoteWaitlist')
+      .mockResolvedValue({ promoted: [], notified: 0, errors: [], error: null });
+
+    const { request: cancelled, error } = await requestService.cancelRequest('a');
+
+    expect(error).toBeNull();
+    expect(cancelled.status).toBe('CANCELLED');
+    expect(db.requests.get('a').status).toBe('CANCELLED');
+    expect(promote).toHaveBeenCalledWith('trip');
+  });
+});
+
+describe('requestService.markExpiredRequests', () => {
+  it('should leave lapsed waitlist promotions to the database so the next rider moves up', async () => {
+    const expire = vi
+      .spyOn(waitlistService, 'expirePromotions')
+      .mockResolvedValue({ promoted: [], notified: 0, errors: [], error: null });
+
+    const result = await requestService.markExpiredRequests();
+
+    expect(result).toEqual({ success: true, count: 1, error: null });
+    expect(expire).toHaveBeenCalledTimes(1);
+    expect(db.filters).toContainEqual(['is', 'promoted_at', null]);
+  });
+
+  it('should stop when the promotions could not be expired', async () => {
+    vi.spyOn(waitlistService, 'expirePromotions').mockResolvedValue({
+      promoted: [],
+      notified: 0,
+      errors: [],
+      error: 'connection lost',
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await requestService.markExpiredRequests()).toEqual({ success: false, count: 0, error: 'connection lost' });
+    expect(db.filters).toEqual([]);
+  });
+});
+
+describe('requestService.createRequest', () => {
+  const send = () =>
+    requestService.createRequest({
+      trip_id: 'trip',
+      sender_id: 'rider',
+      receiver_id: 'owner',
+      seats_requested: 1,
+      small_bags: 0,
+      large_bags: 0,
+      departure_flexibility: 0,
+    });
+
+  beforeEach(() => {
+    db.requests = new Map();
+    db.instantBook = { instant_book: true, instant_book_min_rating: 4.5 };
+    db.sender = { rating_average: 4.8, rating_count: 9, verification_level: 'phone', trips_completed: 3 };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should accept qualifying riders on instant-book trips through the seat reservation', async () => {
+    const { request } = await send();
+
+    expect(request.status).toBe('ACCEPTED');
+    expect(rpc).toHaveBeenCalledWith('accept_trip_request', { p_request_id: 'new', p_expected_status: 'PENDING' });
+    expect(notificationService.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'owner', title: 'New Instant Booking' })
+    );
+  });
+
+  it('should leave the request pending for riders who fall short or when the trip filled up', async () => {
+    db.sender.rating_average = 4.2;
+    expect((await send()).request.status).toBe('PENDING');
+    expect(rpc).not.toHaveBeenCalled();
+
+    db.sender.rating_average = 4.8;
+    db.acceptError = { message: 'TRIP_FULL' };
+    expect((await send()).request.status).toBe('PENDING');
+    expect(notificationService.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'owner', title: 'New Trip Request' })
+    );
+  });
+
+  it('should not book a rider whose request is no longer pending', async () => {
+    db.acceptError = { message: 'REQUEST_CHANGED' };
+
+    const { request, error } = await send();
+
+    expect(error).toBeNull();
+    expect(request.status).toBe('PENDING');
+    expect(rpc).toHaveBeenCalledWith('accept_trip_request', { p_request_id: 'new', p_expected_status: 'PENDING' });
+    expect(notificationService.createNotification).not.toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'New Instant Booking' })
+    );
+  });
+});
+
+describe('SeatReservation.errorMessage', () => {
+  it('should turn database error codes into messages and keep other errors', () => {
+    expect(SeatReservation.errorMessage({ message: 'TRIP_FULL' })).toBe('This trip is full');
+    expect(SeatReservation.errorMessage({ message: 'ERROR: TRIP_NOT_OPEN' })).toBe('This trip is no longer taking riders');
+    expect(SeatReservation.errorMessage({ message: 'connection lost' })).toBe('connection lost');
+    expect(SeatReservation.errorMessage(null)).toBe('Failed to accept request');
+  });
+});
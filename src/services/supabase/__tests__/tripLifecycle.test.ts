@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { tripLifecycleService } from '../tripLifecycle';
+import { matchGenerationService } from '../matchGeneration';
+import { notificationService } from '../../notifications/notificationService';
+import { createMockTrip } from '../../../test/utils';
+import type { Trip } from '../../../types';
+
+const db = vi.hoisted(() => ({
+  update: null as Record<string, unknown> | null,
+  passengers: [] as { passenger_id: string }[],
+}));
+
+vi.mock('../client', () => {
+  const builder = {
+    update: (values: Record<string, unknown>) => {
+      db.update = values;
+      return builder;
+    },
+    eq: () => builder,
+    in: () => builder,
+    select: () => builder,
+    maybeSingle: () => Promise.resolve({ data: { id: 'trip', ...db.update }, error: null }),
+    then: (resolve: (result: unknown) => void) => resolve({ data: db.passengers, error: null }),
+  };
+
+  return {
+    supabase: { from: () => builder },
+    handleSupabaseError: (error: unknown) => String(error),
+  };
+});
+
+vi.mock('../matchGeneration', () => ({
+  matchGenerationService: { refreshMatchesForTrip: vi.fn(() => Promise.resolve({ errors: [] })) },
+}));
+
+const trip = (overrides: Partial<Trip> = {}): Trip =>
+  createMockTrip('trip', { user_id: 'owner', estimated_duration: 40, ...overrides });
+
+describe('tripLifecycleService.advanceTrips', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should start departed trips, complete finished ones and leave the rest alone', async () => {
+    const transition = vi
+      .spyOn(tripLifecycleService, 'transitionTrip')
+      .mockImplementation(async (current, to) => ({ trip: { ...current, status: to }, error: null }));
+    const notify = vi.spyOn(tripLifecycleService, 'notifyTripCompleted').mockResolvedValue({ notified: 2, errors: [] });
+
+    const upcoming = trip({ id: 'upcoming', departure_time: '2030-01-01T12:00:00.000Z' });
+    const departed = trip({ id: 'departed', departure_time: '2030-01-01T09:30:00.000Z' });
+    const finished = trip({ id: 'finished' });
+
+    const { trips, results } = await tripLifecycleService.advanceTrips(
+      [upcoming, departed, finished],
+      new Date('2030-01-01T10:00:00.000Z')
+    );
+
+    expect(trips.map(t => t.status)).toEqual(['ACTIVE', 'IN_PROGRESS', 'COMPLETED']);
+    expect(results).toEqual([
+      { tripId: 'departed', from: 'ACTIVE', to: 'IN_PROGRESS', notified: 0, errors: [] },
+      { tripId: 'finished', from: 'ACTIVE', to: 'COMPLETED', notified: 2, errors: [] },
+    ]);
+
+    // The finished trip was never started, so it passes through IN_PROGRESS first
+    expect(transition.mock.calls.map(([current, to]) => `${current.id}:${to}`)).toEqual([
+      'departed:IN_PROGRESS',
+      'finished:IN_PROGRESS',
+      'finished:COMPLETED',
+    ]);
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop and report when a transition fails', async () => {
+    vi.spyOn(tripLifecycleService, 'transitionTrip').mockResolvedValue({
+      trip: null,
+      error: 'The trip changed in the meantime, please reload it',
+    });
+    const notify = vi.spyOn(tripLifecycleService, 'notifyTripCompleted');
+
+    const { trips, results } = await tripLifecycleService.advanceTrips([trip()], new Date('2030-01-01T10:00:00.000Z'));
+
+    expect(trips[0].status).toBe('ACTIVE');
+    expect(results[0].to).toBe('ACTIVE');
+    expect(results[0].errors).toEqual([
+      'Failed to move trip trip to IN_PROGRESS: The trip changed in the meantime, please reload it',
+    ]);
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('should refuse transitions the lifecycle does not allow', async () => {
+    const { trip: updated, error } = await tripLifecycleService.transitionTrip(
+      trip({ status: 'IN_PROGRESS' }),
+      'CANCELLED'
+    );
+
+    expect(updated).toBeNull();
+    expect(error).toBe('A trip that has started cannot be cancelled');
+  });
+
+  it('should stamp the arrival with the same time the transition was checked against', async () => {
+    const now = new Date('2030-01-01T08:45:00.000Z');
+
+    const { trip: completed } = await tripLifecycleService.transitionTrip(trip({ status: 'IN_PROGRESS' }), 'COMPLETED', now);
+
+    expect(completed).toMatchObject({ status: 'COMPLETED', arrival_time: now.toISOString() });
+  });
+
+  it('should expire the matches of a started trip before returning', async () => {
+    const { trip: started } = await tripLifecycleService.transitionTrip(
+      trip(),
+      'IN_PROGRESS',
+      new Date('2030-01-01T08:05:00.000Z')
+    );
+
+    expect(matchGenerationService.refreshMatchesForTrip).toHaveBeenCalledWith(started);
+  });
+
+  it('should refuse to complete a trip that has only just departed', async () => {
+    const { trip: updated, error } = await tripLifecycleService.transitionTrip(
+      trip({ status: 'IN_PROGRESS' }),
+      'COMPLETED',
+      new Date('2030-01-01T08:05:00.000Z')
+    );
+
+    expect(updated).toBeNull();
+    expect(error).toBe('A trip can complete 10 minutes after its departure at the earliest');
+  });
+});
+
+describe('tripLifecycleService.notifyTripCompleted', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ask the owner and the riders who boarded for a review', async () => {
+    db.passengers = [{ passenger_id: 'rider' }];
+    const notify = vi
+      .spyOn(notificationService, 'createTripCompletedNotification')
+      .mockResolvedValue({ notification: null, error: null });
+
+    expect(await tripLifecycleService.notifyTripCompleted(trip())).toEqual({ notified: 2, errors: [] });
+    expect(notify.mock.calls.map(([userId]) => userId)).toEqual(['owner', 'rider']);
+  });
+
+  it('should not ask anyone when nobody boarded', async () => {
+    db.passengers = [];
+    const notify = vi.spyOn(notificationService, 'createTripCompletedNotification');
+
+    expect(await tripLifecycleService.notifyTripCompleted(trip())).toEqual({ notified: 0, errors: [] });
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { tripService } from '../trips';
+import { createMockLocation } from '../../../test/utils';
+import type { Trip } from '../../../types';
+
+/**
+ * The rows the database returns for the query, whatever its filters; the
+ * pagination it was asked for is recorded
+ */
+const db = vi.hoisted(() => ({
+  rows: [] as unknown[],
+  range: null as [number, number] | null,
+  limit: null as number | null,
+}));
+
+vi.mock('../client', () => {
+  const query = () => {
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      or: () => builder,
+      order: () => builder,
+      range: (from: number, to: number) => {
+        db.range = [from, to];
+        return builder;
+      },
+      limit: (count: number) => {
+        db.limit = count;
+        return builder;
+      },
+      then: (resolve: (result: unknown) => void) =>
+        resolve({ data: db.rows, error: null, count: db.rows.length }),
+    };
+    return builder;
+  };
+
+  return {
+    supabase: { from: query },
+    handleSupabaseError: (error: unknown) => String(error),
+  };
+});
+
+// Trips 1 km apart heading north from the search point, all in the same geohash cells
+const trips = Array.from({ length: 6 }, (_, index) => ({
+  id: `trip-${index}`,
+  origin_location: createMockLocation(40.7 + index * 0.009, -74.0),
+  destination_location: createMockLocation(40.8, -74.0),
+})) as Trip[];
+
+describe('tripService.getTrips', () => {
+  beforeEach(() => {
+    db.rows = trips;
+    db.range = null;
+    db.limit = null;
+  });
+
+  it('should page area searches after trimming them to the exact radius', async () => {
+    const filters = { origin_lat: 40.7, origin_lng: -74.0, origin_radius: 3.5 };
+
+    const first = await tripService.getTrips(filters, 3, 0);
+    const second = await tripService.getTrips(filters, 3, 3);
+
+    expect(db.range).toBeNull();
+    expect(first.trips.map(trip => trip.id)).toEqual(['trip-0', 'trip-1', 'trip-2']);
+    expect(second.trips.map(trip => trip.id)).toEqual(['trip-3']);
+    expect(first.count).toBe(4);
+    expect(second.count).toBe(4);
+  });
+
+  it('should leave paging to the database without an area', async () => {
+    const { count } = await tripService.getTrips({}, 3, 3);
+
+    expect(db.range).toEqual([3, 5]);
+    expect(db.limit).toBeNull();
+    expect(count).toBe(6);
+  });
+});
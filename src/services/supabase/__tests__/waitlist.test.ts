@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { waitlistService } from '../waitlist';
+import type { TripRequest } from '../../../types';
+
+const rpc = vi.hoisted(() => vi.fn());
+
+vi.mock('../client', () => ({
+  supabase: { rpc },
+  handleSupabaseError: (error: { message?: string }) => error.message ?? String(error),
+}));
+
+const promoted = (id: string, tripId: string) => ({ id, trip_id: tripId, status: 'PENDING' }) as TripRequest;
+
+describe('waitlistService.expirePromotions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should notify about the riders promoted into lapsed seats, once per trip', async () => {
+    rpc.mockResolvedValue({ data: [promoted('a', 'trip-1'), promoted('b', 'trip-2'), promoted('c', 'trip-1')], error: null });
+    const notify = vi
+      .spyOn(waitlistService, 'notifyPromoted')
+      .mockImplementation(async (_tripId, requests) => ({ notified: requests.length * 2, errors: [] }));
+
+    const result = await waitlistService.expirePromotions();
+
+    expect(rpc).toHaveBeenCalledWith('expire_waitlist_promotions');
+    expect(notify.mock.calls.map(([tripId, requests]) => [tripId, requests.map(request => request.id)])).toEqual([
+      ['trip-1', ['a', 'c']],
+      ['trip-2', ['b']],
+    ]);
+    expect(result).toMatchObject({ notified: 6, errors: [], error: null });
+    expect(result.promoted).toHaveLength(3);
+  });
+
+  it('should report a failed expiry without notifying anyone', async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+    const notify = vi.spyOn(waitlistService, 'notifyPromoted');
+
+    expect(await waitlistService.expirePromotions()).toEqual({
+      promoted: [],
+      notified: 0,
+      errors: [],
+      error: 'permission denied',
+    });
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
@@ -1,18 +1,32 @@
 export { supabase, handleSupabaseError } from './client';
 export { authService } from './auth';
 export { tripService } from './trips';
+export { tripSearchService } from './tripSearch';
+export { tripSeriesService, MATERIALIZE_HORIZON_DAYS } from './tripSeries';
 export { matchService } from './matches';
+export { matchGenerationService } from './matchGeneration';
+export { tripLifecycleService } from './tripLifecycle';
 export { userPreferencesService } from './userPreferences';
 export { chatService } from './chat';
 export { typingStatusService } from './typing';
 export { requestService } from './requests';
+export { manifestService } from './manifest';
+export { waitlistService } from './waitlist';
 export { reviewService } from './reviews';
+export { pickupSpotService, pickupSpotPoiProvider } from './pickupSpots';
 export type { Database } from './types';
 export type { AuthCredentials, SignUpData, AuthResponse } from './auth';
 export type { CreateTripData, TripResponse, TripsResponse } from './trips';
+export type { SearchArea, TripSearchParams } from './tripSearch';
+export type { CreateTripSeriesData, TripSeriesResponse, TripSeriesListResponse, MaterializeResult } from './tripSeries';
 export type { CreateMatchData, MatchResponse, MatchesResponse, MatchFilters } from './matches';
+export type { MatchGenerationOptions, MatchGenerationResult } from './matchGeneration';
+export type { TripLifecycleResult } from './tripLifecycle';
 export type { CreateUserPreferencesData, UserPreferencesResponse } from './userPreferences';
 export type { CreateChatRoomData, ChatRoomResponse, ChatRoomsResponse, CreateMessageData, MessageResponse, MessagesResponse, ChatFilters, MessageFilters } from './chat';
 export type { TypingStatus, UserStatus } from './typing';
 export type { CreateRequestData, UpdateRequestData, RequestFilters, RequestResponse, RequestsResponse } from './requests';
-export type { CreateReviewData, UpdateReviewData, ReviewFilters, ReviewResponse, ReviewsResponse, UserRatingStats } from './reviews';
\ No newline at end of file
+export type { ManifestResponse, ManifestEntryResponse } from './manifest';
+export type { WaitlistPositionsResponse, WaitlistPromotionResult } from './waitlist';
+export type { CreateReviewData, UpdateReviewData, ReviewFilters, ReviewResponse, ReviewsResponse, UserRatingStats } from './reviews';
+export type { PickupSpotsResponse } from './pickupSpots';
@@ -0,0 +1,90 @@
+import { supabase, handleSupabaseError } from './client';
+import { waitlistService } from './waitlist';
+import { PassengerManifest } from '../trips/passengerManifest';
+import type { BoardingStatus, ManifestEntry, Trip } from '../../types';
+
+export interface ManifestResponse {
+  entries: ManifestEntry[];
+  error: string | null;
+}
+
+export interface ManifestEntryResponse {
+  entry: ManifestEntry | null;
+  error: string | null;
+}
+
+const MANIFEST_SELECT = `
+  *,
+  passenger:users(id, name, email, avatar, phone, rating_average)
+`;
+
+export const manifestService = {
+  /**
+   * Everyone confirmed on a trip, in the order their requests were accepted.
+   * Visible to the trip's driver; passengers only see their own entry.
+   */
+  async getTripManifest(tripId: string): Promise<ManifestResponse> {
+    try {
+      const { data, error } = await supabase
+        .from('trip_passengers')
+        .select(MANIFEST_SELECT)
+        .eq('trip_id', tripId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return { entries: [], error: handleSupabaseError(error) };
+      }
+
+      return { entries: (data ?? []) as ManifestEntry[], error: null };
+    } catch (error) {
+      return { entries: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Record a passenger boarding, not showing up or being dropped off. The
+   * update only applies while the entry is still in the status it was loaded
+   * with.
+   */
+  async updateBoardingStatus(
+    trip: Pick<Trip, 'status'>,
+    entry: ManifestEntry,
+    to: BoardingStatus
+  ): Promise<ManifestEntryResponse> {
+    const invalid = PassengerManifest.validateTransition(trip.status, entry.status, to);
+    if (invalid) {
+      return { entry: null, error: invalid };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('trip_passengers')
+        .update(PassengerManifest.statusUpdate(to))
+        .eq('id', entry.id)
+        .eq('status', entry.status)
+        .select(MANIFEST_SELECT)
+        .maybeSingle();
+
+      if (error) {
+        return { entry: null, error: handleSupabaseError(error) };
+      }
+
+      if (!data) {
+        return { entry: null, error: 'The passenger changed in the meantime, please reload the manifest' };
+      }
+
+      // A no-show gives up their seats, which the waitlist can take
+      if (to === 'NO_SHOW') {
+        const { errors, error: promoteError } = await waitlistService.promoteWaitlist(entry.trip_id);
+        if (promoteError) {
+          console.error('⚠️ Failed to promote waitlisted riders:', promoteError);
+        }
+        errors.forEach(notifyError => console.error('⚠️', notifyError));
+      }
+
+      return { entry: data as ManifestEntry, error: null };
+    } catch (error) {
+      return { entry: null, error: handleSupabaseError(error) };
+    }
+  },
+};
@@ -0,0 +1,320 @@
+import { supabase, handleSupabaseError } from './client';
+import { matchService } from './matches';
+import { userPreferencesService } from './userPreferences';
+import { tripSearchService } from './tripSearch';
+import { notificationService } from '../notifications/notificationService';
+import { MatchingAlgorithm } from '../matching/matchingAlgorithm';
+import { MatchStateMachine } from '../matching/matchStateMachine';
+import { RoundTripMatcher } from '../matching/roundTripMatcher';
+import type { Trip, UserPreferences } from '../../types';
+import type { CompatibilityAnalysis } from '../matching/matchingAlgorithm';
+
+export interface MatchGenerationOptions {
+  timeWindow: number; // minutes either side of the trip's departure
+  searchRadius: number; // km around the trip's origin and destination
+  maxCandidates: number; // candidates fetched per trip, nearest departure first
+  notifyThreshold: number; // 0-1, new matches scoring at least this notify both users
+}
+
+export interface MatchGenerationResult {
+  tripId: string;
+  candidates: number; // trips inside the search window
+  created: number;
+  updated: number;
+  expired: number; // open matches invalidated or no longer compatible
+  notified: number;
+  errors: string[];
+}
+
+interface ScoredCandidates {
+  matches: CompatibilityAnalysis[];
+  preferences: Record<string, UserPreferences>; // keyed by user id
+  error: string | null;
+}
+
+interface RoundTripScores {
+  scores: Record<string, number>; // keyed by matched trip id
+  error: string | null;
+}
+
+const DEFAULT_OPTIONS: MatchGenerationOptions = {
+  timeWindow: 120,
+  searchRadius: 10,
+  maxCandidates: 200,
+  notifyThreshold: 0.7,
+};
+
+const TRIP_SELECT = `
+  *,
+  user:users(id, name, email, rating_average, trips_completed, gender, age_years)
+`;
+
+const describeRoute = (trip: Trip) => `${trip.origin} → ${trip.destination}`;
+
+export const matchGenerationService = {
+  /**
+   * Refresh a trip's matches without blocking the caller. Used after a user
+   * creates, edits or cancels a trip; failures are logged, not surfaced.
+   * Scripts await `refreshMatchesForTrip` instead, as exiting the process
+   * would cut a scheduled refresh off.
+   */
+  scheduleMatchRefresh(trip: Trip, options: Partial<MatchGenerationOptions> = {}): void {
+    setTimeout(() => {
+      matchGenerationService.refreshMatchesForTrip(trip, options)
+        .then(result => {
+          if (result.errors.length > 0) {
+            console.error(`Match refresh for trip ${trip.id} finished with errors:`, result.errors);
+          }
+        })
+        .catch(error => console.error(`Match refresh for trip ${trip.id} failed:`, error));
+    }, 0);
+  },
+
+  /**
+   * Invalidate the matches of a trip that can no longer take riders, or
+   * re-score them (and look for new ones) while it still can
+   */
+  async refreshMatchesForTrip(
+    trip: Trip,
+    options: Partial<MatchGenerationOptions> = {}
+  ): Promise<MatchGenerationResult> {
+    const reason = MatchStateMachine.invalidationReason(trip);
+    if (!reason) {
+      return matchGenerationService.generateMatchesForTrip(trip, options);
+    }
+
+    const { expired, error } = await matchService.invalidateTripMatches(trip.id, reason);
+
+    return {
+      tripId: trip.id,
+      candidates: 0,
+      created: 0,
+      updated: 0,
+      expired,
+      notified: 0,
+      errors: error ? [error] : [],
+    };
+  },
+
+  /**
+   * Find compatible trips for a trip, save each match with its reciprocal,
+   * expire open matches that are no longer compatible and notify both users
+   * about new high-scoring matches
+   */
+  async generateMatchesForTrip(
+    trip: Trip,
+    options: Partial<MatchGenerationOptions> = {}
+  ): Promise<MatchGenerationResult> {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const result: MatchGenerationResult = {
+      tripId: trip.id,
+      candidates: 0,
+      created: 0,
+      updated: 0,
+      expired: 0,
+      notified: 0,
+      errors: [],
+    };
+
+    const { trips: candidates, error: candidatesError } = await matchGenerationService.getCandidateTrips(trip, settings);
+    if (candidatesError) {
+      result.errors.push(candidatesError);
+      return result;
+    }
+
+    result.candidates = candidates.length;
+    const { matches, preferences, error: scoringError } = await matchGenerationService.scoreCandidates(
+      trip,
+      candidates
+    );
+    if (scoringError) {
+      result.errors.push(scoringError);
+    }
+
+    const stale = await matchService.expireIncompatibleMatches(
+      trip.id,
+      matches.map(match => match.tripId)
+    );
+    result.expired = stale.expired;
+    if (stale.error) {
+      result.errors.push(stale.error);
+    }
+
+    if (matches.length === 0) return result;
+
+    const roundTrips = await matchGenerationService.scoreRoundTrips(trip, matches, candidates, preferences);
+    if (roundTrips.error) {
+      result.errors.push(roundTrips.error);
+    }
+
+    const saved = await matchService.upsertMatchesFromAnalysis(trip.id, matches, roundTrips.scores);
+    result.created = saved.created.length;
+    result.updated = saved.updated;
+    result.errors.push(...saved.errors);
+
+    for (const match of saved.created) {
+      if (match.overallScore < settings.notifyThreshold) continue;
+
+      const matchedTrip = candidates.find(candidate => candidate.id === match.tripId);
+      if (!matchedTrip) continue;
+
+      const notifications = await Promise.all([
+        notificationService.createTripMatchNotification(trip.user_id, trip.id, describeRoute(matchedTrip)),
+        notificationService.createTripMatchNotification(matchedTrip.user_id, matchedTrip.id, describeRoute(trip)),
+      ]);
+
+      for (const notification of notifications) {
+        if (notification.error) {
+          result.errors.push(`Failed to notify about match with trip ${matchedTrip.id}: ${notification.error}`);
+        } else {
+          result.notified++;
+        }
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Compatible candidates, scored with both users' preferences. A failure to
+   * load preferences is reported but scoring goes ahead without them.
+   */
+  async scoreCandidates(
+    trip: Trip,
+    candidates: Trip[]
+  ): Promise<ScoredCandidates> {
+    if (candidates.length === 0) {
+      return { matches: [], preferences: {}, error: null };
+    }
+
+    const userIds = Array.from(new Set([trip.user_id, ...candidates.map(candidate => candidate.user_id)]));
+    const { preferences, error } = await userPreferencesService.getPreferencesForUsers(userIds);
+
+    const matches = await MatchingAlgorithm.findCompatibleTrips(
+      trip,
+      candidates,
+      preferences[trip.user_id],
+      undefined,
+      preferences
+    );
+
+    return { matches, preferences, error };
+  },
+
+  /**
+   * Combined scores for candidates whose return legs match the trip's return
+   * leg too, keyed by candidate trip id. One-way trips have none.
+   */
+  async scoreRoundTrips(
+    trip: Trip,
+    matches: CompatibilityAnalysis[],
+    candidates: Trip[],
+    preferences: Record<string, UserPreferences>
+  ): Promise<RoundTripScores> {
+    if (!trip.paired_trip_id || matches.length === 0) {
+      return { scores: {}, error: null };
+    }
+
+    const matchedIds = new Set(matches.map(match => match.tripId));
+    const pairedIds = candidates
+      .filter(candidate => matchedIds.has(candidate.id) && candidate.paired_trip_id)
+      .map(candidate => candidate.paired_trip_id);
+    if (pairedIds.length === 0) {
+      return { scores: {}, error: null };
+    }
+
+    const { trips, error } = await matchGenerationService.getTripsById([
+      trip.paired_trip_id,
+      ...pairedIds,
+    ]);
+    const pairedTrip = trips.find(leg => leg.id === trip.paired_trip_id);
+    if (error || pairedTrip?.status !== 'ACTIVE') {
+      return { scores: {}, error };
+    }
+
+    const roundTrips = await RoundTripMatcher.matchReturnLegs(
+      pairedTrip,
+      matches,
+      candidates,
+      trips.filter(leg => leg.id !== pairedTrip.id),
+      preferences[trip.user_id],
+      preferences
+    );
+
+    return {
+      scores: Object.fromEntries(roundTrips.map(roundTrip => [roundTrip.tripId, roundTrip.score])),
+      error: null,
+    };
+  },
+
+  async getTripsById(tripIds: string[]): Promise<{ trips: Trip[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('trips')
+        .select(TRIP_SELECT)
+        .in('id', tripIds);
+
+      if (error) {
+        return { trips: [], error: handleSupabaseError(error) };
+      }
+
+      return { trips: (data ?? []) as Trip[], error: null };
+    } catch (error) {
+      return { trips: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Generate matches for every active trip departing in the future
+   */
+  async generateMatchesForActiveTrips(
+    options: Partial<MatchGenerationOptions> = {},
+    onTrip?: (result: MatchGenerationResult) => void
+  ): Promise<{ results: MatchGenerationResult[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('trips')
+        .select(TRIP_SELECT)
+        .eq('status', 'ACTIVE')
+        .gte('departure_time', new Date().toISOString())
+        .order('departure_time', { ascending: true });
+
+      if (error) {
+        return { results: [], error: handleSupabaseError(error) };
+      }
+
+      const results: MatchGenerationResult[] = [];
+      for (const trip of (data ?? []) as Trip[]) {
+        const result = await matchGenerationService.generateMatchesForTrip(trip, options);
+        results.push(result);
+        onTrip?.(result);
+      }
+
+      return { results, error: null };
+    } catch (error) {
+      return { results: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Active trips from other users departing within the time window, whose
+   * origin and destination both lie within the search radius of the trip's
+   */
+  async getCandidateTrips(
+    trip: Trip,
+    options: MatchGenerationOptions
+  ): Promise<{ trips: Trip[]; error: string | null }> {
+    const departure = new Date(trip.departure_time).getTime();
+    const window = options.timeWindow * 60 * 1000;
+
+    return tripSearchService.searchTrips({
+      origin: { coordinates: trip.origin_location.coordinates, radius: options.searchRadius },
+      destination: { coordinates: trip.destination_location.coordinates, radius: options.searchRadius },
+      departureFrom: new Date(departure - window).toISOString(),
+      departureTo: new Date(departure + window).toISOString(),
+      excludeUserId: trip.user_id,
+      minSeats: 1,
+      limit: options.maxCandidates,
+    });
+  },
+};
@@ -1,11 +1,21 @@
 import { supabase, handleSupabaseError } from './client';
-import type { TripMatch, RouteAnalysis, MeetingPoint } from '../../types';
+import type {
+  TripMatch,
+  RouteAnalysis,
+  MeetingPoint,
+  MatchExplanation,
+  MatchStatus,
+  MatchExpiryReason,
+} from '../../types';
+import { encodePolyline } from '../routing';
+import { MatchStateMachine } from '../matching/matchStateMachine';
 import type { CompatibilityAnalysis } from '../matching/matchingAlgorithm';
 
 export interface CreateMatchData {
   trip_id: string;
   matched_trip_id: string;
   compatibility_score: number;
+  round_trip_score?: number | null;
   match_type: 'exact_route' | 'partial_overlap' | 'detour_pickup' | 'detour_dropoff';
   route_analysis: RouteAnalysis;
   estimated_savings?: number;
@@ -17,6 +27,10 @@ export interface CreateMatchData {
   alternative_meeting_points?: MeetingPoint[];
   time_difference: number;
   time_compatibility_score: number;
+  proposed_departure_time?: string | null;
+  departure_window_start?: string | null;
+  departure_window_end?: string | null;
+  score_explanation?: MatchExplanation;
 }
 
 export interface MatchResponse {
@@ -34,10 +48,80 @@ export interface MatchFilters {
   trip_id?: string;
   user_id?: string;
   min_compatibility_score?: number;
+  round_trip_only?: boolean;
   match_type?: string;
   status?: string;
 }
 
+// Matches are suggested for 30 days unless re-scoring refreshes them
+const matchExpiry = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+
+/**
+ * Convert in-memory route overlap into the JSON stored in trip_matches.route_analysis
+ */
+const toRouteAnalysis = (analysis: CompatibilityAnalysis): RouteAnalysis => {
+  const { routeAnalysis } = analysis;
+
+  return {
+    commonPath: {
+      polylines: routeAnalysis.sharedIntervals.map(interval => encodePolyline(interval.path)),
+    },
+    deviationFromOriginal: analysis.detourDistance,
+    pickupPoints: routeAnalysis.pickupPoints,
+    dropoffPoints: routeAnalysis.dropoffPoints,
+    overlapPercentage: routeAnalysis.overlapPercentage,
+    sharedIntervals: routeAnalysis.sharedIntervals.map(({ entry, exit, startDistance, endDistance }) => ({
+      entry,
+      exit,
+      startDistance,
+      endDistance,
+    })),
+    sourcePolyline: routeAnalysis.sourceRoute?.polyline,
+    matchedPolyline: routeAnalysis.candidateRoute?.polyline,
+  };
+};
+
+/**
+ * The same match seen from the matched trip. The routes swap roles; shared
+ * intervals are measured along the original source route, so they are not
+ * carried over.
+ */
+const toReciprocalMatch = (match: CreateMatchData): CreateMatchData => ({
+  ...match,
+  trip_id: match.matched_trip_id,
+  matched_trip_id: match.trip_id,
+  route_analysis: {
+    ...match.route_analysis,
+    sharedIntervals: undefined,
+    sourcePolyline: match.route_analysis.matchedPolyline,
+    matchedPolyline: match.route_analysis.sourcePolyline,
+  },
+  time_difference: -match.time_difference,
+});
+
+const toMatchData = (tripId: string, analysis: CompatibilityAnalysis, roundTripScore?: number): CreateMatchData => ({
+  trip_id: tripId,
+  matched_trip_id: analysis.tripId,
+  compatibility_score: analysis.overallScore,
+  // Cleared when the return legs stop matching; the score is the same from either side
+  round_trip_score: roundTripScore ?? null,
+  match_type: analysis.matchType,
+  route_analysis: toRouteAnalysis(analysis),
+  estimated_savings: analysis.estimatedSavings,
+  shared_distance: analysis.sharedDistance,
+  detour_distance: analysis.detourDistance,
+  detour_time: Math.round(analysis.detourTime), // Stored as whole minutes
+  suggested_pickup_point: analysis.suggestedPickupPoint,
+  suggested_dropoff_point: analysis.suggestedDropoffPoint,
+  time_difference: Math.round(analysis.timeDifference),
+  time_compatibility_score: analysis.timeCompatibility,
+  // The overlap and proposed departure are the same from either side
+  proposed_departure_time: analysis.timeWindow.proposedDepartureTime,
+  departure_window_start: analysis.timeWindow.overlap ? new Date(analysis.timeWindow.overlap.earliest).toISOString() : null,
+  departure_window_end: analysis.timeWindow.overlap ? new Date(analysis.timeWindow.overlap.latest).toISOString() : null,
+  score_explanation: analysis.explanation,
+});
+
 export const matchService = {
   /**
    * Create a new trip match
@@ -62,7 +146,7 @@ export const matchService = {
         .insert({
           ...data,
           status: 'SUGGESTED',
-          expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
+          expires_at: matchExpiry(),
         })
         .select(`
           *,
@@ -95,18 +179,14 @@ export const matchService = {
    */
   async createReciprocalMatch(originalMatch: CreateMatchData): Promise<void> {
     try {
-      const reciprocalData: CreateMatchData = {
-        ...originalMatch,
-        trip_id: originalMatch.matched_trip_id,
-        matched_trip_id: originalMatch.trip_id,
-      };
+      const reciprocalData = toReciprocalMatch(originalMatch);
 
       await supabase
         .from('trip_matches')
         .insert({
           ...reciprocalData,
           status: 'SUGGESTED',
-          expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
+          expires_at: matchExpiry(),
         });
     } catch (error) {
       console.error('Failed to create reciprocal match:', error);
@@ -114,6 +194,61 @@ export const matchService = {
     }
   },
 
+  /**
+   * Create a match and its reciprocal, or refresh the analysis of an existing
+   * pair. Existing matches keep their status, so a declined match stays
+   * declined; matches that expired because a trip was full or no longer
+   * compatible are suggested again.
+   */
+  async upsertMatch(data: CreateMatchData): Promise<{ created: boolean; error: string | null }> {
+    try {
+      const { data: existingMatch } = await supabase
+        .from('trip_matches')
+        .select('id, status, expiry_reason')
+        .eq('trip_id', data.trip_id)
+        .eq('matched_trip_id', data.matched_trip_id)
+        .single();
+
+      if (!existingMatch) {
+        const { error } = await this.createMatch(data);
+        return { created: !error, error };
+      }
+
+      const revival = MatchStateMachine.canRevive(existingMatch as Pick<TripMatch, 'status' | 'expiry_reason'>)
+        ? { ...MatchStateMachine.statusUpdate('SUGGESTED'), expires_at: matchExpiry() }
+        : {};
+
+      const { error } = await supabase
+        .from('trip_matches')
+        .update({ ...data, ...revival })
+        .eq('id', existingMatch.id);
+
+      if (error) {
+        return { created: false, error: handleSupabaseError(error) };
+      }
+
+      await supabase
+        .from('trip_matches')
+        .update(toReciprocalMatch(data))
+        .eq('trip_id', data.matched_trip_id)
+        .eq('matched_trip_id', data.trip_id);
+
+      if (Object.keys(revival).length > 0) {
+        // The other side only comes back if it expired too, not if its user declined
+        await supabase
+          .from('trip_matches')
+          .update(revival)
+          .eq('trip_id', data.matched_trip_id)
+          .eq('matched_trip_id', data.trip_id)
+          .eq('status', 'EXPIRED');
+      }
+
+      return { created: false, error: null };
+    } catch (error) {
+      return { created: false, error: handleSupabaseError(error) };
+    }
+  },
+
   /**
    * Get matches for a specific trip
    */
@@ -139,6 +274,7 @@ export const matchService = {
         .eq('trip_id', tripId)
         .eq('status', 'SUGGESTED')
         .gte('expires_at', new Date().toISOString())
+        .order('round_trip_score', { ascending: false, nullsFirst: false })
         .order('compatibility_score', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -179,14 +315,22 @@ export const matchService = {
             user:users(id, name, email, rating_average, trips_completed)
           )
         `, { count: 'exact' })
-        .or(`trip.user_id.eq.${userId},matched_trip.user_id.eq.${userId}`)
-        .gte('expires_at', new Date().toISOString());
+        .or(`trip.user_id.eq.${userId},matched_trip.user_id.eq.${userId}`);
+
+      // Expired matches are listed on request, however long ago they expired
+      if (filters.status !== 'EXPIRED') {
+        query = query.gte('expires_at', new Date().toISOString());
+      }
 
       // Apply filters
       if (filters.min_compatibility_score) {
         query = query.gte('compatibility_score', filters.min_compatibility_score);
       }
 
+      if (filters.round_trip_only) {
+        query = query.not('round_trip_score', 'is', null);
+      }
+
       if (filters.match_type) {
         query = query.eq('match_type', filters.match_type);
       }
@@ -198,6 +342,7 @@ export const matchService = {
       }
 
       const { data: matches, error, count } = await query
+        .order('round_trip_score', { ascending: false, nullsFirst: false })
         .order('compatibility_score', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -247,28 +392,37 @@ export const matchService = {
   },
 
   /**
-   * Update match status (viewed, contacted, etc.)
+   * Move a match to a new status (viewed, contacted, etc.). Transitions the
+   * match lifecycle does not allow are rejected.
    */
   async updateMatchStatus(
     matchId: string,
-    status: 'SUGGESTED' | 'VIEWED' | 'CONTACTED' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED'
+    status: MatchStatus
   ): Promise<{ success: boolean; error: string | null }> {
     try {
-      const updateData: any = { status };
-
-      // Set timestamps based on status
-      switch (status) {
-        case 'VIEWED':
-          updateData.viewed_at = new Date().toISOString();
-          break;
-        case 'CONTACTED':
-          updateData.contacted_at = new Date().toISOString();
-          break;
+      const { data: match, error: fetchError } = await supabase
+        .from('trip_matches')
+        .select('status')
+        .eq('id', matchId)
+        .single();
+
+      if (fetchError) {
+        return { success: false, error: handleSupabaseError(fetchError) };
+      }
+
+      const current = (match as Pick<TripMatch, 'status'>).status;
+      const transitionError = MatchStateMachine.validateTransition(current, status);
+      if (transitionError) {
+        return { success: false, error: transitionError };
+      }
+
+      if (current === status) {
+        return { success: true, error: null };
       }
 
       const { error } = await supabase
         .from('trip_matches')
-        .update(updateData)
+        .update(MatchStateMachine.statusUpdate(status))
         .eq('id', matchId);
 
       if (error) {
@@ -312,33 +466,13 @@ export const matchService = {
     let created = 0;
     const errors: string[] = [];
 
-    for (let i = 0; i < compatibilityResults.length; i++) {
-      const analysis = compatibilityResults[i];
-      const candidateTrip = candidateTrips[i];
+    for (const analysis of compatibilityResults) {
+      const candidateTrip = candidateTrips.find(trip => trip.id === analysis.tripId);
 
       if (!candidateTrip) continue;
 
       try {
-        const matchData: CreateMatchData = {
-          trip_id: tripId,
-          matched_trip_id: candidateTrip.id,
-          compatibility_score: analysis.overallScore,
-          match_type: analysis.matchType,
-          route_analysis: {
-            commonPath: {},
-            deviationFromOriginal: analysis.detourDistance,
-            pickupPoints: [],
-            dropoffPoints: [],
-          },
-          estimated_savings: analysis.estimatedSavings,
-          shared_distance: 0, // Would need to be calculated from route analysis
-          detour_distance: analysis.detourDistance,
-          detour_time: analysis.detourTime,
-          time_difference: 0, // Would need to be calculated
-          time_compatibility_score: analysis.timeCompatibility,
-        };
-
-        const result = await this.createMatch(matchData);
+        const result = await this.createMatch(toMatchData(tripId, analysis));
         if (result.error) {
           errors.push(`Failed to create match with trip ${candidateTrip.id}: ${result.error}`);
         } else {
@@ -353,22 +487,122 @@ export const matchService = {
   },
 
   /**
-   * Clean up expired matches
+   * Create or refresh matches (and their reciprocals) from compatibility analysis
    */
-  async cleanupExpiredMatches(): Promise<{ deleted: number; error: string | null }> {
+  async upsertMatchesFromAnalysis(
+    tripId: string,
+    compatibilityResults: CompatibilityAnalysis[],
+    roundTripScores: Record<string, number> = {} // keyed by matched trip id
+  ): Promise<{ created: CompatibilityAnalysis[]; updated: number; errors: string[] }> {
+    const created: CompatibilityAnalysis[] = [];
+    let updated = 0;
+    const errors: string[] = [];
+
+    for (const analysis of compatibilityResults) {
+      const result = await this.upsertMatch(toMatchData(tripId, analysis, roundTripScores[analysis.tripId]));
+
+      if (result.error) {
+        errors.push(`Failed to save match with trip ${analysis.tripId}: ${result.error}`);
+      } else if (result.created) {
+        created.push(analysis);
+      } else {
+        updated++;
+      }
+    }
+
+    return { created, updated, errors };
+  },
+
+  /**
+   * Mark open matches past their expiry date as EXPIRED. Rows are kept so
+   * users can still see what was suggested to them.
+   */
+  async expireMatches(): Promise<{ expired: number; error: string | null }> {
     try {
-      const { count, error } = await supabase
+      const { data, error } = await supabase
         .from('trip_matches')
-        .delete()
-        .lt('expires_at', new Date().toISOString());
+        .update(MatchStateMachine.statusUpdate('EXPIRED', 'expired'))
+        .in('status', MatchStateMachine.OPEN_STATUSES)
+        .lt('expires_at', new Date().toISOString())
+        .select('id');
+
+      if (error) {
+        return { expired: 0, error: handleSupabaseError(error) };
+      }
+
+      return { expired: data?.length ?? 0, error: null };
+    } catch (error) {
+      return { expired: 0, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Expire the matches on both sides of a trip that can no longer go ahead
+   */
+  async invalidateTripMatches(
+    tripId: string,
+    reason: MatchExpiryReason
+  ): Promise<{ expired: number; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('trip_matches')
+        .update(MatchStateMachine.statusUpdate('EXPIRED', reason))
+        .or(`trip_id.eq.${tripId},matched_trip_id.eq.${tripId}`)
+        .in('status', MatchStateMachine.invalidatedStatuses(reason))
+        .select('id');
+
+      if (error) {
+        return { expired: 0, error: handleSupabaseError(error) };
+      }
+
+      return { expired: data?.length ?? 0, error: null };
+    } catch (error) {
+      return { expired: 0, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Expire a trip's open matches (both sides) with trips that re-scoring no
+   * longer considers compatible
+   */
+  async expireIncompatibleMatches(
+    tripId: string,
+    compatibleTripIds: string[]
+  ): Promise<{ expired: number; error: string | null }> {
+    try {
+      const { data: matches, error: fetchError } = await supabase
+        .from('trip_matches')
+        .select('id, trip_id, matched_trip_id')
+        .or(`trip_id.eq.${tripId},matched_trip_id.eq.${tripId}`)
+        .in('status', MatchStateMachine.OPEN_STATUSES);
+
+      if (fetchError) {
+        return { expired: 0, error: handleSupabaseError(fetchError) };
+      }
+
+      const staleIds = ((matches ?? []) as Pick<TripMatch, 'id' | 'trip_id' | 'matched_trip_id'>[])
+        .filter(match => {
+          const otherTripId = match.trip_id === tripId ? match.matched_trip_id : match.trip_id;
+          return !compatibleTripIds.includes(otherTripId);
+        })
+        .map(match => match.id);
+
+      if (staleIds.length === 0) {
+        return { expired: 0, error: null };
+      }
+
+      const { error } = await supabase
+        .from('trip_matches')
+        .update(MatchStateMachine.statusUpdate('EXPIRED', 'no_longer_compatible'))
+        .in('id', staleIds);
 
       if (error) {
-        return { deleted: 0, error: handleSupabaseError(error) };
+        return { expired: 0, error: handleSupabaseError(error) };
       }
 
-      return { deleted: count || 0, error: null };
+      return { expired: staleIds.length, error: null };
     } catch (error) {
-      return { deleted: 0, error: handleSupabaseError(error) };
+      return { expired: 0, error: handleSupabaseError(error) };
     }
   },
 
@@ -0,0 +1,156 @@
+import { supabase, handleSupabaseError } from './client';
+import { boundingBoxAround, haversineDistance } from '../routing';
+import { poisFromGeoJson } from '../poi';
+import type { PickupSpot } from '../../types';
+import type { Coordinates } from '../routing';
+import type { GeoJsonFeatureCollection, PointOfInterest, PoiProvider } from '../poi';
+
+export interface PickupSpotsResponse {
+  spots: PickupSpot[];
+  error: string | null;
+}
+
+// Curated spots without OSM tags or explicit types are still pickup spots
+const DEFAULT_SPOT_TYPES = ['pickup_spot'];
+
+const toPointOfInterest = (spot: PickupSpot): PointOfInterest => ({
+  id: `pickup-spot-${spot.id}`,
+  name: spot.name,
+  coordinates: { lat: spot.lat, lng: spot.lng },
+  types: spot.types,
+  wheelchairAccessible: spot.wheelchair_accessible ?? undefined,
+  official: true,
+});
+
+export const pickupSpotService = {
+  /**
+   * A city's pickup spots, active or not, for the admin page
+   */
+  async getCitySpots(city: string): Promise<PickupSpotsResponse> {
+    try {
+      const { data, error } = await supabase
+        .from('pickup_spots')
+        .select('*')
+        .eq('city', city)
+        .order('name');
+
+      if (error) {
+        return { spots: [], error: handleSupabaseError(error) };
+      }
+
+      return { spots: (data ?? []) as PickupSpot[], error: null };
+    } catch (error) {
+      return { spots: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Active pickup spots within `radius` meters of `center`, closest first
+   */
+  async getSpotsNear(center: Coordinates, radius: number): Promise<PickupSpotsResponse> {
+    try {
+      const box = boundingBoxAround(center, radius);
+      const { data, error } = await supabase
+        .from('pickup_spots')
+        .select('*')
+        .eq('is_active', true)
+        .gte('lat', box.south)
+        .lte('lat', box.north)
+        .gte('lng', box.west)
+        .lte('lng', box.east);
+
+      if (error) {
+        return { spots: [], error: handleSupabaseError(error) };
+      }
+
+      // The box has corners outside the radius
+      const spots = ((data ?? []) as PickupSpot[])
+        .map(spot => ({ spot, distance: haversineDistance(center, { lat: spot.lat, lng: spot.lng }) }))
+        .filter(({ distance }) => distance <= radius)
+        .sort((a, b) => a.distance - b.distance)
+        .map(({ spot }) => spot);
+
+      return { spots, error: null };
+    } catch (error) {
+      return { spots: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Replace a city's pickup spots with the features of a GeoJSON file.
+   * Admins only; row level security rejects everyone else.
+   */
+  async uploadSpots(userId: string, city: string, collection: GeoJsonFeatureCollection): Promise<PickupSpotsResponse> {
+    try {
+      const pois = poisFromGeoJson(collection, DEFAULT_SPOT_TYPES);
+
+      if (pois.length === 0) {
+        return { spots: [], error: 'The file contains no point or polygon features' };
+      }
+
+      const { error: deleteError } = await supabase.from('pickup_spots').delete().eq('city', city);
+
+      if (deleteError) {
+        return { spots: [], error: handleSupabaseError(deleteError) };
+      }
+
+      const { data, error } = await supabase
+        .from('pickup_spots')
+        .insert(
+          pois.map((poi, index) => ({
+            city,
+            name: poi.name ?? `${city} pickup spot ${index + 1}`,
+            lat: poi.coordinates.lat,
+            lng: poi.coordinates.lng,
+            types: poi.types,
+            wheelchair_accessible: poi.wheelchairAccessible ?? null,
+            is_active: true,
+            created_by: userId,
+          }))
+        )
+        .select('*');
+
+      if (error) {
+        return { spots: [], error: handleSupabaseError(error) };
+      }
+
+      return { spots: (data ?? []) as PickupSpot[], error: null };
+    } catch (error) {
+      return { spots: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Hide a spot from meeting point suggestions without deleting it
+   */
+  async setSpotActive(spotId: string, isActive: boolean): Promise<{ error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from('pickup_spots')
+        .update({ is_active: isActive })
+        .eq('id', spotId);
+
+      return { error: error ? handleSupabaseError(error) : null };
+    } catch (error) {
+      return { error: handleSupabaseError(error) };
+    }
+  },
+};
+
+/**
+ * Official pickup spots as points of interest, so meeting point suggestions
+ * can prefer them
+ */
+export const pickupSpotPoiProvider: PoiProvider = {
+  name: 'pickup-spots',
+
+  async getNearby(location: Coordinates, radius: number): Promise<PointOfInterest[]> {
+    const { spots, error } = await pickupSpotService.getSpotsNear(location, radius);
+
+    if (error) {
+      throw new Error(error);
+    }
+
+    return spots.map(toPointOfInterest);
+  },
+};
@@ -1,5 +1,8 @@
 import { supabase } from './client';
 import { notificationService } from '../notifications/notificationService';
+import { SeatReservation } from '../trips/seatReservation';
+import { InstantBook } from '../trips/instantBook';
+import { waitlistService } from './waitlist';
 import type { TripRequest, LocationData } from '../../types';
 
 export interface CreateRequestData {
@@ -8,9 +11,14 @@ export interface CreateRequestData {
   receiver_id: string;
   message?: string;
   seats_requested: number;
+  small_bags?: number;
+  large_bags?: number;
   pickup_location?: LocationData;
   dropoff_location?: LocationData;
   departure_flexibility: number;
+  earliest_departure?: string;
+  latest_departure?: string;
+  latest_arrival?: string;
 }
 
 export interface UpdateRequestData {
@@ -48,7 +56,7 @@ class RequestService {
       const expires_at = new Date();
       expires_at.setHours(expires_at.getHours() + 24);
 
-      const { data: request, error } = await supabase
+      const { data: created, error } = await supabase
         .from('trip_requests')
         .insert([{
           ...data,
@@ -58,7 +66,7 @@ class RequestService {
         .select(`
           *,
           trip:trips(*),
-          sender:sender_id(id, name, email, avatar, rating_average, verification_level),
+          sender:sender_id(id, name, email, avatar, rating_average, rating_count, verification_level, trips_completed),
           receiver:receiver_id(id, name, email, avatar, rating_average, verification_level)
         `)
         .single();
@@ -68,6 +76,10 @@ class RequestService {
         return { request: null, error: error.message };
       }
 
+      // Qualifying riders on instant-book trips are accepted right away
+      const booked = created ? await this.instantBook(created) : null;
+      const request = booked ?? created;
+
       // Create notifications for both users
       if (request) {
         try {
@@ -82,17 +94,22 @@ class RequestService {
           const tripOrigin = request.trip?.origin || 'your trip';
           const tripDestination = request.trip?.destination || '';
 
+          const tripRoute = `${tripOrigin}${tripDestination ? ` to ${tripDestination}` : ''}`;
+
           // Notification for trip owner (receiver)
           await notificationService.createNotification({
             user_id: data.receiver_id,
             type: 'trip_request',
-            title: 'New Trip Request',
-            message: `${senderName} requested to join your trip from ${tripOrigin}${tripDestination ? ` to ${tripDestination}` : ''}`,
+            title: booked ? 'New Instant Booking' : 'New Trip Request',
+            message: booked
+              ? `${senderName} booked a seat on your trip from ${tripRoute}`
+              : `${senderName} requested to join your trip from ${tripRoute}`,
             data: {
               request_id: request.id,
               trip_id: data.trip_id,
               sender_id: data.sender_id,
-              seats_requested: data.seats_requested
+              seats_requested: data.seats_requested,
+              status: request.status
             }
           });
 
@@ -100,13 +117,16 @@ class RequestService {
           await notificationService.createNotification({
             user_id: data.sender_id,
             type: 'trip_request',
-            title: 'Request Sent Successfully',
-            message: `Your join request has been sent for the trip from ${tripOrigin}${tripDestination ? ` to ${tripDestination}` : ''}`,
+            title: booked ? 'Booking Confirmed! 🎉' : 'Request Sent Successfully',
+            message: booked
+              ? `You're booked on the trip from ${tripRoute}`
+              : `Your join request has been sent for the trip from ${tripRoute}`,
             data: {
               request_id: request.id,
               trip_id: data.trip_id,
               receiver_id: data.receiver_id,
-              seats_requested: data.seats_requested
+              seats_requested: data.seats_requested,
+              status: request.status
             }
           });
 
@@ -134,9 +154,29 @@ class RequestService {
         data.responded_at = new Date().toISOString();
       }
 
+      let changes: UpdateRequestData = data;
+
+      // Accepting reserves the seats in a single database transaction that
+      // locks the trip, so two accepts cannot both take its last seat
+      if (data.status === 'ACCEPTED') {
+        const { error: reserveError } = await supabase.rpc('accept_trip_request', {
+          p_request_id: requestId,
+          p_expected_status: 'PENDING',
+        });
+
+        if (reserveError) {
+          return { request: null, error: SeatReservation.errorMessage(reserveError) };
+        }
+
+        changes = { message: data.message, responded_at: data.responded_at };
+      }
+
+      // The database adds accepted passengers to the trip's manifest and takes
+      // them off when the request is cancelled or declined; the trip's
+      // passenger count and luggage follow the manifest
       const { data: request, error } = await supabase
         .from('trip_requests')
-        .update(data)
+        .update(changes)
         .eq('id', requestId)
         .select(`
           *,
@@ -151,23 +191,6 @@ class RequestService {
         return { request: null, error: error.message };
       }
 
-      // If request was accepted, update trip passenger count
-      if (data.status === 'ACCEPTED' && request) {
-        await this.updateTripPassengerCount(request.trip_id, request.seats_requested, 'add');
-      }
-      // If request was declined after being accepted, decrease passenger count
-      else if (data.status === 'DECLINED' && request) {
-        const { data: originalRequest } = await supabase
-          .from('trip_requests')
-          .select('status')
-          .eq('id', requestId)
-          .single();
-        
-        if (originalRequest?.status === 'ACCEPTED') {
-          await this.updateTripPassengerCount(request.trip_id, request.seats_requested, 'remove');
-        }
-      }
-
       // Create notifications for status changes
       if (request && (data.status === 'ACCEPTED' || data.status === 'DECLINED')) {
         try {
@@ -218,6 +241,17 @@ class RequestService {
         }
       }
 
+      // A cancelled or declined passenger frees seats for the waitlist
+      if (request && (data.status === 'CANCELLED' || data.status === 'DECLINED')) {
+        const { promoted, errors, error: promoteError } = await waitlistService.promoteWaitlist(request.trip_id);
+        if (promoteError) {
+          console.error('⚠️ Failed to promote waitlisted riders:', promoteError);
+        } else if (promoted.length > 0) {
+          console.log(`✅ Promoted ${promoted.length} waitlisted request(s) on trip: ${request.trip_id}`);
+        }
+        errors.forEach(notifyError => console.error('⚠️', notifyError));
+      }
+
       return { request, error: null };
     } catch (err) {
       console.error('Unexpected error updating request:', err);
@@ -447,10 +481,20 @@ class RequestService {
 
   async markExpiredRequests(): Promise<{ success: boolean; count: number; error: string | null }> {
     try {
+      // Lapsed waitlist promotions expire in the database together with
+      // promoting the riders next in line into their seats
+      const { error: promotionError, errors } = await waitlistService.expirePromotions();
+      if (promotionError) {
+        console.error('Error expiring waitlist promotions:', promotionError);
+        return { success: false, count: 0, error: promotionError };
+      }
+      errors.forEach(notifyError => console.error('⚠️', notifyError));
+
       const { data, error, count } = await supabase
         .from('trip_requests')
         .update({ status: 'EXPIRED' })
         .eq('status', 'PENDING')
+        .is('promoted_at', null)
         .lt('expires_at', new Date().toISOString())
         .select('id');
 
@@ -470,46 +514,29 @@ class RequestService {
     }
   }
 
-  private async updateTripPassengerCount(
-    tripId: string, 
-    seatCount: number, 
-    operation: 'add' | 'remove'
-  ): Promise<void> {
-    try {
-      // Get current trip data
-      const { data: trip, error: fetchError } = await supabase
-        .from('trips')
-        .select('current_passengers, max_passengers')
-        .eq('id', tripId)
-        .single();
-
-      if (fetchError || !trip) {
-        console.error('Error fetching trip for passenger update:', fetchError);
-        return;
-      }
-
-      const newPassengerCount = operation === 'add' 
-        ? trip.current_passengers + seatCount
-        : Math.max(0, trip.current_passengers - seatCount);
-
-      const availableSeats = trip.max_passengers - newPassengerCount;
+  /**
+   * Accept a new request straight away when the trip has instant book and
+   * the rider qualifies, reserving the seats like the driver's accept does.
+   * Returns the accepted request, or null when it stays pending, e.g. because
+   * the last seat went in the meantime.
+   */
+  private async instantBook(request: TripRequest): Promise<TripRequest | null> {
+    if (!request.trip || !InstantBook.qualifies(request.trip, request.sender)) {
+      return null;
+    }
 
-      // Update trip with new passenger count
-      const { error: updateError } = await supabase
-        .from('trips')
-        .update({
-          current_passengers: newPassengerCount,
-          available_seats: availableSeats,
-          status: availableSeats === 0 ? 'MATCHED' : 'ACTIVE'
-        })
-        .eq('id', tripId);
+    const { error } = await supabase.rpc('accept_trip_request', {
+      p_request_id: request.id,
+      p_expected_status: 'PENDING',
+    });
 
-      if (updateError) {
-        console.error('Error updating trip passenger count:', updateError);
-      }
-    } catch (err) {
-      console.error('Unexpected error updating trip passenger count:', err);
+    if (error) {
+      console.warn('⚠️ Instant book fell back to a pending request:', SeatReservation.errorMessage(error));
+      return null;
     }
+
+    const { request: booked } = await this.getRequest(request.id);
+    return booked ?? { ...request, status: 'ACCEPTED' };
   }
 
   // Real-time subscription for requests
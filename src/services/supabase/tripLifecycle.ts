@@ -0,0 +1,213 @@
+import { supabase, handleSupabaseError } from './client';
+import { matchGenerationService } from './matchGeneration';
+import { notificationService } from '../notifications/notificationService';
+import { TripStateMachine } from '../trips/tripStateMachine';
+import type { Trip, TripStatus } from '../../types';
+import type { TripResponse } from './trips';
+
+export interface TripLifecycleResult {
+  tripId: string;
+  from: TripStatus;
+  to: TripStatus; // where the trip ended up, `from` when nothing changed
+  notified: number;
+  errors: string[];
+}
+
+const TRIP_SELECT = `
+  *,
+  user:users(id, name, email, rating_average, trips_completed, gender, age_years)
+`;
+
+export const tripLifecycleService = {
+  /**
+   * Move a trip to a new status. The update only applies while the trip is
+   * still in the status it was loaded with, so two clients advancing the same
+   * trip cannot both complete it.
+   */
+  async transitionTrip(trip: Trip, to: TripStatus, now: Date = new Date()): Promise<TripResponse> {
+    const invalid = TripStateMachine.validateTransition(trip.status, to) ?? TripStateMachine.validateTiming(trip, to, now);
+    if (invalid) {
+      return { trip: null, error: invalid };
+    }
+
+    try {
+      const { data: updated, error } = await supabase
+        .from('trips')
+        .update(TripStateMachine.statusUpdate(to, now))
+        .eq('id', trip.id)
+        .eq('status', trip.status)
+        .select(TRIP_SELECT)
+        .maybeSingle();
+
+      if (error) {
+        return { trip: null, error: handleSupabaseError(error) };
+      }
+
+      if (!updated) {
+        return { trip: null, error: 'The trip changed in the meantime, please reload it' };
+      }
+
+      // A started trip takes no more riders, so its open matches expire. That
+      // is a single update, so it is awaited: the matches script exits as
+      // soon as its run is done and would cut a scheduled refresh off.
+      if (!TripStateMachine.isUpcoming(to)) {
+        const { errors } = await matchGenerationService.refreshMatchesForTrip(updated as Trip);
+        errors.forEach(message => console.error(`⚠️ Failed to expire the matches of trip ${trip.id}:`, message));
+      }
+
+      return { trip: updated as Trip, error: null };
+    } catch (error) {
+      return { trip: null, error: handleSupabaseError(error) };
+    }
+  },
+
+  startTrip(trip: Trip): Promise<TripResponse> {
+    return tripLifecycleService.transitionTrip(trip, 'IN_PROGRESS');
+  },
+
+  /**
+   * Complete a trip and ask everyone who rode along to leave a review. The
+   * database counts the trip towards the owner's and each boarded rider's
+   * `trips_completed`; when nobody boarded, nobody is counted or asked.
+   */
+  async completeTrip(
+    trip: Trip,
+    now: Date = new Date()
+  ): Promise<TripResponse & { notified: number; notifyErrors: string[] }> {
+    const { trip: completed, error } = await this.transitionTrip(trip, 'COMPLETED', now);
+    if (!completed) {
+      return { trip: null, error, notified: 0, notifyErrors: [] };
+    }
+
+    const { notified, errors } = await this.notifyTripCompleted(completed);
+    return { trip: completed, error: null, notified, notifyErrors: errors };
+  },
+
+  /**
+   * Start trips whose departure has passed and complete those past their
+   * estimated arrival. A trip that is due to complete but never started goes
+   * through both steps.
+   */
+  async advanceTrip(trip: Trip, now: Date = new Date()): Promise<{ trip: Trip; result: TripLifecycleResult }> {
+    const result: TripLifecycleResult = { tripId: trip.id, from: trip.status, to: trip.status, notified: 0, errors: [] };
+    const due = TripStateMachine.dueStatus(trip, now);
+    let current = trip;
+
+    for (const status of due ? TripStateMachine.path(trip.status, due) : []) {
+      const response =
+        status === 'COMPLETED' ? await this.completeTrip(current, now) : await this.transitionTrip(current, status, now);
+
+      if (!response.trip) {
+        result.errors.push(`Failed to move trip ${trip.id} to ${status}: ${response.error}`);
+        break;
+      }
+
+      if ('notified' in response) {
+        result.notified = response.notified;
+        result.errors.push(...response.notifyErrors);
+      }
+
+      current = response.trip;
+      result.to = current.status;
+    }
+
+    return { trip: current, result };
+  },
+
+  /**
+   * Advance the given trips, e.g. the ones a user just loaded; returns the
+   * trips with their new statuses
+   */
+  async advanceTrips(
+    trips: Trip[],
+    now: Date = new Date(),
+    onTrip?: (result: TripLifecycleResult) => void
+  ): Promise<{ trips: Trip[]; results: TripLifecycleResult[] }> {
+    const advanced: Trip[] = [];
+    const results: TripLifecycleResult[] = [];
+
+    for (const trip of trips) {
+      if (!TripStateMachine.dueStatus(trip, now)) {
+        advanced.push(trip);
+        continue;
+      }
+
+      const { trip: current, result } = await this.advanceTrip(trip, now);
+      advanced.push(current);
+      results.push(result);
+      onTrip?.(result);
+    }
+
+    return { trips: advanced, results };
+  },
+
+  /**
+   * Advance every trip that has departed and is not finished yet. Row level
+   * security limits this to the signed-in user's trips unless it runs with
+   * the service role key. Trips only start and complete on their own when
+   * this runs, from the scheduled `matches:generate` script, or when a user
+   * loads their trips.
+   */
+  async advanceDueTrips(
+    now: Date = new Date(),
+    onTrip?: (result: TripLifecycleResult) => void
+  ): Promise<{ results: TripLifecycleResult[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('trips')
+        .select(TRIP_SELECT)
+        .in('status', [...TripStateMachine.UPCOMING_STATUSES, 'IN_PROGRESS'])
+        .lte('departure_time', now.toISOString())
+        .order('departure_time', { ascending: true });
+
+      if (error) {
+        return { results: [], error: handleSupabaseError(error) };
+      }
+
+      const { results } = await this.advanceTrips((data ?? []) as Trip[], now, onTrip);
+      return { results, error: null };
+    } catch (error) {
+      return { results: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Notify the trip's owner and every passenger on its manifest who boarded.
+   * Nobody is notified when no one boarded, as the trip then does not count
+   * as completed for anyone.
+   */
+  async notifyTripCompleted(trip: Trip): Promise<{ notified: number; errors: string[] }> {
+    const { data: passengers, error } = await supabase
+      .from('trip_passengers')
+      .select('passenger_id')
+      .eq('trip_id', trip.id)
+      .in('status', ['BOARDED', 'DROPPED_OFF']);
+
+    if (error) {
+      return { notified: 0, errors: [`Failed to load passengers of trip ${trip.id}: ${handleSupabaseError(error)}`] };
+    }
+
+    const riderIds = ((passengers ?? []) as { passenger_id: string }[]).map(passenger => passenger.passenger_id);
+    if (riderIds.length === 0) {
+      return { notified: 0, errors: [] };
+    }
+
+    const errors: string[] = [];
+    const userIds = Array.from(new Set([trip.user_id, ...riderIds]));
+
+    const notifications = await Promise.all(
+      userIds.map(userId => notificationService.createTripCompletedNotification(userId, trip.id, trip.destination))
+    );
+
+    let notified = 0;
+    notifications.forEach((notification, index) => {
+      if (notification.error) {
+        errors.push(`Failed to notify user ${userIds[index]} about trip ${trip.id}: ${notification.error}`);
+      } else {
+        notified++;
+      }
+    });
+
+    return { notified, errors };
+  },
+};
@@ -0,0 +1,123 @@
+import { supabase, handleSupabaseError } from './client';
+import { boundingBoxAround, geohashesCovering, haversineDistance } from '../routing';
+import type { Trip } from '../../types';
+import type { Coordinates } from '../routing';
+import type { TripsResponse } from './trips';
+
+export interface SearchArea {
+  coordinates: Coordinates;
+  radius: number; // km
+}
+
+export interface TripSearchParams {
+  origin?: SearchArea;
+  destination?: SearchArea;
+  departureFrom?: string; // ISO timestamp
+  departureTo?: string; // ISO timestamp
+  excludeUserId?: string;
+  minSeats?: number;
+  limit?: number;
+}
+
+const TRIP_SELECT = `
+  *,
+  user:users(id, name, email, rating_average, trips_completed, gender, age_years)
+`;
+
+// Enough cells to hug a circle without making the OR filter unwieldy
+const MAX_GEOHASH_CELLS = 16;
+
+/**
+ * Minimal query surface shared by the trip queries that take area filters
+ */
+interface FilterableQuery<T> {
+  or(filters: string): T;
+}
+
+export const tripSearchService = {
+  /**
+   * Active trips starting and/or ending within a radius, optionally in a
+   * departure window. The database narrows the search to the geohash cells
+   * covering each area's bounding box; exact distances are checked here.
+   */
+  async searchTrips(params: TripSearchParams): Promise<TripsResponse> {
+    try {
+      let query = supabase
+        .from('trips')
+        .select(TRIP_SELECT)
+        .eq('status', 'ACTIVE');
+
+      query = this.applyAreaFilters(query, params.origin, params.destination);
+
+      if (params.departureFrom) {
+        query = query.gte('departure_time', params.departureFrom);
+      }
+
+      if (params.departureTo) {
+        query = query.lte('departure_time', params.departureTo);
+      }
+
+      if (params.excludeUserId) {
+        query = query.neq('user_id', params.excludeUserId);
+      }
+
+      if (params.minSeats) {
+        query = query.gte('available_seats', params.minSeats);
+      }
+
+      const { data, error } = await query
+        .order('departure_time', { ascending: true })
+        .limit(params.limit ?? 100);
+
+      if (error) {
+        return { trips: [], error: handleSupabaseError(error) };
+      }
+
+      const trips = ((data ?? []) as Trip[]).filter(trip =>
+        this.isWithinAreas(trip, params.origin, params.destination)
+      );
+
+      return { trips, error: null };
+    } catch (error) {
+      return { trips: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Restrict a trips query to the geohash cells around each area
+   */
+  applyAreaFilters<T extends FilterableQuery<T>>(query: T, origin?: SearchArea, destination?: SearchArea): T {
+    let filtered = query;
+
+    if (origin) {
+      filtered = filtered.or(this.geohashFilter('origin_geohash', origin));
+    }
+
+    if (destination) {
+      filtered = filtered.or(this.geohashFilter('destination_geohash', destination));
+    }
+
+    return filtered;
+  },
+
+  /**
+   * Exact check that a trip starts and ends within the given areas
+   */
+  isWithinAreas(trip: Trip, origin?: SearchArea, destination?: SearchArea): boolean {
+    const within = (point: Coordinates, area?: SearchArea) =>
+      !area || haversineDistance(point, area.coordinates) <= area.radius * 1000;
+
+    return (
+      within(trip.origin_location.coordinates, origin) &&
+      within(trip.destination_location.coordinates, destination)
+    );
+  },
+
+  geohashFilter(column: 'origin_geohash' | 'destination_geohash', area: SearchArea): string {
+    const box = boundingBoxAround(area.coordinates, area.radius * 1000);
+
+    return geohashesCovering(box, MAX_GEOHASH_CELLS)
+      .map(prefix => `${column}.like.${prefix}*`)
+      .join(',');
+  },
+};
@@ -0,0 +1,434 @@
+import { supabase, handleSupabaseError } from './client';
+import { tripService } from './trips';
+import { tripSearchService } from './tripSearch';
+import { requestService } from './requests';
+import { userPreferencesService } from './userPreferences';
+import { SeriesMatcher } from '../matching/seriesMatcher';
+import { addDays, dateInTimeZone, getOccurrences, occursOn, zonedDateTimeToUtc } from '../../utils/recurrence';
+import type { RecurrenceRule, Trip, TripSeries, TripSeriesTemplate } from '../../types';
+import type { CreateTripData, TripResponse, TripsResponse } from './trips';
+import type { SeriesMatch, SeriesMatchOptions } from '../matching/seriesMatcher';
+import type { Occurrence } from '../../utils/recurrence';
+
+export interface CreateTripSeriesData extends Omit<RecurrenceRule, 'excluded_dates'> {
+  template: TripSeriesTemplate;
+  excluded_dates?: string[];
+}
+
+export interface TripSeriesResponse {
+  series: TripSeries | null;
+  error: string | null;
+}
+
+export interface TripSeriesListResponse {
+  series: TripSeries[];
+  error: string | null;
+}
+
+export interface MaterializeResult {
+  created: Trip[];
+  errors: string[];
+}
+
+// How far ahead occurrences exist as trips, so they can be searched and matched
+export const MATERIALIZE_HORIZON_DAYS = 14;
+
+// Radius (km) around a series' origin and destination searched for other series
+const SERIES_SEARCH_RADIUS = 10;
+
+const TRIP_SELECT = `
+  *,
+  user:users(id, name, email, rating_average, trips_completed, gender, age_years)
+`;
+
+const toOccurrenceTrip = (series: TripSeries, occurrence: Occurrence): CreateTripData => ({
+  ...series.template,
+  departure_time: occurrence.departure_time,
+  series_id: series.id,
+  occurrence_date: occurrence.date,
+});
+
+export const tripSeriesService = {
+  /**
+   * Create a recurring trip and the occurrences inside the materialization horizon
+   */
+  async createSeries(
+    userId: string,
+    data: CreateTripSeriesData
+  ): Promise<TripSeriesResponse & { trips: Trip[] }> {
+    try {
+      const { data: series, error } = await supabase
+        .from('trip_series')
+        .insert({
+          user_id: userId,
+          ...data,
+          end_date: data.end_date || null,
+          excluded_dates: data.excluded_dates ?? [],
+          status: 'ACTIVE',
+        })
+        .select('*')
+        .single();
+
+      if (error) {
+        return { series: null, trips: [], error: handleSupabaseError(error) };
+      }
+
+      const { created, errors } = await this.materializeSeries(series as TripSeries);
+
+      return { series: series as TripSeries, trips: created, error: errors[0] ?? null };
+    } catch (error) {
+      return { series: null, trips: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  async getSeriesById(seriesId: string): Promise<TripSeriesResponse> {
+    try {
+      const { data: series, error } = await supabase
+        .from('trip_series')
+        .select('*')
+        .eq('id', seriesId)
+        .single();
+
+      if (error) {
+        return { series: null, error: handleSupabaseError(error) };
+      }
+
+      return { series: series as TripSeries, error: null };
+    } catch (error) {
+      return { series: null, error: handleSupabaseError(error) };
+    }
+  },
+
+  async getUserSeries(userId: string): Promise<TripSeriesListResponse> {
+    try {
+      const { data: series, error } = await supabase
+        .from('trip_series')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return { series: [], error: handleSupabaseError(error) };
+      }
+
+      return { series: series as TripSeries[], error: null };
+    } catch (error) {
+      return { series: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Upcoming occurrences of a series, soonest first
+   */
+  async getUpcomingOccurrences(seriesId: string): Promise<TripsResponse> {
+    try {
+      const { data: trips, error } = await supabase
+        .from('trips')
+        .select(TRIP_SELECT)
+        .eq('series_id', seriesId)
+        .gte('departure_time', new Date().toISOString())
+        .order('departure_time', { ascending: true });
+
+      if (error) {
+        return { trips: [], error: handleSupabaseError(error) };
+      }
+
+      return { trips: trips as Trip[], error: null };
+    } catch (error) {
+      return { trips: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Edit a series. Upcoming occurrences follow the new template and schedule,
+   * except those edited individually; dates the schedule no longer covers
+   * are cancelled.
+   */
+  async updateSeries(seriesId: string, updates: Partial<CreateTripSeriesData>): Promise<TripSeriesResponse> {
+    try {
+      const { data: series, error } = await supabase
+        .from('trip_series')
+        .update(updates)
+        .eq('id', seriesId)
+        .select('*')
+        .single();
+
+      if (error) {
+        return { series: null, error: handleSupabaseError(error) };
+      }
+
+      const errors = await this.syncOccurrences(series as TripSeries);
+
+      return { series: series as TripSeries, error: errors[0] ?? null };
+    } catch (error) {
+      return { series: null, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Stop a series and cancel its upcoming occurrences
+   */
+  async cancelSeries(seriesId: string): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from('trip_series')
+        .update({ status: 'CANCELLED' })
+        .eq('id', seriesId);
+
+      if (error) {
+        return { success: false, error: handleSupabaseError(error) };
+      }
+
+      const { trips, error: tripsError } = await this.getUpcomingOccurrences(seriesId);
+      if (tripsError) {
+        return { success: false, error: tripsError };
+      }
+
+      for (const trip of trips.filter(occurrence => occurrence.status === 'ACTIVE')) {
+        const result = await tripService.cancelTrip(trip.id);
+        if (result.error) {
+          return { success: false, error: result.error };
+        }
+      }
+
+      return { success: true, error: null };
+    } catch (error) {
+      return { success: false, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Cancel a single occurrence and keep the series from recreating it
+   */
+  async skipOccurrence(trip: Trip): Promise<TripResponse> {
+    if (!trip.series_id || !trip.occurrence_date) {
+      return { trip: null, error: 'Trip is not part of a series' };
+    }
+
+    const { series, error } = await this.getSeriesById(trip.series_id);
+    if (!series) {
+      return { trip: null, error };
+    }
+
+    if (!series.excluded_dates.includes(trip.occurrence_date)) {
+      const { error: updateError } = await supabase
+        .from('trip_series')
+        .update({ excluded_dates: [...series.excluded_dates, trip.occurrence_date] })
+        .eq('id', series.id);
+
+      if (updateError) {
+        return { trip: null, error: handleSupabaseError(updateError) };
+      }
+    }
+
+    return tripService.cancelTrip(trip.id);
+  },
+
+  /**
+   * Edit a single occurrence. Later series edits leave it as it is.
+   */
+  updateOccurrence(tripId: string, updates: Partial<CreateTripData>): Promise<TripResponse> {
+    return tripService.updateTrip(tripId, { ...updates, is_series_exception: true });
+  },
+
+  /**
+   * Create the trips for occurrences inside the horizon that do not exist yet.
+   * Their matches are only refreshed in the background with
+   * `scheduleMatchRefresh`; callers that exit when done generate them instead.
+   */
+  async materializeSeries(
+    series: TripSeries,
+    horizonDays = MATERIALIZE_HORIZON_DAYS,
+    scheduleMatchRefresh = true
+  ): Promise<MaterializeResult> {
+    const result: MaterializeResult = { created: [], errors: [] };
+    if (series.status !== 'ACTIVE') return result;
+
+    try {
+      const today = dateInTimeZone(new Date(), series.timezone);
+      const now = Date.now();
+      const occurrences = getOccurrences(series, today, addDays(today, horizonDays)).filter(
+        occurrence => new Date(occurrence.departure_time).getTime() > now
+      );
+      if (occurrences.length === 0) return result;
+
+      // Cancelled occurrences count as existing, so they are not brought back
+      const { data: existing, error } = await supabase
+        .from('trips')
+        .select('occurrence_date')
+        .eq('series_id', series.id)
+        .gte('occurrence_date', today);
+
+      if (error) {
+        result.errors.push(handleSupabaseError(error));
+        return result;
+      }
+
+      const existingDates = new Set(((existing ?? []) as Pick<Trip, 'occurrence_date'>[]).map(trip => trip.occurrence_date));
+
+      for (const occurrence of occurrences.filter(item => !existingDates.has(item.date))) {
+        const { trip, error: createError } = await tripService.createTrip(
+          series.user_id,
+          toOccurrenceTrip(series, occurrence),
+          scheduleMatchRefresh
+        );
+
+        if (trip) {
+          result.created.push(trip);
+        } else {
+          result.errors.push(`Failed to create the ${occurrence.date} occurrence: ${createError}`);
+        }
+      }
+    } catch (error) {
+      result.errors.push(handleSupabaseError(error));
+    }
+
+    return result;
+  },
+
+  /**
+   * Materialize every active series; run periodically so occurrences stay
+   * `MATERIALIZE_HORIZON_DAYS` ahead. The new trips get no background match
+   * refresh, so generate their matches afterwards.
+   */
+  async materializeActiveSeries(
+    horizonDays = MATERIALIZE_HORIZON_DAYS
+  ): Promise<{ created: number; errors: string[] }> {
+    try {
+      const { data: series, error } = await supabase
+        .from('trip_series')
+        .select('*')
+        .eq('status', 'ACTIVE');
+
+      if (error) {
+        return { created: 0, errors: [handleSupabaseError(error)] };
+      }
+
+      let created = 0;
+      const errors: string[] = [];
+      for (const item of (series ?? []) as TripSeries[]) {
+        const result = await this.materializeSeries(item, horizonDays, false);
+        created += result.created.length;
+        errors.push(...result.errors.map(message => `Series ${item.id}: ${message}`));
+      }
+
+      return { created, errors };
+    } catch (error) {
+      return { created: 0, errors: [handleSupabaseError(error)] };
+    }
+  },
+
+  /**
+   * Bring upcoming occurrences in line with the series after an edit
+   */
+  async syncOccurrences(series: TripSeries): Promise<string[]> {
+    const { trips, error } = await tripSeriesService.getUpcomingOccurrences(series.id);
+    if (error) return [error];
+
+    const errors: string[] = [];
+    for (const trip of trips) {
+      if (trip.status !== 'ACTIVE' || trip.is_series_exception || !trip.occurrence_date) continue;
+
+      const result =
+        series.status === 'ACTIVE' && occursOn(series, trip.occurrence_date)
+          ? await tripService.updateTrip(trip.id, {
+              ...series.template,
+              departure_time: zonedDateTimeToUtc(
+                trip.occurrence_date,
+                series.departure_time,
+                series.timezone
+              ).toISOString(),
+            })
+          : await tripService.cancelTrip(trip.id);
+
+      if (result.error) {
+        errors.push(`Failed to update the ${trip.occurrence_date} occurrence: ${result.error}`);
+      }
+    }
+
+    const materialized = await tripSeriesService.materializeSeries(series);
+    return [...errors, ...materialized.errors];
+  },
+
+  /**
+   * Other users' series whose occurrences match most of this series' upcoming
+   * occurrences
+   */
+  async findSeriesMatches(
+    seriesId: string,
+    options: Partial<SeriesMatchOptions> = {}
+  ): Promise<{ matches: SeriesMatch[]; error: string | null }> {
+    const { trips, error } = await this.getUpcomingOccurrences(seriesId);
+    if (error) {
+      return { matches: [], error };
+    }
+
+    const occurrences = trips.filter(trip => trip.status === 'ACTIVE');
+    if (occurrences.length === 0) {
+      return { matches: [], error: null };
+    }
+
+    const timeWindow = (options.timeWindow ?? SeriesMatcher.DEFAULT_OPTIONS.timeWindow) * 60 * 1000;
+    const first = occurrences[0];
+    const last = occurrences[occurrences.length - 1];
+
+    const { trips: candidates, error: searchError } = await tripSearchService.searchTrips({
+      origin: { coordinates: first.origin_location.coordinates, radius: SERIES_SEARCH_RADIUS },
+      destination: { coordinates: first.destination_location.coordinates, radius: SERIES_SEARCH_RADIUS },
+      departureFrom: new Date(new Date(first.departure_time).getTime() - timeWindow).toISOString(),
+      departureTo: new Date(new Date(last.departure_time).getTime() + timeWindow).toISOString(),
+      excludeUserId: first.user_id,
+      minSeats: 1,
+      limit: 500,
+    });
+
+    if (searchError) {
+      return { matches: [], error: searchError };
+    }
+
+    const userIds = Array.from(new Set([first.user_id, ...candidates.map(candidate => candidate.user_id)]));
+    const { preferences } = await userPreferencesService.getPreferencesForUsers(userIds);
+
+    const matches = await SeriesMatcher.matchSeries(
+      occurrences,
+      candidates,
+      preferences[first.user_id],
+      preferences,
+      options
+    );
+
+    return { matches, error: null };
+  },
+
+  /**
+   * Request a seat on every matched occurrence of another series
+   */
+  async joinSeries(
+    userId: string,
+    match: SeriesMatch,
+    seats = 1,
+    message?: string
+  ): Promise<{ requested: number; errors: string[] }> {
+    let requested = 0;
+    const errors: string[] = [];
+
+    for (const { matchedTrip, analysis } of match.occurrences) {
+      const { error } = await requestService.createRequest({
+        trip_id: matchedTrip.id,
+        sender_id: userId,
+        receiver_id: matchedTrip.user_id,
+        seats_requested: seats,
+        message,
+        departure_flexibility: Math.round(Math.abs(analysis.timeDifference)),
+      });
+
+      if (error) {
+        errors.push(`Failed to request the ${matchedTrip.occurrence_date ?? matchedTrip.id} ride: ${error}`);
+      } else {
+        requested++;
+      }
+    }
+
+    return { requested, errors };
+  },
+};
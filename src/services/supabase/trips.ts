@@ -1,6 +1,11 @@
 import { supabase, handleSupabaseError } from './client';
-import type { Trip } from '../../types';
+import { matchGenerationService } from './matchGeneration';
+import { tripSearchService } from './tripSearch';
+import { waitlistService } from './waitlist';
+import { TripStateMachine } from '../trips/tripStateMachine';
+import type { AccessibilityNeed, Trip, TripLeg, VerificationLevel } from '../../types';
 import type { TripFormData, TripFilterFormData } from '../../utils/validations';
+import type { SearchArea } from './tripSearch';
 
 export interface CreateTripData {
   origin: string;
@@ -20,7 +25,24 @@ export interface CreateTripData {
     types?: string[];
   };
   departure_time: string;
+  earliest_departure?: string;
+  latest_departure?: string;
+  latest_arrival?: string;
+  series_id?: string;
+  occurrence_date?: string;
+  is_series_exception?: boolean;
+  paired_trip_id?: string;
+  trip_leg?: TripLeg;
   max_passengers: number;
+  max_small_bags?: number | null;
+  max_large_bags?: number | null;
+  current_small_bags?: number; // the trip owner's own bags
+  current_large_bags?: number;
+  waitlist_auto_accept?: boolean;
+  instant_book?: boolean;
+  instant_book_min_rating?: number | null;
+  instant_book_min_verification?: VerificationLevel | null;
+  instant_book_min_trips?: number | null;
   price_per_seat?: number;
   currency?: string;
   payment_method?: 'cash' | 'card' | 'app' | 'split';
@@ -33,6 +55,8 @@ export interface CreateTripData {
   vehicle_model?: string;
   vehicle_color?: string;
   vehicle_plate?: string;
+  accessibility_needs?: AccessibilityNeed[];
+  vehicle_accessibility?: AccessibilityNeed[];
 }
 
 export interface TripResponse {
@@ -46,9 +70,18 @@ export interface TripsResponse {
   count?: number;
 }
 
+// Trip fields that add room for waitlisted riders when raised
+const CAPACITY_FIELDS: (keyof CreateTripData)[] = ['max_passengers', 'max_small_bags', 'max_large_bags'];
+
+// Trips fetched for an area search, which is filtered and paged after the query
+const MAX_AREA_SEARCH_RESULTS = 1000;
+
+const toSearchArea = (lat?: number, lng?: number, radius?: number): SearchArea | undefined =>
+  lat !== undefined && lng !== undefined && radius ? { coordinates: { lat, lng }, radius } : undefined;
+
 export const tripService = {
-  // Create a new trip
-  async createTrip(userId: string, data: CreateTripData): Promise<TripResponse> {
+  // Create a new trip; callers that generate matches themselves skip the background refresh
+  async createTrip(userId: string, data: CreateTripData, scheduleMatchRefresh = true): Promise<TripResponse> {
     try {
       const tripData = {
         user_id: userId,
@@ -67,7 +100,7 @@ export const tripService = {
         .insert(tripData)
         .select(`
           *,
-          user:users(id, name, email, rating_average, trips_completed)
+          user:users(id, name, email, rating_average, trips_completed, gender, age_years)
         `)
         .single();
 
@@ -75,6 +108,10 @@ export const tripService = {
         return { trip: null, error: handleSupabaseError(error) };
       }
 
+      if (scheduleMatchRefresh) {
+        matchGenerationService.scheduleMatchRefresh(trip as Trip);
+      }
+
       return { trip: trip as Trip, error: null };
     } catch (error) {
       return { trip: null, error: handleSupabaseError(error) };
@@ -88,7 +125,7 @@ export const tripService = {
         .from('trips')
         .select(`
           *,
-          user:users(id, name, email, rating_average, trips_completed)
+          user:users(id, name, email, rating_average, trips_completed, gender, age_years)
         `)
         .eq('id', tripId)
         .single();
@@ -114,7 +151,7 @@ export const tripService = {
         .from('trips')
         .select(`
           *,
-          user:users(id, name, email, rating_average, trips_completed)
+          user:users(id, name, email, rating_average, trips_completed, gender, age_years)
         `, { count: 'exact' });
 
       // Apply filters
@@ -175,8 +212,15 @@ export const tripService = {
         query = query.eq('conversation_level', filters.conversation_level);
       }
 
-      // Apply pagination
-      query = query.range(offset, offset + limit - 1);
+      const originArea = toSearchArea(filters.origin_lat, filters.origin_lng, filters.origin_radius);
+      const destinationArea = toSearchArea(filters.destination_lat, filters.destination_lng, filters.destination_radius);
+      query = tripSearchService.applyAreaFilters(query, originArea, destinationArea);
+      const isAreaSearch = Boolean(originArea || destinationArea);
+
+      // Apply pagination; area searches are paged below, once exact distances are checked
+      query = isAreaSearch
+        ? query.limit(MAX_AREA_SEARCH_RESULTS)
+        : query.range(offset, offset + limit - 1);
 
       // Order by departure time
       query = query.order('departure_time', { ascending: true });
@@ -187,53 +231,32 @@ export const tripService = {
         return { trips: [], error: handleSupabaseError(error) };
       }
 
+      if (!isAreaSearch) {
+        return { trips: trips as Trip[], error: null, count: count || 0 };
+      }
+
+      // Geohash cells overshoot the radius, so trim to exact distances before paging
+      const withinAreas = (trips as Trip[]).filter(trip =>
+        tripSearchService.isWithinAreas(trip, originArea, destinationArea)
+      );
+
       return { 
-        trips: trips as Trip[], 
+        trips: withinAreas.slice(offset, offset + limit), 
         error: null, 
-        count: count || 0 
+        count: withinAreas.length 
       };
     } catch (error) {
       return { trips: [], error: handleSupabaseError(error) };
     }
   },
 
-  // Search trips by location
+  // Search active trips starting and/or ending within a radius of the given points
   async searchTripsByLocation(
-    origin?: string,
-    destination?: string,
+    origin?: SearchArea,
+    destination?: SearchArea,
     limit = 20
   ): Promise<TripsResponse> {
-    try {
-      let query = supabase
-        .from('trips')
-        .select(`
-          *,
-          user:users(id, name, email, rating_average, trips_completed)
-        `)
-        .eq('status', 'ACTIVE');
-
-      if (origin) {
-        query = query.ilike('origin', `%${origin}%`);
-      }
-
-      if (destination) {
-        query = query.ilike('destination', `%${destination}%`);
-      }
-
-      query = query
-        .order('departure_time', { ascending: true })
-        .limit(limit);
-
-      const { data: trips, error } = await query;
-
-      if (error) {
-        return { trips: [], error: handleSupabaseError(error) };
-      }
-
-      return { trips: trips as Trip[], error: null };
-    } catch (error) {
-      return { trips: [], error: handleSupabaseError(error) };
-    }
+    return tripSearchService.searchTrips({ origin, destination, limit });
   },
 
   // Update trip
@@ -245,7 +268,7 @@ export const tripService = {
         .eq('id', tripId)
         .select(`
           *,
-          user:users(id, name, email, rating_average, trips_completed)
+          user:users(id, name, email, rating_average, trips_completed, gender, age_years)
         `)
         .single();
 
@@ -253,29 +276,109 @@ export const tripService = {
         return { trip: null, error: handleSupabaseError(error) };
       }
 
+      // Route, time, seat or preference edits change which trips match
+      matchGenerationService.scheduleMatchRefresh(trip as Trip);
+
+      // More seats or luggage space can take riders off the waitlist
+      if (CAPACITY_FIELDS.some(field => field in updates)) {
+        const { errors, error: promoteError } = await waitlistService.promoteWaitlist(tripId);
+        if (promoteError) {
+          console.error('⚠️ Failed to promote waitlisted riders:', promoteError);
+        }
+        errors.forEach(notifyError => console.error('⚠️', notifyError));
+      }
+
       return { trip: trip as Trip, error: null };
     } catch (error) {
       return { trip: null, error: handleSupabaseError(error) };
     }
   },
 
-  // Cancel trip
+  // Create the return leg of a trip: the same ride back, at its own time
+  async createReturnTrip(outboundTrip: Trip, departureTime: string): Promise<TripResponse> {
+    if (outboundTrip.paired_trip_id) {
+      return { trip: null, error: 'Trip already has a return trip' };
+    }
+
+    if (new Date(departureTime) <= new Date(outboundTrip.departure_time)) {
+      return { trip: null, error: 'Return trip must depart after the outbound trip' };
+    }
+
+    const { trip: returnTrip, error } = await this.createTrip(outboundTrip.user_id, {
+      origin: outboundTrip.destination,
+      destination: outboundTrip.origin,
+      origin_location: outboundTrip.destination_location,
+      destination_location: outboundTrip.origin_location,
+      departure_time: departureTime,
+      paired_trip_id: outboundTrip.id,
+      trip_leg: 'RETURN',
+      max_passengers: outboundTrip.max_passengers,
+      max_small_bags: outboundTrip.max_small_bags,
+      max_large_bags: outboundTrip.max_large_bags,
+      waitlist_auto_accept: outboundTrip.waitlist_auto_accept,
+      instant_book: outboundTrip.instant_book,
+      instant_book_min_rating: outboundTrip.instant_book_min_rating,
+      instant_book_min_verification: outboundTrip.instant_book_min_verification,
+      instant_book_min_trips: outboundTrip.instant_book_min_trips,
+      price_per_seat: outboundTrip.price_per_seat,
+      currency: outboundTrip.currency,
+      payment_method: outboundTrip.payment_method,
+      notes: outboundTrip.notes,
+      smoking_allowed: outboundTrip.smoking_allowed,
+      pets_allowed: outboundTrip.pets_allowed,
+      music_preference: outboundTrip.music_preference,
+      conversation_level: outboundTrip.conversation_level,
+      vehicle_make: outboundTrip.vehicle_make,
+      vehicle_model: outboundTrip.vehicle_model,
+      vehicle_color: outboundTrip.vehicle_color,
+      vehicle_plate: outboundTrip.vehicle_plate,
+      accessibility_needs: outboundTrip.accessibility_needs,
+      vehicle_accessibility: outboundTrip.vehicle_accessibility,
+    });
+
+    if (!returnTrip) {
+      return { trip: null, error };
+    }
+
+    const { error: linkError } = await this.updateTrip(outboundTrip.id, {
+      paired_trip_id: returnTrip.id,
+      trip_leg: 'OUTBOUND',
+    });
+
+    if (linkError) {
+      // Without the link the return leg would match as an unrelated one-way trip
+      await this.deleteTrip(returnTrip.id);
+      return { trip: null, error: linkError };
+    }
+
+    return { trip: returnTrip, error: null };
+  },
+
+  // Cancel trip, as long as it has not started
   async cancelTrip(tripId: string): Promise<TripResponse> {
     try {
       const { data: trip, error } = await supabase
         .from('trips')
         .update({ status: 'CANCELLED' })
         .eq('id', tripId)
+        .in('status', TripStateMachine.UPCOMING_STATUSES)
         .select(`
           *,
-          user:users(id, name, email, rating_average, trips_completed)
+          user:users(id, name, email, rating_average, trips_completed, gender, age_years)
         `)
-        .single();
+        .maybeSingle();
 
       if (error) {
         return { trip: null, error: handleSupabaseError(error) };
       }
 
+      if (!trip) {
+        return { trip: null, error: 'Only trips that have not started can be cancelled' };
+      }
+
+      // Expire every match involving the trip, including accepted ones
+      matchGenerationService.scheduleMatchRefresh(trip as Trip);
+
       return { trip: trip as Trip, error: null };
     } catch (error) {
       return { trip: null, error: handleSupabaseError(error) };
@@ -307,7 +410,7 @@ export const tripService = {
         .from('trips')
         .select(`
           *,
-          user:users(id, name, email, rating_average, trips_completed)
+          user:users(id, name, email, rating_average, trips_completed, gender, age_years)
         `)
         .eq('user_id', userId);
 
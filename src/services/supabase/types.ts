@@ -92,6 +92,10 @@ export interface Database {
           gender_preference: 'same' | 'any'
           min_age: number | null
           max_age: number | null
+          matching_profile: 'balanced' | 'cheapest' | 'least_detour' | 'on_time' | 'custom'
+          custom_weights: Json | null
+          min_match_score: number
+          hard_filters: string[]
           email_notifications: boolean
           push_notifications: boolean
           sms_notifications: boolean
@@ -120,6 +124,10 @@ export interface Database {
           gender_preference?: 'same' | 'any'
           min_age?: number | null
           max_age?: number | null
+          matching_profile?: 'balanced' | 'cheapest' | 'least_detour' | 'on_time' | 'custom'
+          custom_weights?: Json | null
+          min_match_score?: number
+          hard_filters?: string[]
           email_notifications?: boolean
           push_notifications?: boolean
           sms_notifications?: boolean
@@ -148,6 +156,10 @@ export interface Database {
           gender_preference?: 'same' | 'any'
           min_age?: number | null
           max_age?: number | null
+          matching_profile?: 'balanced' | 'cheapest' | 'least_detour' | 'on_time' | 'custom'
+          custom_weights?: Json | null
+          min_match_score?: number
+          hard_filters?: string[]
           email_notifications?: boolean
           push_notifications?: boolean
           sms_notifications?: boolean
@@ -1,5 +1,5 @@
 import { supabase, handleSupabaseError } from './client';
-import type { UserPreferences } from '../../types';
+import type { UserPreferences, MatchingProfile, MatchingWeights, HardFilter } from '../../types';
 
 export interface CreateUserPreferencesData {
   user_id: string;
@@ -17,6 +17,10 @@ export interface CreateUserPreferencesData {
   gender_preference?: 'same' | 'any';
   min_age?: number;
   max_age?: number;
+  matching_profile?: MatchingProfile;
+  custom_weights?: MatchingWeights;
+  min_match_score?: number;
+  hard_filters?: HardFilter[];
   email_notifications?: boolean;
   push_notifications?: boolean;
   sms_notifications?: boolean;
@@ -58,6 +62,38 @@ export const userPreferencesService = {
     }
   },
 
+  /**
+   * Get preferences for several users, keyed by user ID. Users without stored
+   * preferences (or whose preferences are not visible) are left out.
+   */
+  async getPreferencesForUsers(
+    userIds: string[]
+  ): Promise<{ preferences: Record<string, UserPreferences>; error: string | null }> {
+    if (userIds.length === 0) {
+      return { preferences: {}, error: null };
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('*')
+        .in('user_id', userIds);
+
+      if (error) {
+        return { preferences: {}, error: handleSupabaseError(error) };
+      }
+
+      const preferences: Record<string, UserPreferences> = {};
+      for (const row of (data ?? []) as UserPreferences[]) {
+        preferences[row.user_id] = row;
+      }
+
+      return { preferences, error: null };
+    } catch (error) {
+      return { preferences: {}, error: handleSupabaseError(error) };
+    }
+  },
+
   /**
    * Create user preferences
    */
@@ -163,6 +199,9 @@ export const userPreferencesService = {
       music_preference: 'indifferent',
       conversation_level: 'indifferent',
       gender_preference: 'any',
+      matching_profile: 'balanced',
+      min_match_score: 0.3,
+      hard_filters: [],
       email_notifications: true,
       push_notifications: true,
       sms_notifications: false,
@@ -233,6 +272,10 @@ export const userPreferencesService = {
       gender_preference?: 'same' | 'any';
       min_age?: number;
       max_age?: number;
+      matching_profile?: MatchingProfile;
+      custom_weights?: MatchingWeights;
+      min_match_score?: number;
+      hard_filters?: HardFilter[];
     }
   ): Promise<{ success: boolean; error: string | null }> {
     try {
@@ -0,0 +1,178 @@
+import { supabase, handleSupabaseError } from './client';
+import { notificationService } from '../notifications/notificationService';
+import type { Trip, TripRequest } from '../../types';
+import type { CreateRequestData, RequestResponse } from './requests';
+
+export interface WaitlistPositionsResponse {
+  positions: Record<string, number>; // request id to place in line, from 1
+  error: string | null;
+}
+
+export interface WaitlistPromotionResult {
+  promoted: TripRequest[];
+  notified: number;
+  errors: string[];
+}
+
+const REQUEST_SELECT = `
+  *,
+  trip:trips(*),
+  sender:sender_id(id, name, email, avatar, rating_average, verification_level),
+  receiver:receiver_id(id, name, email, avatar, rating_average, verification_level)
+`;
+
+export const waitlistService = {
+  /**
+   * Join a full trip's waitlist. The entry stays until the trip departs or
+   * the rider is promoted into a freed seat.
+   */
+  async joinWaitlist(
+    data: CreateRequestData,
+    trip: Pick<Trip, 'departure_time' | 'destination'>
+  ): Promise<RequestResponse> {
+    try {
+      const { data: request, error } = await supabase
+        .from('trip_requests')
+        .insert([{ ...data, status: 'WAITLISTED', expires_at: trip.departure_time }])
+        .select(REQUEST_SELECT)
+        .single();
+
+      if (error) {
+        return { request: null, error: handleSupabaseError(error) };
+      }
+
+      const { error: notifyError } = await notificationService.createNotification({
+        user_id: data.sender_id,
+        type: 'trip_request',
+        title: "You're on the Waitlist",
+        message: `We'll let you know as soon as a seat opens up on the trip to ${trip.destination}`,
+        data: { request_id: request.id, trip_id: data.trip_id, status: 'WAITLISTED' },
+      });
+      if (notifyError) {
+        console.error('⚠️ Failed to create waitlist notification:', notifyError);
+      }
+
+      return { request: request as TripRequest, error: null };
+    } catch (error) {
+      return { request: null, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Where the signed-in user's waitlisted requests stand in line, both the
+   * ones they sent and the ones on their trips
+   */
+  async getWaitlistPositions(): Promise<WaitlistPositionsResponse> {
+    try {
+      const { data, error } = await supabase.rpc('get_waitlist_positions');
+
+      if (error) {
+        return { positions: {}, error: handleSupabaseError(error) };
+      }
+
+      const positions: Record<string, number> = {};
+      ((data ?? []) as { request_id: string; waitlist_position: number }[]).forEach(row => {
+        positions[row.request_id] = row.waitlist_position;
+      });
+
+      return { positions, error: null };
+    } catch (error) {
+      return { positions: {}, error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Move waitlisted riders into the trip's free seats and let them and the
+   * driver know. Safe to call whenever seats may have freed up; nothing moves
+   * when the trip has no room.
+   */
+  async promoteWaitlist(tripId: string): Promise<WaitlistPromotionResult & { error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('promote_waitlist', { p_trip_id: tripId });
+
+      if (error) {
+        return { promoted: [], notified: 0, errors: [], error: handleSupabaseError(error) };
+      }
+
+      const promoted = (data ?? []) as TripRequest[];
+      const { notified, errors } = promoted.length > 0
+        ? await this.notifyPromoted(tripId, promoted)
+        : { notified: 0, errors: [] };
+
+      return { promoted, notified, errors, error: null };
+    } catch (error) {
+      return { promoted: [], notified: 0, errors: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Expire promotions their drivers left unanswered and move the riders next
+   * in line into the freed seats. Limited to the signed-in user's trips unless
+   * it runs with the service role key.
+   */
+  async expirePromotions(): Promise<WaitlistPromotionResult & { error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('expire_waitlist_promotions');
+
+      if (error) {
+        return { promoted: [], notified: 0, errors: [], error: handleSupabaseError(error) };
+      }
+
+      const promoted = (data ?? []) as TripRequest[];
+      const byTrip = new Map<string, TripRequest[]>();
+      promoted.forEach(request => byTrip.set(request.trip_id, [...(byTrip.get(request.trip_id) ?? []), request]));
+
+      let notified = 0;
+      const errors: string[] = [];
+      for (const [tripId, requests] of byTrip) {
+        const result = await waitlistService.notifyPromoted(tripId, requests);
+        notified += result.notified;
+        errors.push(...result.errors);
+      }
+
+      return { promoted, notified, errors, error: null };
+    } catch (error) {
+      return { promoted: [], notified: 0, errors: [], error: handleSupabaseError(error) };
+    }
+  },
+
+  /**
+   * Tell promoted riders they moved up, and the driver which requests now
+   * need an answer
+   */
+  async notifyPromoted(tripId: string, promoted: TripRequest[]): Promise<Omit<WaitlistPromotionResult, 'promoted'>> {
+    const { data: trip } = await supabase.from('trips').select('destination').eq('id', tripId).single();
+    const tripRoute = (trip as Pick<Trip, 'destination'> | null)?.destination || 'your destination';
+
+    const notifications = await Promise.all(
+      promoted.flatMap(request => {
+        const accepted = request.status === 'ACCEPTED';
+
+        return [
+          notificationService.createWaitlistPromotedNotification(
+            request.sender_id,
+            tripId,
+            request.id,
+            tripRoute,
+            accepted
+          ),
+          notificationService.createNotification({
+            user_id: request.receiver_id,
+            type: 'trip_request',
+            title: accepted ? 'Waitlisted Rider Joined' : 'Waitlisted Request to Answer',
+            message: accepted
+              ? `A seat opened up on your trip to ${tripRoute} and the next rider on the waitlist took it`
+              : `A seat opened up on your trip to ${tripRoute}; the next rider on the waitlist is waiting for your answer`,
+            data: { request_id: request.id, trip_id: tripId, sender_id: request.sender_id, status: request.status },
+          }),
+        ];
+      })
+    );
+
+    const errors = notifications
+      .filter(notification => notification.error)
+      .map(notification => `Failed to notify about waitlist promotion on trip ${tripId}: ${notification.error}`);
+
+    return { notified: notifications.length - errors.length, errors };
+  },
+};
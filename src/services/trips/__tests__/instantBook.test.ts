@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { InstantBook } from '../instantBook';
+import type { InstantBookRider, InstantBookTrip } from '../instantBook';
+
+const trip = (overrides: Partial<InstantBookTrip> = {}): InstantBookTrip => ({
+  instant_book: true,
+  instant_book_min_rating: null,
+  instant_book_min_verification: null,
+  instant_book_min_trips: null,
+  ...overrides,
+});
+
+const rider = (overrides: Partial<InstantBookRider> = {}): InstantBookRider => ({
+  rating_average: 4.6,
+  rating_count: 12,
+  verification_level: 'phone',
+  trips_completed: 5,
+  ...overrides,
+});
+
+describe('InstantBook', () => {
+  it('should book any signed-in rider when the trip sets no minimums', () => {
+    expect(InstantBook.qualifies(trip(), rider({ rating_count: 0, trips_completed: 0 }))).toBe(true);
+    expect(InstantBook.qualifies(trip(), null)).toBe(false);
+    expect(InstantBook.qualifies(trip({ instant_book: false }), rider())).toBe(false);
+  });
+
+  it('should hold riders to the minimum rating, and not count unrated riders as meeting it', () => {
+    const rated = trip({ instant_book_min_rating: 4.5 });
+
+    expect(InstantBook.qualifies(rated, rider())).toBe(true);
+    expect(InstantBook.qualifies(rated, rider({ rating_average: 4.2 }))).toBe(false);
+    expect(InstantBook.qualifies(rated, rider({ rating_average: 5, rating_count: 0 }))).toBe(false);
+  });
+
+  it('should accept verification at or above the minimum level', () => {
+    const verified = trip({ instant_book_min_verification: 'identity' });
+
+    expect(InstantBook.qualifies(verified, rider({ verification_level: 'premium' }))).toBe(true);
+    expect(InstantBook.qualifies(verified, rider({ verification_level: 'identity' }))).toBe(true);
+    expect(InstantBook.qualifies(verified, rider())).toBe(false);
+  });
+
+  it('should require the minimum number of completed trips', () => {
+    expect(InstantBook.qualifies(trip({ instant_book_min_trips: 5 }), rider())).toBe(true);
+    expect(InstantBook.qualifies(trip({ instant_book_min_trips: 6 }), rider())).toBe(false);
+  });
+
+  it('should list the minimums a rider falls short of', () => {
+    const strict = trip({ instant_book_min_rating: 4.8, instant_book_min_verification: 'identity', instant_book_min_trips: 1 });
+
+    expect(InstantBook.requirements(strict)).toEqual([
+      'Rated 4.8 or higher',
+      'Identity verification or higher',
+      'At least 1 completed trip',
+    ]);
+    expect(InstantBook.unmet(strict, rider())).toEqual(['Rated 4.8 or higher', 'Identity verification or higher']);
+    expect(InstantBook.requirements(trip())).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { PassengerManifest } from '../passengerManifest';
+import type { ManifestSeats } from '../passengerManifest';
+
+describe('PassengerManifest', () => {
+  it('should only record boarding on a trip in progress', () => {
+    expect(PassengerManifest.validateTransition('IN_PROGRESS', 'CONFIRMED', 'BOARDED')).toBeNull();
+    expect(PassengerManifest.validateTransition('IN_PROGRESS', 'CONFIRMED', 'NO_SHOW')).toBeNull();
+    expect(PassengerManifest.validateTransition('IN_PROGRESS', 'NO_SHOW', 'BOARDED')).toBeNull();
+    expect(PassengerManifest.validateTransition('IN_PROGRESS', 'BOARDED', 'DROPPED_OFF')).toBeNull();
+
+    expect(PassengerManifest.validateTransition('IN_PROGRESS', 'CONFIRMED', 'DROPPED_OFF')).toBe(
+      'Cannot change a passenger from confirmed to dropped off'
+    );
+    expect(PassengerManifest.validateTransition('IN_PROGRESS', 'DROPPED_OFF', 'BOARDED')).not.toBeNull();
+    expect(PassengerManifest.validateTransition('ACTIVE', 'CONFIRMED', 'BOARDED')).toBe(
+      'Boarding can only be recorded while the trip is in progress'
+    );
+  });
+
+  it('should derive passengers and free seats from the manifest, leaving out no-shows', () => {
+    const entries: ManifestSeats[] = [
+      { seats: 2, status: 'BOARDED' },
+      { seats: 1, status: 'CONFIRMED' },
+      { seats: 1, status: 'NO_SHOW' },
+    ];
+
+    expect(PassengerManifest.seatsTaken(entries)).toBe(3);
+    expect(PassengerManifest.summarize({ max_passengers: 5 }, entries)).toEqual({
+      passengers: 4,
+      availableSeats: 1,
+      byStatus: { CONFIRMED: 1, BOARDED: 1, NO_SHOW: 1, DROPPED_OFF: 0 },
+    });
+
+    // Only the owner on an empty manifest
+    expect(PassengerManifest.summarize({ max_passengers: 4 }, []).availableSeats).toBe(3);
+  });
+
+  it('should stamp boarding and dropoff times', () => {
+    const now = new Date('2030-01-01T08:00:00.000Z');
+
+    expect(PassengerManifest.statusUpdate('BOARDED', now)).toEqual({ status: 'BOARDED', boarded_at: now.toISOString() });
+    expect(PassengerManifest.statusUpdate('DROPPED_OFF', now)).toEqual({
+      status: 'DROPPED_OFF',
+      dropped_off_at: now.toISOString(),
+    });
+    expect(PassengerManifest.statusUpdate('NO_SHOW', now)).toEqual({ status: 'NO_SHOW' });
+  });
+});
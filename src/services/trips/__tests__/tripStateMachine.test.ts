@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { TripStateMachine } from '../tripStateMachine';
+import { createMockTrip } from '../../../test/utils';
+import type { LifecycleTrip } from '../tripStateMachine';
+
+const trip = (overrides: Partial<LifecycleTrip> = {}): LifecycleTrip =>
+  createMockTrip('trip', { estimated_duration: 40, ...overrides });
+
+const at = (time: string) => new Date(`2030-01-01T${time}:00.000Z`);
+
+describe('TripStateMachine', () => {
+  it('should only cancel trips that have not started and never reopen finished ones', () => {
+    expect(TripStateMachine.canTransition('ACTIVE', 'MATCHED')).toBe(true);
+    expect(TripStateMachine.canTransition('MATCHED', 'ACTIVE')).toBe(true);
+    expect(TripStateMachine.canTransition('MATCHED', 'IN_PROGRESS')).toBe(true);
+    expect(TripStateMachine.canTransition('IN_PROGRESS', 'COMPLETED')).toBe(true);
+
+    expect(TripStateMachine.validateTransition('IN_PROGRESS', 'CANCELLED')).toBe(
+      'A trip that has started cannot be cancelled'
+    );
+    expect(TripStateMachine.validateTransition('ACTIVE', 'COMPLETED')).toBe('Cannot change a trip from active to completed');
+    expect(TripStateMachine.validateTransition('COMPLETED', 'ACTIVE')).not.toBeNull();
+    expect(TripStateMachine.validateTransition('CANCELLED', 'IN_PROGRESS')).not.toBeNull();
+  });
+
+  it('should start trips at departure and complete them after the estimated arrival', () => {
+    expect(TripStateMachine.dueStatus(trip(), at('07:59'))).toBeNull();
+    expect(TripStateMachine.dueStatus(trip(), at('08:00'))).toBe('IN_PROGRESS');
+    expect(TripStateMachine.dueStatus(trip({ status: 'MATCHED' }), at('08:05'))).toBe('IN_PROGRESS');
+
+    // 40 minutes of riding plus the grace period
+    expect(TripStateMachine.dueStatus(trip({ status: 'IN_PROGRESS' }), at('09:09'))).toBeNull();
+    expect(TripStateMachine.dueStatus(trip({ status: 'IN_PROGRESS' }), at('09:10'))).toBe('COMPLETED');
+
+    // A trip nobody started by then completes straight away, through IN_PROGRESS
+    expect(TripStateMachine.dueStatus(trip(), at('10:00'))).toBe('COMPLETED');
+    expect(TripStateMachine.path('ACTIVE', 'COMPLETED')).toEqual(['IN_PROGRESS', 'COMPLETED']);
+
+    expect(TripStateMachine.dueStatus(trip({ status: 'CANCELLED' }), at('10:00'))).toBeNull();
+    expect(TripStateMachine.dueStatus(trip({ status: 'COMPLETED' }), at('10:00'))).toBeNull();
+  });
+
+  it('should let owners start a trip shortly before departure and complete it only once under way', () => {
+    expect(TripStateMachine.validateTiming(trip(), 'IN_PROGRESS', at('07:29'))).toBe(
+      'A trip can start at most 30 minutes before its departure'
+    );
+    expect(TripStateMachine.validateTiming(trip(), 'IN_PROGRESS', at('07:30'))).toBeNull();
+
+    expect(TripStateMachine.validateTiming(trip(), 'COMPLETED', at('08:09'))).toBe(
+      'A trip can complete 10 minutes after its departure at the earliest'
+    );
+    expect(TripStateMachine.validateTiming(trip(), 'COMPLETED', at('08:10'))).toBeNull();
+    expect(TripStateMachine.validateTiming(trip(), 'CANCELLED', at('07:00'))).toBeNull();
+  });
+
+  it('should estimate arrival from the recorded arrival, the duration or the distance', () => {
+    expect(TripStateMachine.estimatedArrival(trip({ arrival_time: '2030-01-01T08:20:00.000Z' }))).toEqual(at('08:20'));
+    expect(TripStateMachine.estimatedArrival(trip())).toEqual(at('08:40'));
+
+    // About 11 km apart at 2 minutes per km
+    const minutes =
+      (TripStateMachine.estimatedArrival(trip({ estimated_duration: undefined })).getTime() - at('08:00').getTime()) /
+      60000;
+    expect(minutes).toBeGreaterThan(20);
+    expect(minutes).toBeLessThan(25);
+  });
+
+  it('should stamp the arrival time on completion', () => {
+    const now = at('09:00');
+
+    expect(TripStateMachine.statusUpdate('IN_PROGRESS', now)).toEqual({ status: 'IN_PROGRESS' });
+    expect(TripStateMachine.statusUpdate('COMPLETED', now)).toEqual({
+      status: 'COMPLETED',
+      arrival_time: now.toISOString(),
+    });
+  });
+});
@@ -0,0 +1,9 @@
+export { TripStateMachine } from './tripStateMachine';
+export { PassengerManifest } from './passengerManifest';
+export { SeatReservation } from './seatReservation';
+export { InstantBook } from './instantBook';
+
+export type { LifecycleTrip } from './tripStateMachine';
+export type { ManifestSeats, ManifestSummary } from './passengerManifest';
+export type { ReservationErrorCode } from './seatReservation';
+export type { InstantBookRider, InstantBookTrip } from './instantBook';
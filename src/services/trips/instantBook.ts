@@ -0,0 +1,75 @@
+import type { Trip, User, VerificationLevel } from '../../types';
+
+export type InstantBookTrip = Pick<
+  Trip,
+  'instant_book' | 'instant_book_min_rating' | 'instant_book_min_verification' | 'instant_book_min_trips'
+>;
+
+export type InstantBookRider = Pick<User, 'rating_average' | 'rating_count' | 'verification_level' | 'trips_completed'>;
+
+/**
+ * Trips with instant book accept a rider's request as soon as it is sent,
+ * provided the rider meets each minimum the driver set: a rating, a
+ * verification level and a number of completed trips. Riders without any
+ * ratings do not meet a minimum rating. Everyone else sends a normal request
+ * for the driver to answer. The same rules are applied by
+ * `qualifies_for_instant_book` in the database schema.
+ */
+export class InstantBook {
+  static readonly VERIFICATION_ORDER: VerificationLevel[] = ['basic', 'phone', 'identity', 'premium'];
+
+  static qualifies(trip: InstantBookTrip, rider: InstantBookRider | null | undefined): boolean {
+    return Boolean(trip.instant_book) && Boolean(rider) && this.unmet(trip, rider).length === 0;
+  }
+
+  /**
+   * The trip's minimums the rider falls short of, as shown to them
+   */
+  static unmet(trip: InstantBookTrip, rider: InstantBookRider): string[] {
+    const unmet: string[] = [];
+
+    if (trip.instant_book_min_rating != null) {
+      const rated = (rider.rating_count ?? 0) > 0;
+      if (!rated || rider.rating_average < trip.instant_book_min_rating) {
+        unmet.push(this.describeRating(trip.instant_book_min_rating));
+      }
+    }
+
+    if (
+      trip.instant_book_min_verification &&
+      this.VERIFICATION_ORDER.indexOf(rider.verification_level) <
+        this.VERIFICATION_ORDER.indexOf(trip.instant_book_min_verification)
+    ) {
+      unmet.push(this.describeVerification(trip.instant_book_min_verification));
+    }
+
+    if (trip.instant_book_min_trips != null && (rider.trips_completed ?? 0) < trip.instant_book_min_trips) {
+      unmet.push(this.describeTrips(trip.instant_book_min_trips));
+    }
+
+    return unmet;
+  }
+
+  /**
+   * Every minimum the trip sets, for riders browsing it
+   */
+  static requirements(trip: InstantBookTrip): string[] {
+    return [
+      trip.instant_book_min_rating != null && this.describeRating(trip.instant_book_min_rating),
+      trip.instant_book_min_verification && this.describeVerification(trip.instant_book_min_verification),
+      trip.instant_book_min_trips != null && this.describeTrips(trip.instant_book_min_trips),
+    ].filter((requirement): requirement is string => Boolean(requirement));
+  }
+
+  private static describeRating(minRating: number): string {
+    return `Rated ${minRating} or higher`;
+  }
+
+  private static describeVerification(level: VerificationLevel): string {
+    return `${level.charAt(0).toUpperCase()}${level.slice(1)} verification or higher`;
+  }
+
+  private static describeTrips(minTrips: number): string {
+    return `At least ${minTrips} completed ${minTrips === 1 ? 'trip' : 'trips'}`;
+  }
+}
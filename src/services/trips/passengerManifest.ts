@@ -0,0 +1,87 @@
+import type { BoardingStatus, ManifestEntry, Trip, TripStatus } from '../../types';
+
+export type ManifestSeats = Pick<ManifestEntry, 'seats' | 'status'>;
+
+export interface ManifestSummary {
+  passengers: number; // the owner and everyone holding a seat
+  availableSeats: number;
+  byStatus: Record<BoardingStatus, number>; // manifest entries per status
+}
+
+/**
+ * Who is on a trip. Each accepted request puts a CONFIRMED passenger on the
+ * manifest; once the trip is under way the driver marks them BOARDED or as a
+ * NO_SHOW, and a boarded passenger is DROPPED_OFF at the end. A no-show who
+ * turns up late can still board. No-shows give up their seats. The same
+ * rules are enforced by `validate_boarding_status_transition` in the
+ * database schema, which also derives the trip's passenger count from the
+ * manifest.
+ */
+export class PassengerManifest {
+  static readonly TRANSITIONS: Record<BoardingStatus, BoardingStatus[]> = {
+    CONFIRMED: ['BOARDED', 'NO_SHOW'],
+    BOARDED: ['DROPPED_OFF'],
+    NO_SHOW: ['BOARDED'],
+    DROPPED_OFF: [],
+  };
+
+  static canTransition(from: BoardingStatus, to: BoardingStatus): boolean {
+    return from === to || this.TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Error message for a boarding change, or null when it is allowed.
+   * Boarding is only recorded while the trip is in progress.
+   */
+  static validateTransition(tripStatus: TripStatus, from: BoardingStatus, to: BoardingStatus): string | null {
+    if (tripStatus !== 'IN_PROGRESS') {
+      return 'Boarding can only be recorded while the trip is in progress';
+    }
+
+    if (this.canTransition(from, to)) return null;
+
+    return `Cannot change a passenger from ${this.label(from)} to ${this.label(to)}`;
+  }
+
+  /**
+   * Seats held by passengers on the manifest, leaving out no-shows
+   */
+  static seatsTaken(entries: ManifestSeats[]): number {
+    return entries.filter(entry => entry.status !== 'NO_SHOW').reduce((sum, entry) => sum + entry.seats, 0);
+  }
+
+  /**
+   * The trip's passenger count and free seats as the manifest has them,
+   * counting the owner as one passenger
+   */
+  static summarize(trip: Pick<Trip, 'max_passengers'>, entries: ManifestSeats[]): ManifestSummary {
+    const passengers = 1 + this.seatsTaken(entries);
+    const byStatus: Record<BoardingStatus, number> = { CONFIRMED: 0, BOARDED: 0, NO_SHOW: 0, DROPPED_OFF: 0 };
+    entries.forEach(entry => {
+      byStatus[entry.status]++;
+    });
+
+    return { passengers, availableSeats: Math.max(0, trip.max_passengers - passengers), byStatus };
+  }
+
+  /**
+   * Columns to write alongside a boarding change
+   */
+  static statusUpdate(
+    to: BoardingStatus,
+    now: Date = new Date()
+  ): Pick<ManifestEntry, 'status' | 'boarded_at' | 'dropped_off_at'> {
+    switch (to) {
+      case 'BOARDED':
+        return { status: to, boarded_at: now.toISOString() };
+      case 'DROPPED_OFF':
+        return { status: to, dropped_off_at: now.toISOString() };
+      default:
+        return { status: to };
+    }
+  }
+
+  private static label(status: BoardingStatus): string {
+    return status.toLowerCase().replace('_', ' ');
+  }
+}
@@ -0,0 +1,37 @@
+export type ReservationErrorCode =
+  | 'TRIP_FULL'
+  | 'LUGGAGE_FULL'
+  | 'TRIP_NOT_OPEN'
+  | 'REQUEST_CHANGED'
+  | 'REQUEST_NOT_FOUND'
+  | 'NOT_TRIP_OWNER'
+  | 'NOT_INSTANT_BOOKABLE';
+
+/**
+ * Messages for the errors raised by the `accept_trip_request` database
+ * function. The function locks the trip row, checks its seats and luggage
+ * space and accepts the request in one transaction, so two accepts racing
+ * for the last seat cannot both get it.
+ */
+export class SeatReservation {
+  static readonly MESSAGES: Record<ReservationErrorCode, string> = {
+    TRIP_FULL: 'This trip is full',
+    LUGGAGE_FULL: 'Not enough luggage space left on this trip',
+    TRIP_NOT_OPEN: 'This trip is no longer taking riders',
+    REQUEST_CHANGED: 'This request was already answered, please reload it',
+    REQUEST_NOT_FOUND: 'Request not found',
+    NOT_TRIP_OWNER: 'Only the trip owner can accept requests',
+    NOT_INSTANT_BOOKABLE: 'This trip needs the driver to accept your request',
+  };
+
+  /**
+   * The user-facing message for an error raised by `accept_trip_request`;
+   * anything else keeps its own message
+   */
+  static errorMessage(error: { message?: string } | null | undefined): string {
+    const message = error?.message ?? '';
+    const code = (Object.keys(this.MESSAGES) as ReservationErrorCode[]).find(key => message.includes(key));
+
+    return code ? this.MESSAGES[code] : message || 'Failed to accept request';
+  }
+}
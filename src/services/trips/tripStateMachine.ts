@@ -0,0 +1,138 @@
+import { haversineDistance } from '../routing';
+import type { Trip, TripStatus } from '../../types';
+
+export type LifecycleTrip = Pick<
+  Trip,
+  'status' | 'departure_time' | 'arrival_time' | 'estimated_duration' | 'origin_location' | 'destination_location'
+>;
+
+/**
+ * Lifecycle of a trip. A trip takes riders while ACTIVE, and is MATCHED
+ * while full; it goes back to ACTIVE when a seat frees up. It starts at
+ * departure and completes after its estimated arrival. Owners can start it a
+ * little early, but cannot complete it until it has been under way for a
+ * while. Only a trip that has not started can be cancelled; COMPLETED and
+ * CANCELLED are final. The same rules are enforced by
+ * `validate_trip_status_transition` in the database schema.
+ */
+export class TripStateMachine {
+  static readonly TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+    ACTIVE: ['MATCHED', 'IN_PROGRESS', 'CANCELLED'],
+    MATCHED: ['ACTIVE', 'IN_PROGRESS', 'CANCELLED'],
+    IN_PROGRESS: ['COMPLETED'],
+    COMPLETED: [],
+    CANCELLED: [],
+  };
+
+  // Trips that have not started yet; these take riders and can be cancelled
+  static readonly UPCOMING_STATUSES: TripStatus[] = ['ACTIVE', 'MATCHED'];
+
+  // Minutes after the estimated arrival before a trip completes on its own
+  static readonly COMPLETION_GRACE_MINUTES = 30;
+
+  // How early before departure an owner can start a trip
+  static readonly START_EARLY_MINUTES = 30;
+
+  // Minutes after departure before a trip can complete
+  static readonly MIN_RIDE_MINUTES = 10;
+
+  // Rough ride time when a trip has no duration or arrival, as in matching
+  private static readonly MINUTES_PER_KM = 2;
+
+  static canTransition(from: TripStatus, to: TripStatus): boolean {
+    return from === to || this.TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Error message for an invalid transition, or null when it is allowed
+   */
+  static validateTransition(from: TripStatus, to: TripStatus): string | null {
+    if (this.canTransition(from, to)) return null;
+
+    if (to === 'CANCELLED') {
+      return from === 'IN_PROGRESS' ? 'A trip that has started cannot be cancelled' : `This trip is already ${from.toLowerCase()}`;
+    }
+
+    return `Cannot change a trip from ${this.label(from)} to ${this.label(to)}`;
+  }
+
+  /**
+   * Error message when it is too early to move the trip to `to`, or null
+   * when the time is right
+   */
+  static validateTiming(trip: Pick<Trip, 'departure_time'>, to: TripStatus, now: Date = new Date()): string | null {
+    const departure = new Date(trip.departure_time).getTime();
+
+    if (to === 'IN_PROGRESS' && now.getTime() < departure - this.START_EARLY_MINUTES * 60 * 1000) {
+      return `A trip can start at most ${this.START_EARLY_MINUTES} minutes before its departure`;
+    }
+
+    if (to === 'COMPLETED' && now.getTime() < departure + this.MIN_RIDE_MINUTES * 60 * 1000) {
+      return `A trip can complete ${this.MIN_RIDE_MINUTES} minutes after its departure at the earliest`;
+    }
+
+    return null;
+  }
+
+  static isUpcoming(status: TripStatus): boolean {
+    return this.UPCOMING_STATUSES.includes(status);
+  }
+
+  /**
+   * When the trip is expected to arrive: its recorded arrival time, or its
+   * departure plus the estimated (or else straight-line) ride time
+   */
+  static estimatedArrival(trip: LifecycleTrip): Date {
+    if (trip.arrival_time) return new Date(trip.arrival_time);
+
+    const rideMinutes =
+      trip.estimated_duration ??
+      (haversineDistance(trip.origin_location.coordinates, trip.destination_location.coordinates) / 1000) *
+        this.MINUTES_PER_KM;
+
+    return new Date(new Date(trip.departure_time).getTime() + rideMinutes * 60 * 1000);
+  }
+
+  /**
+   * The status a trip should be in by `now`: upcoming trips start at
+   * departure, and trips complete once the grace period after their estimated
+   * arrival has passed. Null when the trip is where it should be.
+   */
+  static dueStatus(trip: LifecycleTrip, now: Date = new Date()): TripStatus | null {
+    const completesAt = this.estimatedArrival(trip).getTime() + this.COMPLETION_GRACE_MINUTES * 60 * 1000;
+
+    if (trip.status === 'IN_PROGRESS') {
+      return now.getTime() >= completesAt ? 'COMPLETED' : null;
+    }
+
+    if (this.isUpcoming(trip.status) && now.getTime() >= new Date(trip.departure_time).getTime()) {
+      return now.getTime() >= completesAt ? 'COMPLETED' : 'IN_PROGRESS';
+    }
+
+    return null;
+  }
+
+  /**
+   * Statuses a trip passes through from `from` to `to`, e.g. a trip that
+   * was never seen in progress starts before it completes. Empty when `to`
+   * cannot be reached.
+   */
+  static path(from: TripStatus, to: TripStatus): TripStatus[] {
+    if (from === to) return [];
+    if (this.TRANSITIONS[from].includes(to)) return [to];
+    if (to === 'COMPLETED' && this.isUpcoming(from)) return ['IN_PROGRESS', 'COMPLETED'];
+
+    return [];
+  }
+
+  /**
+   * Columns to write alongside a status change
+   */
+  static statusUpdate(to: TripStatus, now: Date = new Date()): Pick<Trip, 'status' | 'arrival_time'> {
+    return to === 'COMPLETED' ? { status: to, arrival_time: now.toISOString() } : { status: to };
+  }
+
+  private static label(status: TripStatus): string {
+    return status.toLowerCase().replace('_', ' ');
+  }
+}
@@ -1,16 +1,18 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { matchService, userPreferencesService } from '../services/supabase';
+import { matchService, userPreferencesService, tripSearchService, tripSeriesService } from '../services/supabase';
 import { MatchingAlgorithm } from '../services/matching';
 import type { TripMatch, Trip, UserPreferences } from '../types';
 import type { MatchFilters } from '../services/supabase/matches';
 import type { CompatibilityAnalysis } from '../services/matching/matchingAlgorithm';
+import type { SeriesMatch } from '../services/matching/seriesMatcher';
 
 interface MatchState {
   // Match data
   matches: TripMatch[];
   currentMatch: TripMatch | null;
   compatibilityResults: CompatibilityAnalysis[];
+  seriesMatches: SeriesMatch[];
   
   // UI state
   isLoading: boolean;
@@ -40,8 +42,10 @@ interface MatchActions {
   updateMatchStatus: (matchId: string, status: string) => Promise<{ success: boolean; error?: string }>;
   
   // Matching algorithm
-  findCompatibleTrips: (sourceTrip: Trip, availableTrips: Trip[]) => Promise<CompatibilityAnalysis[]>;
+  findCompatibleTrips: (sourceTrip: Trip, availableTrips?: Trip[]) => Promise<CompatibilityAnalysis[]>;
   analyzeCompatibility: (sourceTrip: Trip, candidateTrip: Trip) => Promise<CompatibilityAnalysis>;
+  findSeriesMatches: (seriesId: string) => Promise<SeriesMatch[]>;
+  joinSeries: (userId: string, match: SeriesMatch, seats?: number) => Promise<{ success: boolean; requested: number; error?: string }>;
   
   // User preferences
   getUserPreferences: (userId: string) => Promise<void>;
@@ -72,6 +76,7 @@ const initialState: MatchState = {
   matches: [],
   currentMatch: null,
   compatibilityResults: [],
+  seriesMatches: [],
   isLoading: false,
   isAnalyzing: false,
   error: null,
@@ -201,14 +206,39 @@ export const useMatchStore = create<MatchStore>()(
       },
 
       // Find compatible trips using the matching algorithm
-      findCompatibleTrips: async (sourceTrip: Trip, availableTrips: Trip[]) => {
+      // Without a list of trips, candidates are searched around the source trip
+      findCompatibleTrips: async (sourceTrip: Trip, availableTrips?: Trip[]) => {
         set({ isAnalyzing: true, error: null });
         
         try {
           const { userPreferences } = get();
+          let candidates = availableTrips;
+
+          if (!candidates) {
+            const radius = userPreferences?.max_detour_distance ?? 10;
+            // Time compatibility drops to zero at four times the flexibility
+            const window = (userPreferences?.time_flexibility ?? 15) * 4 * 60 * 1000;
+            const departure = new Date(sourceTrip.departure_time).getTime();
+            const { trips, error } = await tripSearchService.searchTrips({
+              origin: { coordinates: sourceTrip.origin_location.coordinates, radius },
+              destination: { coordinates: sourceTrip.destination_location.coordinates, radius },
+              departureFrom: new Date(departure - window).toISOString(),
+              departureTo: new Date(departure + window).toISOString(),
+              excludeUserId: sourceTrip.user_id,
+              minSeats: 1,
+            });
+
+            if (error) {
+              set({ error, isAnalyzing: false });
+              return [];
+            }
+
+            candidates = trips;
+          }
+
           const results = await MatchingAlgorithm.findCompatibleTrips(
             sourceTrip,
-            availableTrips,
+            candidates,
             userPreferences || undefined
           );
           
@@ -245,6 +275,46 @@ export const useMatchStore = create<MatchStore>()(
         }
       },
 
+      // Find other recurring trips that cover most occurrences of a series
+      findSeriesMatches: async (seriesId: string) => {
+        set({ isAnalyzing: true, error: null });
+        
+        try {
+          const { matches, error } = await tripSeriesService.findSeriesMatches(seriesId);
+          
+          if (error) {
+            set({ error, isAnalyzing: false });
+            return [];
+          }
+          
+          set({ seriesMatches: matches, isAnalyzing: false, error: null });
+          return matches;
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to find matching series';
+          set({ error, isAnalyzing: false });
+          return [];
+        }
+      },
+
+      // Request a seat on every matched occurrence of a series
+      joinSeries: async (userId: string, match: SeriesMatch, seats = 1) => {
+        try {
+          const { requested, errors } = await tripSeriesService.joinSeries(userId, match, seats);
+          
+          if (requested === 0) {
+            return { success: false, requested, error: errors[0] || 'Failed to request rides' };
+          }
+          
+          set((state) => ({
+            seriesMatches: state.seriesMatches.filter(m => m.seriesId !== match.seriesId),
+          }));
+          return { success: true, requested, error: errors[0] };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to request rides';
+          return { success: false, requested: 0, error };
+        }
+      },
+
       // Get user preferences
       getUserPreferences: async (userId: string) => {
         try {
@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { requestService } from '../services/supabase/requests';
-import type { TripRequest } from '../types';
+import { waitlistService } from '../services/supabase/waitlist';
+import type { Trip, TripRequest } from '../types';
 import type { CreateRequestData, UpdateRequestData, RequestFilters } from '../services/supabase/requests';
 
 interface RequestState {
@@ -10,6 +11,7 @@ interface RequestState {
   sentRequests: TripRequest[];
   receivedRequests: TripRequest[];
   currentRequest: TripRequest | null;
+  waitlistPositions: Record<string, number>; // request id to place in its trip's waitlist
   
   // UI state
   isLoading: boolean;
@@ -33,6 +35,7 @@ interface RequestState {
 interface RequestActions {
   // Request operations
   createRequest: (data: CreateRequestData) => Promise<TripRequest | null>;
+  joinWaitlist: (data: CreateRequestData, trip: Pick<Trip, 'departure_time' | 'destination'>) => Promise<TripRequest | null>;
   updateRequest: (requestId: string, data: UpdateRequestData) => Promise<TripRequest | null>;
   deleteRequest: (requestId: string) => Promise<boolean>;
   
@@ -65,6 +68,7 @@ const initialState: RequestState = {
   sentRequests: [],
   receivedRequests: [],
   currentRequest: null,
+  waitlistPositions: {},
   isLoading: false,
   isSending: false,
   error: null,
@@ -110,6 +114,32 @@ export const useRequestStore = create<RequestStore>()(
         }
       },
 
+      joinWaitlist: async (data: CreateRequestData, trip: Pick<Trip, 'departure_time' | 'destination'>) => {
+        set({ isSending: true, error: null });
+
+        try {
+          const { request, error } = await waitlistService.joinWaitlist(data, trip);
+
+          if (error) {
+            set({ error, isSending: false });
+            return null;
+          }
+
+          set(state => ({
+            requests: [request, ...state.requests],
+            sentRequests: [request, ...state.sentRequests],
+            isSending: false,
+            error: null,
+          }));
+
+          return request;
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to join the waitlist';
+          set({ error, isSending: false });
+          return null;
+        }
+      },
+
       updateRequest: async (requestId: string, data: UpdateRequestData) => {
         set({ isLoading: true, error: null });
         
@@ -253,11 +283,17 @@ export const useRequestStore = create<RequestStore>()(
           // Separate sent and received requests
           const sentRequests = requests.filter(r => r.sender_id === userId);
           const receivedRequests = requests.filter(r => r.receiver_id === userId);
+
+          // Places in line; the requests still show if these fail to load
+          const { positions: waitlistPositions } = requests.some(r => r.status === 'WAITLISTED')
+            ? await waitlistService.getWaitlistPositions()
+            : { positions: {} };
           
           set({
             requests,
             sentRequests,
             receivedRequests,
+            waitlistPositions,
             pagination: {
               total,
               offset: requests.length,
@@ -1,14 +1,17 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { tripService } from '../services/supabase';
-import type { Trip } from '../types';
+import { tripService, tripSeriesService, tripLifecycleService } from '../services/supabase';
+import type { Trip, TripSeries } from '../types';
 import type { CreateTripData } from '../services/supabase/trips';
+import type { CreateTripSeriesData } from '../services/supabase/tripSeries';
+import type { SearchArea } from '../services/supabase/tripSearch';
 import type { TripFilterFormData } from '../utils/validations';
 
 interface TripState {
   // Trip data
   trips: Trip[];
   userTrips: Trip[];
+  userSeries: TripSeries[];
   currentTrip: Trip | null;
   
   // UI state
@@ -34,11 +37,22 @@ interface TripActions {
   updateTrip: (tripId: string, updates: Partial<CreateTripData>) => Promise<{ success: boolean; error?: string }>;
   cancelTrip: (tripId: string) => Promise<{ success: boolean; error?: string }>;
   deleteTrip: (tripId: string) => Promise<{ success: boolean; error?: string }>;
+  createReturnTrip: (outboundTrip: Trip, departureTime: string) => Promise<{ success: boolean; trip?: Trip; error?: string }>;
+  
+  // Trip lifecycle
+  startTrip: (trip: Trip) => Promise<{ success: boolean; error?: string }>;
+  completeTrip: (trip: Trip) => Promise<{ success: boolean; error?: string }>;
+  
+  // Recurring trips
+  createTripSeries: (userId: string, data: CreateTripSeriesData) => Promise<{ success: boolean; series?: TripSeries; error?: string }>;
+  getUserSeries: (userId: string) => Promise<void>;
+  cancelSeries: (seriesId: string) => Promise<{ success: boolean; error?: string }>;
+  skipOccurrence: (trip: Trip) => Promise<{ success: boolean; error?: string }>;
   
   // Trip listing and search
   getTrips: (filters?: TripFilterFormData, page?: number) => Promise<void>;
   getUserTrips: (userId: string, status?: string) => Promise<void>;
-  searchTripsByLocation: (origin?: string, destination?: string) => Promise<void>;
+  searchTripsByLocation: (origin?: SearchArea, destination?: SearchArea) => Promise<void>;
   
   // Filters and pagination
   setFilters: (filters: TripFilterFormData) => void;
@@ -63,6 +77,7 @@ type TripStore = TripState & TripActions;
 const initialState: TripState = {
   trips: [],
   userTrips: [],
+  userSeries: [],
   currentTrip: null,
   isLoading: false,
   error: null,
@@ -221,6 +236,205 @@ export const useTripStore = create<TripStore>()(
         }
       },
 
+      createReturnTrip: async (outboundTrip: Trip, departureTime: string) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { trip, error } = await tripService.createReturnTrip(outboundTrip, departureTime);
+          
+          if (error || !trip) {
+            set({ error, isLoading: false });
+            return { success: false, error: error || 'Failed to create return trip' };
+          }
+          
+          const linkOutbound = (t: Trip): Trip =>
+            t.id === outboundTrip.id ? { ...t, paired_trip_id: trip.id, trip_leg: 'OUTBOUND' } : t;
+          
+          set((state) => ({
+            trips: [trip, ...state.trips.map(linkOutbound)],
+            userTrips: [trip, ...state.userTrips.map(linkOutbound)],
+            currentTrip: state.currentTrip ? linkOutbound(state.currentTrip) : state.currentTrip,
+            isLoading: false,
+            error: null,
+          }));
+          
+          return { success: true, trip };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to create return trip';
+          set({ error, isLoading: false });
+          return { success: false, error };
+        }
+      },
+
+      // Trip lifecycle
+      startTrip: async (trip: Trip) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { trip: started, error } = await tripLifecycleService.startTrip(trip);
+          
+          if (error || !started) {
+            set({ error, isLoading: false });
+            return { success: false, error: error || 'Failed to start trip' };
+          }
+          
+          set((state) => ({
+            trips: state.trips.map(t => t.id === trip.id ? started : t),
+            userTrips: state.userTrips.map(t => t.id === trip.id ? started : t),
+            currentTrip: state.currentTrip?.id === trip.id ? started : state.currentTrip,
+            isLoading: false,
+            error: null,
+          }));
+          
+          return { success: true };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to start trip';
+          set({ error, isLoading: false });
+          return { success: false, error };
+        }
+      },
+
+      completeTrip: async (trip: Trip) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { trip: completed, error, notifyErrors } = await tripLifecycleService.completeTrip(trip);
+          
+          if (error || !completed) {
+            set({ error, isLoading: false });
+            return { success: false, error: error || 'Failed to complete trip' };
+          }
+          
+          // The trip is completed either way; riders can still review it without the reminder
+          if (notifyErrors.length > 0) {
+            console.error(`Completion notifications for trip ${trip.id} failed:`, notifyErrors);
+          }
+          
+          set((state) => ({
+            trips: state.trips.map(t => t.id === trip.id ? completed : t),
+            userTrips: state.userTrips.map(t => t.id === trip.id ? completed : t),
+            currentTrip: state.currentTrip?.id === trip.id ? completed : state.currentTrip,
+            isLoading: false,
+            error: null,
+          }));
+          
+          return { success: true };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to complete trip';
+          set({ error, isLoading: false });
+          return { success: false, error };
+        }
+      },
+
+      // Recurring trips
+      createTripSeries: async (userId: string, data: CreateTripSeriesData) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { series, trips, error } = await tripSeriesService.createSeries(userId, data);
+          
+          if (!series) {
+            set({ error, isLoading: false });
+            return { success: false, error: error || 'Failed to create recurring trip' };
+          }
+          
+          // Occurrences that failed to materialize are retried by the next materialization run
+          set((state) => ({
+            userSeries: [series, ...state.userSeries],
+            trips: [...trips, ...state.trips],
+            userTrips: [...trips, ...state.userTrips],
+            isLoading: false,
+            error,
+          }));
+          
+          return { success: true, series };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to create recurring trip';
+          set({ error, isLoading: false });
+          return { success: false, error };
+        }
+      },
+
+      getUserSeries: async (userId: string) => {
+        try {
+          const { series, error } = await tripSeriesService.getUserSeries(userId);
+          
+          if (error) {
+            set({ error });
+            return;
+          }
+          
+          set({ userSeries: series });
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to get recurring trips';
+          set({ error });
+        }
+      },
+
+      cancelSeries: async (seriesId: string) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { success, error } = await tripSeriesService.cancelSeries(seriesId);
+          
+          if (!success) {
+            set({ error, isLoading: false });
+            return { success: false, error: error || 'Failed to cancel recurring trip' };
+          }
+          
+          const now = Date.now();
+          const cancelOccurrence = (trip: Trip): Trip =>
+            trip.series_id === seriesId && trip.status === 'ACTIVE' && new Date(trip.departure_time).getTime() >= now
+              ? { ...trip, status: 'CANCELLED' }
+              : trip;
+          
+          set((state) => ({
+            userSeries: state.userSeries.map(s => s.id === seriesId ? { ...s, status: 'CANCELLED' } : s),
+            trips: state.trips.map(cancelOccurrence),
+            userTrips: state.userTrips.map(cancelOccurrence),
+            isLoading: false,
+            error: null,
+          }));
+          
+          return { success: true };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to cancel recurring trip';
+          set({ error, isLoading: false });
+          return { success: false, error };
+        }
+      },
+
+      skipOccurrence: async (occurrence: Trip) => {
+        set({ isLoading: true, error: null });
+        
+        try {
+          const { trip, error } = await tripSeriesService.skipOccurrence(occurrence);
+          
+          if (error || !trip) {
+            set({ error, isLoading: false });
+            return { success: false, error: error || 'Failed to skip trip' };
+          }
+          
+          set((state) => ({
+            userSeries: state.userSeries.map(s =>
+              s.id === trip.series_id && trip.occurrence_date && !s.excluded_dates.includes(trip.occurrence_date)
+                ? { ...s, excluded_dates: [...s.excluded_dates, trip.occurrence_date] }
+                : s
+            ),
+            trips: state.trips.map(t => t.id === trip.id ? trip : t),
+            userTrips: state.userTrips.map(t => t.id === trip.id ? trip : t),
+            isLoading: false,
+            error: null,
+          }));
+          
+          return { success: true };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to skip trip';
+          set({ error, isLoading: false });
+          return { success: false, error };
+        }
+      },
+
       // Trip listing and search
       getTrips: async (filters?: TripFilterFormData, page = 1) => {
         const limit = 20;
@@ -265,14 +479,24 @@ export const useTripStore = create<TripStore>()(
             return;
           }
           
-          set({ userTrips: trips, isLoading: false, error: null });
+          // Start departed trips and complete finished ones before showing them
+          const { trips: advanced, results } = await tripLifecycleService.advanceTrips(trips);
+          results
+            .filter(result => result.errors.length > 0)
+            .forEach(result => console.error(`Lifecycle update for trip ${result.tripId} failed:`, result.errors));
+          
+          set({
+            userTrips: status ? advanced.filter(trip => trip.status === status) : advanced,
+            isLoading: false,
+            error: null,
+          });
         } catch (err) {
           const error = err instanceof Error ? err.message : 'Failed to get user trips';
           set({ error, isLoading: false });
         }
       },
 
-      searchTripsByLocation: async (origin?: string, destination?: string) => {
+      searchTripsByLocation: async (origin?: SearchArea, destination?: SearchArea) => {
         set({ isLoading: true, error: null });
         
         try {
@@ -320,8 +544,8 @@ export const useTripStore = create<TripStore>()(
         const subscription = tripService.subscribeToTrip(tripId, (trip) => {
           set((state) => ({
             currentTrip: trip,
-            trips: state.trips.map(t => t.id === tripId ? trip : t).filter(Boolean) as Trip[],
-            userTrips: state.userTrips.map(t => t.id === tripId ? trip : t).filter(Boolean) as Trip[],
+            trips: state.trips.map(t => t.id === tripId ? trip : t).filter((t): t is Trip => !!t),
+            userTrips: state.userTrips.map(t => t.id === tripId ? trip : t).filter((t): t is Trip => !!t),
           }));
         });
         
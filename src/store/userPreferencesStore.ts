@@ -329,6 +329,10 @@ export const useMatchingPreferences = () => {
     genderPreference: state.preferences?.gender_preference,
     minAge: state.preferences?.min_age,
     maxAge: state.preferences?.max_age,
+    matchingProfile: state.preferences?.matching_profile,
+    customWeights: state.preferences?.custom_weights,
+    minMatchScore: state.preferences?.min_match_score,
+    hardFilters: state.preferences?.hard_filters,
   }));
 };
 
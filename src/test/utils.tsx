@@ -2,6 +2,7 @@ import React, { ReactElement } from 'react';
 import { render, RenderOptions } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { vi } from 'vitest';
+import type { LocationData, Trip } from '../types';
 
 // Mock Zustand stores for testing
 export const mockAuthStore = {
@@ -101,6 +102,35 @@ export const mockMatch = {
   matched_trip: { ...mockTrip, id: '987e6543-e89b-12d3-a456-426614174003' },
 };
 
+export const createMockLocation = (lat: number, lng: number): LocationData => ({
+  address: `${lat},${lng}`,
+  coordinates: { lat, lng },
+  placeId: '',
+});
+
+// An active trip heading north, departing at 08:00 on 1 January 2030
+export const createMockTrip = (id = 'trip', overrides: Partial<Trip> = {}): Trip => ({
+  id,
+  user_id: `user-${id}`,
+  origin: 'Start',
+  destination: 'End',
+  origin_location: createMockLocation(40.7, -74.0),
+  destination_location: createMockLocation(40.8, -74.0),
+  departure_time: '2030-01-01T08:00:00.000Z',
+  max_passengers: 3,
+  current_passengers: 0,
+  available_seats: 3,
+  status: 'ACTIVE',
+  currency: 'USD',
+  smoking_allowed: false,
+  pets_allowed: false,
+  music_preference: 'indifferent',
+  conversation_level: 'indifferent',
+  created_at: '2030-01-01T00:00:00.000Z',
+  updated_at: '2030-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
 // Test helper functions
 export const createMockEvent = (overrides = {}) => ({
   preventDefault: vi.fn(),
@@ -1,4 +1,8 @@
 // Global TypeScript types and interfaces
+export type AccessibilityNeed = 'wheelchair' | 'step_free' | 'assistance_animal' | 'extra_luggage_space';
+
+export type VerificationLevel = 'basic' | 'phone' | 'identity' | 'premium';
+
 export interface User {
   id: string;
   email: string;
@@ -7,20 +11,27 @@ export interface User {
   avatar?: string;
   bio?: string;
   date_of_birth?: string;
+  age_years?: number; // derived on the server; other users' dates of birth are not loaded
   gender?: 'male' | 'female' | 'other' | 'prefer_not_to_say';
   is_verified: boolean;
-  verification_level: 'basic' | 'phone' | 'identity' | 'premium';
+  verification_level: VerificationLevel;
   language: string;
   timezone: string;
   trips_completed: number;
   rating_average: number;
   rating_count: number;
   is_active: boolean;
+  is_admin?: boolean;
+  accessibility_needs?: AccessibilityNeed[];
   last_login_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type TripLeg = 'OUTBOUND' | 'RETURN';
+
+export type TripStatus = 'ACTIVE' | 'CANCELLED' | 'MATCHED' | 'IN_PROGRESS' | 'COMPLETED';
+
 export interface Trip {
   id: string;
   user_id: string;
@@ -30,10 +41,27 @@ export interface Trip {
   destination_location: LocationData;
   departure_time: string;
   arrival_time?: string;
+  earliest_departure?: string; // departure window, when the user can leave earlier or later
+  latest_departure?: string;
+  latest_arrival?: string; // "arrive by", narrows the departure window by the ride's duration
+  series_id?: string;
+  occurrence_date?: string; // yyyy-MM-dd in the series' time zone
+  is_series_exception?: boolean;
+  paired_trip_id?: string; // the other leg of a round trip
+  trip_leg?: TripLeg;
   max_passengers: number;
   current_passengers: number;
   available_seats: number;
-  status: 'ACTIVE' | 'CANCELLED' | 'MATCHED' | 'IN_PROGRESS' | 'COMPLETED';
+  max_small_bags?: number | null; // luggage space in the vehicle, unlimited when unset
+  max_large_bags?: number | null;
+  current_small_bags?: number; // bags on board, the trip owner's and those of accepted requests
+  current_large_bags?: number;
+  waitlist_auto_accept?: boolean; // promote waitlisted riders straight to accepted
+  instant_book?: boolean; // qualifying riders are accepted on request
+  instant_book_min_rating?: number | null; // minimums a rider must meet, none when unset
+  instant_book_min_verification?: VerificationLevel | null;
+  instant_book_min_trips?: number | null;
+  status: TripStatus;
   notes?: string;
   price_per_seat?: number;
   currency: string;
@@ -48,6 +76,61 @@ export interface Trip {
   vehicle_model?: string;
   vehicle_color?: string;
   vehicle_plate?: string;
+  accessibility_needs?: AccessibilityNeed[]; // what the riders on this trip need
+  vehicle_accessibility?: AccessibilityNeed[]; // the needs the vehicle can accommodate
+  created_at: string;
+  updated_at: string;
+  user?: User;
+}
+
+// Trip fields every occurrence of a series is created with
+export type TripSeriesTemplate = Pick<
+  Trip,
+  'origin' | 'destination' | 'origin_location' | 'destination_location' | 'max_passengers'
+> &
+  Partial<
+    Pick<
+      Trip,
+      | 'price_per_seat'
+      | 'currency'
+      | 'payment_method'
+      | 'notes'
+      | 'smoking_allowed'
+      | 'pets_allowed'
+      | 'music_preference'
+      | 'conversation_level'
+      | 'vehicle_make'
+      | 'vehicle_model'
+      | 'vehicle_color'
+      | 'vehicle_plate'
+      | 'accessibility_needs'
+      | 'vehicle_accessibility'
+      | 'max_small_bags'
+      | 'max_large_bags'
+      | 'current_small_bags'
+      | 'current_large_bags'
+      | 'waitlist_auto_accept'
+      | 'instant_book'
+      | 'instant_book_min_rating'
+      | 'instant_book_min_verification'
+      | 'instant_book_min_trips'
+    >
+  >;
+
+export interface RecurrenceRule {
+  days_of_week: number[]; // 0 = Sunday
+  departure_time: string; // HH:mm local time
+  timezone: string; // IANA time zone, e.g. 'Europe/Berlin'
+  start_date: string; // yyyy-MM-dd
+  end_date?: string; // yyyy-MM-dd, inclusive
+  excluded_dates: string[]; // yyyy-MM-dd holidays and skipped occurrences
+}
+
+export interface TripSeries extends RecurrenceRule {
+  id: string;
+  user_id: string;
+  template: TripSeriesTemplate;
+  status: 'ACTIVE' | 'CANCELLED';
   created_at: string;
   updated_at: string;
   user?: User;
@@ -69,13 +152,19 @@ export interface TripRequest {
   trip_id: string;
   sender_id: string;
   receiver_id: string;
-  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED';
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED' | 'WAITLISTED' | 'EXPIRED';
   message?: string;
   seats_requested: number;
+  small_bags?: number;
+  large_bags?: number;
   pickup_location?: LocationData;
   dropoff_location?: LocationData;
   departure_flexibility: number;
+  earliest_departure?: string;
+  latest_departure?: string;
+  latest_arrival?: string;
   responded_at?: string;
+  promoted_at?: string; // moved up from the waitlist
   expires_at: string;
   created_at: string;
   updated_at: string;
@@ -84,11 +173,38 @@ export interface TripRequest {
   receiver?: User;
 }
 
+export type BoardingStatus = 'CONFIRMED' | 'BOARDED' | 'NO_SHOW' | 'DROPPED_OFF';
+
+// A confirmed passenger on a trip, added when their request is accepted
+export interface ManifestEntry {
+  id: string;
+  trip_id: string;
+  request_id: string;
+  passenger_id: string;
+  seats: number;
+  small_bags: number;
+  large_bags: number;
+  pickup_location?: LocationData;
+  dropoff_location?: LocationData;
+  status: BoardingStatus;
+  boarded_at?: string;
+  dropped_off_at?: string;
+  created_at: string;
+  updated_at: string;
+  passenger?: User;
+}
+
+export type MatchStatus = 'SUGGESTED' | 'VIEWED' | 'CONTACTED' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+// Why a match was marked EXPIRED
+export type MatchExpiryReason = 'expired' | 'trip_cancelled' | 'trip_unavailable' | 'no_longer_compatible';
+
 export interface TripMatch {
   id: string;
   trip_id: string;
   matched_trip_id: string;
   compatibility_score: number;
+  round_trip_score?: number | null; // 0-1 across both legs, when the return legs match too
   match_type: 'exact_route' | 'partial_overlap' | 'detour_pickup' | 'detour_dropoff';
   route_analysis: RouteAnalysis;
   estimated_savings?: number;
@@ -100,7 +216,12 @@ export interface TripMatch {
   alternative_meeting_points?: MeetingPoint[];
   time_difference: number;
   time_compatibility_score: number;
-  status: 'SUGGESTED' | 'VIEWED' | 'CONTACTED' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+  proposed_departure_time?: string | null; // agreed departure suggested from the overlapping windows
+  departure_window_start?: string | null; // overlap of both departure windows, if any
+  departure_window_end?: string | null;
+  score_explanation?: MatchExplanation;
+  status: MatchStatus;
+  expiry_reason?: MatchExpiryReason;
   viewed_at?: string;
   contacted_at?: string;
   expires_at: string;
@@ -111,10 +232,61 @@ export interface TripMatch {
 }
 
 export interface RouteAnalysis {
-  commonPath: Record<string, unknown>;
+  commonPath: {
+    polylines?: string[]; // one encoded polyline per shared stretch
+  };
   deviationFromOriginal: number;
-  pickupPoints: Record<string, unknown>[];
-  dropoffPoints: Record<string, unknown>[];
+  pickupPoints: { lat: number; lng: number }[];
+  dropoffPoints: { lat: number; lng: number }[];
+  overlapPercentage?: number;
+  sharedIntervals?: SharedRouteInterval[];
+  sourcePolyline?: string; // encoded route of the trip being matched
+  matchedPolyline?: string; // encoded route of the matched trip
+}
+
+export interface SharedRouteInterval {
+  entry: { lat: number; lng: number };
+  exit: { lat: number; lng: number };
+  startDistance: number; // km along the source route
+  endDistance: number; // km along the source route
+}
+
+export type ScoreFactorName = 'route' | 'time' | 'preferences' | 'distance' | 'price';
+
+export interface ScoreFactor {
+  factor: ScoreFactorName;
+  score: number; // 0-1
+  weight: number; // 0-1, weights sum to 1
+  contribution: number; // score * weight
+}
+
+export type MatchingWeights = Record<ScoreFactorName, number>;
+
+export type MatchingProfile = 'balanced' | 'cheapest' | 'least_detour' | 'on_time' | 'custom';
+
+export type HardFilter = 'smoking' | 'pets' | 'music' | 'conversation';
+
+export type PreferenceRule = HardFilter | 'gender' | 'age' | 'accessibility';
+
+export interface PreferenceRuleResult {
+  rule: PreferenceRule;
+  passed: boolean;
+  reason: string; // worded for the user searching for matches
+  conflictingParty?: 'source' | 'candidate' | 'both'; // whose preference is not met, when failed
+}
+
+export interface ScorePenalty {
+  constraint: 'detour_time';
+  multiplier: number; // 0-1 applied to the weighted score
+  reason: string;
+}
+
+export interface MatchExplanation {
+  factors: ScoreFactor[];
+  preferenceRules: PreferenceRuleResult[];
+  mutuallyCompatible: boolean; // every preference of both parties is met
+  penalties: ScorePenalty[];
+  baseScore: number; // weighted sum before penalties
 }
 
 export interface MeetingPoint {
@@ -125,6 +297,24 @@ export interface MeetingPoint {
   };
   walkingDistance: number;
   accessibility?: string;
+  name?: string;
+  official?: boolean; // an official pickup spot
+}
+
+// Curated pickup spot uploaded by a city's admins
+export interface PickupSpot {
+  id: string;
+  city: string;
+  name: string;
+  lat: number;
+  lng: number;
+  types: string[];
+  wheelchair_accessible?: boolean | null;
+  notes?: string | null;
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface ChatRoom {
@@ -200,6 +390,10 @@ export interface UserPreferences {
   gender_preference: 'same' | 'any';
   min_age?: number;
   max_age?: number;
+  matching_profile?: MatchingProfile;
+  custom_weights?: MatchingWeights; // used when matching_profile is 'custom'
+  min_match_score?: number; // 0-1, matches below this are not suggested
+  hard_filters?: HardFilter[]; // preference rules a match must pass
   email_notifications: boolean;
   push_notifications: boolean;
   sms_notifications: boolean;
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRecurrence,
+  getOccurrenceDates,
+  getOccurrences,
+  occursOn,
+  zonedDateTimeToUtc,
+} from '../recurrence';
+import type { RecurrenceRule } from '../../types';
+
+const commute: RecurrenceRule = {
+  days_of_week: [1, 2, 3, 4, 5],
+  departure_time: '08:15',
+  timezone: 'America/New_York',
+  start_date: '2030-03-04', // Monday
+  excluded_dates: [],
+};
+
+describe('recurrence', () => {
+  it('should schedule weekdays between the start and end dates', () => {
+    expect(getOccurrenceDates(commute, '2030-03-01', '2030-03-10')).toEqual([
+      '2030-03-04',
+      '2030-03-05',
+      '2030-03-06',
+      '2030-03-07',
+      '2030-03-08',
+    ]);
+
+    const ending = { ...commute, end_date: '2030-03-05' };
+    expect(getOccurrenceDates(ending, '2030-03-01', '2030-03-31')).toEqual(['2030-03-04', '2030-03-05']);
+  });
+
+  it('should skip excluded dates', () => {
+    const rule = { ...commute, excluded_dates: ['2030-03-06'] };
+
+    expect(getOccurrenceDates(rule, '2030-03-04', '2030-03-08')).not.toContain('2030-03-06');
+    expect(occursOn(rule, '2030-03-06')).toBe(false);
+    expect(occursOn(rule, '2030-03-07')).toBe(true);
+    expect(occursOn(rule, '2030-03-09')).toBe(false); // Saturday
+  });
+
+  it('should keep the local departure time across daylight saving changes', () => {
+    // New York moves from UTC-5 to UTC-4 on 2030-03-10
+    expect(zonedDateTimeToUtc('2030-03-08', '08:15', 'America/New_York').toISOString()).toBe(
+      '2030-03-08T13:15:00.000Z'
+    );
+    expect(zonedDateTimeToUtc('2030-03-11', '08:15', 'America/New_York').toISOString()).toBe(
+      '2030-03-11T12:15:00.000Z'
+    );
+
+    const [friday, monday] = getOccurrences(commute, '2030-03-08', '2030-03-11');
+    expect(friday).toEqual({ date: '2030-03-08', departure_time: '2030-03-08T13:15:00.000Z' });
+    expect(monday).toEqual({ date: '2030-03-11', departure_time: '2030-03-11T12:15:00.000Z' });
+  });
+
+  it('should describe schedules', () => {
+    expect(describeRecurrence(commute)).toBe('Mon–Fri at 08:15');
+    expect(describeRecurrence({ days_of_week: [0, 1, 2, 3, 4, 5, 6], departure_time: '07:00' })).toBe(
+      'Every day at 07:00'
+    );
+    expect(describeRecurrence({ days_of_week: [5, 1], departure_time: '18:30' })).toBe('Mon, Fri at 18:30');
+  });
+});
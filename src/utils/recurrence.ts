@@ -0,0 +1,119 @@
+import type { RecurrenceRule } from '../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Occurrence {
+  date: string; // yyyy-MM-dd in the rule's time zone
+  departure_time: string; // ISO timestamp
+}
+
+// Calendar dates are handled as UTC midnights so DST changes never skip or repeat a day
+const parseDate = (date: string) => Date.parse(`${date}T00:00:00Z`);
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Milliseconds the wall clock in a time zone is ahead of UTC at an instant
+ */
+const timeZoneOffset = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * The instant a local date and time (HH:mm) in a time zone refers to
+ */
+export const zonedDateTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = parseDate(date) + (hours * 60 + minutes) * 60 * 1000;
+
+  // The offset at the guessed instant can differ across a DST change; one correction settles it
+  const guess = wallClock - timeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - timeZoneOffset(guess, timeZone));
+};
+
+/**
+ * Calendar date (yyyy-MM-dd) of an instant in a time zone
+ */
+export const dateInTimeZone = (instant: Date, timeZone: string): string =>
+  toDateString(instant.getTime() + timeZoneOffset(instant.getTime(), timeZone));
+
+export const addDays = (date: string, days: number): string => toDateString(parseDate(date) + days * DAY_MS);
+
+/**
+ * Dates between `from` and `to` (inclusive, yyyy-MM-dd) on which the rule
+ * schedules a trip
+ */
+export const getOccurrenceDates = (rule: RecurrenceRule, from: string, to: string): string[] => {
+  const first = Math.max(parseDate(from), parseDate(rule.start_date));
+  const last = rule.end_date ? Math.min(parseDate(to), parseDate(rule.end_date)) : parseDate(to);
+  const dates: string[] = [];
+
+  for (let day = first; day <= last; day += DAY_MS) {
+    const date = toDateString(day);
+
+    if (rule.days_of_week.includes(new Date(day).getUTCDay()) && !rule.excluded_dates.includes(date)) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * Occurrences between `from` and `to` with their departure instants
+ */
+export const getOccurrences = (rule: RecurrenceRule, from: string, to: string): Occurrence[] =>
+  getOccurrenceDates(rule, from, to).map(date => ({
+    date,
+    departure_time: zonedDateTimeToUtc(date, rule.departure_time, rule.timezone).toISOString(),
+  }));
+
+/**
+ * Whether the rule schedules a trip on a date
+ */
+export const occursOn = (rule: RecurrenceRule, date: string): boolean =>
+  getOccurrenceDates(rule, date, date).length > 0;
+
+/**
+ * Short description of a schedule, e.g. "Mon–Fri at 08:15"
+ */
+export const describeRecurrence = (rule: Pick<RecurrenceRule, 'days_of_week' | 'departure_time'>): string => {
+  const days = Array.from(new Set(rule.days_of_week)).sort((a, b) => a - b);
+  const isRun = days.length > 2 && days.every((day, index) => index === 0 || day === days[index - 1] + 1);
+
+  let label: string;
+  if (days.length === 7) {
+    label = 'Every day';
+  } else if (isRun) {
+    label = `${WEEKDAY_LABELS[days[0]]}–${WEEKDAY_LABELS[days[days.length - 1]]}`;
+  } else {
+    label = days.map(day => WEEKDAY_LABELS[day]).join(', ');
+  }
+
+  return `${label} at ${rule.departure_time}`;
+};
@@ -19,6 +19,8 @@ const nameSchema = z
   .max(50, 'Name must be less than 50 characters')
   .regex(/^[a-zA-Z\s]*$/, 'Name can only contain letters and spaces');
 
+const accessibilityNeedSchema = z.enum(['wheelchair', 'step_free', 'assistance_animal', 'extra_luggage_space']);
+
 // Authentication schemas
 export const loginSchema = z.object({
   email: emailSchema,
@@ -76,6 +78,7 @@ export const profileSchema = z.object({
   gender: z
     .enum(['male', 'female', 'other', 'prefer_not_to_say'])
     .optional(),
+  accessibility_needs: z.array(accessibilityNeedSchema).optional(),
 });
 
 export const changePasswordSchema = z.object({
@@ -182,6 +185,11 @@ export const tripSchema = z.object({
     .number()
     .min(1, 'Must have at least 1 passenger')
     .max(8, 'Cannot exceed 8 passengers'),
+  // Luggage: the bags you bring, and the space in the vehicle when known
+  current_small_bags: z.number().int().min(0).max(10, 'Cannot exceed 10 bags').optional(),
+  current_large_bags: z.number().int().min(0).max(10, 'Cannot exceed 10 bags').optional(),
+  max_small_bags: z.number().int().min(0).max(20).optional(),
+  max_large_bags: z.number().int().min(0).max(20).optional(),
   price_per_seat: z.number().optional(),
   currency: z.string().optional().default('USD'),
   payment_method: z.string().optional(),
@@ -191,12 +199,48 @@ export const tripSchema = z.object({
     .optional(),
   smoking_allowed: z.boolean().default(false),
   pets_allowed: z.boolean().default(true),
+  waitlist_auto_accept: z.boolean().default(false),
+  // Instant book: riders meeting every set minimum are accepted on request
+  instant_book: z.boolean().default(false),
+  instant_book_min_rating: z.number().min(1, 'Ratings go from 1 to 5').max(5, 'Ratings go from 1 to 5').optional(),
+  instant_book_min_verification: z.enum(['basic', 'phone', 'identity', 'premium']).optional(),
+  instant_book_min_trips: z.number().int().min(0, 'Cannot be negative').optional(),
   music_preference: z.enum(['yes', 'no', 'indifferent']).default('indifferent'),
   conversation_level: z.enum(['chatty', 'quiet', 'indifferent']).default('indifferent'),
   vehicle_make: z.string().optional(),
   vehicle_model: z.string().optional(),
   vehicle_color: z.string().optional(),
   vehicle_plate: z.string().optional(),
+  accessibility_needs: z.array(accessibilityNeedSchema).optional(),
+  vehicle_accessibility: z.array(accessibilityNeedSchema).optional(),
+  // Recurring trips: the departure time sets the first date and the daily time
+  is_recurring: z.boolean().optional(),
+  days_of_week: z.array(z.number().int().min(0).max(6)).optional(),
+  end_date: z.string().optional(),
+  excluded_dates: z.array(z.string()).optional(),
+  // Round trips: the return leg swaps origin and destination
+  has_return_trip: z.boolean().optional(),
+  return_departure_time: z.string().optional(),
+  // Departure window: leave between earliest and latest, arrive by latest_arrival
+  earliest_departure: z.string().optional(),
+  latest_departure: z.string().optional(),
+  latest_arrival: z.string().optional(),
+}).refine((data) => !data.earliest_departure || new Date(data.earliest_departure) <= new Date(data.departure_time), {
+  message: 'Earliest departure cannot be after the departure time',
+  path: ["earliest_departure"],
+}).refine((data) => !data.latest_departure || new Date(data.latest_departure) >= new Date(data.departure_time), {
+  message: 'Latest departure cannot be before the departure time',
+  path: ["latest_departure"],
+}).refine((data) => !data.latest_arrival || new Date(data.latest_arrival) > new Date(data.departure_time), {
+  message: 'Arrival must be after the departure time',
+  path: ["latest_arrival"],
+}).refine((data) => data.max_large_bags == null || (data.current_large_bags ?? 0) <= data.max_large_bags, {
+  message: 'Your large bags do not fit in the luggage space',
+  path: ["current_large_bags"],
+}).refine((data) => data.max_small_bags == null || data.max_large_bags == null ||
+  (data.current_small_bags ?? 0) <= data.max_small_bags + data.max_large_bags - (data.current_large_bags ?? 0), {
+  message: 'Your small bags do not fit in the luggage space',
+  path: ["current_small_bags"],
 });
 
 export const tripUpdateSchema = tripSchema.partial().extend({
@@ -206,6 +250,13 @@ export const tripUpdateSchema = tripSchema.partial().extend({
 export const tripFilterSchema = z.object({
   origin: z.string().optional(),
   destination: z.string().optional(),
+  // Radius search around the selected places, in km
+  origin_lat: z.number().min(-90).max(90).optional(),
+  origin_lng: z.number().min(-180).max(180).optional(),
+  origin_radius: z.number().min(1).max(100).optional(),
+  destination_lat: z.number().min(-90).max(90).optional(),
+  destination_lng: z.number().min(-180).max(180).optional(),
+  destination_radius: z.number().min(1).max(100).optional(),
   departure_date: z.string().optional(),
   min_departure_time: z.string().optional(),
   max_departure_time: z.string().optional(),